@@ -18,6 +18,7 @@ const Logs = lazy(() => import("./pages/Logs"));
 const Settings = lazy(() => import("./pages/Settings"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 const ContactsPage = lazy(() => import('./pages/ContactsPage'));
+const Broadcasts = lazy(() => import('./pages/Broadcasts'));
 const Calendar = lazy(() => import('./pages/Calendar'));
 const CalendarCallback = lazy(() => import('./pages/CalendarCallback'));
 const SentimentDashboard = lazy(() => import('./pages/SentimentDashboard'));
@@ -82,6 +83,11 @@ const App = () => (
                       <ContactsPage />
                     </ProtectedRoute>
                   } />
+                  <Route path="/broadcasts" element={
+                    <ProtectedRoute>
+                      <Broadcasts />
+                    </ProtectedRoute>
+                  } />
                   <Route path="/calendar" element={
                     <ProtectedRoute>
                       <Calendar />
@@ -0,0 +1,67 @@
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Notification, useNotifications } from "@/hooks/useNotifications";
+import { cn } from "@/lib/utils";
+
+export function NotificationBell() {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications();
+
+  const handleOpen = (notification: Notification) => {
+    markAsRead(notification.id);
+    if (notification.actionUrl) {
+      navigate(notification.actionUrl);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 h-4 min-w-4 rounded-full bg-red-500 px-1 text-[10px] leading-4 text-center font-medium text-white">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <span className="text-sm font-medium">Notifications</span>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={markAllAsRead}>
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-6 text-center text-sm text-muted-foreground">No notifications yet</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto divide-y">
+            {notifications.map(notification => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => handleOpen(notification)}
+                className={cn(
+                  "block w-full px-4 py-3 text-left hover:bg-accent",
+                  !notification.read && "bg-sailendra-50 dark:bg-gray-700"
+                )}
+              >
+                <div className="text-sm font-medium">{notification.title}</div>
+                <div className="text-xs text-muted-foreground line-clamp-2">{notification.message}</div>
+                <div className="mt-1 text-[10px] text-muted-foreground">
+                  {formatDistanceToNow(notification.timestamp, { addSuffix: true })}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
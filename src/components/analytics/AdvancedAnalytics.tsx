@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -14,6 +14,7 @@ import {
 } from 'lucide-react';
 import { DateRange } from 'react-day-picker';
 import { DatePickerWithRange } from '@/components/ui/date-picker-range';
+import { fetchResolutionStats } from '@/services/conversationStatusService';
 
 interface AnalyticsData {
   overview: {
@@ -21,6 +22,7 @@ interface AnalyticsData {
     totalConversations: number;
     averageResponseTime: number;
     customerSatisfaction: number;
+    resolutionRate: number | null; // null when the stats could not be loaded
     messagesTrend: number;
     conversationsTrend: number;
   };
@@ -68,13 +70,22 @@ const AdvancedAnalytics: React.FC = () => {
   const [selectedMetric, setSelectedMetric] = useState('messages');
   const [platform, setPlatform] = useState('all');
 
-  useEffect(() => {
-    loadAnalyticsData();
-  }, [dateRange, platform]);
-
-  const loadAnalyticsData = async () => {
+  const loadAnalyticsData = useCallback(async () => {
     setLoading(true);
     try {
+      // Resolution rate comes from recorded status transitions. The rest of
+      // the dashboard still renders when it cannot be loaded.
+      let resolutionRate: number | null = null;
+      try {
+        const resolution = await fetchResolutionStats(
+          dateRange?.from ?? new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+          dateRange?.to ?? new Date()
+        );
+        resolutionRate = resolution.resolutionRate;
+      } catch (error) {
+        console.error('Failed to load resolution stats:', error);
+      }
+
       // Mock data - replace with actual API call
       const mockData: AnalyticsData = {
         overview: {
@@ -82,6 +93,7 @@ const AdvancedAnalytics: React.FC = () => {
           totalConversations: 3241,
           averageResponseTime: 3.2,
           customerSatisfaction: 4.6,
+          resolutionRate,
           messagesTrend: 12.5,
           conversationsTrend: 8.3,
         },
@@ -129,7 +141,11 @@ const AdvancedAnalytics: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [dateRange]);
+
+  useEffect(() => {
+    loadAnalyticsData();
+  }, [loadAnalyticsData, platform]);
 
   const exportReport = async (format: 'pdf' | 'excel') => {
     // Implement export functionality
@@ -393,7 +409,9 @@ const AdvancedAnalytics: React.FC = () => {
                   </div>
                   <div className="flex items-center justify-between">
                     <span>Resolution Rate</span>
-                    <Badge variant="outline">87%</Badge>
+                    <Badge variant="outline">
+                      {data.overview.resolutionRate === null ? 'n/a' : `${data.overview.resolutionRate}%`}
+                    </Badge>
                   </div>
                   <div className="flex items-center justify-between">
                     <span>Customer Satisfaction</span>
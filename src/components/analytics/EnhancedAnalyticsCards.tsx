@@ -197,6 +197,22 @@ export const EnhancedAnalyticsCards: React.FC = () => {
                   style={{ width: `${analytics.resolutionRate}%` }}
                 ></div>
               </div>
+              <div className="mt-2 space-y-1 text-xs text-gray-500">
+                <div className="flex items-center justify-between">
+                  <span>Resolved</span>
+                  <span>{analytics.resolution.resolvedSessions} of {analytics.resolution.activeSessions}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span>Reopened</span>
+                  <span>{analytics.resolution.reopenedSessions}</span>
+                </div>
+                {analytics.resolution.averageResolutionMinutes !== null && (
+                  <div className="flex items-center justify-between">
+                    <span>Avg. time to resolve</span>
+                    <span>{formatResponseTime(analytics.resolution.averageResolutionMinutes)}</span>
+                  </div>
+                )}
+              </div>
             </div>
           </CardContent>
         </Card>
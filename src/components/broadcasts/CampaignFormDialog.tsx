@@ -0,0 +1,345 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { ContactRecord } from '@/types/contact';
+import { useWhatsAppTemplates } from '@/hooks/useWhatsAppTemplates';
+import {
+  BroadcastAudienceMember,
+  BroadcastCampaignInput,
+  BroadcastSegment,
+  buildAudience
+} from '@/services/broadcastService';
+import { getTemplateVariables } from '@/services/cannedResponseService';
+import { countClosedWhatsAppWindows, getTemplateParameterCount } from '@/services/whatsappTemplateService';
+
+interface CampaignFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contacts: ContactRecord[];
+  onSubmit: (input: BroadcastCampaignInput, audience: BroadcastAudienceMember[]) => Promise<void>;
+}
+
+const ANY = '__any__';
+const FREE_FORM = '__free_form__';
+const PREVIEW_SIZE = 5;
+// The audience changes with every keystroke in the search filter
+const WINDOW_CHECK_DELAY = 500;
+
+const distinctValues = (values: (string | undefined)[]) =>
+  Array.from(new Set(values.filter((value): value is string => !!value))).sort((a, b) => a.localeCompare(b));
+
+// Name, template, audience and send rate of a new campaign, with a preview of
+// the messages the first contacts will get
+export function CampaignFormDialog({ open, onOpenChange, contacts, onSubmit }: CampaignFormDialogProps) {
+  const [name, setName] = useState('');
+  const [template, setTemplate] = useState('');
+  const [templateId, setTemplateId] = useState(FREE_FORM);
+  const [segment, setSegment] = useState<BroadcastSegment>({});
+  const [sendRate, setSendRate] = useState(20);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [closedWindows, setClosedWindows] = useState<number | null>(null);
+  const { templates } = useWhatsAppTemplates();
+
+  useEffect(() => {
+    if (!open) return;
+    setName('');
+    setTemplate('');
+    setTemplateId(FREE_FORM);
+    setSegment({});
+    setSendRate(20);
+    setError(null);
+  }, [open]);
+
+  const interests = useMemo(
+    () => distinctValues(contacts.map(contact => contact.fields?.['Interested in'])),
+    [contacts]
+  );
+  const opportunities = useMemo(
+    () => distinctValues(contacts.flatMap(contact => contact.fields?.Opportunities || [])),
+    [contacts]
+  );
+
+  const approved = useMemo(
+    () => templates.filter(item => item.status === 'approved'),
+    [templates]
+  );
+  const whatsappTemplate = approved.find(item => item.id === templateId) ?? null;
+  const message = whatsappTemplate ? whatsappTemplate.body : template;
+
+  const audience = useMemo(
+    () => buildAudience(contacts, segment, template, whatsappTemplate),
+    [contacts, segment, template, whatsappTemplate]
+  );
+  const incomplete = audience.filter(member => member.missing.length > 0);
+  // WhatsApp rejects a template with an empty parameter, so those contacts are left out
+  const recipients = whatsappTemplate
+    ? audience.filter(member => member.missing.length === 0)
+    : audience;
+  const variables = whatsappTemplate
+    ? Array.from(
+        { length: getTemplateParameterCount(whatsappTemplate.body) },
+        (_, index) => whatsappTemplate.parameter_labels[index] || `{{${index + 1}}}`
+      )
+    : getTemplateVariables(template);
+  const minutes = Math.ceil(recipients.length / sendRate);
+
+  // Only depends on the filters, not on the message being typed
+  const sessionIds = useMemo(
+    () => buildAudience(contacts, segment, '').map(member => member.session_id),
+    [contacts, segment]
+  );
+  const isFreeForm = !whatsappTemplate;
+
+  useEffect(() => {
+    setClosedWindows(null);
+    if (!open || !isFreeForm || sessionIds.length === 0) return;
+
+    let disposed = false;
+    const timeout = setTimeout(() => {
+      countClosedWhatsAppWindows(sessionIds)
+        .then(count => {
+          if (!disposed) setClosedWindows(count);
+        })
+        .catch(err => {
+          console.error('Error checking WhatsApp windows:', err);
+        });
+    }, WINDOW_CHECK_DELAY);
+
+    return () => {
+      disposed = true;
+      clearTimeout(timeout);
+    };
+  }, [open, isFreeForm, sessionIds]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !message.trim()) {
+      setError('Name and message are required');
+      return;
+    }
+    if (audience.length === 0) {
+      setError('No contact matches this audience');
+      return;
+    }
+    if (recipients.length === 0) {
+      setError('No contact has a value for every template parameter');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSubmit({ name, template, whatsappTemplate, segment, sendRate }, recipients);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create campaign');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>New campaign</DialogTitle>
+            <DialogDescription>
+              Saved as a draft. Nothing is sent until you start it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-6 py-4 md:grid-cols-2">
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="campaignName">Name</Label>
+                <Input
+                  id="campaignName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Promo akhir tahun"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label>Send as</Label>
+                <Select value={templateId} onValueChange={setTemplateId}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={FREE_FORM}>Free-form message</SelectItem>
+                    {approved.map(item => (
+                      <SelectItem key={item.id} value={item.id}>
+                        Template {item.name} ({item.language})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Free-form messages only reach customers who wrote in the last 24 hours. Approved templates can be sent at any time.
+                </p>
+              </div>
+              {whatsappTemplate ? (
+                <div>
+                  <Label>Message</Label>
+                  <div className="mt-1 rounded-md bg-muted px-3 py-2 text-sm whitespace-pre-wrap break-words">
+                    {whatsappTemplate.body}
+                  </div>
+                  {variables.length > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Parameters are filled from the contact fields {variables.join(', ')}.
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <div>
+                  <Label htmlFor="campaignTemplate">Message</Label>
+                  <Textarea
+                    id="campaignTemplate"
+                    value={template}
+                    onChange={(e) => setTemplate(e.target.value)}
+                    placeholder="Halo {{Name}}, ada promo untuk {{Interested in}}..."
+                    rows={6}
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Use {'{{Field}}'} for contact fields, e.g. {'{{Name}}'} or {'{{Interested in}}'}.
+                  </p>
+                </div>
+              )}
+              <div>
+                <Label htmlFor="campaignRate">Messages per minute</Label>
+                <Input
+                  id="campaignRate"
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={sendRate}
+                  onChange={(e) => setSendRate(Math.min(60, Math.max(1, Number(e.target.value) || 1)))}
+                  className="mt-1 w-32"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="campaignVip">VIP contacts only</Label>
+                <Switch
+                  id="campaignVip"
+                  checked={!!segment.vipOnly}
+                  onCheckedChange={(vipOnly) => setSegment(prev => ({ ...prev, vipOnly }))}
+                />
+              </div>
+              <div>
+                <Label>Interested in</Label>
+                <Select
+                  value={segment.interestedIn ?? ANY}
+                  onValueChange={(value) => setSegment(prev => ({ ...prev, interestedIn: value === ANY ? null : value }))}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    {interests.map(interest => (
+                      <SelectItem key={interest} value={interest}>{interest}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {opportunities.length > 0 && (
+                <div>
+                  <Label>Opportunity</Label>
+                  <Select
+                    value={segment.opportunity ?? ANY}
+                    onValueChange={(value) => setSegment(prev => ({ ...prev, opportunity: value === ANY ? null : value }))}
+                  >
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any</SelectItem>
+                      {opportunities.map(opportunity => (
+                        <SelectItem key={opportunity} value={opportunity}>{opportunity}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div>
+                <Label htmlFor="campaignSearch">Name, email or phone contains</Label>
+                <Input
+                  id="campaignSearch"
+                  value={segment.search ?? ''}
+                  onChange={(e) => setSegment(prev => ({ ...prev, search: e.target.value }))}
+                  className="mt-1"
+                />
+              </div>
+
+              <div className="rounded-md border p-3 space-y-2">
+                <p className="text-sm font-medium">
+                  {recipients.length} recipient{recipients.length === 1 ? '' : 's'}
+                  {recipients.length > 0 && (
+                    <span className="font-normal text-muted-foreground"> · about {minutes} minute{minutes === 1 ? '' : 's'} to send</span>
+                  )}
+                </p>
+                {variables.length > 0 && incomplete.length > 0 && (
+                  <p className="flex items-start gap-1 text-xs text-amber-700 dark:text-amber-400">
+                    <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                    {incomplete.length} contact{incomplete.length === 1 ? ' has' : 's have'} no value for{' '}
+                    {Array.from(new Set(incomplete.flatMap(member => member.missing))).join(', ')}.
+                    {whatsappTemplate
+                      ? ' They are left out, template parameters cannot be empty.'
+                      : ' The placeholder is sent as written.'}
+                  </p>
+                )}
+                {isFreeForm && !!closedWindows && (
+                  <p className="flex items-start gap-1 text-xs text-amber-700 dark:text-amber-400">
+                    <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                    {closedWindows} recipient{closedWindows === 1 ? ' is' : 's are'} outside the 24-hour WhatsApp window
+                    and will fail with a free-form message. Send the campaign as an approved template to reach them.
+                  </p>
+                )}
+                {message.trim() && recipients.slice(0, PREVIEW_SIZE).map(member => (
+                  <div key={member.session_id} className="rounded bg-muted px-2 py-1 text-xs">
+                    <p className="font-medium">{member.contact_name}</p>
+                    <p className="whitespace-pre-wrap break-words text-muted-foreground">{member.content}</p>
+                  </div>
+                ))}
+                {recipients.length > PREVIEW_SIZE && message.trim() && (
+                  <p className="text-xs text-muted-foreground">and {recipients.length - PREVIEW_SIZE} more</p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-destructive mb-4">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save draft"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
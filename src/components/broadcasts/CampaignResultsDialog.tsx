@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Loader2, MessageSquare } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { DeliveryStatusIcon } from '@/components/chat/DeliveryStatusIcon';
+import { DeliveryStatus } from '@/types/chat';
+import { DELIVERY_STATUS_LABELS } from '@/services/receiptService';
+import {
+  BroadcastCampaignSummary,
+  BroadcastRecipient,
+  fetchBroadcastRecipients
+} from '@/services/broadcastService';
+
+interface CampaignResultsDialogProps {
+  campaign: BroadcastCampaignSummary | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RECIPIENT_STATUS_LABELS: Record<string, string> = {
+  pending: 'Waiting',
+  sent: 'Sent',
+  failed: 'Failed',
+  skipped: 'Skipped'
+};
+
+// Per recipient results of a campaign: whether the message went out, its
+// delivery receipt and the reply it got
+export function CampaignResultsDialog({ campaign, onOpenChange }: CampaignResultsDialogProps) {
+  const [recipients, setRecipients] = useState<BroadcastRecipient[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRecipients([]);
+    setError(null);
+    if (!campaign) return;
+
+    let disposed = false;
+    setLoading(true);
+    fetchBroadcastRecipients(campaign.id)
+      .then(fetched => {
+        if (!disposed) setRecipients(fetched);
+      })
+      .catch(() => {
+        if (!disposed) setError('Failed to load recipients');
+      })
+      .finally(() => {
+        if (!disposed) setLoading(false);
+      });
+
+    return () => {
+      disposed = true;
+    };
+  }, [campaign]);
+
+  return (
+    <Dialog open={!!campaign} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{campaign?.name}</DialogTitle>
+          <DialogDescription>
+            {campaign?.recipient_count} recipients · {campaign?.sent_count} sent · {campaign?.delivered_count} delivered
+            · {campaign?.read_count} read · {campaign?.replied_count} replied · {campaign?.failed_count} failed
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Reply</TableHead>
+                  <TableHead>Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recipients.map(recipient => {
+                  const deliveryStatus = recipient.delivery_status as DeliveryStatus | null;
+                  return (
+                    <TableRow key={recipient.id}>
+                      <TableCell>
+                        <div className="font-medium">{recipient.contact_name}</div>
+                        <div className="text-xs text-muted-foreground">{recipient.session_id}</div>
+                      </TableCell>
+                      <TableCell>
+                        {deliveryStatus ? (
+                          <span className="flex items-center gap-1 text-sm">
+                            <DeliveryStatusIcon status={deliveryStatus} error={recipient.delivery_error} />
+                            {DELIVERY_STATUS_LABELS[deliveryStatus]}
+                          </span>
+                        ) : (
+                          <Badge variant={recipient.status === 'failed' ? 'destructive' : 'outline'}>
+                            {RECIPIENT_STATUS_LABELS[recipient.status] ?? recipient.status}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {recipient.sent_at ? format(new Date(recipient.sent_at), 'dd MMM HH:mm') : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {recipient.replied_at ? (
+                          <Link
+                            to={`/chat?session=${encodeURIComponent(recipient.session_id)}`}
+                            className="flex items-center gap-1 text-sm text-primary hover:underline"
+                          >
+                            <MessageSquare className="h-3 w-3" />
+                            {format(new Date(recipient.replied_at), 'dd MMM HH:mm')}
+                          </Link>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="max-w-xs truncate text-sm" title={recipient.error || recipient.delivery_error || undefined}>
+                          {recipient.error || recipient.delivery_error || '-'}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import { Agent } from '@/types/agent';
+import { assignSession, getAgentName } from '@/services/assignmentService';
+
+const UNASSIGNED = 'unassigned';
+
+interface AssigneeSelectProps {
+  sessionId: string;
+  assignedTo: string | null;
+  agents: Agent[];
+  onAssigned?: (sessionId: string, assignedTo: string | null) => void;
+}
+
+export function AssigneeSelect({ sessionId, assignedTo, agents, onAssigned }: AssigneeSelectProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [updating, setUpdating] = useState(false);
+
+  const handleChange = async (value: string) => {
+    const userId = value === UNASSIGNED ? null : value;
+    if (userId === assignedTo) return;
+
+    setUpdating(true);
+    try {
+      const updated = await assignSession(sessionId, userId);
+      onAssigned?.(sessionId, updated);
+      const agent = agents.find(item => item.id === updated);
+      toast({
+        title: updated ? "Conversation assigned" : "Conversation unassigned",
+        description: agent
+          ? `Assigned to ${updated === user?.id ? 'you' : getAgentName(agent)}`
+          : "Nobody is assigned to this conversation"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update assignment",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  return (
+    <Select value={assignedTo ?? UNASSIGNED} onValueChange={handleChange} disabled={updating}>
+      <SelectTrigger className="h-8 w-[160px] text-xs" aria-label="Assignee">
+        <SelectValue placeholder="Assign to..." />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+        {agents.map(agent => (
+          <SelectItem key={agent.id} value={agent.id}>
+            <span className="flex items-center gap-2">
+              <span
+                className={cn("h-2 w-2 rounded-full", agent.is_online ? "bg-green-500" : "bg-gray-300 dark:bg-gray-600")}
+                aria-label={agent.is_online ? 'Online' : 'Offline'}
+              />
+              {getAgentName(agent)}
+              {agent.id === user?.id && <span className="text-muted-foreground">(you)</span>}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,54 @@
+import { useEffect } from 'react';
+import { Bot, UserCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { useBotStatus } from '@/hooks/useBotStatus';
+
+interface BotTakeoverToggleProps {
+  sessionId: string;
+  onStatusChange?: (sessionId: string, botPaused: boolean) => void;
+}
+
+export function BotTakeoverToggle({ sessionId, onStatusChange }: BotTakeoverToggleProps) {
+  const { status, loading, updating, togglePaused } = useBotStatus(sessionId);
+  const botPaused = status?.bot_paused ?? false;
+
+  useEffect(() => {
+    if (status) {
+      onStatusChange?.(status.session_id, status.bot_paused);
+    }
+  }, [status, onStatusChange]);
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="hidden sm:flex flex-col items-end">
+        <Label htmlFor={`bot-takeover-${sessionId}`} className="flex items-center gap-1 text-xs font-medium">
+          {botPaused ? (
+            <>
+              <UserCheck className="h-3 w-3 text-amber-600" />
+              Human handling
+            </>
+          ) : (
+            <>
+              <Bot className="h-3 w-3 text-green-600" />
+              Bot active
+            </>
+          )}
+        </Label>
+        {botPaused && status?.bot_paused_until && (
+          <span className="text-[10px] text-muted-foreground">
+            Auto-resumes at {format(new Date(status.bot_paused_until), 'HH:mm')}
+          </span>
+        )}
+      </div>
+      <Switch
+        id={`bot-takeover-${sessionId}`}
+        checked={botPaused}
+        onCheckedChange={togglePaused}
+        disabled={loading || updating}
+        aria-label={botPaused ? 'Resume bot' : 'Pause bot and take over'}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useCannedResponses } from '@/hooks/useCannedResponses';
+import { fillTemplate } from '@/services/cannedResponseService';
+import { ContactFields } from '@/types/contact';
+
+interface CannedResponsePickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (text: string) => void;
+  contactFields?: ContactFields | null;
+  children: ReactNode;
+}
+
+export function CannedResponsePicker({
+  open,
+  onOpenChange,
+  onSelect,
+  contactFields,
+  children
+}: CannedResponsePickerProps) {
+  const { responses, loading } = useCannedResponses();
+
+  return (
+    <Popover open={open} onOpenChange={onOpenChange}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent side="top" align="start" className="w-[min(28rem,calc(100vw-2rem))] p-0">
+        <Command>
+          <CommandInput placeholder="Search saved replies..." />
+          <CommandList>
+            <CommandEmpty>
+              {loading ? 'Loading...' : (
+                <span>
+                  No saved replies found.{' '}
+                  <Link to="/settings" className="underline">Manage replies</Link>
+                </span>
+              )}
+            </CommandEmpty>
+            <CommandGroup heading="Saved replies">
+              {responses.map(response => {
+                const { text, missing } = fillTemplate(response.content, contactFields);
+                return (
+                  <CommandItem
+                    key={response.id}
+                    value={response.id}
+                    keywords={[response.title, response.shortcut ?? '', response.content]}
+                    onSelect={() => onSelect(text)}
+                    className="flex flex-col items-start gap-1"
+                  >
+                    <div className="flex w-full items-center gap-2">
+                      <span className="font-medium">{response.title}</span>
+                      {response.shortcut && (
+                        <span className="text-xs text-muted-foreground">/{response.shortcut}</span>
+                      )}
+                    </div>
+                    <p className="line-clamp-2 text-xs text-muted-foreground">{text}</p>
+                    {missing.length > 0 && (
+                      <p className="text-xs text-amber-600 dark:text-amber-400">
+                        Not on contact: {missing.join(', ')}
+                      </p>
+                    )}
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
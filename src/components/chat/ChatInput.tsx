@@ -1,50 +1,504 @@
-
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { Send } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { format } from 'date-fns';
+import { Clock, FileText, LayoutTemplate, Loader2, Lock, LockOpen, MessageSquareText, Paperclip, PenLine, Send, Sparkles, StickyNote, X } from 'lucide-react';
+import { CannedResponsePicker } from './CannedResponsePicker';
+import { MentionSuggestions } from './MentionSuggestions';
+import { ReplySuggestionPanel } from './ReplySuggestionPanel';
+import { ScheduleMessageDialog } from './ScheduleMessageDialog';
+import { TemplateMessageDialog } from './TemplateMessageDialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import { Agent } from '@/types/agent';
+import { ContactFields } from '@/types/contact';
+import { ChatNoteTarget, MessageAttachment } from '@/types/chat';
+import {
+  ACCEPTED_ATTACHMENT_TYPES,
+  removeChatAttachment,
+  uploadChatAttachment
+} from '@/services/attachmentService';
+import { getAgentName } from '@/services/assignmentService';
+import { findMentionedAgents } from '@/services/noteService';
+import { WhatsAppTemplate } from '@/services/whatsappTemplateService';
 
 interface ChatInputProps {
-  onSendMessage: (message: string) => Promise<void>;
+  onSendMessage: (message: string, attachments: MessageAttachment[]) => Promise<void>;
+  onScheduleMessage?: (message: string, sendAt: Date) => Promise<void>;
+  onSendTemplate?: (template: WhatsAppTemplate, parameters: string[]) => Promise<void>;
+  // Outside the WhatsApp 24-hour window only templates can be sent
+  windowClosed?: boolean;
+  // Soft lock on replies, and other agents typing a reply right now
+  replyLock?: ReplyLockStatus | null;
+  onToggleReplyLock?: () => Promise<void>;
+  typingAgents?: string[];
+  onTyping?: () => void;
+  onStopTyping?: () => void;
   isDisabled: boolean;
+  sessionId?: string | null;
+  contactFields?: ContactFields | null;
+  onAddNote?: (content: string, mentions: string[], messageId: number | null) => Promise<void>;
+  agents?: Agent[];
+  noteTarget?: ChatNoteTarget | null;
+  onClearNoteTarget?: () => void;
+}
+
+interface ReplyLockStatus {
+  holderName: string;
+  until: string;
+  isMine: boolean;
 }
 
-const ChatInput = ({ onSendMessage, isDisabled }: ChatInputProps) => {
+// "@" followed by what has been typed of a name, right before the caret
+const MENTION_QUERY = /(?:^|\s)@([^\s@]*)$/;
+
+const ChatInput = ({
+  onSendMessage,
+  onScheduleMessage,
+  onSendTemplate,
+  windowClosed = false,
+  replyLock,
+  onToggleReplyLock,
+  typingAgents = [],
+  onTyping,
+  onStopTyping,
+  isDisabled,
+  sessionId,
+  contactFields,
+  onAddNote,
+  agents = [],
+  noteTarget,
+  onClearNoteTarget
+}: ChatInputProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
   const [message, setMessage] = useState('');
+  const [attachments, setAttachments] = useState<MessageAttachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
   const [isSending, setIsSending] = useState(false);
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [isNoteMode, setIsNoteMode] = useState(false);
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [isTemplateOpen, setIsTemplateOpen] = useState(false);
+  const [isSuggestionOpen, setIsSuggestionOpen] = useState(false);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Picking "Add note" on a message switches to writing a note
+  useEffect(() => {
+    if (noteTarget) {
+      setIsNoteMode(true);
+      requestAnimationFrame(() => inputRef.current?.focus());
+    }
+  }, [noteTarget]);
+
+  const isLockedByOther = !!replyLock && !replyLock.isMine;
+  const isReplyBlocked = !isNoteMode && (windowClosed || isLockedByOther);
+
+  const canSend = isNoteMode
+    ? !!message.trim()
+    : (message.trim() || attachments.length > 0) && !isUploading && !isReplyBlocked;
+
+  const mentionSuggestions = isNoteMode && mentionQuery !== null
+    ? agents
+        .filter(agent => agent.id !== user?.id)
+        .filter(agent => getAgentName(agent).toLowerCase().includes(mentionQuery.toLowerCase()))
+        .slice(0, 6)
+    : [];
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!message.trim() || isSending) return;
-    
+
+    if (!canSend || isSending) return;
+
     setIsSending(true);
     try {
-      await onSendMessage(message);
-      setMessage('');
+      if (isNoteMode) {
+        const mentions = findMentionedAgents(message, agents).map(agent => agent.id);
+        await onAddNote?.(message, mentions, noteTarget?.message_id ?? null);
+        setMessage('');
+        setMentionQuery(null);
+        onClearNoteTarget?.();
+      } else {
+        await onSendMessage(message, attachments);
+        setMessage('');
+        setAttachments([]);
+        onStopTyping?.();
+      }
+    } catch {
+      // Failures are reported by the caller, keep the text so it can be retried
     } finally {
       setIsSending(false);
     }
   };
 
+  const toggleNoteMode = () => {
+    if (isNoteMode) {
+      onClearNoteTarget?.();
+      setMentionQuery(null);
+    }
+    setIsNoteMode(!isNoteMode);
+    requestAnimationFrame(() => inputRef.current?.focus());
+  };
+
+  const handleSelectMention = (agent: Agent) => {
+    const caret = inputRef.current?.selectionStart ?? message.length;
+    const before = message.slice(0, caret).replace(/@[^\s@]*$/, `@${getAgentName(agent)} `);
+    const after = message.slice(caret);
+
+    setMessage(before + after);
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (mentionSuggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setMentionIndex(prev => (prev + step + mentionSuggestions.length) % mentionSuggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      handleSelectMention(mentionSuggestions[Math.min(mentionIndex, mentionSuggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setMentionQuery(null);
+    }
+  };
+
+  const handleFilesSelected = async (files: FileList | null) => {
+    if (!files || !sessionId) return;
+
+    setIsUploading(true);
+    try {
+      for (const file of Array.from(files)) {
+        try {
+          const uploaded = await uploadChatAttachment(sessionId, file);
+          setAttachments(prev => [...prev, uploaded]);
+        } catch (error) {
+          toast({
+            title: "Upload failed",
+            description: `${file.name}: ${error instanceof Error ? error.message : 'Could not upload file'}`,
+            variant: "destructive"
+          });
+        }
+      }
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleRemoveAttachment = (attachment: MessageAttachment) => {
+    setAttachments(prev => prev.filter(item => item !== attachment));
+    removeChatAttachment(attachment);
+  };
+
+  const handleChange = (value: string, caret: number | null) => {
+    if (isNoteMode) {
+      const match = MENTION_QUERY.exec(value.slice(0, caret ?? value.length));
+      setMentionQuery(match ? match[1] : null);
+      setMentionIndex(0);
+      setMessage(value);
+      return;
+    }
+    // "/" on an empty input opens the saved replies instead of typing a slash
+    if (message === '' && value === '/') {
+      setIsPickerOpen(true);
+      return;
+    }
+    setMessage(value);
+    if (value) {
+      onTyping?.();
+    } else {
+      onStopTyping?.();
+    }
+  };
+
+  const handleSelectResponse = (text: string) => {
+    setMessage(text);
+    setIsPickerOpen(false);
+    requestAnimationFrame(() => inputRef.current?.focus());
+  };
+
+  const handleUseDraft = (text: string) => {
+    setMessage(text);
+    requestAnimationFrame(() => inputRef.current?.focus());
+  };
+
+  // Scheduled messages are text only, attachments are sent right away
+  const handleSchedule = async (content: string, sendAt: Date) => {
+    await onScheduleMessage?.(content, sendAt);
+    setMessage('');
+  };
+
+  const handlePickerOpenChange = (open: boolean) => {
+    setIsPickerOpen(open);
+    if (!open) {
+      requestAnimationFrame(() => inputRef.current?.focus());
+    }
+  };
+
   return (
-    <form onSubmit={handleSubmit} className="p-4 bg-white dark:bg-gray-800 border-t dark:border-gray-700">
-      <div className="flex items-center space-x-2">
+    <form
+      onSubmit={handleSubmit}
+      className={cn(
+        "p-4 border-t dark:border-gray-700",
+        isNoteMode ? "bg-amber-50 dark:bg-amber-950/40" : "bg-white dark:bg-gray-800"
+      )}
+    >
+      {isNoteMode && (
+        <div className="flex items-center gap-2 mb-2 text-xs text-amber-800 dark:text-amber-300">
+          <StickyNote className="h-3 w-3 shrink-0" />
+          <span className="truncate">
+            {noteTarget
+              ? <>Internal note on "{noteTarget.preview}"</>
+              : 'Internal note, only visible to agents. Type @ to mention a teammate.'}
+          </span>
+          {noteTarget && (
+            <button
+              type="button"
+              onClick={onClearNoteTarget}
+              className="ml-auto shrink-0 hover:text-foreground"
+              aria-label="Note on the whole conversation instead"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      )}
+      {!isNoteMode && typingAgents.length > 0 && (
+        <div className="flex items-center gap-2 mb-2 text-xs text-amber-700 dark:text-amber-400">
+          <PenLine className="h-3 w-3 shrink-0 animate-pulse" />
+          <span className="truncate">
+            {typingAgents.join(', ')} {typingAgents.length === 1 ? 'is' : 'are'} typing a reply to this customer
+          </span>
+        </div>
+      )}
+      {!isNoteMode && replyLock && (
+        <div
+          className={cn(
+            "flex items-center gap-2 mb-2 text-xs",
+            replyLock.isMine ? "text-muted-foreground" : "text-destructive"
+          )}
+        >
+          <Lock className="h-3 w-3 shrink-0" />
+          <span className="truncate">
+            {replyLock.isMine
+              ? `You have exclusive reply rights until ${format(new Date(replyLock.until), 'HH:mm')}`
+              : `${replyLock.holderName} is handling this conversation until ${format(new Date(replyLock.until), 'HH:mm')}. Internal notes are still possible.`}
+          </span>
+        </div>
+      )}
+      {!isNoteMode && windowClosed && (
+        <div className="flex items-center gap-2 mb-2 text-xs text-destructive">
+          <LayoutTemplate className="h-3 w-3 shrink-0" />
+          <span>
+            The customer last wrote more than 24 hours ago. WhatsApp only accepts an approved template until they reply.
+          </span>
+        </div>
+      )}
+      {!isNoteMode && (attachments.length > 0 || isUploading) && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {attachments.map(attachment => (
+            <div
+              key={attachment.storage_path || attachment.url}
+              className="flex items-center gap-2 rounded-md border bg-muted px-2 py-1 text-sm"
+            >
+              {attachment.type === 'image' ? (
+                <img src={attachment.url} alt={attachment.file_name} className="h-8 w-8 rounded object-cover" />
+              ) : (
+                <FileText className="h-4 w-4" />
+              )}
+              <span className="max-w-[10rem] truncate">{attachment.file_name}</span>
+              <button
+                type="button"
+                onClick={() => handleRemoveAttachment(attachment)}
+                className="text-muted-foreground hover:text-foreground"
+                aria-label={`Remove ${attachment.file_name}`}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          {isUploading && (
+            <div className="flex items-center gap-2 px-2 py-1 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Uploading...
+            </div>
+          )}
+        </div>
+      )}
+      <div className="relative flex items-center space-x-2">
+        <MentionSuggestions
+          agents={mentionSuggestions}
+          activeIndex={mentionIndex}
+          onSelect={handleSelectMention}
+        />
+        {onAddNote && (
+          <Button
+            type="button"
+            variant={isNoteMode ? "secondary" : "ghost"}
+            size="icon"
+            disabled={isDisabled || isSending}
+            onClick={toggleNoteMode}
+            aria-pressed={isNoteMode}
+            aria-label="Internal note"
+            title={isNoteMode ? "Back to replying to the customer" : "Write an internal note"}
+          >
+            <StickyNote className="h-5 w-5" />
+          </Button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_ATTACHMENT_TYPES}
+          className="hidden"
+          onChange={(e) => handleFilesSelected(e.target.files)}
+        />
+        {!isNoteMode && (
+          <>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              disabled={isDisabled || isSending || isUploading || !sessionId || isReplyBlocked}
+              onClick={() => fileInputRef.current?.click()}
+              aria-label="Attach files"
+              title="Attach files"
+            >
+              <Paperclip className="h-5 w-5" />
+            </Button>
+            <CannedResponsePicker
+              open={isPickerOpen}
+              onOpenChange={handlePickerOpenChange}
+              onSelect={handleSelectResponse}
+              contactFields={contactFields}
+            >
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={isDisabled || isSending || isReplyBlocked}
+                aria-label="Saved replies"
+                title="Saved replies (type / to search)"
+              >
+                <MessageSquareText className="h-5 w-5" />
+              </Button>
+            </CannedResponsePicker>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              disabled={isDisabled || isSending || !sessionId || isReplyBlocked}
+              onClick={() => setIsSuggestionOpen(true)}
+              aria-label="Suggest reply"
+              title="Suggest a reply from the knowledge base"
+            >
+              <Sparkles className="h-5 w-5" />
+            </Button>
+            {onScheduleMessage && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={isDisabled || isSending || attachments.length > 0 || !sessionId || isReplyBlocked}
+                onClick={() => setIsScheduling(true)}
+                aria-label="Schedule message"
+                title={attachments.length > 0 ? "Attachments cannot be scheduled" : "Send later"}
+              >
+                <Clock className="h-5 w-5" />
+              </Button>
+            )}
+            {onSendTemplate && (
+              <Button
+                type="button"
+                variant={windowClosed ? "secondary" : "ghost"}
+                size="icon"
+                disabled={isDisabled || isSending || !sessionId || isLockedByOther}
+                onClick={() => setIsTemplateOpen(true)}
+                aria-label="WhatsApp template"
+                title="Send an approved WhatsApp template"
+              >
+                <LayoutTemplate className="h-5 w-5" />
+              </Button>
+            )}
+            {onToggleReplyLock && (
+              <Button
+                type="button"
+                variant={replyLock?.isMine ? "secondary" : "ghost"}
+                size="icon"
+                disabled={isDisabled || isSending || !sessionId || isLockedByOther}
+                onClick={onToggleReplyLock}
+                aria-pressed={!!replyLock?.isMine}
+                aria-label="Reply lock"
+                title={replyLock?.isMine ? "Release the reply lock" : "Lock replies to yourself for a few minutes"}
+              >
+                {replyLock?.isMine ? <Lock className="h-5 w-5" /> : <LockOpen className="h-5 w-5" />}
+              </Button>
+            )}
+          </>
+        )}
         <Input
-          className="flex-1"
-          placeholder="Type your message..."
+          ref={inputRef}
+          className={cn("flex-1", isNoteMode && "border-amber-300 dark:border-amber-700")}
+          placeholder={
+            isNoteMode
+              ? "Write an internal note, @ to mention..."
+              : isLockedByOther
+                ? `Locked by ${replyLock?.holderName}`
+                : windowClosed
+                  ? "24-hour window closed, send a template"
+                  : "Type your message or / for saved replies..."
+          }
           value={message}
-          onChange={(e) => setMessage(e.target.value)}
-          disabled={isDisabled || isSending}
+          onChange={(e) => handleChange(e.target.value, e.target.selectionStart)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => {
+            setMentionQuery(null);
+            onStopTyping?.();
+          }}
+          disabled={isDisabled || isSending || isReplyBlocked}
         />
-        <Button 
-          type="submit" 
-          disabled={!message.trim() || isDisabled || isSending}
+        <Button
+          type="submit"
+          disabled={!canSend || isDisabled || isSending}
           size="icon"
         >
           <Send className="h-5 w-5" />
         </Button>
       </div>
+      {onScheduleMessage && (
+        <ScheduleMessageDialog
+          open={isScheduling}
+          onOpenChange={setIsScheduling}
+          initialContent={message}
+          onSubmit={handleSchedule}
+        />
+      )}
+      {sessionId && (
+        <ReplySuggestionPanel
+          open={isSuggestionOpen}
+          onOpenChange={setIsSuggestionOpen}
+          sessionId={sessionId}
+          onUseDraft={handleUseDraft}
+        />
+      )}
+      {onSendTemplate && (
+        <TemplateMessageDialog
+          open={isTemplateOpen}
+          onOpenChange={setIsTemplateOpen}
+          contactFields={contactFields}
+          onSubmit={onSendTemplate}
+        />
+      )}
     </form>
   );
 };
@@ -4,9 +4,14 @@ import { cn } from '@/lib/utils';
 import { User, MessageSquare } from 'lucide-react';
 import { logger } from '@/utils/logger';
 import { Badge } from '@/components/ui/badge';
-import { MessagePlatform, ChatMessage as ChatMessageType } from '@/types/chat';
+import { DeliveryStatus, MessageAttachment, MessagePlatform, ChatMessage as ChatMessageType } from '@/types/chat';
 import { SentimentBadge } from '@/components/sentiment/SentimentBadge';
 import { useMessageSentiment } from '@/hooks/useSentiment';
+import { MessageAttachments } from './MessageAttachments';
+import { DeliveryStatusIcon } from './DeliveryStatusIcon';
+import { WebhookDeliveryNotice } from './WebhookDeliveryNotice';
+import { MessageReceipt } from '@/services/receiptService';
+import { WebhookDelivery } from '@/services/webhookOutboxService';
 import { useEffect } from 'react';
 
 interface ChatMessageProps {
@@ -19,6 +24,10 @@ interface ChatMessageProps {
   sessionId?: string;
   enableSentiment?: boolean;
   chatMessage?: ChatMessageType;
+  attachments?: MessageAttachment[];
+  receipt?: MessageReceipt;
+  delivery?: WebhookDelivery;
+  onRetryDelivery?: () => Promise<unknown>;
 }
 
 export function ChatMessage({ 
@@ -30,7 +39,11 @@ export function ChatMessage({
   messageId,
   sessionId,
   enableSentiment = true,
-  chatMessage
+  chatMessage,
+  attachments = [],
+  receipt,
+  delivery,
+  onRetryDelivery
 }: ChatMessageProps) {
   // Only log in development and at debug level
   logger.debug('ChatMessage render:', { 
@@ -57,6 +70,7 @@ export function ChatMessage({
   useEffect(() => {
     if (enableSentiment && 
         senderId !== 'AI' && 
+        message.trim() && 
         !isOutgoing && 
         messageId && 
         sessionId && 
@@ -64,7 +78,7 @@ export function ChatMessage({
         !sentimentLoading) {
       analyzeSentiment();
     }
-  }, [enableSentiment, senderId, isOutgoing, messageId, sessionId, hasSentiment, sentimentLoading, analyzeSentiment]);
+  }, [enableSentiment, senderId, message, isOutgoing, messageId, sessionId, hasSentiment, sentimentLoading, analyzeSentiment]);
 
   const getPlatformColor = (platform?: MessagePlatform) => {
     switch (platform) {
@@ -137,16 +151,25 @@ export function ChatMessage({
             />
           )}
         </div>
-        <div className={cn(
-          "rounded-lg px-3 py-2 break-words",
-          isOutgoing 
-            ? "bg-primary text-primary-foreground rounded-tr-none"
-            : senderId === 'AI'
-              ? "bg-muted rounded-tl-none"
-              : "bg-gray-100 dark:bg-gray-800 rounded-tl-none"
-        )}>
-          {message}
-        </div>
+        {attachments.length > 0 && attachments.every(attachment => attachment.type === 'sticker') ? (
+          <MessageAttachments attachments={attachments} isOutgoing={isOutgoing} />
+        ) : (
+          <div className={cn(
+            "rounded-lg px-3 py-2 break-words",
+            isOutgoing 
+              ? "bg-primary text-primary-foreground rounded-tr-none"
+              : senderId === 'AI'
+                ? "bg-muted rounded-tl-none"
+                : "bg-gray-100 dark:bg-gray-800 rounded-tl-none"
+          )}>
+            {attachments.length > 0 && (
+              <div className={cn(message && "mb-2")}>
+                <MessageAttachments attachments={attachments} isOutgoing={isOutgoing} />
+              </div>
+            )}
+            {message}
+          </div>
+        )}
         <div className="flex items-center gap-2 mt-1">
           <span className="text-xs text-muted-foreground">
             {new Date(timestamp).toLocaleTimeString([], { 
@@ -154,6 +177,9 @@ export function ChatMessage({
               minute: '2-digit'
             })}
           </span>
+          {receipt && (
+            <DeliveryStatusIcon status={receipt.status as DeliveryStatus} error={receipt.error} />
+          )}
           {shouldShowSentiment && displaySentiment && displaySentiment.keywords && displaySentiment.keywords.length > 0 && (
             <div className="flex items-center gap-1">
               {displaySentiment.keywords.slice(0, 2).map((keyword, index) => (
@@ -169,6 +195,9 @@ export function ChatMessage({
             </div>
           )}
         </div>
+        {delivery && (
+          <WebhookDeliveryNotice delivery={delivery} onRetry={onRetryDelivery} />
+        )}
       </div>
     </div>
   );
@@ -1,8 +1,23 @@
-import { useEffect, useRef, useCallback } from 'react';
-import { ChatMessage as ChatMessageType } from '@/types/chat';
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import { ChatMessage as ChatMessageType, ChatNoteTarget } from '@/types/chat';
+import { Agent } from '@/types/agent';
+import { ChatNote } from '@/services/noteService';
+import { MessageReceipt } from '@/services/receiptService';
+import { ScheduledMessage as ScheduledMessageType } from '@/services/scheduledMessageService';
+import { QueuedMessage as QueuedMessageType } from '@/services/sendQueueService';
+import { WebhookDelivery } from '@/services/webhookOutboxService';
 import { ChatMessage } from './ChatMessage';
 import { DateSeparator } from './DateSeparator';
-import { Loader2 } from 'lucide-react';
+import { InternalNote } from './InternalNote';
+import { ScheduledMessage } from './ScheduledMessage';
+import { QueuedMessage } from './QueuedMessage';
+import { Button } from '@/components/ui/button';
+import { ArrowDown, Loader2, StickyNote } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+type TimelineItem =
+  | { kind: 'message'; message: ChatMessageType; date: Date }
+  | { kind: 'note'; note: ChatNote; date: Date };
 
 interface ChatMessageListProps {
   messages: ChatMessageType[];
@@ -10,6 +25,26 @@ interface ChatMessageListProps {
   isLoadingMore?: boolean;
   hasMore?: boolean;
   onLoadMore?: () => void;
+  isLoadingNewer?: boolean;
+  hasNewer?: boolean;
+  onLoadNewer?: () => void;
+  onJumpToDate?: (date: Date) => void;
+  onJumpToLatest?: () => void;
+  scrollToMessageId?: string | null;
+  notes?: ChatNote[];
+  receipts?: Record<string, MessageReceipt>;
+  deliveries?: Record<string, WebhookDelivery>;
+  onRetryDelivery?: (delivery: WebhookDelivery) => Promise<unknown>;
+  scheduledMessages?: ScheduledMessageType[];
+  onEditScheduled?: (id: string, content: string, sendAt: Date) => Promise<void>;
+  onCancelScheduled?: (id: string) => void;
+  queuedMessages?: QueuedMessageType[];
+  onRetryQueued?: (clientMessageId: string) => void;
+  onDiscardQueued?: (clientMessageId: string) => void;
+  agents?: Agent[];
+  currentUserId?: string;
+  onAddNote?: (target: ChatNoteTarget) => void;
+  onDeleteNote?: (noteId: string) => void;
 }
 
 export function ChatMessageList({ 
@@ -17,25 +52,96 @@ export function ChatMessageList({
   loading = false,
   isLoadingMore = false,
   hasMore = false,
-  onLoadMore
+  onLoadMore,
+  isLoadingNewer = false,
+  hasNewer = false,
+  onLoadNewer,
+  onJumpToDate,
+  onJumpToLatest,
+  scrollToMessageId,
+  notes = [],
+  receipts = {},
+  deliveries = {},
+  onRetryDelivery,
+  scheduledMessages = [],
+  onEditScheduled,
+  onCancelScheduled,
+  queuedMessages = [],
+  onRetryQueued,
+  onDiscardQueued,
+  agents = [],
+  currentUserId,
+  onAddNote,
+  onDeleteNote
 }: ChatMessageListProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const observerRef = useRef<HTMLDivElement>(null);
-  const isFirstLoad = useRef(true);
+  const newerObserverRef = useRef<HTMLDivElement>(null);
+  const previousEdges = useRef<{
+    sessionId?: string;
+    first?: string;
+    last?: string;
+    lastNote?: string;
+    lastScheduled?: string;
+    lastQueued?: string;
+    scrollHeight: number;
+    scrollTarget?: string | null;
+  }>({ scrollHeight: 0 });
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  const scrollToBottom = (behavior: ScrollBehavior = "smooth") => {
+    messagesEndRef.current?.scrollIntoView({ behavior });
   };
 
-  useEffect(() => {
-    // Only scroll to bottom on first load or when new messages are added
-    if (isFirstLoad.current && messages.length > 0) {
-      scrollToBottom();
-      isFirstLoad.current = false;
+  // Keep the viewport stable when pages are added above or below
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const sessionId = messages[0]?.session_id;
+    const first = messages[0]?.id;
+    const last = messages[messages.length - 1]?.id;
+    const lastNote = notes[notes.length - 1]?.id;
+    const lastScheduled = scheduledMessages[scheduledMessages.length - 1]?.id;
+    const lastQueued = queuedMessages[queuedMessages.length - 1]?.client_message_id;
+    const previous = previousEdges.current;
+
+    if (scrollToMessageId && scrollToMessageId !== previous.scrollTarget) {
+      // Bring a specific message into view (jump to date, search results)
+      const target = container?.querySelector(`[data-message-id="${scrollToMessageId}"]`);
+      target?.scrollIntoView({ block: 'center' });
+    } else if (container && messages.length > 0) {
+      if (sessionId !== previous.sessionId || !previous.first) {
+        // First load of a session
+        scrollToBottom("auto");
+      } else if (first !== previous.first && last === previous.last) {
+        // Older page prepended, keep the same messages in view
+        container.scrollTop += container.scrollHeight - previous.scrollHeight;
+      } else if ((
+        last !== previous.last ||
+        lastNote !== previous.lastNote ||
+        lastScheduled !== previous.lastScheduled ||
+        lastQueued !== previous.lastQueued
+      ) && !hasNewer) {
+        // New message, note, scheduled or queued message at the end, follow it if the agent was near the bottom
+        const distanceFromBottom = previous.scrollHeight - container.scrollTop - container.clientHeight;
+        if (distanceFromBottom < 150) {
+          scrollToBottom();
+        }
+      }
     }
-  }, [messages]);
 
-  // Set up intersection observer for infinite scroll
+    previousEdges.current = {
+      sessionId: container ? sessionId : previous.sessionId,
+      first: container ? first : previous.first,
+      last: container ? last : previous.last,
+      lastNote: container ? lastNote : previous.lastNote,
+      lastScheduled: container ? lastScheduled : previous.lastScheduled,
+      lastQueued: container ? lastQueued : previous.lastQueued,
+      scrollHeight: container?.scrollHeight ?? 0,
+      scrollTarget: container ? scrollToMessageId : previous.scrollTarget
+    };
+  }, [messages, notes, scheduledMessages, queuedMessages, hasNewer, scrollToMessageId, loading]);
+
+  // Set up intersection observers for infinite scroll in both directions
   useEffect(() => {
     const observer = new IntersectionObserver(
       (entries) => {
@@ -53,6 +159,23 @@ export function ChatMessageList({
     return () => observer.disconnect();
   }, [hasMore, isLoadingMore, onLoadMore]);
 
+  useEffect(() => {
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && hasNewer && !isLoadingNewer) {
+          onLoadNewer?.();
+        }
+      },
+      { threshold: 0.5 }
+    );
+
+    if (newerObserverRef.current) {
+      observer.observe(newerObserverRef.current);
+    }
+
+    return () => observer.disconnect();
+  }, [hasNewer, isLoadingNewer, onLoadNewer]);
+
   // Helper function to extract phone number from message content
   const extractPhoneNumber = (content: string): string => {
     if (!content || typeof content !== 'string') {
@@ -85,21 +208,64 @@ export function ChatMessageList({
     return date1.toDateString() === date2.toDateString();
   };
 
-  // Helper function to group messages by date
-  const groupMessagesByDate = (messages: ChatMessageType[]) => {
-    const grouped: Array<{ date: Date; messages: ChatMessageType[] }> = [];
-    
-    messages.forEach((msg) => {
+  // Interleave notes with the messages: notes on a message follow it, notes
+  // on the session sit where they were written. Session notes outside the
+  // loaded window are left for when that page is loaded.
+  const buildTimeline = (messages: ChatMessageType[], notes: ChatNote[]): TimelineItem[] => {
+    const loadedIds = new Set(messages.map(msg => msg.id));
+    const notesByMessage = new Map<string, ChatNote[]>();
+    const sessionNotes: ChatNote[] = [];
+
+    notes.forEach(note => {
+      const messageId = note.message_id?.toString();
+      if (messageId && loadedIds.has(messageId)) {
+        notesByMessage.set(messageId, [...(notesByMessage.get(messageId) ?? []), note]);
+      } else if (!messageId) {
+        sessionNotes.push(note);
+      }
+    });
+
+    const timeline: TimelineItem[] = [];
+    let nextNote = 0;
+    const pushSessionNotesBefore = (time: number, isFirst: boolean) => {
+      while (nextNote < sessionNotes.length && new Date(sessionNotes[nextNote].created_at).getTime() < time) {
+        if (!isFirst || !hasMore) {
+          timeline.push({ kind: 'note', note: sessionNotes[nextNote], date: new Date(sessionNotes[nextNote].created_at) });
+        }
+        nextNote++;
+      }
+    };
+
+    messages.forEach((msg, index) => {
       const messageDate = new Date(msg.message.timestamp || msg.created_at || new Date());
+      pushSessionNotesBefore(new Date(msg.created_at).getTime(), index === 0);
+      timeline.push({ kind: 'message', message: msg, date: messageDate });
+      (notesByMessage.get(msg.id) ?? []).forEach(note => {
+        timeline.push({ kind: 'note', note, date: messageDate });
+      });
+    });
+
+    if (!hasNewer) {
+      pushSessionNotesBefore(Infinity, messages.length === 0);
+    }
+
+    return timeline;
+  };
+
+  // Helper function to group messages and notes by date
+  const groupByDate = (items: TimelineItem[]) => {
+    const grouped: Array<{ date: Date; items: TimelineItem[] }> = [];
+    
+    items.forEach((item) => {
       const lastGroup = grouped[grouped.length - 1];
       
-      if (!lastGroup || !isSameDay(lastGroup.date, messageDate)) {
+      if (!lastGroup || !isSameDay(lastGroup.date, item.date)) {
         grouped.push({
-          date: messageDate,
-          messages: [msg]
+          date: item.date,
+          items: [item]
         });
       } else {
-        lastGroup.messages.push(msg);
+        lastGroup.items.push(item);
       }
     });
     
@@ -114,10 +280,10 @@ export function ChatMessageList({
     );
   }
 
-  const groupedMessages = groupMessagesByDate(messages);
+  const groupedMessages = groupByDate(buildTimeline(messages, notes));
 
   return (
-    <div className="flex flex-col space-y-4 p-4 overflow-y-auto h-full">
+    <div ref={containerRef} className="relative flex flex-col space-y-4 p-4 overflow-y-auto h-full">
       {/* Loading more indicator */}
       {isLoadingMore && (
         <div className="flex justify-center py-2">
@@ -131,10 +297,23 @@ export function ChatMessageList({
       {groupedMessages.map((group, groupIndex) => (
         <div key={groupIndex}>
           {/* Date separator */}
-          <DateSeparator date={group.date} />
+          <DateSeparator date={group.date} onJumpToDate={onJumpToDate} />
           
-          {/* Messages for this date */}
-          {group.messages.map((msg, index) => {
+          {/* Messages and notes for this date */}
+          {group.items.map((item, index) => {
+            if (item.kind === 'note') {
+              return (
+                <InternalNote
+                  key={`note-${item.note.id}`}
+                  note={item.note}
+                  agents={agents}
+                  currentUserId={currentUserId}
+                  onDelete={onDeleteNote}
+                />
+              );
+            }
+
+            const msg = item.message;
             let senderId: string;
             let messageContent: string;
             let isOutgoing: boolean;
@@ -152,19 +331,80 @@ export function ChatMessageList({
             }
             
             return (
-              <ChatMessage
+              <div
                 key={msg.id || `${groupIndex}-${index}`}
-                senderId={senderId}
-                message={messageContent}
-                timestamp={msg.message.timestamp || msg.created_at || new Date().toISOString()}
-                isOutgoing={isOutgoing}
-                trigger={msg.message.trigger}
-              />
+                data-message-id={msg.id}
+                className={cn("group relative", msg.id === scrollToMessageId && "bg-yellow-100/60 dark:bg-yellow-900/30")}
+              >
+                <ChatMessage
+                  senderId={senderId}
+                  message={messageContent}
+                  timestamp={msg.message.timestamp || msg.created_at || new Date().toISOString()}
+                  isOutgoing={isOutgoing}
+                  trigger={msg.message.trigger}
+                  attachments={msg.message.attachments}
+                  receipt={receipts[msg.id]}
+                  delivery={deliveries[msg.id]}
+                  onRetryDelivery={deliveries[msg.id] && onRetryDelivery
+                    ? () => onRetryDelivery(deliveries[msg.id])
+                    : undefined}
+                />
+                {onAddNote && (
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className={cn(
+                      "absolute top-2 h-7 w-7 opacity-0 group-hover:opacity-100 focus-visible:opacity-100",
+                      isOutgoing ? "left-2" : "right-2"
+                    )}
+                    onClick={() => onAddNote({ message_id: Number(msg.id), preview: messageContent })}
+                    aria-label="Add internal note"
+                    title="Add internal note"
+                  >
+                    <StickyNote className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
             );
           })}
         </div>
       ))}
+
+      {/* Replies waiting to be sent come after the latest message */}
+      {!hasNewer && queuedMessages.map(queued => (
+        <QueuedMessage
+          key={`queued-${queued.client_message_id}`}
+          message={queued}
+          onRetry={onRetryQueued}
+          onDiscard={onDiscardQueued}
+        />
+      ))}
+      {!hasNewer && scheduledMessages.map(scheduled => (
+        <ScheduledMessage
+          key={`scheduled-${scheduled.id}`}
+          message={scheduled}
+          onEdit={onEditScheduled}
+          onCancel={onCancelScheduled}
+        />
+      ))}
+
+      {/* Intersection observer target for loading newer messages */}
+      <div ref={newerObserverRef} className="h-4" />
+      {isLoadingNewer && (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      )}
       <div ref={messagesEndRef} />
+
+      {hasNewer && onJumpToLatest && (
+        <div className="sticky bottom-2 flex justify-center">
+          <Button size="sm" variant="secondary" className="rounded-full shadow" onClick={onJumpToLatest}>
+            <ArrowDown className="h-4 w-4 mr-1" />
+            Jump to latest
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,23 @@
+import { cn } from '@/lib/utils';
+import { ChatSessionStatus } from '@/types/chat';
+import { CHAT_SESSION_STATUS_LABELS } from '@/services/conversationStatusService';
+
+const STATUS_STYLES: Record<ChatSessionStatus, string> = {
+  open: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
+  pending: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  resolved: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  closed: 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+};
+
+interface ConversationStatusBadgeProps {
+  status: ChatSessionStatus;
+  className?: string;
+}
+
+export function ConversationStatusBadge({ status, className }: ConversationStatusBadgeProps) {
+  return (
+    <span className={cn("inline-flex items-center rounded-full px-2 py-0.5 text-[10px] font-medium", STATUS_STYLES[status], className)}>
+      {CHAT_SESSION_STATUS_LABELS[status]}
+    </span>
+  );
+}
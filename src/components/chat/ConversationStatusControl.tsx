@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { CheckCircle2, ChevronDown, Clock, Loader2, Lock, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/components/ui/use-toast';
+import { ChatSessionStatus } from '@/types/chat';
+import { CHAT_SESSION_STATUS_LABELS, isSessionDone, setSessionStatus } from '@/services/conversationStatusService';
+import { ConversationStatusBadge } from './ConversationStatusBadge';
+
+interface ConversationStatusControlProps {
+  sessionId: string;
+  status: ChatSessionStatus;
+  onStatusChange?: (sessionId: string, status: ChatSessionStatus) => void;
+}
+
+export function ConversationStatusControl({ sessionId, status, onStatusChange }: ConversationStatusControlProps) {
+  const { toast } = useToast();
+  const [updating, setUpdating] = useState(false);
+  const done = isSessionDone(status);
+
+  const handleChange = async (next: ChatSessionStatus) => {
+    if (next === status) return;
+
+    setUpdating(true);
+    try {
+      const updated = await setSessionStatus(sessionId, next);
+      onStatusChange?.(sessionId, updated);
+      toast({
+        title: `Conversation ${CHAT_SESSION_STATUS_LABELS[updated].toLowerCase()}`,
+        description: isSessionDone(updated)
+          ? "It reopens automatically when the customer writes again"
+          : updated === 'pending'
+            ? "Waiting for the customer to reply"
+            : "The conversation is open again"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update conversation status",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <ConversationStatusBadge status={status} className="hidden sm:inline-flex" />
+      <div className="flex">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 rounded-r-none text-xs"
+          onClick={() => handleChange(done ? 'open' : 'resolved')}
+          disabled={updating}
+        >
+          {updating ? (
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          ) : done ? (
+            <RotateCcw className="h-3 w-3 mr-1" />
+          ) : (
+            <CheckCircle2 className="h-3 w-3 mr-1" />
+          )}
+          {done ? 'Reopen' : 'Resolve'}
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 rounded-l-none border-l-0 px-2"
+              disabled={updating}
+              aria-label="More status options"
+            >
+              <ChevronDown className="h-3 w-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {status !== 'pending' && (
+              <DropdownMenuItem onClick={() => handleChange('pending')}>
+                <Clock className="h-4 w-4 mr-2" />
+                Mark as pending
+              </DropdownMenuItem>
+            )}
+            {status !== 'closed' && (
+              <DropdownMenuItem onClick={() => handleChange('closed')}>
+                <Lock className="h-4 w-4 mr-2" />
+                Close
+              </DropdownMenuItem>
+            )}
+            {status === 'pending' && (
+              <DropdownMenuItem onClick={() => handleChange('open')}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Reopen
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    </div>
+  );
+}
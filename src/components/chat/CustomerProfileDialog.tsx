@@ -0,0 +1,281 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Link2, Loader2, MessageSquare, Unlink } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { ChatSession } from '@/types/chat';
+import { CustomerProfile } from '@/services/customerService';
+import { PLATFORM_LABELS } from '@/services/platformService';
+import { ContactName } from './ContactName';
+import { CustomerTimeline } from './CustomerTimeline';
+
+interface CustomerProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionId: string;
+  profile: CustomerProfile | null;
+  loading: boolean;
+  sessions: ChatSession[];
+  onMerge: (otherSessionId: string) => Promise<void>;
+  onUnmerge: (sessionId: string) => Promise<void>;
+  onOpenSession: (sessionId: string) => void;
+}
+
+type PendingAction = { kind: 'merge' | 'unmerge'; sessionId: string };
+
+const MAX_CANDIDATES = 8;
+
+// The customer behind a conversation: linked channels, a timeline across
+// them, and manual merge and unmerge
+export function CustomerProfileDialog({
+  open,
+  onOpenChange,
+  sessionId,
+  profile,
+  loading,
+  sessions,
+  onMerge,
+  onUnmerge,
+  onOpenSession
+}: CustomerProfileDialogProps) {
+  const { toast } = useToast();
+  const [query, setQuery] = useState('');
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (open) setQuery('');
+  }, [open]);
+
+  const linkedIds = new Set(profile?.sessions.map(session => session.session_id) ?? [sessionId]);
+  const search = query.trim().toLowerCase();
+  const candidates = search
+    ? sessions
+        .filter(session => !linkedIds.has(session.session_id))
+        .filter(session =>
+          session.session_id.toLowerCase().includes(search) ||
+          (session.sender_name ?? '').toLowerCase().includes(search)
+        )
+        .slice(0, MAX_CANDIDATES)
+    : [];
+  // A session id that is not in the loaded list can still be merged by typing it in full
+  const typedSessionId = query.trim();
+  const canMergeTyped = !!typedSessionId && !linkedIds.has(typedSessionId)
+    && !candidates.some(session => session.session_id === typedSessionId);
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return;
+    const { kind, sessionId: targetId } = pendingAction;
+    setPendingAction(null);
+
+    setIsWorking(true);
+    try {
+      if (kind === 'merge') {
+        await onMerge(targetId);
+        setQuery('');
+      } else {
+        await onUnmerge(targetId);
+      }
+      toast({
+        title: "Success",
+        description: kind === 'merge' ? "Conversations merged into one customer" : "Conversation unmerged",
+      });
+    } catch (err) {
+      console.error('Error updating customer profile:', err);
+      toast({
+        title: "Error",
+        description: kind === 'merge' ? "Failed to merge conversations" : "Failed to unmerge conversation",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const customer = profile?.customer;
+  const linkedSessions = profile?.sessions ?? [];
+  const platforms = Object.fromEntries(linkedSessions.map(session => [session.session_id, session.platform]));
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {customer?.display_name || <ContactName phoneNumber={sessionId} />}
+            </DialogTitle>
+            <DialogDescription>
+              {customer && (customer.phone || customer.email)
+                ? [customer.phone, customer.email].filter(Boolean).join(' · ')
+                : 'Conversations of the same customer on different channels.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <Tabs defaultValue="sessions">
+              <TabsList>
+                <TabsTrigger value="sessions">Conversations ({linkedSessions.length || 1})</TabsTrigger>
+                <TabsTrigger value="timeline">Timeline</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="sessions" className="space-y-4">
+                {!profile && (
+                  <p className="text-sm text-muted-foreground">
+                    Not linked to a customer yet. Conversations are linked automatically when the Airtable contact's
+                    phone or email matches, or merge another conversation below.
+                  </p>
+                )}
+
+                {linkedSessions.length > 0 && (
+                  <div className="divide-y">
+                    {linkedSessions.map(session => (
+                      <div key={session.session_id} className="flex items-center gap-3 py-2">
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            {session.platform && (
+                              <Badge variant="outline" className="text-xs">{PLATFORM_LABELS[session.platform]}</Badge>
+                            )}
+                            <span className="font-medium truncate">
+                              {session.sender_name || session.session_id}
+                            </span>
+                            <Badge variant="secondary" className="text-xs">
+                              {session.link_source === 'auto' ? 'Auto' : 'Manual'}
+                            </Badge>
+                            {session.session_id === sessionId && (
+                              <span className="text-xs text-muted-foreground">this conversation</span>
+                            )}
+                          </div>
+                          <p className="text-xs text-muted-foreground truncate">
+                            <span className="font-mono">{session.session_id}</span>
+                            {session.last_timestamp && <> · {format(new Date(session.last_timestamp), 'dd MMM HH:mm')}</>}
+                            {session.last_message && <> · {session.last_message}</>}
+                          </p>
+                        </div>
+                        {session.session_id !== sessionId && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => onOpenSession(session.session_id)}
+                            aria-label="Open conversation"
+                            title="Open conversation"
+                          >
+                            <MessageSquare className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {linkedSessions.length > 1 && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setPendingAction({ kind: 'unmerge', sessionId: session.session_id })}
+                            disabled={isWorking}
+                            aria-label="Unmerge conversation"
+                            title="Unmerge"
+                          >
+                            <Unlink className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Find a conversation to merge by name or session id..."
+                  />
+                  {candidates.map(session => (
+                    <div key={session.session_id} className="flex items-center gap-3 rounded-md border px-3 py-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          {session.platform && (
+                            <Badge variant="outline" className="text-xs">{PLATFORM_LABELS[session.platform]}</Badge>
+                          )}
+                          <ContactName phoneNumber={session.sender_name || session.session_id} className="font-medium truncate" />
+                        </div>
+                        <p className="text-xs text-muted-foreground font-mono truncate">{session.session_id}</p>
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setPendingAction({ kind: 'merge', sessionId: session.session_id })}
+                        disabled={isWorking}
+                      >
+                        <Link2 className="h-4 w-4 mr-2" />
+                        Merge
+                      </Button>
+                    </div>
+                  ))}
+                  {canMergeTyped && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setPendingAction({ kind: 'merge', sessionId: typedSessionId })}
+                      disabled={isWorking}
+                    >
+                      <Link2 className="h-4 w-4 mr-2" />
+                      Merge session "{typedSessionId}"
+                    </Button>
+                  )}
+                </div>
+              </TabsContent>
+
+              <TabsContent value="timeline">
+                <CustomerTimeline
+                  sessionIds={linkedSessions.length > 0 ? linkedSessions.map(session => session.session_id) : [sessionId]}
+                  platforms={platforms}
+                />
+              </TabsContent>
+            </Tabs>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(isOpen) => !isOpen && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.kind === 'merge' ? 'Merge conversations?' : 'Unmerge conversation?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.kind === 'merge'
+                ? `${pendingAction.sessionId} and the conversations linked to it become part of this customer.`
+                : `${pendingAction?.sessionId} gets a customer profile of its own and is no longer linked automatically.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm}>
+              {pendingAction?.kind === 'merge' ? 'Merge' : 'Unmerge'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
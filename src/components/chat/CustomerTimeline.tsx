@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { ChatMessage, MessagePlatform } from '@/types/chat';
+import { fetchMessagesForSessions, getMessageCursor } from '@/services/chatService';
+import { getMessagePreview } from '@/services/attachmentService';
+import { PLATFORM_LABELS } from '@/services/platformService';
+
+interface CustomerTimelineProps {
+  sessionIds: string[];
+  // Platform of each session, for messages stored without a trigger
+  platforms: Record<string, MessagePlatform | null>;
+}
+
+const PAGE_SIZE = 50;
+
+// Messages of every channel of a customer merged into one timeline
+export function CustomerTimeline({ sessionIds, platforms }: CustomerTimelineProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const sessionKey = sessionIds.join(',');
+
+  useEffect(() => {
+    setMessages([]);
+    setError(null);
+    if (!sessionKey) return;
+
+    let disposed = false;
+    setLoading(true);
+    fetchMessagesForSessions(sessionKey.split(','), { limit: PAGE_SIZE })
+      .then(page => {
+        if (disposed) return;
+        setMessages(page.messages);
+        setHasMore(page.hasMore);
+      })
+      .catch(() => {
+        if (!disposed) setError('Failed to load timeline');
+      })
+      .finally(() => {
+        if (!disposed) setLoading(false);
+      });
+
+    return () => {
+      disposed = true;
+    };
+  }, [sessionKey]);
+
+  const loadOlder = useCallback(async () => {
+    if (messages.length === 0) return;
+
+    setLoading(true);
+    try {
+      const page = await fetchMessagesForSessions(sessionKey.split(','), {
+        before: getMessageCursor(messages[0]),
+        limit: PAGE_SIZE
+      });
+      setMessages(prev => [...page.messages, ...prev]);
+      setHasMore(page.hasMore);
+    } catch {
+      setError('Failed to load timeline');
+    } finally {
+      setLoading(false);
+    }
+  }, [messages, sessionKey]);
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  if (loading && messages.length === 0) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (messages.length === 0) {
+    return <p className="text-sm text-muted-foreground">No messages yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {hasMore && (
+        <div className="flex justify-center">
+          <Button variant="ghost" size="sm" onClick={loadOlder} disabled={loading}>
+            {loading ? 'Loading...' : 'Load older messages'}
+          </Button>
+        </div>
+      )}
+      {messages.map(message => {
+        const platform = message.message.trigger || platforms[message.session_id] || null;
+        const isCustomer = message.message.type !== 'ai';
+        return (
+          <div
+            key={message.id}
+            className={cn(
+              "rounded-md px-3 py-2 text-sm",
+              isCustomer ? "bg-muted mr-8" : "bg-primary/10 ml-8"
+            )}
+          >
+            <div className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+              {platform && <Badge variant="outline" className="text-[10px] px-1 py-0">{PLATFORM_LABELS[platform]}</Badge>}
+              <span>{isCustomer ? 'Customer' : message.message.sender_name || 'Bot/Agent'}</span>
+              <span className="ml-auto">{format(new Date(message.created_at), 'dd MMM yyyy HH:mm')}</span>
+            </div>
+            <p className="whitespace-pre-wrap break-words">
+              {getMessagePreview(message.message.content, message.message.attachments ?? [])}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 import { cn } from '@/lib/utils';
+import { JumpToDate } from './JumpToDate';
 
 interface DateSeparatorProps {
   date: Date;
   className?: string;
+  onJumpToDate?: (date: Date) => void;
 }
 
-export function DateSeparator({ date, className }: DateSeparatorProps) {
+export function DateSeparator({ date, className, onJumpToDate }: DateSeparatorProps) {
   const today = new Date();
   const yesterday = new Date(today);
   yesterday.setDate(yesterday.getDate() - 1);
@@ -37,12 +39,15 @@ export function DateSeparator({ date, className }: DateSeparatorProps) {
 
   return (
     <div className={cn(
-      "flex justify-center my-4",
+      "flex justify-center items-center gap-1 my-4",
       className
     )}>
       <div className="bg-muted text-muted-foreground text-xs px-3 py-1 rounded-full">
         {displayText}
       </div>
+      {onJumpToDate && (
+        <JumpToDate selected={date} onSelectDate={onJumpToDate} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,26 @@
+import { AlertCircle, Check, CheckCheck } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { DeliveryStatus } from '@/types/chat';
+import { DELIVERY_STATUS_LABELS } from '@/services/receiptService';
+
+interface DeliveryStatusIconProps {
+  status: DeliveryStatus;
+  error?: string | null;
+  className?: string;
+}
+
+// WhatsApp-style ticks: one for sent, two for delivered, blue for read
+export function DeliveryStatusIcon({ status, error, className }: DeliveryStatusIconProps) {
+  const label = status === 'failed' && error
+    ? `${DELIVERY_STATUS_LABELS.failed}: ${error}`
+    : DELIVERY_STATUS_LABELS[status];
+
+  return (
+    <span className={cn("inline-flex", className)} title={label} aria-label={label}>
+      {status === 'sent' && <Check className="h-3.5 w-3.5 text-muted-foreground" />}
+      {status === 'delivered' && <CheckCheck className="h-3.5 w-3.5 text-muted-foreground" />}
+      {status === 'read' && <CheckCheck className="h-3.5 w-3.5 text-blue-500" />}
+      {status === 'failed' && <AlertCircle className="h-3.5 w-3.5 text-destructive" />}
+    </span>
+  );
+}
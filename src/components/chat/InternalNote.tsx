@@ -0,0 +1,61 @@
+import { ReactNode } from 'react';
+import { format } from 'date-fns';
+import { Lock, Trash2 } from 'lucide-react';
+import { Agent } from '@/types/agent';
+import { getAgentName } from '@/services/assignmentService';
+import { ChatNote } from '@/services/noteService';
+
+interface InternalNoteProps {
+  note: ChatNote;
+  agents: Agent[];
+  currentUserId?: string;
+  onDelete?: (noteId: string) => void;
+}
+
+// Highlights "@Name" for the agents the note mentions
+const renderContent = (content: string, mentioned: Agent[]): ReactNode[] => {
+  const names = mentioned
+    .map(agent => `@${getAgentName(agent)}`)
+    .sort((a, b) => b.length - a.length);
+  if (names.length === 0) return [content];
+
+  const pattern = new RegExp(`(${names.map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'g');
+  return content.split(pattern).map((part, index) =>
+    names.includes(part)
+      ? <span key={index} className="font-semibold text-amber-700 dark:text-amber-300">{part}</span>
+      : part
+  );
+};
+
+// A private note between agents, never shown to the customer
+export function InternalNote({ note, agents, currentUserId, onDelete }: InternalNoteProps) {
+  const author = agents.find(agent => agent.id === note.author_id);
+  const mentioned = agents.filter(agent => note.mentions.includes(agent.id));
+  const canDelete = !!onDelete && !!currentUserId && note.author_id === currentUserId;
+
+  return (
+    <div className="group mx-2 md:mx-12 my-2 rounded-md border border-dashed border-amber-300 bg-amber-50 px-3 py-2 text-sm dark:border-amber-700 dark:bg-amber-950/40">
+      <div className="flex items-center gap-2 text-xs text-amber-800 dark:text-amber-300">
+        <Lock className="h-3 w-3" />
+        <span className="font-medium">Internal note</span>
+        <span>·</span>
+        <span>{author ? getAgentName(author) : 'Unknown agent'}</span>
+        <span>·</span>
+        <span>{format(new Date(note.created_at), 'HH:mm')}</span>
+        {canDelete && (
+          <button
+            type="button"
+            onClick={() => onDelete(note.id)}
+            className="ml-auto opacity-0 group-hover:opacity-100 hover:text-destructive"
+            aria-label="Delete note"
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+      <p className="mt-1 whitespace-pre-wrap break-words text-amber-950 dark:text-amber-100">
+        {renderContent(note.content, mentioned)}
+      </p>
+    </div>
+  );
+}
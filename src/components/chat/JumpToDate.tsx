@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { CalendarIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+interface JumpToDateProps {
+  onSelectDate: (date: Date) => void;
+  selected?: Date;
+  className?: string;
+}
+
+export function JumpToDate({ onSelectDate, selected, className }: JumpToDateProps) {
+  const [open, setOpen] = useState(false);
+
+  const handleSelect = (date: Date | undefined) => {
+    if (!date) return;
+    setOpen(false);
+    onSelectDate(date);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn("h-6 w-6 rounded-full text-muted-foreground", className)}
+          aria-label="Jump to date"
+          title="Jump to date (days start at midnight WIB)"
+        >
+          <CalendarIcon className="h-3 w-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="center">
+        <Calendar
+          initialFocus
+          mode="single"
+          selected={selected}
+          defaultMonth={selected}
+          onSelect={handleSelect}
+          disabled={{ after: new Date() }}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
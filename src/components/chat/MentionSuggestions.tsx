@@ -0,0 +1,39 @@
+import { Agent } from '@/types/agent';
+import { getAgentName } from '@/services/assignmentService';
+import { cn } from '@/lib/utils';
+
+interface MentionSuggestionsProps {
+  agents: Agent[];
+  activeIndex: number;
+  onSelect: (agent: Agent) => void;
+}
+
+// Teammates matching the "@..." being typed in an internal note
+export function MentionSuggestions({ agents, activeIndex, onSelect }: MentionSuggestionsProps) {
+  if (agents.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-full left-0 mb-2 w-64 overflow-hidden rounded-md border bg-popover text-popover-foreground shadow-md">
+      <div className="px-3 py-1.5 text-xs text-muted-foreground">Mention a teammate</div>
+      {agents.map((agent, index) => (
+        <button
+          key={agent.id}
+          type="button"
+          // Keep focus in the input while picking
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(agent)}
+          className={cn(
+            "flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm hover:bg-accent",
+            index === activeIndex && "bg-accent"
+          )}
+        >
+          <span className={cn("h-2 w-2 shrink-0 rounded-full", agent.is_online ? "bg-green-500" : "bg-gray-300")} />
+          <span className="truncate">{getAgentName(agent)}</span>
+          {agent.email && agent.display_name && (
+            <span className="ml-auto truncate text-xs text-muted-foreground">{agent.email}</span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { Download, FileText, MapPin } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MessageAttachment } from '@/types/chat';
+import { formatFileSize } from '@/services/attachmentService';
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  isOutgoing?: boolean;
+}
+
+const getMapUrl = (attachment: MessageAttachment) =>
+  attachment.url || `https://www.google.com/maps?q=${attachment.latitude},${attachment.longitude}`;
+
+function AttachmentItem({ attachment, isOutgoing }: { attachment: MessageAttachment; isOutgoing?: boolean }) {
+  switch (attachment.type) {
+    case 'image':
+      return (
+        <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="block">
+          <img
+            src={attachment.url}
+            alt={attachment.caption || attachment.file_name || 'Image'}
+            loading="lazy"
+            className="max-h-64 max-w-full rounded-md object-contain"
+          />
+        </a>
+      );
+    case 'sticker':
+      return (
+        <img
+          src={attachment.url}
+          alt="Sticker"
+          loading="lazy"
+          className="h-32 w-32 object-contain"
+        />
+      );
+    case 'video':
+      return (
+        <video
+          src={attachment.url}
+          controls
+          preload="metadata"
+          className="max-h-64 max-w-full rounded-md"
+        />
+      );
+    case 'audio':
+      return (
+        <audio src={attachment.url} controls preload="metadata" className="w-64 max-w-full" />
+      );
+    case 'location':
+      return (
+        <a
+          href={getMapUrl(attachment)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={cn(
+            "flex items-start gap-2 rounded-md border px-3 py-2 text-sm",
+            isOutgoing ? "border-primary-foreground/30" : "border-border bg-background"
+          )}
+        >
+          <MapPin className="h-4 w-4 mt-0.5 shrink-0" />
+          <div className="min-w-0">
+            <div className="font-medium truncate">{attachment.name || 'Shared location'}</div>
+            <div className="text-xs opacity-75 truncate">
+              {attachment.address || `${attachment.latitude?.toFixed(5)}, ${attachment.longitude?.toFixed(5)}`}
+            </div>
+          </div>
+        </a>
+      );
+    default:
+      return (
+        <a
+          href={attachment.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          download={attachment.file_name}
+          className={cn(
+            "flex items-center gap-2 rounded-md border px-3 py-2 text-sm",
+            isOutgoing ? "border-primary-foreground/30" : "border-border bg-background"
+          )}
+        >
+          <FileText className="h-5 w-5 shrink-0" />
+          <div className="min-w-0 flex-1">
+            <div className="font-medium truncate">{attachment.file_name || 'Document'}</div>
+            {attachment.size !== undefined && (
+              <div className="text-xs opacity-75">{formatFileSize(attachment.size)}</div>
+            )}
+          </div>
+          <Download className="h-4 w-4 shrink-0 opacity-75" />
+        </a>
+      );
+  }
+}
+
+export function MessageAttachments({ attachments, isOutgoing }: MessageAttachmentsProps) {
+  return (
+    <div className="flex flex-col gap-2">
+      {attachments.map((attachment, index) => (
+        <div key={attachment.url || attachment.storage_path || index} className="flex flex-col gap-1">
+          <AttachmentItem attachment={attachment} isOutgoing={isOutgoing} />
+          {attachment.caption && attachment.type !== 'location' && (
+            <span className="text-sm">{attachment.caption}</span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
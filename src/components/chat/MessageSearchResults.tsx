@@ -0,0 +1,91 @@
+import { Fragment } from 'react';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ChatSearchResult } from '@/types/chat';
+import { ContactName } from './ContactName';
+
+interface MessageSearchResultsProps {
+  results: ChatSearchResult[];
+  loading: boolean;
+  hasMore: boolean;
+  error: string | null;
+  onLoadMore: () => void;
+  onSelectResult: (result: ChatSearchResult) => void;
+}
+
+// Renders <mark> highlights from the database as React elements, never as HTML
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/<mark>|<\/mark>/);
+  return (
+    <>
+      {parts.map((part, index) => (
+        <Fragment key={index}>
+          {index % 2 === 1 ? (
+            <mark className="rounded bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-700">{part}</mark>
+          ) : (
+            part
+          )}
+        </Fragment>
+      ))}
+    </>
+  );
+}
+
+export function MessageSearchResults({
+  results,
+  loading,
+  hasMore,
+  error,
+  onLoadMore,
+  onSelectResult
+}: MessageSearchResultsProps) {
+  if (error) {
+    return <p className="p-4 text-sm text-destructive">{error}</p>;
+  }
+
+  if (loading && results.length === 0) {
+    return (
+      <div className="flex justify-center p-4">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return <p className="p-4 text-sm text-muted-foreground">No messages found</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-2 p-4">
+      {results.map(result => (
+        <button
+          key={result.message_id}
+          onClick={() => onSelectResult(result)}
+          className="flex w-full flex-col gap-1 rounded-lg p-3 text-left hover:bg-gray-200 dark:hover:bg-gray-700"
+        >
+          <div className="flex items-center justify-between gap-2">
+            <ContactName
+              phoneNumber={result.sender_name || result.session_id}
+              className="truncate text-sm font-medium dark:text-white"
+            />
+            <span className="shrink-0 text-xs text-gray-500 dark:text-gray-400">
+              {format(new Date(result.created_at), 'd MMM yyyy HH:mm')}
+            </span>
+          </div>
+          <p className="line-clamp-3 text-sm text-gray-600 dark:text-gray-300">
+            <span className="text-xs text-gray-400 dark:text-gray-500">
+              {result.type === 'human' ? 'Customer: ' : 'Reply: '}
+            </span>
+            <HighlightedSnippet snippet={result.snippet} />
+          </p>
+        </button>
+      ))}
+      {hasMore && (
+        <Button variant="ghost" size="sm" onClick={onLoadMore} disabled={loading}>
+          {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Load more results'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { MessagePlatform, PlatformSource } from '@/types/chat';
+import { PLATFORM_LABELS, setSessionPlatform } from '@/services/platformService';
+
+const AUTO = 'auto';
+
+interface PlatformSelectProps {
+  sessionId: string;
+  platform: MessagePlatform | null;
+  source: PlatformSource | null;
+  onPlatformChange?: (sessionId: string, platform: MessagePlatform | null, source: PlatformSource | null) => void;
+}
+
+// Channel of the conversation, which agents can correct when it was misdetected
+export function PlatformSelect({ sessionId, platform, source, onPlatformChange }: PlatformSelectProps) {
+  const { toast } = useToast();
+  const [updating, setUpdating] = useState(false);
+  const isManual = source === 'manual';
+
+  const handleChange = async (value: string) => {
+    const next = value === AUTO ? null : value as MessagePlatform;
+
+    setUpdating(true);
+    try {
+      const updated = await setSessionPlatform(sessionId, next);
+      onPlatformChange?.(sessionId, updated, next ? 'manual' : 'backfill');
+      toast({
+        title: "Platform updated",
+        description: next
+          ? `Replies go out on ${PLATFORM_LABELS[next]}`
+          : updated
+            ? `Detected from the messages: ${PLATFORM_LABELS[updated]}`
+            : "The messages do not say which platform this is"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update platform",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  return (
+    <Select value={platform ?? undefined} onValueChange={handleChange} disabled={updating}>
+      <SelectTrigger
+        className="h-8 w-[120px] text-xs"
+        aria-label="Platform"
+        title={isManual ? "Set manually by an agent" : "Detected from the messages"}
+      >
+        <SelectValue placeholder="Platform..." />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(PLATFORM_LABELS) as MessagePlatform[]).map(value => (
+          <SelectItem key={value} value={value}>
+            {PLATFORM_LABELS[value]}
+          </SelectItem>
+        ))}
+        {isManual && (
+          <>
+            <SelectSeparator />
+            <SelectItem value={AUTO}>Detect from messages</SelectItem>
+          </>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,81 @@
+import { format } from 'date-fns';
+import { AlertCircle, CloudOff, FileText, RotateCw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { QueuedMessage as QueuedMessageType } from '@/services/sendQueueService';
+
+interface QueuedMessageProps {
+  message: QueuedMessageType;
+  onRetry?: (clientMessageId: string) => void;
+  onDiscard?: (clientMessageId: string) => void;
+}
+
+// A reply written while offline, sent once the connection returns
+export function QueuedMessage({ message, onRetry, onDiscard }: QueuedMessageProps) {
+  const failed = message.status === 'failed';
+
+  return (
+    <div className="flex justify-end my-2">
+      <div
+        className={cn(
+          "max-w-[80%] rounded-lg border border-dashed px-3 py-2 text-sm opacity-80",
+          failed
+            ? "border-red-300 bg-red-50 dark:border-red-800 dark:bg-red-950/40"
+            : "border-gray-300 bg-gray-50 dark:border-gray-600 dark:bg-gray-800"
+        )}
+      >
+        {message.content && <p className="whitespace-pre-wrap break-words">{message.content}</p>}
+        {message.attachments.length > 0 && (
+          <div className="mt-1 flex flex-wrap gap-1">
+            {message.attachments.map(attachment => (
+              <span
+                key={attachment.storage_path || attachment.url}
+                className="flex items-center gap-1 rounded border px-1 text-xs text-muted-foreground"
+              >
+                <FileText className="h-3 w-3" />
+                {attachment.file_name}
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+          {failed ? (
+            <span className="flex items-center gap-1 text-red-600 dark:text-red-400" title={message.last_error ?? undefined}>
+              <AlertCircle className="h-3 w-3" />
+              Not sent{message.last_error && `: ${message.last_error}`}
+            </span>
+          ) : (
+            <span className="flex items-center gap-1">
+              <CloudOff className="h-3 w-3" />
+              Pending, written {format(new Date(message.queued_at), 'HH:mm')}
+            </span>
+          )}
+          {failed && onRetry && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              onClick={() => onRetry(message.client_message_id)}
+              aria-label="Retry sending message"
+              title="Retry"
+            >
+              <RotateCw className="h-3 w-3" />
+            </Button>
+          )}
+          {onDiscard && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              onClick={() => onDiscard(message.client_message_id)}
+              aria-label="Discard queued message"
+              title="Discard"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useState } from 'react';
+import { BookOpen, Loader2, RefreshCw, Sparkles } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle
+} from '@/components/ui/sheet';
+import {
+  ReplySuggestion,
+  draftToMessage,
+  suggestReply
+} from '@/services/replySuggestionService';
+
+interface ReplySuggestionPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionId: string;
+  onUseDraft: (text: string) => void;
+}
+
+// A reply drafted from the documents knowledge base, with the sources it
+// cites, for the agent to edit before it goes into the chat input
+export function ReplySuggestionPanel({ open, onOpenChange, sessionId, onUseDraft }: ReplySuggestionPanelProps) {
+  const [suggestion, setSuggestion] = useState<ReplySuggestion | null>(null);
+  const [draft, setDraft] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const generate = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await suggestReply(sessionId);
+      setSuggestion(result);
+      setDraft(result.draft);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to draft a reply');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!open) return;
+    setSuggestion(null);
+    setDraft('');
+    generate();
+  }, [open, generate]);
+
+  const handleUseDraft = () => {
+    onUseDraft(draftToMessage(draft));
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col gap-4 sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            Suggested reply
+          </SheetTitle>
+          <SheetDescription>
+            Drafted from the knowledge base for the customer's latest messages. Check and edit it before sending.
+          </SheetDescription>
+        </SheetHeader>
+
+        {loading && !suggestion ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : suggestion && (
+          <>
+            <div className="space-y-2">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={8}
+                disabled={loading}
+              />
+              <p className="text-xs text-muted-foreground">
+                Citations like [1] point to the sources below and are removed when the draft is used.
+                {suggestion.provider === 'local' && ' Drafted by the local provider, no language model is configured.'}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium flex items-center gap-2">
+                <BookOpen className="h-4 w-4" />
+                Sources
+              </h3>
+              {suggestion.sources.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No document matches these messages, the draft is not grounded in the knowledge base.
+                </p>
+              ) : (
+                suggestion.sources.map(source => (
+                  <div key={source.id} className="rounded-md border px-3 py-2 text-sm">
+                    <div className="flex items-center gap-2 mb-1">
+                      <Badge variant="secondary" className="text-xs">[{source.index}]</Badge>
+                      <span className="font-medium truncate">{source.title}</span>
+                      {source.similarity !== null && (
+                        <span className="ml-auto text-xs text-muted-foreground">
+                          {Math.round(source.similarity * 100)}% match
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground line-clamp-4 whitespace-pre-wrap">{source.content}</p>
+                  </div>
+                ))
+              )}
+            </div>
+          </>
+        )}
+
+        <SheetFooter className="mt-auto gap-2">
+          <Button type="button" variant="outline" onClick={generate} disabled={loading}>
+            <RefreshCw className={loading ? "h-4 w-4 mr-2 animate-spin" : "h-4 w-4 mr-2"} />
+            Regenerate
+          </Button>
+          <Button type="button" onClick={handleUseDraft} disabled={loading || !draftToMessage(draft)}>
+            Use draft
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
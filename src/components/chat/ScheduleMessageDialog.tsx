@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { addDays } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  formatJakartaTime,
+  fromJakartaParts,
+  toJakartaParts
+} from '@/services/scheduledMessageService';
+
+interface ScheduleMessageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialContent: string;
+  initialSendAt?: string | null;
+  title?: string;
+  onSubmit: (content: string, sendAt: Date) => Promise<void>;
+}
+
+// Tomorrow at 09:00 Jakarta time, the usual "saya kabari besok"
+const defaultSendAt = () => ({
+  date: toJakartaParts(addDays(new Date(), 1)).date,
+  time: '09:00'
+});
+
+// Picks the text and the Jakarta date and time of a scheduled message
+export function ScheduleMessageDialog({
+  open,
+  onOpenChange,
+  initialContent,
+  initialSendAt,
+  title = 'Schedule message',
+  onSubmit
+}: ScheduleMessageDialogProps) {
+  const [content, setContent] = useState(initialContent);
+  const [date, setDate] = useState('');
+  const [time, setTime] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const parts = initialSendAt ? toJakartaParts(new Date(initialSendAt)) : defaultSendAt();
+    setContent(initialContent);
+    setDate(parts.date);
+    setTime(parts.time);
+    setError(null);
+  }, [open, initialContent, initialSendAt]);
+
+  const sendAt = date && time ? fromJakartaParts(date, time) : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // The dialog is portalled but React still bubbles the submit to an
+    // enclosing form such as the chat input
+    e.stopPropagation();
+
+    if (!content.trim()) {
+      setError('Write the message to send');
+      return;
+    }
+    if (!sendAt || isNaN(sendAt.getTime())) {
+      setError('Pick a date and time');
+      return;
+    }
+    if (sendAt.getTime() <= Date.now()) {
+      setError('Pick a time in the future');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSubmit(content, sendAt);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to schedule message');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>
+              Sent automatically at the chosen Jakarta time (WIB), even if nobody has the dashboard open.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div>
+              <Label htmlFor="scheduledContent">Message</Label>
+              <Textarea
+                id="scheduledContent"
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                rows={4}
+                className="mt-1"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="scheduledDate">Date</Label>
+                <Input
+                  id="scheduledDate"
+                  type="date"
+                  value={date}
+                  min={toJakartaParts(new Date()).date}
+                  onChange={(e) => setDate(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="scheduledTime">Time (WIB)</Label>
+                <Input
+                  id="scheduledTime"
+                  type="time"
+                  value={time}
+                  onChange={(e) => setTime(e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+            {sendAt && !isNaN(sendAt.getTime()) && (
+              <p className="text-sm text-muted-foreground">Goes out {formatJakartaTime(sendAt)}</p>
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Scheduling..." : "Schedule"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
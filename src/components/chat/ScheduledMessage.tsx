@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { AlertCircle, Clock, Pencil, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { ScheduledMessage as ScheduledMessageType, formatJakartaTime } from '@/services/scheduledMessageService';
+import { ScheduleMessageDialog } from './ScheduleMessageDialog';
+
+interface ScheduledMessageProps {
+  message: ScheduledMessageType;
+  onEdit?: (id: string, content: string, sendAt: Date) => Promise<void>;
+  onCancel?: (id: string) => void;
+}
+
+// A reply waiting to be sent, shown after the latest message
+export function ScheduledMessage({ message, onEdit, onCancel }: ScheduledMessageProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const failed = message.status === 'failed';
+
+  return (
+    <div className="flex justify-end my-2">
+      <div
+        className={cn(
+          "max-w-[80%] rounded-lg border border-dashed px-3 py-2 text-sm",
+          failed
+            ? "border-red-300 bg-red-50 dark:border-red-800 dark:bg-red-950/40"
+            : "border-blue-300 bg-blue-50/60 dark:border-blue-800 dark:bg-blue-950/30"
+        )}
+      >
+        <p className="whitespace-pre-wrap break-words">{message.content}</p>
+        <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+          {failed ? (
+            <span className="flex items-center gap-1 text-red-600 dark:text-red-400" title={message.last_error ?? undefined}>
+              <AlertCircle className="h-3 w-3" />
+              Not sent, {formatJakartaTime(message.send_at)}
+            </span>
+          ) : (
+            <span className="flex items-center gap-1">
+              <Clock className="h-3 w-3" />
+              Scheduled for {formatJakartaTime(message.send_at)}
+            </span>
+          )}
+          {onEdit && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              onClick={() => setIsEditing(true)}
+              aria-label={failed ? "Reschedule message" : "Edit scheduled message"}
+              title={failed ? "Reschedule" : "Edit"}
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+          )}
+          {onCancel && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-6 w-6"
+              onClick={() => onCancel(message.id)}
+              aria-label="Cancel scheduled message"
+              title="Cancel"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {onEdit && (
+        <ScheduleMessageDialog
+          open={isEditing}
+          onOpenChange={setIsEditing}
+          initialContent={message.content}
+          initialSendAt={message.send_at}
+          title={failed ? 'Reschedule message' : 'Edit scheduled message'}
+          onSubmit={(content, sendAt) => onEdit(message.id, content, sendAt)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,101 @@
+import { useEffect, useState } from "react";
+import { useInView } from "react-intersection-observer";
 import { cn } from "@/lib/utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { ChatSession } from "@/types/chat";
-import { Loader2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ChatSearchResult,
+  ChatSession,
+  ChatSessionAssigneeFilter,
+  ChatSessionSort,
+  ChatSessionStatusFilter
+} from "@/types/chat";
+import { Agent } from "@/types/agent";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { CheckCheck, Loader2, Mail, MoreVertical, Search, User, UserCheck, X } from "lucide-react";
 import { ContactName } from "./ContactName";
+import { MessageSearchResults } from "./MessageSearchResults";
+import { ConversationStatusBadge } from "./ConversationStatusBadge";
+import { TagChip } from "./TagChip";
+import { TagFilter } from "./TagFilter";
+import { useMessageSearch } from "@/hooks/useMessageSearch";
+import { useAuth } from "@/contexts/AuthContext";
+import { getAgentName } from "@/services/assignmentService";
+import { ChatTag } from "@/services/tagService";
 
 interface SessionListProps {
   sessions: ChatSession[];
   selectedSessionId: string | null;
   onSelectSession: (sessionId: string) => void;
   isLoading: boolean;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  sort?: ChatSessionSort;
+  onSortChange?: (sort: ChatSessionSort) => void;
+  onMarkRead?: (sessionId: string) => void;
+  onMarkUnread?: (sessionId: string) => void;
+  onSelectSearchResult?: (result: ChatSearchResult) => void;
+  assigneeFilter?: ChatSessionAssigneeFilter;
+  onAssigneeFilterChange?: (filter: ChatSessionAssigneeFilter) => void;
+  agents?: Agent[];
+  statusFilter?: ChatSessionStatusFilter;
+  onStatusFilterChange?: (filter: ChatSessionStatusFilter) => void;
+  tags?: ChatTag[];
+  tagFilter?: string[];
+  onTagFilterChange?: (tagIds: string[]) => void;
 }
 
 export default function SessionList({
   sessions,
   selectedSessionId,
   onSelectSession,
-  isLoading
+  isLoading,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  sort = 'recent',
+  onSortChange,
+  onMarkRead,
+  onMarkUnread,
+  onSelectSearchResult,
+  assigneeFilter = 'all',
+  onAssigneeFilterChange,
+  agents = [],
+  statusFilter = 'all',
+  onStatusFilterChange,
+  tags = [],
+  tagFilter = [],
+  onTagFilterChange
 }: SessionListProps) {
+  const { user } = useAuth();
+  const { ref: loadMoreRef, inView } = useInView({ rootMargin: '200px' });
+  const [searchQuery, setSearchQuery] = useState('');
+  const search = useMessageSearch(searchQuery);
+  const isSearching = !!onSelectSearchResult && searchQuery.trim() !== '';
+
+  // Fetch the next page once the sentinel at the bottom becomes visible
+  useEffect(() => {
+    if (inView && hasMore && !isLoadingMore) {
+      onLoadMore?.();
+    }
+  }, [inView, hasMore, isLoadingMore, onLoadMore]);
+
+  const getAssigneeLabel = (assignedTo: string): string => {
+    if (assignedTo === user?.id) return 'You';
+    const agent = agents.find(item => item.id === assignedTo);
+    return agent ? getAgentName(agent) : 'Assigned';
+  };
+
   // Helper function to extract phone number from session name/id
   const extractPhoneNumber = (text: string): string => {
     if (!text || typeof text !== 'string') {
@@ -42,37 +121,195 @@ export default function SessionList({
 
   return (
     <div className="w-full md:w-80 border-r bg-gray-100/40 dark:bg-gray-800/40">
-      <ScrollArea className="h-[calc(100vh-4rem)]">
-        <div className="flex flex-col gap-2 p-4">
-          {sessions.map((session) => {
-            const phoneNumber = extractPhoneNumber(session.sender_name || session.session_id);
-            return (
+      {onSelectSearchResult && (
+        <div className="px-4 pt-4">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search messages..."
+              className="h-8 pl-8 pr-8 text-sm"
+              aria-label="Search messages"
+            />
+            {searchQuery && (
               <button
-                key={session.session_id}
-                onClick={() => onSelectSession(session.session_id)}
-                className={cn(
-                  "flex flex-col gap-1 p-4 rounded-lg",
-                  selectedSessionId === session.session_id
-                    ? "bg-gray-200 dark:bg-gray-700"
-                    : "hover:bg-gray-200 dark:hover:bg-gray-700"
-                )}
+                onClick={() => setSearchQuery('')}
+                className="absolute right-2 top-2 text-muted-foreground hover:text-foreground"
+                aria-label="Clear search"
               >
-                <div className="flex justify-between items-center">
-                  <ContactName 
-                    phoneNumber={phoneNumber}
-                    className="font-medium dark:text-white"
-                  />
-                  <span className="text-xs text-gray-500 dark:text-gray-400">
-                    {new Date(session.last_timestamp).toLocaleTimeString()}
-                  </span>
-                </div>
-                <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
-                  {session.last_message}
-                </p>
+                <X className="h-4 w-4" />
               </button>
-            );
-          })}
+            )}
+          </div>
+        </div>
+      )}
+      {onAssigneeFilterChange && !isSearching && (
+        <div className="px-4 pt-4">
+          <Tabs
+            value={assigneeFilter}
+            onValueChange={(value) => onAssigneeFilterChange(value as ChatSessionAssigneeFilter)}
+          >
+            <TabsList className="grid h-8 w-full grid-cols-3">
+              <TabsTrigger value="mine" className="text-xs">Mine</TabsTrigger>
+              <TabsTrigger value="unassigned" className="text-xs">Unassigned</TabsTrigger>
+              <TabsTrigger value="all" className="text-xs">All</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      )}
+      {(onSortChange || onStatusFilterChange) && !isSearching && (
+        <div className="flex gap-2 px-4 pt-4">
+          {onStatusFilterChange && (
+            <Select value={statusFilter} onValueChange={(value: ChatSessionStatusFilter) => onStatusFilterChange(value)}>
+              <SelectTrigger className="h-8 text-xs" aria-label="Filter by status">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="resolved">Resolved</SelectItem>
+                <SelectItem value="closed">Closed</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          {onSortChange && (
+            <Select value={sort} onValueChange={(value: ChatSessionSort) => onSortChange(value)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue placeholder="Sort conversations" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="recent">Most recent</SelectItem>
+                <SelectItem value="oldest">Oldest activity</SelectItem>
+                <SelectItem value="most_messages">Most messages</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
         </div>
+      )}
+      {onTagFilterChange && !isSearching && tags.length > 0 && (
+        <div className="px-4 pt-2">
+          <TagFilter tags={tags} selected={tagFilter} onChange={onTagFilterChange} className="w-full" />
+        </div>
+      )}
+      <ScrollArea className="h-[calc(100vh-4rem)]">
+        {isSearching ? (
+          <MessageSearchResults
+            results={search.results}
+            loading={search.loading}
+            hasMore={search.hasMore}
+            error={search.error}
+            onLoadMore={search.loadMore}
+            onSelectResult={(result) => onSelectSearchResult?.(result)}
+          />
+        ) : (
+          <div className="flex flex-col gap-2 p-4">
+            {sessions.map((session) => {
+              const phoneNumber = extractPhoneNumber(session.sender_name || session.session_id);
+              const unreadCount = session.unread_count ?? 0;
+              // Open is the default, only call out the other statuses
+              const status = session.status ?? 'open';
+              const showStatus = status !== 'open';
+              const sessionTags = (session.tag_ids ?? [])
+                .map(id => tags.find(tag => tag.id === id))
+                .filter((tag): tag is ChatTag => !!tag);
+              return (
+                <div key={session.session_id} className="group relative">
+                  <button
+                    onClick={() => onSelectSession(session.session_id)}
+                    className={cn(
+                      "flex w-full flex-col gap-1 p-4 rounded-lg text-left",
+                      selectedSessionId === session.session_id
+                        ? "bg-gray-200 dark:bg-gray-700"
+                        : "hover:bg-gray-200 dark:hover:bg-gray-700"
+                    )}
+                  >
+                    <div className="flex justify-between items-center gap-2">
+                      <ContactName 
+                        phoneNumber={phoneNumber}
+                        className={cn("dark:text-white truncate", unreadCount > 0 ? "font-semibold" : "font-medium")}
+                      />
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {new Date(session.last_timestamp).toLocaleTimeString()}
+                        </span>
+                        {unreadCount > 0 && (
+                          <Badge className="h-5 min-w-5 justify-center rounded-full px-1.5 bg-green-500 hover:bg-green-500 text-white">
+                            {unreadCount > 99 ? '99+' : unreadCount}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                    <p className={cn(
+                      "text-sm truncate pr-6",
+                      unreadCount > 0 ? "text-gray-900 dark:text-gray-100" : "text-gray-500 dark:text-gray-400"
+                    )}>
+                      {session.last_message}
+                    </p>
+                    {sessionTags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 pr-6">
+                        {sessionTags.map(tag => <TagChip key={tag.id} tag={tag} />)}
+                      </div>
+                    )}
+                    {(session.platform || session.message_count || session.bot_paused || session.assigned_to || showStatus) && (
+                      <div className="flex items-center gap-2 text-xs text-gray-400 dark:text-gray-500">
+                        {showStatus && <ConversationStatusBadge status={status} />}
+                        {session.platform && <span className="capitalize">{session.platform}</span>}
+                        {session.message_count ? <span>{session.message_count} messages</span> : null}
+                        {session.bot_paused && (
+                          <span className="flex items-center gap-1 text-amber-600 dark:text-amber-400">
+                            <UserCheck className="h-3 w-3" />
+                            Human
+                          </span>
+                        )}
+                        {session.assigned_to && (
+                          <span className="flex items-center gap-1 truncate">
+                            <User className="h-3 w-3 shrink-0" />
+                            {getAssigneeLabel(session.assigned_to)}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </button>
+                  {(onMarkRead || onMarkUnread) && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="absolute right-2 bottom-2 h-6 w-6 opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100"
+                          aria-label="Conversation actions"
+                        >
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {unreadCount > 0 ? (
+                          <DropdownMenuItem onClick={() => onMarkRead?.(session.session_id)}>
+                            <CheckCheck className="h-4 w-4 mr-2" />
+                            Mark as read
+                          </DropdownMenuItem>
+                        ) : (
+                          <DropdownMenuItem onClick={() => onMarkUnread?.(session.session_id)}>
+                            <Mail className="h-4 w-4 mr-2" />
+                            Mark as unread
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </div>
+              );
+            })}
+            {/* Sentinel for infinite scroll */}
+            {hasMore && (
+              <div ref={loadMoreRef} className="flex justify-center py-2">
+                {isLoadingMore && <Loader2 className="h-5 w-5 animate-spin" />}
+              </div>
+            )}
+          </div>
+        )}
       </ScrollArea>
     </div>
   );
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Check, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import { addSessionTag, ChatTag, removeSessionTag } from '@/services/tagService';
+import { TagChip } from './TagChip';
+
+interface SessionTagsPickerProps {
+  sessionId: string;
+  tagIds: string[];
+  tags: ChatTag[];
+  onTagsChange?: (sessionId: string, tagIds: string[]) => void;
+}
+
+export function SessionTagsPicker({ sessionId, tagIds, tags, onTagsChange }: SessionTagsPickerProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+
+  const attached = tagIds
+    .map(id => tags.find(tag => tag.id === id))
+    .filter((tag): tag is ChatTag => !!tag);
+
+  const toggle = async (tagId: string) => {
+    const isAttached = tagIds.includes(tagId);
+    const next = isAttached ? tagIds.filter(id => id !== tagId) : [...tagIds, tagId];
+
+    // Applied right away, rolled back when saving fails
+    onTagsChange?.(sessionId, next);
+    try {
+      if (isAttached) {
+        await removeSessionTag(sessionId, tagId);
+      } else {
+        await addSessionTag(sessionId, tagId, user?.id);
+      }
+    } catch (error) {
+      onTagsChange?.(sessionId, tagIds);
+      toast({
+        title: "Error",
+        description: "Failed to update tags",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="flex min-w-0 flex-wrap items-center gap-1">
+      {attached.map(tag => (
+        <TagChip key={tag.id} tag={tag} onRemove={() => toggle(tag.id)} />
+      ))}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs text-muted-foreground">
+            <Plus className="h-3 w-3 mr-1" />
+            Tag
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-56 p-0">
+          <Command>
+            <CommandInput placeholder="Search tags..." />
+            <CommandList>
+              <CommandEmpty>
+                <span>
+                  No tags found.{' '}
+                  <Link to="/settings" className="underline">Manage tags</Link>
+                </span>
+              </CommandEmpty>
+              <CommandGroup>
+                {tags.map(tag => (
+                  <CommandItem
+                    key={tag.id}
+                    value={tag.id}
+                    keywords={[tag.name]}
+                    onSelect={() => toggle(tag.id)}
+                  >
+                    <Check className={cn("h-4 w-4 mr-2", tagIds.includes(tag.id) ? "opacity-100" : "opacity-0")} />
+                    <span className="h-2 w-2 rounded-full mr-2 shrink-0" style={{ backgroundColor: tag.color }} />
+                    <span className="truncate">{tag.name}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
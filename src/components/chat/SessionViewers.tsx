@@ -0,0 +1,59 @@
+import { format } from 'date-fns';
+import { Eye, PenLine } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { SessionViewer } from '@/types/chat';
+
+interface SessionViewersProps {
+  viewers: SessionViewer[];
+}
+
+const MAX_SHOWN = 3;
+
+const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('') || '?';
+
+// Other agents who have this conversation open, marked while they type
+export function SessionViewers({ viewers }: SessionViewersProps) {
+  if (viewers.length === 0) return null;
+
+  const shown = viewers.slice(0, MAX_SHOWN);
+  const hidden = viewers.length - shown.length;
+
+  return (
+    <div
+      className="flex items-center gap-1"
+      title={viewers
+        .map(viewer => `${viewer.name}${viewer.typing ? ' (typing)' : ''}, viewing since ${format(new Date(viewer.viewing_since), 'HH:mm')}`)
+        .join('\n')}
+    >
+      <Eye className="h-4 w-4 text-muted-foreground" />
+      <div className="flex -space-x-2">
+        {shown.map(viewer => (
+          <div
+            key={viewer.user_id}
+            className={cn(
+              "relative h-7 w-7 rounded-full border-2 border-white dark:border-gray-800 bg-muted flex items-center justify-center text-[10px] font-medium",
+              viewer.typing && "ring-2 ring-amber-400"
+            )}
+            aria-label={viewer.typing ? `${viewer.name} is typing` : `${viewer.name} is viewing`}
+          >
+            {getInitials(viewer.name)}
+            {viewer.typing && (
+              <PenLine className="absolute -bottom-1 -right-1 h-3 w-3 rounded-full bg-amber-400 p-0.5 text-white" />
+            )}
+          </div>
+        ))}
+        {hidden > 0 && (
+          <div className="h-7 w-7 rounded-full border-2 border-white dark:border-gray-800 bg-muted flex items-center justify-center text-[10px]">
+            +{hidden}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ChatTag } from '@/services/tagService';
+
+interface TagChipProps {
+  tag: Pick<ChatTag, 'name' | 'color'>;
+  onRemove?: () => void;
+  className?: string;
+}
+
+export function TagChip({ tag, onRemove, className }: TagChipProps) {
+  return (
+    <span
+      className={cn("inline-flex max-w-full items-center gap-1 rounded-full border px-2 py-0.5 text-[10px] font-medium", className)}
+      style={{ color: tag.color, backgroundColor: `${tag.color}1a`, borderColor: `${tag.color}4d` }}
+    >
+      <span className="truncate">{tag.name}</span>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="shrink-0 rounded-full hover:opacity-70"
+          aria-label={`Remove tag ${tag.name}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,73 @@
+import { Check, Tag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { ChatTag } from '@/services/tagService';
+
+interface TagFilterProps {
+  tags: ChatTag[];
+  selected: string[];
+  onChange: (tagIds: string[]) => void;
+  className?: string;
+}
+
+// Multi-select of tags; matches conversations carrying any of the selected tags
+export function TagFilter({ tags, selected, onChange, className }: TagFilterProps) {
+  const toggle = (tagId: string) => {
+    onChange(selected.includes(tagId)
+      ? selected.filter(id => id !== tagId)
+      : [...selected, tagId]);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className={cn("h-8 justify-start text-xs font-normal", className)}>
+          <Tag className="h-3 w-3 mr-1 shrink-0" />
+          {selected.length > 0 ? `${selected.length} tag${selected.length > 1 ? 's' : ''}` : 'All tags'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-56 p-0">
+        <Command>
+          <CommandInput placeholder="Search tags..." />
+          <CommandList>
+            <CommandEmpty>No tags found.</CommandEmpty>
+            <CommandGroup>
+              {tags.map(tag => (
+                <CommandItem
+                  key={tag.id}
+                  value={tag.id}
+                  keywords={[tag.name]}
+                  onSelect={() => toggle(tag.id)}
+                >
+                  <Check className={cn("h-4 w-4 mr-2", selected.includes(tag.id) ? "opacity-100" : "opacity-0")} />
+                  <span className="h-2 w-2 rounded-full mr-2 shrink-0" style={{ backgroundColor: tag.color }} />
+                  <span className="truncate">{tag.name}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {selected.length > 0 && (
+              <>
+                <CommandSeparator />
+                <CommandGroup>
+                  <CommandItem value="clear-tag-filter" onSelect={() => onChange([])} className="justify-center">
+                    Clear filter
+                  </CommandItem>
+                </CommandGroup>
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
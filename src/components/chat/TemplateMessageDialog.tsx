@@ -0,0 +1,158 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useWhatsAppTemplates } from '@/hooks/useWhatsAppTemplates';
+import { ContactFields } from '@/types/contact';
+import {
+  WhatsAppTemplate,
+  prefillTemplateParameters,
+  renderWhatsAppTemplate
+} from '@/services/whatsappTemplateService';
+
+interface TemplateMessageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contactFields?: ContactFields | null;
+  onSubmit: (template: WhatsAppTemplate, parameters: string[]) => Promise<void>;
+}
+
+// Picks an approved WhatsApp template and fills its parameters, starting
+// from the linked contact's fields
+export function TemplateMessageDialog({
+  open,
+  onOpenChange,
+  contactFields,
+  onSubmit
+}: TemplateMessageDialogProps) {
+  const { templates, loading } = useWhatsAppTemplates();
+  const [templateId, setTemplateId] = useState('');
+  const [parameters, setParameters] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  const approved = useMemo(
+    () => templates.filter(template => template.status === 'approved'),
+    [templates]
+  );
+  const template = approved.find(item => item.id === templateId) ?? null;
+
+  useEffect(() => {
+    if (!open) return;
+    setTemplateId('');
+    setParameters([]);
+    setError(null);
+  }, [open]);
+
+  const handleTemplateChange = (id: string) => {
+    const picked = approved.find(item => item.id === id);
+    setTemplateId(id);
+    setParameters(picked ? prefillTemplateParameters(picked, contactFields) : []);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // The dialog is portalled but React still bubbles the submit to the chat input form
+    e.stopPropagation();
+
+    if (!template) {
+      setError('Pick a template');
+      return;
+    }
+    if (parameters.some(value => !value.trim())) {
+      setError('Fill in every parameter');
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      await onSubmit(template, parameters.map(value => value.trim()));
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send template');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Send template</DialogTitle>
+            <DialogDescription>
+              Approved templates can be sent at any time, also after the 24-hour window has closed.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {!loading && approved.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No approved templates yet.{' '}
+                <Link to="/settings" className="underline">Manage templates</Link>
+              </p>
+            ) : (
+              <div>
+                <Label>Template</Label>
+                <Select value={templateId} onValueChange={handleTemplateChange}>
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder={loading ? 'Loading...' : 'Choose a template'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {approved.map(item => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {item.name} ({item.language})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {template && parameters.map((value, index) => (
+              <div key={index}>
+                <Label htmlFor={`templateParameter${index}`}>
+                  {`{{${index + 1}}}`} {template.parameter_labels[index] || `Parameter ${index + 1}`}
+                </Label>
+                <Input
+                  id={`templateParameter${index}`}
+                  value={value}
+                  onChange={(e) => setParameters(prev => prev.map((item, i) => i === index ? e.target.value : item))}
+                  className="mt-1"
+                />
+              </div>
+            ))}
+
+            {template && (
+              <div className="rounded-md bg-muted px-3 py-2 text-sm whitespace-pre-wrap break-words">
+                {renderWhatsAppTemplate(template.body, parameters)}
+              </div>
+            )}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSending || !template}>
+              {isSending ? "Sending..." : "Send template"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { addDays } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { MessagePlatform } from '@/types/chat';
+import { fromJakartaParts, toJakartaParts } from '@/services/scheduledMessageService';
+import { TranscriptFormat, exportTranscript, fetchTranscript } from '@/services/transcriptService';
+
+interface TranscriptExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessionId: string;
+  contactName?: string | null;
+  platform?: MessagePlatform | null;
+}
+
+const FORMAT_OPTIONS: { value: TranscriptFormat; label: string; description: string }[] = [
+  { value: 'pdf', label: 'PDF', description: 'Formatted for sharing, saved from the print dialog' },
+  { value: 'txt', label: 'Plain text', description: 'One block per message' },
+  { value: 'json', label: 'JSON', description: 'Every field, for other tools' }
+];
+
+// Exports the whole conversation or the days between two Jakarta dates
+export function TranscriptExportDialog({
+  open,
+  onOpenChange,
+  sessionId,
+  contactName,
+  platform
+}: TranscriptExportDialogProps) {
+  const [format, setFormat] = useState<TranscriptFormat>('pdf');
+  const [scope, setScope] = useState<'all' | 'range'>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const today = toJakartaParts(new Date()).date;
+    setScope('all');
+    setFromDate(today);
+    setToDate(today);
+    setError(null);
+  }, [open]);
+
+  const handleExport = async () => {
+    let range = {};
+    if (scope === 'range') {
+      if (!fromDate || !toDate) {
+        setError('Pick both dates');
+        return;
+      }
+      if (fromDate > toDate) {
+        setError('The start date is after the end date');
+        return;
+      }
+      // The end date is included up to midnight Jakarta time
+      range = {
+        from: fromJakartaParts(fromDate, '00:00'),
+        to: addDays(fromJakartaParts(toDate, '00:00'), 1)
+      };
+    }
+
+    setIsExporting(true);
+    setError(null);
+    try {
+      const transcript = await fetchTranscript(sessionId, range, { contactName, platform });
+      if (transcript.messages.length === 0) {
+        setError('No messages in this period');
+        return;
+      }
+      exportTranscript(transcript, format);
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export conversation');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export conversation</DialogTitle>
+          <DialogDescription>
+            Includes sender names, Jakarta (WIB) times, platform and the sentiment of analyzed messages. Internal notes are left out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup value={format} onValueChange={(value) => setFormat(value as TranscriptFormat)}>
+              {FORMAT_OPTIONS.map(option => (
+                <div key={option.value} className="flex items-start gap-2">
+                  <RadioGroupItem value={option.value} id={`transcriptFormat-${option.value}`} className="mt-0.5" />
+                  <Label htmlFor={`transcriptFormat-${option.value}`} className="font-normal">
+                    <span className="font-medium">{option.label}</span>
+                    <span className="block text-xs text-muted-foreground">{option.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Messages</Label>
+            <RadioGroup value={scope} onValueChange={(value) => setScope(value as 'all' | 'range')}>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="all" id="transcriptScope-all" />
+                <Label htmlFor="transcriptScope-all" className="font-normal">Whole conversation</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="range" id="transcriptScope-range" />
+                <Label htmlFor="transcriptScope-range" className="font-normal">Between dates</Label>
+              </div>
+            </RadioGroup>
+            {scope === 'range' && (
+              <div className="grid grid-cols-2 gap-4 pt-1">
+                <div>
+                  <Label htmlFor="transcriptFrom">From</Label>
+                  <Input
+                    id="transcriptFrom"
+                    type="date"
+                    value={fromDate}
+                    onChange={(e) => setFromDate(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="transcriptTo">To</Label>
+                  <Input
+                    id="transcriptTo"
+                    type="date"
+                    value={toDate}
+                    onChange={(e) => setToDate(e.target.value)}
+                    className="mt-1"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? "Exporting..." : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
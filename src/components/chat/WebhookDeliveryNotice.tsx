@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { AlertCircle, Loader2, RotateCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { WebhookDelivery } from '@/services/webhookOutboxService';
+
+interface WebhookDeliveryNoticeProps {
+  delivery: WebhookDelivery;
+  onRetry?: () => Promise<unknown>;
+  className?: string;
+}
+
+// Shown under a reply the webhook has not accepted yet
+export function WebhookDeliveryNotice({ delivery, onRetry, className }: WebhookDeliveryNoticeProps) {
+  const [retrying, setRetrying] = useState(false);
+  const isDead = delivery.status === 'dead';
+  const inFlight = retrying || delivery.status === 'delivering';
+
+  // The first attempt is still running, nothing has failed yet
+  if (delivery.attempt_count === 0 && !isDead) return null;
+
+  const handleRetry = async () => {
+    if (!onRetry) return;
+    setRetrying(true);
+    try {
+      await onRetry();
+    } catch {
+      // The caller reports the failure
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1.5 mt-1 text-xs",
+        isDead ? "text-destructive" : "text-amber-600 dark:text-amber-400",
+        className
+      )}
+      title={delivery.last_error ?? undefined}
+    >
+      <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+      <span>
+        {inFlight
+          ? "Sending again..."
+          : isDead
+            ? "Failed to send"
+            : `Not sent yet, retrying ${formatDistanceToNow(new Date(delivery.next_attempt_at), { addSuffix: true })}`}
+      </span>
+      {onRetry && !inFlight && (
+        <button
+          type="button"
+          onClick={handleRetry}
+          className="inline-flex items-center gap-1 font-medium underline-offset-2 hover:underline"
+        >
+          <RotateCw className="h-3 w-3" />
+          {isDead ? "Retry" : "Retry now"}
+        </button>
+      )}
+      {inFlight && <Loader2 className="h-3 w-3 animate-spin" />}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { format } from 'date-fns';
+import { Timer, TimerOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface WhatsAppWindowIndicatorProps {
+  isOpen: boolean;
+  remainingMs: number;
+  closesAt: Date | null;
+}
+
+// Under this much time left the indicator turns amber
+const CLOSING_SOON_MS = 2 * 60 * 60 * 1000;
+
+const formatRemaining = (ms: number) => {
+  const minutes = Math.ceil(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+// Time left to reply freely on WhatsApp, or that only templates can be sent
+export function WhatsAppWindowIndicator({ isOpen, remainingMs, closesAt }: WhatsAppWindowIndicatorProps) {
+  if (!isOpen) {
+    return (
+      <div
+        className="flex items-center gap-1 text-xs text-destructive"
+        title="WhatsApp only accepts template messages until the customer writes again"
+      >
+        <TimerOff className="h-3 w-3" />
+        Window closed
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-1 text-xs",
+        remainingMs < CLOSING_SOON_MS ? "text-amber-600 dark:text-amber-400" : "text-muted-foreground"
+      )}
+      title={closesAt ? `Free replies until ${format(closesAt, 'dd MMM HH:mm')}` : undefined}
+    >
+      <Timer className="h-3 w-3" />
+      {formatRemaining(remainingMs)} left
+    </div>
+  );
+}
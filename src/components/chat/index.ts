@@ -4,3 +4,29 @@ export { ChatMessageList } from './ChatMessageList';
 export { ContactName } from './ContactName';
 export { SessionList } from './SessionList';
 export { DateSeparator } from './DateSeparator';
+export { JumpToDate } from './JumpToDate';
+export { BotTakeoverToggle } from './BotTakeoverToggle';
+export { CannedResponsePicker } from './CannedResponsePicker';
+export { MessageAttachments } from './MessageAttachments';
+export { MessageSearchResults } from './MessageSearchResults';
+export { AssigneeSelect } from './AssigneeSelect';
+export { ConversationStatusBadge } from './ConversationStatusBadge';
+export { ConversationStatusControl } from './ConversationStatusControl';
+export { TagChip } from './TagChip';
+export { TagFilter } from './TagFilter';
+export { SessionTagsPicker } from './SessionTagsPicker';
+export { InternalNote } from './InternalNote';
+export { MentionSuggestions } from './MentionSuggestions';
+export { PlatformSelect } from './PlatformSelect';
+export { DeliveryStatusIcon } from './DeliveryStatusIcon';
+export { WebhookDeliveryNotice } from './WebhookDeliveryNotice';
+export { ScheduledMessage } from './ScheduledMessage';
+export { ScheduleMessageDialog } from './ScheduleMessageDialog';
+export { WhatsAppWindowIndicator } from './WhatsAppWindowIndicator';
+export { TemplateMessageDialog } from './TemplateMessageDialog';
+export { TranscriptExportDialog } from './TranscriptExportDialog';
+export { CustomerProfileDialog } from './CustomerProfileDialog';
+export { CustomerTimeline } from './CustomerTimeline';
+export { ReplySuggestionPanel } from './ReplySuggestionPanel';
+export { SessionViewers } from './SessionViewers';
+export { QueuedMessage } from './QueuedMessage';
@@ -1,9 +1,12 @@
 import { ReactNode } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { NotificationBell } from '@/components/NotificationBell';
 import { Button } from '@/components/ui/button';
-import { LogOut, LayoutDashboard, MessageSquare, Settings, FileText, Users, Menu, ChevronLeft, Calendar, BarChart3 } from 'lucide-react';
+import { LogOut, LayoutDashboard, MessageSquare, Settings, FileText, Users, Menu, ChevronLeft, Calendar, BarChart3, Megaphone } from 'lucide-react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { useUnreadTotals } from '@/hooks/useUnreadTotals';
+import { useAgentPresence } from '@/hooks/useAgentPresence';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -21,11 +24,14 @@ const DashboardLayout = ({ children, showBackButton, title }: DashboardLayoutPro
   const { user, signOut } = useAuth();
   const location = useLocation();
   const navigate = useNavigate();
+  const { unread_messages: unreadMessages } = useUnreadTotals();
+  useAgentPresence();
 
-  const menuItems = [
+  const menuItems: Array<{ icon: typeof LayoutDashboard; label: string; path: string; badge?: number }> = [
     { icon: LayoutDashboard, label: 'Dashboard', path: '/dashboard' },
-    { icon: MessageSquare, label: 'Chat', path: '/chat' },
+    { icon: MessageSquare, label: 'Chat', path: '/chat', badge: unreadMessages },
     { icon: Users, label: 'Contacts', path: '/contacts' },
+    { icon: Megaphone, label: 'Broadcasts', path: '/broadcasts' },
     { icon: Calendar, label: 'Calendar', path: '/calendar' },
     { icon: BarChart3, label: 'Sentiment Analysis', path: '/sentiment' },
     { icon: FileText, label: 'Logs', path: '/logs' },
@@ -62,6 +68,7 @@ const DashboardLayout = ({ children, showBackButton, title }: DashboardLayoutPro
               {user.email}
             </span>
           )}
+          <NotificationBell />
           <ThemeToggle />
           
           {/* Mobile Menu */}
@@ -81,6 +88,11 @@ const DashboardLayout = ({ children, showBackButton, title }: DashboardLayoutPro
                     >
                       <item.icon className="h-4 w-4" />
                       <span>{item.label}</span>
+                      {!!item.badge && (
+                        <span className="ml-auto rounded-full bg-red-500 px-1.5 text-xs font-medium text-white">
+                          {item.badge > 99 ? '99+' : item.badge}
+                        </span>
+                      )}
                     </Link>
                   </DropdownMenuItem>
                 ))}
@@ -117,8 +129,20 @@ const DashboardLayout = ({ children, showBackButton, title }: DashboardLayoutPro
                           : 'text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
                       }`}
                     >
-                      <item.icon className="h-5 w-5 flex-shrink-0" />
+                      <span className="relative">
+                        <item.icon className="h-5 w-5 flex-shrink-0" />
+                        {!!item.badge && (
+                          <span className="absolute -top-2 -right-2 lg:hidden h-4 min-w-4 rounded-full bg-red-500 px-1 text-[10px] leading-4 text-center font-medium text-white">
+                            {item.badge > 99 ? '99+' : item.badge}
+                          </span>
+                        )}
+                      </span>
                       <span className="ml-3 lg:block hidden">{item.label}</span>
+                      {!!item.badge && (
+                        <span className="ml-auto hidden lg:inline rounded-full bg-red-500 px-2 text-xs font-medium text-white">
+                          {item.badge > 99 ? '99+' : item.badge}
+                        </span>
+                      )}
                     </Link>
                   </li>
                 );
@@ -27,6 +27,7 @@ import { SentimentStats, SentimentFilter } from '@/types/sentiment';
 import { DatePickerWithRange } from '@/components/ui/date-picker-range';
 import { DateRange } from 'react-day-picker';
 import { supabase } from '@/integrations/supabase/client';
+import { SessionSentimentTable } from './SessionSentimentTable';
 
 interface DashboardProps {
   className?: string;
@@ -1078,6 +1079,8 @@ export function SentimentDashboard({ className }: DashboardProps) {
                 )}
               </CardContent>
             </Card>
+
+            <SessionSentimentTable dateRange={dateRange} />
           </TabsContent>
         </Tabs>
       )}
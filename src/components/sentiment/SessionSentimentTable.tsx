@@ -0,0 +1,128 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+import { DateRange } from 'react-day-picker';
+import { hybridSentimentService } from '@/services/hybridSentimentService';
+import { ChatTag, fetchSessionTagMap } from '@/services/tagService';
+import { SessionSentimentSummary } from '@/types/sentiment';
+import { ContactName } from '@/components/chat/ContactName';
+import { TagChip } from '@/components/chat/TagChip';
+import { TagFilter } from '@/components/chat/TagFilter';
+import { SentimentBadge } from './SentimentBadge';
+import { useTags } from '@/hooks/useTags';
+
+interface SessionSentimentTableProps {
+  dateRange?: DateRange;
+}
+
+// Sentiment per customer session, filterable by session tags
+export function SessionSentimentTable({ dateRange }: SessionSentimentTableProps) {
+  const { tags } = useTags();
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [sessions, setSessions] = useState<SessionSentimentSummary[]>([]);
+  const [tagMap, setTagMap] = useState<Record<string, string[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let disposed = false;
+    setLoading(true);
+
+    const load = async () => {
+      try {
+        const summaries = await hybridSentimentService.getSessionSummaries({
+          date_from: dateRange?.from?.toISOString(),
+          date_to: dateRange?.to?.toISOString(),
+          tag_ids: tagFilter
+        });
+        const sessionTags = await fetchSessionTagMap(summaries.map(summary => summary.session_id));
+        if (disposed) return;
+        setSessions(summaries);
+        setTagMap(sessionTags);
+        setError(null);
+      } catch (err) {
+        if (disposed) return;
+        console.error('Failed to load session sentiment:', err);
+        setError('Gagal memuat sentiment per sesi');
+      } finally {
+        if (!disposed) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      disposed = true;
+    };
+  }, [dateRange, tagFilter]);
+
+  const getSessionTags = (sessionId: string): ChatTag[] =>
+    (tagMap[sessionId] ?? [])
+      .map(id => tags.find(tag => tag.id === id))
+      .filter((tag): tag is ChatTag => !!tag);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Sessions</CardTitle>
+          <CardDescription>Sentiment per customer session, most recent first</CardDescription>
+        </div>
+        <TagFilter tags={tags} selected={tagFilter} onChange={setTagFilter} className="w-40" />
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="py-8 text-center text-sm text-destructive">{error}</p>
+        ) : sessions.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            {tagFilter.length > 0 ? 'No analyzed sessions with these tags' : 'No analyzed sessions in this period'}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-muted-foreground">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">Contact</th>
+                  <th className="py-2 pr-4 font-medium">Tags</th>
+                  <th className="py-2 pr-4 font-medium">Sentiment</th>
+                  <th className="py-2 pr-4 font-medium">Messages</th>
+                  <th className="py-2 font-medium">Satisfaction</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {sessions.map(session => (
+                  <tr key={session.session_id}>
+                    <td className="py-2 pr-4">
+                      <ContactName phoneNumber={session.session_id} className="font-medium" />
+                    </td>
+                    <td className="py-2 pr-4">
+                      <div className="flex flex-wrap gap-1">
+                        {getSessionTags(session.session_id).map(tag => <TagChip key={tag.id} tag={tag} />)}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-4">
+                      {session.dominant_sentiment ? (
+                        <SentimentBadge sentiment={session.dominant_sentiment} size="sm" />
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">{session.total_human_messages}</td>
+                    <td className="py-2">
+                      {session.satisfaction_score !== null
+                        ? `${Math.round(session.satisfaction_score * 100)}%`
+                        : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
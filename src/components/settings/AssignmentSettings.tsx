@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAgents } from '@/hooks/useAgents';
+import { cn } from '@/lib/utils';
+import { getSetting, setSetting, SETTINGS_KEYS } from '@/services/settingsService';
+import { getAgentName, setAcceptsAssignments } from '@/services/assignmentService';
+
+export function AssignmentSettings() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { agents, refresh } = useAgents();
+  const [autoAssign, setAutoAssign] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const currentAgent = agents.find(agent => agent.id === user?.id);
+
+  useEffect(() => {
+    getSetting(SETTINGS_KEYS.AUTO_ASSIGN_ENABLED).then(value => setAutoAssign(value === 'true'));
+  }, []);
+
+  const handleAutoAssignChange = async (enabled: boolean) => {
+    setIsUpdating(true);
+    const saved = await setSetting(SETTINGS_KEYS.AUTO_ASSIGN_ENABLED, String(enabled));
+    setIsUpdating(false);
+
+    if (!saved) {
+      toast({
+        title: "Error",
+        description: "Failed to save settings",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setAutoAssign(enabled);
+    toast({
+      title: "Success",
+      description: enabled ? "New conversations are assigned round-robin" : "Auto-assignment turned off",
+    });
+  };
+
+  const handleAcceptsChange = async (accepts: boolean) => {
+    if (!user) return;
+
+    setIsUpdating(true);
+    try {
+      await setAcceptsAssignments(user.id, accepts);
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save settings",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-lg font-medium mb-4">Assignment</h2>
+
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <Switch
+            id="autoAssign"
+            checked={autoAssign}
+            onCheckedChange={handleAutoAssignChange}
+            disabled={isUpdating}
+          />
+          <Label htmlFor="autoAssign">Auto-assign new conversations round-robin among online agents</Label>
+        </div>
+
+        {currentAgent && (
+          <div className="flex items-center gap-3">
+            <Switch
+              id="acceptsAssignments"
+              checked={currentAgent.accepts_assignments}
+              onCheckedChange={handleAcceptsChange}
+              disabled={isUpdating}
+            />
+            <Label htmlFor="acceptsAssignments">Include me in round-robin assignment</Label>
+          </div>
+        )}
+
+        {agents.length > 0 && (
+          <div>
+            <p className="text-sm font-medium mb-2">Agents</p>
+            <ul className="space-y-1">
+              {agents.map(agent => (
+                <li key={agent.id} className="flex items-center gap-2 text-sm">
+                  <span className={cn("h-2 w-2 rounded-full", agent.is_online ? "bg-green-500" : "bg-gray-300 dark:bg-gray-600")} />
+                  <span>{getAgentName(agent)}</span>
+                  {agent.email && agent.display_name && (
+                    <span className="text-muted-foreground">({agent.email})</span>
+                  )}
+                  {!agent.accepts_assignments && (
+                    <span className="text-xs text-muted-foreground">· excluded from round-robin</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { useCannedResponses } from '@/hooks/useCannedResponses';
+import { CannedResponse, CannedResponseInput, getTemplateVariables } from '@/services/cannedResponseService';
+
+// ContactFields that are useful in replies
+const TEMPLATE_VARIABLES = ['Name', 'Name and Org', 'Interested in', 'Budget', 'Email', 'Phone'];
+
+const EMPTY_FORM: CannedResponseInput = { title: '', shortcut: '', content: '' };
+
+export function CannedResponsesSettings() {
+  const { toast } = useToast();
+  const { responses, loading, error, create, update, remove } = useCannedResponses();
+  const [editing, setEditing] = useState<CannedResponse | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<CannedResponseInput>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<CannedResponse | null>(null);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (response: CannedResponse) => {
+    setEditing(response);
+    setForm({ title: response.title, shortcut: response.shortcut ?? '', content: response.content });
+    setIsDialogOpen(true);
+  };
+
+  const insertVariable = (variable: string) => {
+    setForm(prev => ({ ...prev, content: `${prev.content}{{${variable}}}` }));
+  };
+
+  const handleSave = async () => {
+    if (!form.title.trim() || !form.content.trim()) {
+      toast({
+        title: "Error",
+        description: "Title and message are required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editing) {
+        await update(editing.id, form);
+      } else {
+        await create(form);
+      }
+      setIsDialogOpen(false);
+      toast({
+        title: "Success",
+        description: "Saved reply stored",
+      });
+    } catch (err) {
+      console.error('Error saving canned response:', err);
+      toast({
+        title: "Error",
+        description: "Failed to save reply. Shortcuts must be unique.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+
+    try {
+      await remove(pendingDelete.id);
+      toast({
+        title: "Success",
+        description: "Saved reply deleted",
+      });
+    } catch (err) {
+      console.error('Error deleting canned response:', err);
+      toast({
+        title: "Error",
+        description: "Failed to delete reply",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-medium">Canned Responses</h2>
+          <p className="text-sm text-muted-foreground">
+            Type <span className="font-mono">/</span> in the chat input to insert a saved reply.
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          New reply
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading...</p>
+      ) : error ? (
+        <p className="text-destructive">{error}</p>
+      ) : responses.length === 0 ? (
+        <p className="text-muted-foreground">No saved replies yet.</p>
+      ) : (
+        <div className="divide-y">
+          {responses.map(response => (
+            <div key={response.id} className="flex items-start gap-4 py-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{response.title}</span>
+                  {response.shortcut && (
+                    <span className="text-xs text-muted-foreground font-mono">/{response.shortcut}</span>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-3">{response.content}</p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {getTemplateVariables(response.content).map(variable => (
+                    <Badge key={variable} variant="secondary" className="text-xs">{variable}</Badge>
+                  ))}
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => openEdit(response)} aria-label="Edit reply">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setPendingDelete(response)} aria-label="Delete reply">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit reply' : 'New reply'}</DialogTitle>
+            <DialogDescription>
+              Placeholders are filled from the customer's Airtable contact when the reply is inserted.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="cannedTitle">Title</Label>
+              <Input
+                id="cannedTitle"
+                value={form.title}
+                onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+                placeholder="Salam pembuka"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="cannedShortcut">Shortcut (optional)</Label>
+              <Input
+                id="cannedShortcut"
+                value={form.shortcut ?? ''}
+                onChange={(e) => setForm(prev => ({ ...prev, shortcut: e.target.value.replace(/\s/g, '') }))}
+                placeholder="salam"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="cannedContent">Message</Label>
+              <Textarea
+                id="cannedContent"
+                value={form.content}
+                onChange={(e) => setForm(prev => ({ ...prev, content: e.target.value }))}
+                placeholder="Halo {{Name}}, terima kasih sudah menghubungi kami..."
+                rows={5}
+                className="mt-1"
+              />
+              <div className="flex flex-wrap gap-1 mt-2">
+                {TEMPLATE_VARIABLES.map(variable => (
+                  <Button
+                    key={variable}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => insertVariable(variable)}
+                  >
+                    {`{{${variable}}}`}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete saved reply?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" will be removed for all agents.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { useContactsContext } from '@/contexts/ContactsContext';
+import { linkAllSessionsToContacts } from '@/services/customerService';
+
+export function CustomerProfileSettings() {
+  const { toast } = useToast();
+  const { contacts, loading } = useContactsContext();
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleLink = async () => {
+    setIsRunning(true);
+    try {
+      const matched = await linkAllSessionsToContacts(contacts);
+      toast({
+        title: "Success",
+        description: matched > 0
+          ? `${matched} conversation${matched === 1 ? '' : 's'} matched an Airtable contact`
+          : "No conversation matches an Airtable contact",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to link conversations",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-lg font-medium mb-4">Customer Profiles</h2>
+
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Conversations on different channels belong to one customer when their phone number or email matches the
+          same Airtable contact. This happens when a conversation is opened; linking now goes through every
+          conversation at once. Conversations that agents merged or unmerged by hand are left as they are.
+        </p>
+
+        <Button variant="outline" onClick={handleLink} disabled={isRunning || loading || contacts.length === 0}>
+          {isRunning ? "Linking..." : "Link conversations to contacts"}
+        </Button>
+      </div>
+    </Card>
+  );
+}
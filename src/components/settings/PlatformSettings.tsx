@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import { backfillSessionPlatforms } from '@/services/platformService';
+
+export function PlatformSettings() {
+  const { toast } = useToast();
+  const [isRunning, setIsRunning] = useState(false);
+
+  const handleBackfill = async () => {
+    setIsRunning(true);
+    try {
+      const updated = await backfillSessionPlatforms();
+      toast({
+        title: "Success",
+        description: updated > 0
+          ? `${updated} conversation${updated === 1 ? '' : 's'} reclassified`
+          : "Every conversation already has the right platform",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to reclassify conversations",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-lg font-medium mb-4">Channels</h2>
+
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          The platform of a conversation comes from the <code>trigger</code> field n8n sends with each message.
+          Agents can override it from the chat header. Reclassifying goes through the history of every
+          conversation without an override, which can take a while on large histories.
+        </p>
+
+        <Button variant="outline" onClick={handleBackfill} disabled={isRunning}>
+          {isRunning ? "Reclassifying..." : "Reclassify conversations"}
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { TagChip } from '@/components/chat/TagChip';
+import { cn } from '@/lib/utils';
+import { useTags } from '@/hooks/useTags';
+import { ChatTag, ChatTagInput, TAG_COLORS } from '@/services/tagService';
+
+const EMPTY_FORM: ChatTagInput = { name: '', color: TAG_COLORS[0] };
+
+export function TagsSettings() {
+  const { toast } = useToast();
+  const { tags, loading, error, create, update, remove } = useTags();
+  const [editing, setEditing] = useState<ChatTag | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<ChatTagInput>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<ChatTag | null>(null);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (tag: ChatTag) => {
+    setEditing(tag);
+    setForm({ name: tag.name, color: tag.color });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Tag name is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editing) {
+        await update(editing.id, form);
+      } else {
+        await create(form);
+      }
+      setIsDialogOpen(false);
+      toast({
+        title: "Success",
+        description: "Tag saved",
+      });
+    } catch (err) {
+      console.error('Error saving tag:', err);
+      toast({
+        title: "Error",
+        description: "Failed to save tag. Tag names must be unique.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+
+    try {
+      await remove(pendingDelete.id);
+      toast({
+        title: "Success",
+        description: "Tag deleted",
+      });
+    } catch (err) {
+      console.error('Error deleting tag:', err);
+      toast({
+        title: "Error",
+        description: "Failed to delete tag",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-medium">Tags</h2>
+          <p className="text-sm text-muted-foreground">
+            Label conversations from the chat header and filter by tag in Chat, Logs and Sentiment.
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          New tag
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading...</p>
+      ) : error ? (
+        <p className="text-destructive">{error}</p>
+      ) : tags.length === 0 ? (
+        <p className="text-muted-foreground">No tags yet.</p>
+      ) : (
+        <div className="divide-y">
+          {tags.map(tag => (
+            <div key={tag.id} className="flex items-center gap-4 py-3">
+              <div className="flex-1 min-w-0">
+                <TagChip tag={tag} className="text-xs" />
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => openEdit(tag)} aria-label="Edit tag">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setPendingDelete(tag)} aria-label="Delete tag">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit tag' : 'New tag'}</DialogTitle>
+            <DialogDescription>
+              Tags are shared by all agents.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="tagName">Name</Label>
+              <Input
+                id="tagName"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="komplain"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label>Color</Label>
+              <div className="flex flex-wrap gap-2 mt-2">
+                {TAG_COLORS.map(color => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => setForm(prev => ({ ...prev, color }))}
+                    className={cn(
+                      "h-7 w-7 rounded-full border-2",
+                      form.color === color ? "border-foreground" : "border-transparent"
+                    )}
+                    style={{ backgroundColor: color }}
+                    aria-label={`Color ${color}`}
+                  />
+                ))}
+              </div>
+            </div>
+            {form.name.trim() && (
+              <div>
+                <Label>Preview</Label>
+                <div className="mt-2">
+                  <TagChip tag={{ name: form.name.trim(), color: form.color ?? TAG_COLORS[0] }} className="text-xs" />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete tag?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.name}" will be removed from the catalog and from every conversation.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
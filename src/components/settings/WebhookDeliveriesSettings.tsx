@@ -0,0 +1,218 @@
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ChevronDown, ChevronRight, Loader2, RefreshCw, RotateCw } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { ContactName } from '@/components/chat/ContactName';
+import {
+  WebhookDeliveryWithAttempts,
+  fetchStuckWebhookDeliveries,
+  retryWebhookDelivery,
+  subscribeToWebhookDeliveries
+} from '@/services/webhookOutboxService';
+
+const getPreview = (delivery: WebhookDeliveryWithAttempts) => {
+  const payload = delivery.payload as { message?: { content?: string } } | null;
+  return payload?.message?.content || '(no text)';
+};
+
+// Outbox entries that did not go through on the first attempt
+export function WebhookDeliveriesSettings() {
+  const { toast } = useToast();
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryWithAttempts[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setDeliveries(await fetchStuckWebhookDeliveries());
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load webhook deliveries",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Drop deliveries from the list as soon as they go through
+  useEffect(() => {
+    return subscribeToWebhookDeliveries((delivery) => {
+      setDeliveries(prev => delivery.status === 'delivered'
+        ? prev.filter(item => item.id !== delivery.id)
+        : prev.map(item => item.id === delivery.id ? { ...item, ...delivery } : item));
+    });
+  }, []);
+
+  const handleRetry = async (delivery: WebhookDeliveryWithAttempts) => {
+    setRetryingId(delivery.id);
+    try {
+      const updated = await retryWebhookDelivery(delivery.id);
+      if (updated.status === 'delivered') {
+        toast({
+          title: "Success",
+          description: "Message delivered to the webhook",
+        });
+      } else {
+        toast({
+          title: "Error",
+          description: updated.last_error ? `Still failing: ${updated.last_error}` : "The webhook did not accept the message",
+          variant: "destructive",
+        });
+      }
+      await load();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to retry delivery",
+        variant: "destructive",
+      });
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium">Stuck Deliveries</h2>
+        <Button variant="outline" size="sm" onClick={load} disabled={loading}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground mb-4">
+        Events the endpoints did not accept. Failed deliveries are retried with increasing delays
+        (30 seconds, doubling up to an hour) and marked dead after their last attempt.
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : deliveries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Every event reached its endpoint.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>Contact</TableHead>
+              <TableHead>Endpoint</TableHead>
+              <TableHead>Message</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>Last error</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {deliveries.map(delivery => {
+              const isExpanded = expandedId === delivery.id;
+              return (
+                <Fragment key={delivery.id}>
+                  <TableRow>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => setExpandedId(isExpanded ? null : delivery.id)}
+                        aria-label={isExpanded ? "Hide attempts" : "Show attempts"}
+                      >
+                        {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
+                    <TableCell>
+                      {delivery.session_id ? (
+                        <ContactName phoneNumber={delivery.session_id} className="text-sm font-medium" />
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{delivery.webhook_endpoints?.name ?? '-'}</div>
+                      <div className="font-mono text-xs text-muted-foreground">{delivery.event_type}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="max-w-xs truncate text-muted-foreground">{getPreview(delivery)}</div>
+                    </TableCell>
+                    <TableCell>
+                      {delivery.status === 'dead' ? (
+                        <Badge variant="destructive">Dead</Badge>
+                      ) : delivery.status === 'delivering' ? (
+                        <Badge variant="secondary">No result</Badge>
+                      ) : (
+                        <Badge variant="outline">
+                          Retry {formatDistanceToNow(new Date(delivery.next_attempt_at), { addSuffix: true })}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{delivery.attempt_count}/{delivery.max_attempts}</TableCell>
+                    <TableCell>
+                      <div className="max-w-xs truncate text-sm" title={delivery.last_error ?? undefined}>
+                        {delivery.last_error || '-'}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRetry(delivery)}
+                        disabled={retryingId === delivery.id}
+                      >
+                        <RotateCw className="h-4 w-4 mr-2" />
+                        {retryingId === delivery.id ? "Retrying..." : "Retry"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                  {isExpanded && (
+                    <TableRow>
+                      <TableCell />
+                      <TableCell colSpan={7}>
+                        {delivery.webhook_delivery_attempts.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">No attempts recorded</p>
+                        ) : (
+                          <ul className="space-y-1 text-sm">
+                            {delivery.webhook_delivery_attempts.map(attempt => (
+                              <li key={attempt.id} className="flex gap-3">
+                                <span className="text-muted-foreground">#{attempt.attempt_number}</span>
+                                <span>{new Date(attempt.attempted_at).toLocaleString()}</span>
+                                <span className="text-muted-foreground">{attempt.source}</span>
+                                <span>{attempt.status_code ?? '-'}</span>
+                                <span className="truncate">{attempt.error || (attempt.succeeded ? 'OK' : '')}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+}
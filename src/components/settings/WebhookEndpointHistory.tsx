@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { WebhookEndpoint, fetchEndpointDeliveries } from '@/services/webhookEndpointService';
+import { WebhookDeliveryWithAttempts } from '@/services/webhookOutboxService';
+
+interface WebhookEndpointHistoryProps {
+  endpoint: WebhookEndpoint | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  delivered: 'default',
+  delivering: 'secondary',
+  pending: 'outline',
+  dead: 'destructive'
+};
+
+// Latest deliveries of one endpoint with every attempt
+export function WebhookEndpointHistory({ endpoint, onOpenChange }: WebhookEndpointHistoryProps) {
+  const [deliveries, setDeliveries] = useState<WebhookDeliveryWithAttempts[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDeliveries([]);
+    setError(null);
+    if (!endpoint) return;
+
+    let disposed = false;
+    setLoading(true);
+    fetchEndpointDeliveries(endpoint.id)
+      .then(fetched => {
+        if (!disposed) setDeliveries(fetched);
+      })
+      .catch(() => {
+        if (!disposed) setError('Failed to load delivery history');
+      })
+      .finally(() => {
+        if (!disposed) setLoading(false);
+      });
+
+    return () => {
+      disposed = true;
+    };
+  }, [endpoint]);
+
+  return (
+    <Dialog open={!!endpoint} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Delivery history</DialogTitle>
+          <DialogDescription>
+            Latest 50 deliveries to {endpoint?.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing has been sent to this endpoint yet.</p>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto pr-2 divide-y">
+            {deliveries.map(delivery => (
+              <div key={delivery.id} className="py-3 space-y-1">
+                <div className="flex items-center gap-2 text-sm">
+                  <Badge variant={STATUS_VARIANTS[delivery.status] ?? 'outline'} className="capitalize">
+                    {delivery.status}
+                  </Badge>
+                  <span className="font-mono text-xs">{delivery.event_type}</span>
+                  {delivery.session_id && (
+                    <span className="text-muted-foreground">{delivery.session_id}</span>
+                  )}
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {new Date(delivery.created_at).toLocaleString()}
+                  </span>
+                </div>
+                {delivery.webhook_delivery_attempts.map(attempt => (
+                  <div key={attempt.id} className="flex gap-3 pl-2 text-xs text-muted-foreground">
+                    <span>#{attempt.attempt_number}</span>
+                    <span>{new Date(attempt.attempted_at).toLocaleTimeString()}</span>
+                    <span>{attempt.source}</span>
+                    <span>{attempt.status_code ?? '-'}</span>
+                    {attempt.duration_ms !== null && <span>{attempt.duration_ms} ms</span>}
+                    <span className="truncate">{attempt.error || (attempt.succeeded ? 'OK' : '')}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
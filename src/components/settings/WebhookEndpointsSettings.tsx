@@ -0,0 +1,405 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, History, Pencil, Plus, Send, Trash2 } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { useWebhookEndpoints } from '@/hooks/useWebhookEndpoints';
+import { MessagePlatform } from '@/types/chat';
+import { PLATFORM_LABELS } from '@/services/platformService';
+import {
+  WebhookSchedulerStatus,
+  fetchWebhookSchedulerStatus,
+  testWebhookEndpoint
+} from '@/services/webhookOutboxService';
+import {
+  WEBHOOK_EVENT_TYPES,
+  WebhookEndpoint,
+  WebhookEndpointInput,
+  WebhookEventType
+} from '@/services/webhookEndpointService';
+import { WebhookEndpointHistory } from './WebhookEndpointHistory';
+
+const EMPTY_FORM: WebhookEndpointInput = {
+  name: '',
+  url: '',
+  event_types: ['message.outbound'],
+  platforms: [],
+  enabled: true
+};
+
+const toggle = <T,>(list: T[], value: T, checked: boolean) =>
+  checked ? [...list, value] : list.filter(item => item !== value);
+
+export function WebhookEndpointsSettings() {
+  const { toast } = useToast();
+  const { endpoints, loading, error, create, update, remove } = useWebhookEndpoints();
+  const [editing, setEditing] = useState<WebhookEndpoint | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<WebhookEndpointInput>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<WebhookEndpoint | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+  const [historyEndpoint, setHistoryEndpoint] = useState<WebhookEndpoint | null>(null);
+  const [scheduler, setScheduler] = useState<WebhookSchedulerStatus | null>(null);
+
+  useEffect(() => {
+    fetchWebhookSchedulerStatus()
+      .then(setScheduler)
+      .catch(err => console.error('Error loading webhook scheduler status:', err));
+  }, []);
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (endpoint: WebhookEndpoint) => {
+    setEditing(endpoint);
+    setForm({
+      name: endpoint.name,
+      url: endpoint.url,
+      event_types: endpoint.event_types,
+      platforms: endpoint.platforms,
+      enabled: endpoint.enabled
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.url.trim()) {
+      toast({
+        title: "Error",
+        description: "Name and URL are required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      new URL(form.url.trim());
+    } catch {
+      toast({
+        title: "Error",
+        description: "Enter a full URL, including https://",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (form.event_types.length === 0) {
+      toast({
+        title: "Error",
+        description: "Pick at least one event",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editing) {
+        await update(editing.id, form);
+      } else {
+        await create(form);
+      }
+      setIsDialogOpen(false);
+      toast({
+        title: "Success",
+        description: "Endpoint saved",
+      });
+    } catch (err) {
+      console.error('Error saving webhook endpoint:', err);
+      toast({
+        title: "Error",
+        description: "Failed to save endpoint",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleEnabled = async (endpoint: WebhookEndpoint, enabled: boolean) => {
+    try {
+      await update(endpoint.id, { enabled });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: "Failed to update endpoint",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleTest = async (endpoint: WebhookEndpoint) => {
+    setTestingId(endpoint.id);
+    try {
+      const delivery = await testWebhookEndpoint(endpoint.id);
+      if (delivery?.status === 'delivered') {
+        toast({
+          title: "Success",
+          description: `${endpoint.name} accepted the test request`,
+        });
+      } else {
+        toast({
+          title: "Error",
+          description: delivery?.last_error
+            ? `Test failed: ${delivery.last_error}`
+            : "The endpoint did not accept the test request",
+          variant: "destructive",
+        });
+      }
+    } catch (err) {
+      console.error('Error testing webhook endpoint:', err);
+      toast({
+        title: "Error",
+        description: "Failed to test endpoint",
+        variant: "destructive",
+      });
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+
+    try {
+      await remove(pendingDelete.id);
+      toast({
+        title: "Success",
+        description: "Endpoint deleted",
+      });
+    } catch (err) {
+      console.error('Error deleting webhook endpoint:', err);
+      toast({
+        title: "Error",
+        description: "Failed to delete endpoint",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-medium">Webhook Endpoints</h2>
+          <p className="text-sm text-muted-foreground">
+            Each endpoint receives the events it subscribes to, optionally for some platforms only.
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          New endpoint
+        </Button>
+      </div>
+
+      {scheduler && (!scheduler.enabled || scheduler.overdue > 0) && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>
+            {scheduler.enabled ? 'Deliveries are not being sent' : 'Automatic sending is off'}
+          </AlertTitle>
+          <AlertDescription>
+            {scheduler.enabled
+              ? 'The process-webhook-outbox job has not picked up queued deliveries.'
+              : 'pg_cron and pg_net are not set up on the database, so conversation events and retries are only queued.'}
+            {scheduler.overdue > 0 && ` ${scheduler.overdue} ${scheduler.overdue === 1 ? 'delivery is' : 'deliveries are'} waiting.`}
+            {' '}Send them from Stuck Deliveries.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading...</p>
+      ) : error ? (
+        <p className="text-destructive">{error}</p>
+      ) : endpoints.length === 0 ? (
+        <p className="text-muted-foreground">No endpoints yet. Replies are not sent anywhere until one receives outbound messages.</p>
+      ) : (
+        <div className="divide-y">
+          {endpoints.map(endpoint => (
+            <div key={endpoint.id} className="flex items-start gap-4 py-3">
+              <Switch
+                checked={endpoint.enabled}
+                onCheckedChange={(enabled) => handleToggleEnabled(endpoint, enabled)}
+                aria-label={endpoint.enabled ? "Disable endpoint" : "Enable endpoint"}
+                className="mt-1"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{endpoint.name}</span>
+                  {!endpoint.enabled && (
+                    <span className="text-xs text-muted-foreground">disabled</span>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground font-mono truncate">{endpoint.url}</p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {endpoint.event_types.map(eventType => (
+                    <Badge key={eventType} variant="secondary" className="text-xs font-mono">{eventType}</Badge>
+                  ))}
+                  {endpoint.platforms.map(platform => (
+                    <Badge key={platform} variant="outline" className="text-xs">
+                      {PLATFORM_LABELS[platform as MessagePlatform] ?? platform}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleTest(endpoint)}
+                disabled={testingId === endpoint.id}
+              >
+                <Send className="h-4 w-4 mr-2" />
+                {testingId === endpoint.id ? "Testing..." : "Test"}
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setHistoryEndpoint(endpoint)} aria-label="Delivery history">
+                <History className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => openEdit(endpoint)} aria-label="Edit endpoint">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setPendingDelete(endpoint)} aria-label="Delete endpoint">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit endpoint' : 'New endpoint'}</DialogTitle>
+            <DialogDescription>
+              Requests are signed with the secret below. Retries of failed deliveries go to the current URL.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="endpointName">Name</Label>
+              <Input
+                id="endpointName"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="n8n WhatsApp"
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="endpointUrl">URL</Label>
+              <Input
+                id="endpointUrl"
+                value={form.url}
+                onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+                placeholder="https://n8n.example.com/webhook/..."
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label>Events</Label>
+              <div className="space-y-2 mt-2">
+                {(Object.keys(WEBHOOK_EVENT_TYPES) as WebhookEventType[]).map(eventType => (
+                  <div key={eventType} className="flex items-start gap-2">
+                    <Checkbox
+                      id={`event-${eventType}`}
+                      checked={form.event_types.includes(eventType)}
+                      onCheckedChange={(checked) => setForm(prev => ({
+                        ...prev,
+                        event_types: toggle(prev.event_types, eventType, checked === true)
+                      }))}
+                    />
+                    <Label htmlFor={`event-${eventType}`} className="font-normal leading-tight">
+                      {WEBHOOK_EVENT_TYPES[eventType].label}
+                      <span className="block text-xs text-muted-foreground">
+                        <span className="font-mono">{eventType}</span> · {WEBHOOK_EVENT_TYPES[eventType].description}
+                      </span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <Label>Platforms</Label>
+              <p className="text-xs text-muted-foreground">Leave all unchecked to receive every platform.</p>
+              <div className="flex gap-4 mt-2">
+                {(Object.keys(PLATFORM_LABELS) as MessagePlatform[]).map(platform => (
+                  <div key={platform} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`platform-${platform}`}
+                      checked={form.platforms.includes(platform)}
+                      onCheckedChange={(checked) => setForm(prev => ({
+                        ...prev,
+                        platforms: toggle(prev.platforms, platform, checked === true)
+                      }))}
+                    />
+                    <Label htmlFor={`platform-${platform}`} className="font-normal">
+                      {PLATFORM_LABELS[platform]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete endpoint?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.name}" stops receiving events. Its delivery history is kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <WebhookEndpointHistory
+        endpoint={historyEndpoint}
+        onOpenChange={(open) => !open && setHistoryEndpoint(null)}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,276 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, Eye, EyeOff, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { getSetting, setSetting, SETTINGS_KEYS } from '@/services/settingsService';
+import {
+  WEBHOOK_VERIFICATION_SNIPPET,
+  isReservedWebhookHeader,
+  parseCustomHeaders,
+  rotateWebhookSigningSecret
+} from '@/services/webhookSigningService';
+
+interface HeaderRow {
+  name: string;
+  value: string;
+}
+
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9-]+$/;
+
+export function WebhookSecuritySettings() {
+  const { toast } = useToast();
+  const [secret, setSecret] = useState('');
+  const [rotatedAt, setRotatedAt] = useState<string | null>(null);
+  const [showSecret, setShowSecret] = useState(false);
+  const [bearerToken, setBearerToken] = useState('');
+  const [headers, setHeaders] = useState<HeaderRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+  const [confirmRotate, setConfirmRotate] = useState(false);
+
+  useEffect(() => {
+    Promise.all([
+      getSetting(SETTINGS_KEYS.WEBHOOK_SIGNING_SECRET),
+      getSetting(SETTINGS_KEYS.WEBHOOK_SIGNING_SECRET_ROTATED_AT),
+      getSetting(SETTINGS_KEYS.WEBHOOK_BEARER_TOKEN),
+      getSetting(SETTINGS_KEYS.WEBHOOK_CUSTOM_HEADERS)
+    ]).then(([storedSecret, storedRotatedAt, storedToken, storedHeaders]) => {
+      setSecret(storedSecret ?? '');
+      setRotatedAt(storedRotatedAt);
+      setBearerToken(storedToken ?? '');
+      setHeaders(Object.entries(parseCustomHeaders(storedHeaders)).map(([name, value]) => ({ name, value })));
+    });
+  }, []);
+
+  const copy = async (text: string, what: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Success",
+        description: `${what} copied to clipboard`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to copy ${what.toLowerCase()}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateHeader = (index: number, changes: Partial<HeaderRow>) => {
+    setHeaders(prev => prev.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const handleSave = async () => {
+    const rows = headers.filter(row => row.name.trim() || row.value.trim());
+    const invalid = rows.find(row => !HEADER_NAME_PATTERN.test(row.name.trim()));
+    if (invalid) {
+      toast({
+        title: "Error",
+        description: `"${invalid.name}" is not a valid header name`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const reserved = rows.find(row => isReservedWebhookHeader(row.name));
+    if (reserved) {
+      toast({
+        title: "Error",
+        description: `${reserved.name} is set by the dashboard and cannot be overridden`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const customHeaders = Object.fromEntries(rows.map(row => [row.name.trim(), row.value]));
+
+    setIsSaving(true);
+    const results = await Promise.all([
+      setSetting(SETTINGS_KEYS.WEBHOOK_BEARER_TOKEN, bearerToken.trim()),
+      setSetting(SETTINGS_KEYS.WEBHOOK_CUSTOM_HEADERS, JSON.stringify(customHeaders))
+    ]);
+    setIsSaving(false);
+
+    if (results.includes(false)) {
+      toast({
+        title: "Error",
+        description: "Failed to save settings",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setHeaders(rows);
+    toast({
+      title: "Success",
+      description: "Webhook authentication saved",
+    });
+  };
+
+  const handleRotate = async () => {
+    setConfirmRotate(false);
+    setIsRotating(true);
+    try {
+      const newSecret = await rotateWebhookSigningSecret();
+      setSecret(newSecret);
+      setRotatedAt(new Date().toISOString());
+      setShowSecret(true);
+      toast({
+        title: "Success",
+        description: "New secret generated. The previous one stays valid for 24 hours.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to rotate secret",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h2 className="text-lg font-medium mb-4">Signing &amp; Authentication</h2>
+
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="signingSecret">Signing secret</Label>
+          <div className="flex gap-2">
+            <Input
+              id="signingSecret"
+              readOnly
+              type={showSecret ? 'text' : 'password'}
+              value={secret}
+              className="font-mono"
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowSecret(!showSecret)}
+              aria-label={showSecret ? "Hide secret" : "Show secret"}
+            >
+              {showSecret ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => copy(secret, 'Secret')}
+              disabled={!secret}
+              aria-label="Copy secret"
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" onClick={() => setConfirmRotate(true)} disabled={isRotating}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              {isRotating ? "Rotating..." : "Rotate"}
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Every request carries <code>X-Webhook-Timestamp</code> and an HMAC-SHA256{' '}
+            <code>X-Webhook-Signature</code> of <code>timestamp.body</code>.
+            {rotatedAt && ` Last rotated ${formatDistanceToNow(new Date(rotatedAt), { addSuffix: true })}.`}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="bearerToken">Bearer token</Label>
+          <Input
+            id="bearerToken"
+            type="password"
+            value={bearerToken}
+            onChange={(e) => setBearerToken(e.target.value)}
+            placeholder="Optional, sent as Authorization: Bearer <token>"
+            autoComplete="off"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Custom headers</Label>
+          {headers.map((row, index) => (
+            <div key={index} className="flex gap-2">
+              <Input
+                value={row.name}
+                onChange={(e) => updateHeader(index, { name: e.target.value })}
+                placeholder="Header name"
+                aria-label="Header name"
+              />
+              <Input
+                value={row.value}
+                onChange={(e) => updateHeader(index, { value: e.target.value })}
+                placeholder="Value"
+                aria-label="Header value"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setHeaders(prev => prev.filter((_, i) => i !== index))}
+                aria-label="Remove header"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => setHeaders(prev => [...prev, { name: '', value: '' }])}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add header
+          </Button>
+        </div>
+
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save"}
+        </Button>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Verifying requests in n8n</Label>
+            <Button variant="ghost" size="sm" onClick={() => copy(WEBHOOK_VERIFICATION_SNIPPET, 'Snippet')}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Turn on "Raw Body" in the n8n Webhook node and check the signature against the raw body before
+            trusting the request. Requests older than five minutes should be rejected.
+          </p>
+          <pre className="rounded-md bg-muted p-4 text-xs overflow-x-auto">
+            <code>{WEBHOOK_VERIFICATION_SNIPPET}</code>
+          </pre>
+        </div>
+      </div>
+
+      <AlertDialog open={confirmRotate} onOpenChange={setConfirmRotate}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Rotate signing secret?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A new secret is generated. Requests are signed with both secrets for the next 24 hours,
+              update the receiving side before then.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRotate}>Rotate</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
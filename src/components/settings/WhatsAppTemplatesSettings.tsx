@@ -0,0 +1,352 @@
+import { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { useWhatsAppTemplates } from '@/hooks/useWhatsAppTemplates';
+import {
+  WHATSAPP_TEMPLATE_CATEGORIES,
+  WHATSAPP_TEMPLATE_STATUS_LABELS,
+  WhatsAppTemplate,
+  WhatsAppTemplateInput,
+  WhatsAppTemplateStatus,
+  getTemplateParameterCount
+} from '@/services/whatsappTemplateService';
+
+// Contact fields a parameter label can name to be prefilled in the chat
+const CONTACT_FIELD_LABELS = ['Name', 'Name and Org', 'Interested in', 'Budget', 'Email', 'Phone'];
+
+const EMPTY_FORM: WhatsAppTemplateInput = {
+  name: '',
+  language: 'id',
+  category: 'UTILITY',
+  body: '',
+  parameter_labels: [],
+  status: 'approved'
+};
+
+export function WhatsAppTemplatesSettings() {
+  const { toast } = useToast();
+  const { templates, loading, error, create, update, remove } = useWhatsAppTemplates();
+  const [editing, setEditing] = useState<WhatsAppTemplate | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<WhatsAppTemplateInput>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<WhatsAppTemplate | null>(null);
+
+  const parameterCount = getTemplateParameterCount(form.body);
+  const labels = form.parameter_labels ?? [];
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (template: WhatsAppTemplate) => {
+    setEditing(template);
+    setForm({
+      name: template.name,
+      language: template.language,
+      category: template.category,
+      body: template.body,
+      parameter_labels: template.parameter_labels,
+      status: template.status
+    });
+    setIsDialogOpen(true);
+  };
+
+  const addParameter = () => {
+    setForm(prev => ({ ...prev, body: `${prev.body}{{${getTemplateParameterCount(prev.body) + 1}}}` }));
+  };
+
+  const setLabel = (index: number, label: string) => {
+    setForm(prev => {
+      const next = Array.from({ length: parameterCount }, (_, i) => prev.parameter_labels?.[i] ?? '');
+      next[index] = label;
+      return { ...prev, parameter_labels: next };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.body.trim()) {
+      toast({
+        title: "Error",
+        description: "Name and body are required",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!/^[a-z0-9_]+$/.test(form.name.trim())) {
+      toast({
+        title: "Error",
+        description: "Use the template name as registered with WhatsApp: lowercase letters, digits and _",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // One label per parameter of the body
+      const input = {
+        ...form,
+        parameter_labels: Array.from({ length: parameterCount }, (_, i) => labels[i] ?? '')
+      };
+      if (editing) {
+        await update(editing.id, input);
+      } else {
+        await create(input);
+      }
+      setIsDialogOpen(false);
+      toast({
+        title: "Success",
+        description: "Template saved",
+      });
+    } catch (err) {
+      console.error('Error saving WhatsApp template:', err);
+      toast({
+        title: "Error",
+        description: "Failed to save template. Name and language must be unique.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+
+    try {
+      await remove(pendingDelete.id);
+      toast({
+        title: "Success",
+        description: "Template deleted",
+      });
+    } catch (err) {
+      console.error('Error deleting WhatsApp template:', err);
+      toast({
+        title: "Error",
+        description: "Failed to delete template",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-medium">WhatsApp Templates</h2>
+          <p className="text-sm text-muted-foreground">
+            Templates approved in WhatsApp Manager. Only these can be sent once the 24-hour window has closed.
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          New template
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-muted-foreground">Loading...</p>
+      ) : error ? (
+        <p className="text-destructive">{error}</p>
+      ) : templates.length === 0 ? (
+        <p className="text-muted-foreground">No templates yet.</p>
+      ) : (
+        <div className="divide-y">
+          {templates.map(template => (
+            <div key={template.id} className="flex items-start gap-4 py-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium font-mono">{template.name}</span>
+                  <Badge variant="outline" className="text-xs">{template.language}</Badge>
+                  <Badge variant="outline" className="text-xs">{template.category}</Badge>
+                  <Badge
+                    variant={template.status === 'approved' ? 'secondary' : template.status === 'rejected' ? 'destructive' : 'outline'}
+                    className="text-xs"
+                  >
+                    {WHATSAPP_TEMPLATE_STATUS_LABELS[template.status as WhatsAppTemplateStatus] ?? template.status}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-3">{template.body}</p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {template.parameter_labels.map((label, index) => (
+                    <Badge key={index} variant="secondary" className="text-xs">
+                      {`{{${index + 1}}}`} {label || 'free text'}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => openEdit(template)} aria-label="Edit template">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => setPendingDelete(template)} aria-label="Delete template">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit template' : 'New template'}</DialogTitle>
+            <DialogDescription>
+              Copy the name, language and body exactly as approved, WhatsApp rejects templates that differ.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="templateName">Name</Label>
+                <Input
+                  id="templateName"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value.toLowerCase().replace(/\s/g, '_') }))}
+                  placeholder="follow_up_order"
+                  className="mt-1 font-mono"
+                />
+              </div>
+              <div>
+                <Label htmlFor="templateLanguage">Language</Label>
+                <Input
+                  id="templateLanguage"
+                  value={form.language ?? ''}
+                  onChange={(e) => setForm(prev => ({ ...prev, language: e.target.value.replace(/\s/g, '') }))}
+                  placeholder="id"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label>Category</Label>
+                <Select
+                  value={form.category}
+                  onValueChange={(category) => setForm(prev => ({ ...prev, category }))}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WHATSAPP_TEMPLATE_CATEGORIES.map(category => (
+                      <SelectItem key={category} value={category}>{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Status</Label>
+                <Select
+                  value={form.status}
+                  onValueChange={(status) => setForm(prev => ({ ...prev, status }))}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(WHATSAPP_TEMPLATE_STATUS_LABELS).map(([status, label]) => (
+                      <SelectItem key={status} value={status}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="templateBody">Body</Label>
+              <Textarea
+                id="templateBody"
+                value={form.body}
+                onChange={(e) => setForm(prev => ({ ...prev, body: e.target.value }))}
+                placeholder="Halo {{1}}, pesanan {{2}} Anda sudah siap..."
+                rows={5}
+                className="mt-1"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-6 px-2 mt-2 text-xs"
+                onClick={addParameter}
+              >
+                {`Add {{${parameterCount + 1}}}`}
+              </Button>
+            </div>
+            {parameterCount > 0 && (
+              <div className="space-y-2">
+                <Label>Parameter labels</Label>
+                <p className="text-xs text-muted-foreground">
+                  A label that names a contact field, e.g. Name, is filled in from the contact when sending.
+                </p>
+                {Array.from({ length: parameterCount }, (_, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="w-10 text-sm font-mono text-muted-foreground">{`{{${index + 1}}}`}</span>
+                    <Input
+                      value={labels[index] ?? ''}
+                      onChange={(e) => setLabel(index, e.target.value)}
+                      list="whatsappTemplateFields"
+                      placeholder="Name"
+                    />
+                  </div>
+                ))}
+                <datalist id="whatsappTemplateFields">
+                  {CONTACT_FIELD_LABELS.map(field => <option key={field} value={field} />)}
+                </datalist>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete template?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.name}" will no longer be offered in the chat.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ interface ContactsContextType {
   contacts: ContactRecord[];
   loading: boolean;
   error: string | null;
+  getContact: (phoneNumber: string) => ContactRecord | null;
   getContactName: (phoneNumber: string) => string | null;
   refreshContacts: () => Promise<void>;
 }
@@ -0,0 +1,19 @@
+import { useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { touchAgentPresence, PRESENCE_HEARTBEAT_MS } from '@/services/assignmentService';
+
+/**
+ * Sends presence heartbeats while the dashboard is open, so round-robin
+ * assignment only picks agents who are online
+ */
+export const useAgentPresence = () => {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    touchAgentPresence();
+    const timer = setInterval(touchAgentPresence, PRESENCE_HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [user]);
+};
@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Agent } from '@/types/agent';
+import { fetchAgents, PRESENCE_HEARTBEAT_MS } from '@/services/assignmentService';
+import { logger } from '@/utils/logger';
+
+/**
+ * Agents available for assignment, refreshed periodically so the online
+ * indicators follow the presence heartbeats
+ */
+export const useAgents = () => {
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setAgents(await fetchAgents());
+    } catch (error) {
+      logger.error('Failed to load agents:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, PRESENCE_HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  return { agents, loading, refresh };
+};
@@ -0,0 +1,92 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BotStatus } from '@/types/chat';
+import { fetchBotStatus, setBotPaused, subscribeToBotStatus } from '@/services/botControlService';
+import { useToast } from '@/components/ui/use-toast';
+import { logger } from '@/utils/logger';
+
+/**
+ * Human takeover state of a session, kept in sync across agents
+ */
+export const useBotStatus = (sessionId: string | null) => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<BotStatus | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setStatus(null);
+      return;
+    }
+
+    let disposed = false;
+    setLoading(true);
+
+    fetchBotStatus(sessionId)
+      .then(fetched => {
+        if (!disposed) setStatus(fetched);
+      })
+      .catch(error => logger.error('Failed to load bot status:', error))
+      .finally(() => {
+        if (!disposed) setLoading(false);
+      });
+
+    const unsubscribe = subscribeToBotStatus(sessionId, (changed) => {
+      if (!disposed) setStatus(changed);
+    });
+
+    return () => {
+      disposed = true;
+      unsubscribe();
+    };
+  }, [sessionId]);
+
+  // Flip the status locally once the auto-resume deadline passes
+  useEffect(() => {
+    if (!status?.bot_paused || !status.bot_paused_until) return;
+
+    const remaining = new Date(status.bot_paused_until).getTime() - Date.now();
+    const timer = setTimeout(() => {
+      setStatus(prev => prev && {
+        ...prev,
+        bot_paused: false,
+        bot_paused_until: null,
+        bot_paused_at: null,
+        bot_paused_by: null
+      });
+    }, Math.max(remaining, 0));
+
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  const togglePaused = useCallback(async (paused: boolean) => {
+    if (!sessionId) return;
+
+    setUpdating(true);
+    try {
+      const updated = await setBotPaused(sessionId, paused);
+      setStatus(updated);
+      toast({
+        title: paused ? "Bot paused" : "Bot resumed",
+        description: paused
+          ? "You are now handling this conversation"
+          : "The bot will answer this customer again"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update bot status",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdating(false);
+    }
+  }, [sessionId, toast]);
+
+  return {
+    status,
+    loading,
+    updating,
+    togglePaused
+  };
+};
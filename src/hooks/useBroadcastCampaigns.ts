@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  BroadcastAudienceMember,
+  BroadcastCampaignInput,
+  BroadcastCampaignSummary,
+  createBroadcastCampaign,
+  deleteBroadcastCampaign,
+  fetchBroadcastCampaigns,
+  setBroadcastCampaignStatus,
+  startBroadcastCampaign,
+  subscribeToBroadcastCampaigns
+} from '@/services/broadcastService';
+import { logger } from '@/utils/logger';
+
+// Recipients are sent without touching the campaign row, so totals of a
+// running campaign are refreshed on an interval
+const SENDING_REFRESH_INTERVAL = 30 * 1000;
+
+/**
+ * Broadcast campaigns with their delivery totals
+ */
+export const useBroadcastCampaigns = () => {
+  const { user } = useAuth();
+  const [campaigns, setCampaigns] = useState<BroadcastCampaignSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setCampaigns(await fetchBroadcastCampaigns());
+      setError(null);
+    } catch (err) {
+      logger.error('Failed to load broadcast campaigns:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load campaigns');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToBroadcastCampaigns(() => {
+      refresh();
+    });
+  }, [refresh]);
+
+  const hasSending = campaigns.some(campaign => campaign.status === 'sending');
+
+  useEffect(() => {
+    if (!hasSending) return;
+
+    const interval = setInterval(refresh, SENDING_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasSending, refresh]);
+
+  const create = useCallback(async (input: BroadcastCampaignInput, audience: BroadcastAudienceMember[]) => {
+    if (!user) return;
+
+    const created = await createBroadcastCampaign(input, audience, user.id);
+    await refresh();
+    return created;
+  }, [user, refresh]);
+
+  const start = useCallback(async (id: string) => {
+    await startBroadcastCampaign(id);
+    await refresh();
+  }, [refresh]);
+
+  const pause = useCallback(async (id: string) => {
+    await setBroadcastCampaignStatus(id, 'paused');
+    await refresh();
+  }, [refresh]);
+
+  const resume = useCallback(async (id: string) => {
+    await setBroadcastCampaignStatus(id, 'sending');
+    await refresh();
+  }, [refresh]);
+
+  const cancel = useCallback(async (id: string) => {
+    await setBroadcastCampaignStatus(id, 'cancelled');
+    await refresh();
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteBroadcastCampaign(id);
+    setCampaigns(prev => prev.filter(campaign => campaign.id !== id));
+  }, []);
+
+  return {
+    campaigns,
+    loading,
+    error,
+    refresh,
+    create,
+    start,
+    pause,
+    resume,
+    cancel,
+    remove
+  };
+};
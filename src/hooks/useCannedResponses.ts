@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  CannedResponse,
+  CannedResponseInput,
+  fetchCannedResponses,
+  createCannedResponse,
+  updateCannedResponse,
+  deleteCannedResponse
+} from '@/services/cannedResponseService';
+import { logger } from '@/utils/logger';
+
+const sortByTitle = (list: CannedResponse[]) =>
+  [...list].sort((a, b) => a.title.localeCompare(b.title));
+
+/**
+ * Library of saved reply templates shared by all agents
+ */
+export const useCannedResponses = () => {
+  const { user } = useAuth();
+  const [responses, setResponses] = useState<CannedResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setResponses(await fetchCannedResponses());
+      setError(null);
+    } catch (err) {
+      logger.error('Failed to load canned responses:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load canned responses');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const create = useCallback(async (input: CannedResponseInput) => {
+    const created = await createCannedResponse(input, user?.id);
+    setResponses(prev => sortByTitle([...prev, created]));
+    return created;
+  }, [user]);
+
+  const update = useCallback(async (id: string, input: CannedResponseInput) => {
+    const updated = await updateCannedResponse(id, input);
+    setResponses(prev => sortByTitle(prev.map(response => response.id === id ? updated : response)));
+    return updated;
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteCannedResponse(id);
+    setResponses(prev => prev.filter(response => response.id !== id));
+  }, []);
+
+  return {
+    responses,
+    loading,
+    error,
+    refresh,
+    create,
+    update,
+    remove
+  };
+};
@@ -0,0 +1,146 @@
+import { useState, useEffect, useRef } from 'react';
+import { ChatMessage } from '@/types/chat';
+import {
+  fetchLatestMessageId,
+  fetchMessagesSince,
+  subscribeToNewMessages
+} from '@/services/chatService';
+import { logger } from '@/utils/logger';
+
+const MAX_RECONNECT_DELAY = 30000;
+const CATCH_UP_BATCH_SIZE = 500;
+// Ids remembered to drop duplicates; realtime and catch-up overlap by a few rows at most
+const DELIVERED_IDS_LIMIT = 1000;
+
+interface UseChatRealtimeOptions {
+  enabled?: boolean;
+  onMessage: (message: ChatMessage) => void;
+}
+
+/**
+ * Keeps a live subscription on n8n_chat_histories inserts.
+ * On reconnect (channel error, timeout or the browser coming back online)
+ * it re-subscribes with backoff and replays every row missed in between.
+ */
+export const useChatRealtime = ({ enabled = true, onMessage }: UseChatRealtimeOptions) => {
+  const [isConnected, setIsConnected] = useState(false);
+
+  // Keep the latest callback without re-subscribing on every render
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let unsubscribe: (() => void) | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let reconnectAttempts = 0;
+    // Highest id seen, only used as the catch-up cursor. Ids from concurrent
+    // transactions commit out of order, so a lower id can still arrive live.
+    let lastSeenId: number | null = null;
+    const deliveredIds = new Set<number>();
+    let connection = 0;
+    let disposed = false;
+
+    const deliver = (message: ChatMessage) => {
+      const id = Number(message.id);
+      if (deliveredIds.has(id)) return;
+
+      deliveredIds.add(id);
+      if (deliveredIds.size > DELIVERED_IDS_LIMIT) {
+        // Sets iterate in insertion order, so this drops the oldest id
+        deliveredIds.delete(deliveredIds.values().next().value as number);
+      }
+      if (lastSeenId === null || id > lastSeenId) lastSeenId = id;
+      onMessageRef.current(message);
+    };
+
+    const catchUp = async () => {
+      try {
+        if (lastSeenId === null) {
+          lastSeenId = await fetchLatestMessageId();
+          return;
+        }
+
+        const startId = lastSeenId;
+        let missed: ChatMessage[];
+        do {
+          missed = await fetchMessagesSince(lastSeenId, CATCH_UP_BATCH_SIZE);
+          missed.forEach(deliver);
+        } while (!disposed && missed.length === CATCH_UP_BATCH_SIZE);
+
+        if (lastSeenId !== startId) {
+          logger.info('Caught up on missed chat messages:', { from: startId, to: lastSeenId });
+        }
+      } catch (error) {
+        logger.error('Failed to catch up on missed chat messages:', error as Error);
+      }
+    };
+
+    const scheduleReconnect = () => {
+      if (disposed || reconnectTimer) return;
+
+      const delay = Math.min(1000 * 2 ** reconnectAttempts, MAX_RECONNECT_DELAY);
+      reconnectAttempts++;
+      logger.warn('Chat realtime disconnected, reconnecting:', { delay, reconnectAttempts });
+
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        connect();
+      }, delay);
+    };
+
+    const connect = () => {
+      // Status events from a channel we already replaced are ignored
+      const current = ++connection;
+      unsubscribe?.();
+      unsubscribe = subscribeToNewMessages(deliver, (status) => {
+        if (disposed || current !== connection) return;
+
+        switch (status) {
+          case 'SUBSCRIBED':
+            setIsConnected(true);
+            reconnectAttempts = 0;
+            catchUp();
+            break;
+          case 'CHANNEL_ERROR':
+          case 'TIMED_OUT':
+          case 'CLOSED':
+            setIsConnected(false);
+            scheduleReconnect();
+            break;
+        }
+      });
+    };
+
+    const handleOnline = () => {
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      reconnectAttempts = 0;
+      connect();
+    };
+
+    const handleOffline = () => {
+      setIsConnected(false);
+    };
+
+    connect();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      disposed = true;
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+      unsubscribe?.();
+      setIsConnected(false);
+    };
+  }, [enabled]);
+
+  return { isConnected };
+};
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { ContactRecord } from '@/types/contact';
-import { contactService } from '@/services/contactService';
+import { contactService, normalizePhoneNumber } from '@/services/contactService';
 
 export function useContacts() {
   const [contacts, setContacts] = useState<ContactRecord[]>([]);
@@ -34,28 +34,7 @@ export function useContacts() {
     }
   };
 
-  const normalizePhoneNumber = (phone: string): string => {
-    // Check if phone is null, undefined, or empty
-    if (!phone || typeof phone !== 'string') {
-      return '';
-    }
-    
-    // Remove any non-digit characters
-    const digits = phone.replace(/\D/g, '');
-    
-    // If the number starts with '62', keep it as is
-    // If it starts with '0', replace '0' with '62'
-    // Otherwise, assume it's a local number and add '62'
-    if (digits.startsWith('62')) {
-      return digits;
-    } else if (digits.startsWith('0')) {
-      return '62' + digits.slice(1);
-    } else {
-      return '62' + digits;
-    }
-  };
-
-  const getContactName = (phoneNumber: string): string | null => {
+  const getContact = (phoneNumber: string): ContactRecord | null => {
     if (!phoneNumber || typeof phoneNumber !== 'string') return null;
 
     // Check if contacts array is valid
@@ -82,6 +61,11 @@ export function useContacts() {
       return match;
     });
 
+    return contact || null;
+  };
+
+  const getContactName = (phoneNumber: string): string | null => {
+    const contact = getContact(phoneNumber);
     return contact ? contact.fields["Name and Org"] : null;
   };
 
@@ -89,6 +73,7 @@ export function useContacts() {
     contacts,
     loading,
     error,
+    getContact,
     getContactName,
     refreshContacts: fetchContacts
   };
@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ContactRecord } from '@/types/contact';
+import {
+  CustomerProfile,
+  fetchCustomerProfile,
+  findContactForSession,
+  linkSessionsToContact,
+  mergeCustomerSessions,
+  subscribeToCustomerSessions,
+  unmergeCustomerSession
+} from '@/services/customerService';
+import { logger } from '@/utils/logger';
+
+/**
+ * Customer profile of a session. A session that is not linked yet but
+ * matches an Airtable contact by phone or email is linked on first open.
+ */
+export const useCustomerProfile = (
+  sessionId: string | null,
+  senderName: string | null | undefined,
+  contacts: ContactRecord[]
+) => {
+  const [profile, setProfile] = useState<CustomerProfile | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Sessions already matched in this tab, so an unlinked session is not retried on every refresh
+  const autoLinked = useRef(new Set<string>());
+
+  const refresh = useCallback(async () => {
+    if (!sessionId) return;
+
+    try {
+      let fetched = await fetchCustomerProfile(sessionId);
+
+      if (!fetched && contacts.length > 0 && !autoLinked.current.has(sessionId)) {
+        autoLinked.current.add(sessionId);
+        const contact = findContactForSession(contacts, [sessionId, senderName]);
+        if (contact) {
+          await linkSessionsToContact(contact, [sessionId]);
+          fetched = await fetchCustomerProfile(sessionId);
+        }
+      }
+
+      setProfile(fetched);
+    } catch (error) {
+      logger.error('Failed to load customer profile:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, senderName, contacts]);
+
+  useEffect(() => {
+    setProfile(null);
+    if (!sessionId) return;
+
+    setLoading(true);
+    refresh();
+  }, [sessionId, refresh]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    return subscribeToCustomerSessions(() => {
+      refresh();
+    });
+  }, [sessionId, refresh]);
+
+  const merge = useCallback(async (otherSessionId: string) => {
+    if (!sessionId) return;
+    await mergeCustomerSessions(sessionId, otherSessionId);
+    await refresh();
+  }, [sessionId, refresh]);
+
+  const unmerge = useCallback(async (linkedSessionId: string) => {
+    await unmergeCustomerSession(linkedSessionId);
+    await refresh();
+  }, [refresh]);
+
+  return {
+    profile,
+    loading,
+    refresh,
+    merge,
+    unmerge
+  };
+};
@@ -0,0 +1,44 @@
+import { useState, useEffect, useRef } from 'react';
+import { ChatMessage } from '@/types/chat';
+import { fetchMessageReceipts, MessageReceipt, subscribeToMessageReceipts } from '@/services/receiptService';
+import { logger } from '@/utils/logger';
+
+/**
+ * Delivery receipts of the outbound messages loaded for a session, keyed by
+ * message id and kept current as n8n reports new states
+ */
+export const useMessageReceipts = (sessionId: string | null, messages: ChatMessage[]) => {
+  const [receipts, setReceipts] = useState<Record<string, MessageReceipt>>({});
+  const requestedIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    setReceipts({});
+    requestedIds.current = new Set();
+    if (!sessionId) return;
+
+    return subscribeToMessageReceipts(sessionId, (receipt) => {
+      setReceipts(prev => ({ ...prev, [receipt.message_id.toString()]: receipt }));
+    });
+  }, [sessionId]);
+
+  // Fetch receipts for outbound messages as pages are loaded
+  useEffect(() => {
+    const missing = messages
+      .filter(msg => msg.session_id === sessionId && msg.message.type === 'ai' && !requestedIds.current.has(msg.id))
+      .map(msg => msg.id);
+    if (missing.length === 0) return;
+
+    missing.forEach(id => requestedIds.current.add(id));
+    fetchMessageReceipts(missing.map(Number))
+      .then(fetched => {
+        // Receipts pushed in the meantime are newer than the fetched ones
+        setReceipts(prev => ({ ...fetched, ...prev }));
+      })
+      .catch(error => {
+        logger.error('Failed to load message receipts:', error);
+        missing.forEach(id => requestedIds.current.delete(id));
+      });
+  }, [sessionId, messages]);
+
+  return receipts;
+};
@@ -0,0 +1,78 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ChatSearchResult } from '@/types/chat';
+import { searchChatMessages } from '@/services/chatService';
+import { logger } from '@/utils/logger';
+
+const SEARCH_DEBOUNCE_MS = 300;
+const PAGE_SIZE = 20;
+
+/**
+ * Debounced full-text search over all chat messages. Results of a query that
+ * was replaced while in flight are discarded.
+ */
+export const useMessageSearch = (query: string) => {
+  const [results, setResults] = useState<ChatSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    const currentRequest = ++requestId.current;
+    const trimmed = query.trim();
+
+    if (!trimmed) {
+      setResults([]);
+      setHasMore(false);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const found = await searchChatMessages(trimmed, { limit: PAGE_SIZE });
+        if (currentRequest !== requestId.current) return;
+        setResults(found);
+        setHasMore(found.length === PAGE_SIZE);
+        setError(null);
+      } catch (err) {
+        if (currentRequest !== requestId.current) return;
+        logger.error('Message search failed:', err);
+        setError('Search failed');
+        setResults([]);
+      } finally {
+        if (currentRequest === requestId.current) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const loadMore = useCallback(async () => {
+    const trimmed = query.trim();
+    if (!trimmed || loading || !hasMore) return;
+
+    const currentRequest = requestId.current;
+    setLoading(true);
+    try {
+      const found = await searchChatMessages(trimmed, { limit: PAGE_SIZE, offset: results.length });
+      if (currentRequest !== requestId.current) return;
+      setResults(prev => [...prev, ...found]);
+      setHasMore(found.length === PAGE_SIZE);
+    } catch (err) {
+      logger.error('Loading more search results failed:', err);
+    } finally {
+      if (currentRequest === requestId.current) setLoading(false);
+    }
+  }, [query, loading, hasMore, results.length]);
+
+  return {
+    results,
+    loading,
+    hasMore,
+    error,
+    loadMore
+  };
+};
@@ -1,5 +1,13 @@
 import { useState, useEffect, useCallback } from 'react';
 import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  AgentNotification,
+  fetchAgentNotifications,
+  markAgentNotificationRead,
+  markAllAgentNotificationsRead,
+  subscribeToAgentNotifications
+} from '@/services/notificationService';
 
 export interface Notification {
   id: string;
@@ -19,7 +27,25 @@ interface NotificationPermission {
   default: boolean;
 }
 
+// Stored notifications link to the conversation they are about
+const toNotification = (row: AgentNotification): Notification => ({
+  id: row.id,
+  type: 'message',
+  title: row.title,
+  message: row.body,
+  timestamp: new Date(row.created_at),
+  read: !!row.read_at,
+  priority: row.type === 'mention' ? 'high' : 'medium',
+  actionUrl: row.session_id ? `/chat?session=${encodeURIComponent(row.session_id)}` : undefined,
+  metadata: {
+    stored: true,
+    sessionId: row.session_id,
+    noteId: row.note_id,
+  },
+});
+
 export const useNotifications = () => {
+  const { user } = useAuth();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [permission, setPermission] = useState<NotificationPermission>({
@@ -84,16 +110,13 @@ export const useNotifications = () => {
     }
   }, [permission.granted]);
 
-  // Add notification
-  const addNotification = useCallback((notification: Omit<Notification, 'id' | 'timestamp' | 'read'>) => {
-    const newNotification: Notification = {
-      ...notification,
-      id: crypto.randomUUID(),
-      timestamp: new Date(),
-      read: false,
-    };
-
-    setNotifications(prev => [newNotification, ...prev]);
+  // Show a new notification in the list, the browser and a toast
+  const pushNotification = useCallback((newNotification: Notification) => {
+    setNotifications(prev =>
+      prev.some(notification => notification.id === newNotification.id)
+        ? prev
+        : [newNotification, ...prev]
+    );
     
     // Show browser notification
     showBrowserNotification(newNotification);
@@ -104,12 +127,25 @@ export const useNotifications = () => {
       description: newNotification.message,
       variant: newNotification.type === 'error' ? 'destructive' : 'default',
     });
+  }, [showBrowserNotification]);
+
+  // Add notification
+  const addNotification = useCallback((notification: Omit<Notification, 'id' | 'timestamp' | 'read'>) => {
+    const newNotification: Notification = {
+      ...notification,
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      read: false,
+    };
+
+    pushNotification(newNotification);
 
     return newNotification.id;
-  }, [showBrowserNotification]);
+  }, [pushNotification]);
 
   // Mark notification as read
   const markAsRead = useCallback((id: string) => {
+    const target = notifications.find(notification => notification.id === id);
     setNotifications(prev => 
       prev.map(notification => 
         notification.id === id 
@@ -117,14 +153,26 @@ export const useNotifications = () => {
           : notification
       )
     );
-  }, []);
+
+    if (target?.metadata?.stored && !target.read) {
+      markAgentNotificationRead(id).catch(error => {
+        console.error('Failed to mark notification read:', error);
+      });
+    }
+  }, [notifications]);
 
   // Mark all notifications as read
   const markAllAsRead = useCallback(() => {
     setNotifications(prev => 
       prev.map(notification => ({ ...notification, read: true }))
     );
-  }, []);
+
+    if (user) {
+      markAllAgentNotificationsRead(user.id).catch(error => {
+        console.error('Failed to mark notifications read:', error);
+      });
+    }
+  }, [user]);
 
   // Remove notification
   const removeNotification = useCallback((id: string) => {
@@ -141,97 +189,35 @@ export const useNotifications = () => {
     return notifications.filter(notification => !notification.read);
   }, [notifications]);
 
-  // Real-time connection simulation (replace with actual WebSocket/SSE)
+  // Load stored notifications (mentions in internal notes) and follow new ones
   useEffect(() => {
-    let eventSource: EventSource | null = null;
-    let reconnectInterval: NodeJS.Timeout | null = null;
-
-    const connect = () => {
-      try {
-        // Replace with actual SSE endpoint
-        eventSource = new EventSource('/api/notifications/stream');
-        
-        eventSource.onopen = () => {
-          console.log('Notifications connection established');
-          setIsConnected(true);
-          if (reconnectInterval) {
-            clearInterval(reconnectInterval);
-            reconnectInterval = null;
-          }
-        };
-
-        eventSource.onmessage = (event) => {
-          try {
-            const notification = JSON.parse(event.data);
-            addNotification(notification);
-          } catch (error) {
-            console.error('Failed to parse notification:', error);
-          }
-        };
-
-        eventSource.onerror = () => {
-          console.warn('Notifications connection lost');
-          setIsConnected(false);
-          eventSource?.close();
-          
-          // Attempt to reconnect after 5 seconds
-          if (!reconnectInterval) {
-            reconnectInterval = setInterval(connect, 5000);
-          }
-        };
-
-      } catch (error) {
-        console.error('Failed to establish notifications connection:', error);
+    if (!user) return;
+
+    let disposed = false;
+    fetchAgentNotifications(user.id)
+      .then(rows => {
+        if (disposed) return;
+        const stored = rows.map(toNotification);
+        setNotifications(prev => [
+          ...prev.filter(notification => !stored.some(item => item.id === notification.id)),
+          ...stored
+        ].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime()));
+        setIsConnected(true);
+      })
+      .catch(error => {
+        console.error('Failed to load notifications:', error);
         setIsConnected(false);
-      }
-    };
-
-    // Mock real-time notifications for demo
-    const mockNotifications = () => {
-      const mockData = [
-        {
-          type: 'message' as const,
-          title: 'New Message',
-          message: 'You have received a new message from customer',
-          priority: 'medium' as const,
-          actionUrl: '/chat'
-        },
-        {
-          type: 'reminder' as const,
-          title: 'Calendar Reminder',
-          message: 'Meeting starts in 15 minutes',
-          priority: 'high' as const,
-          actionUrl: '/calendar'
-        },
-        {
-          type: 'system' as const,
-          title: 'System Update',
-          message: 'System maintenance scheduled for tonight',
-          priority: 'low' as const,
-        }
-      ];
-
-      // Simulate periodic notifications
-      const interval = setInterval(() => {
-        const randomNotification = mockData[Math.floor(Math.random() * mockData.length)];
-        addNotification(randomNotification);
-      }, 30000); // Every 30 seconds
-
-      return () => clearInterval(interval);
-    };
+      });
 
-    // Use mock notifications if real connection fails
-    connect();
-    const cleanup = mockNotifications();
+    const unsubscribe = subscribeToAgentNotifications(user.id, (row) => {
+      pushNotification(toNotification(row));
+    });
 
     return () => {
-      eventSource?.close();
-      if (reconnectInterval) {
-        clearInterval(reconnectInterval);
-      }
-      cleanup();
+      disposed = true;
+      unsubscribe();
     };
-  }, [addNotification]);
+  }, [user, pushNotification]);
 
   // Update unread count
   useEffect(() => {
@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/components/ui/use-toast';
+import { ReplyLock } from '@/types/chat';
+import {
+  REPLY_LOCK_MINUTES,
+  acquireReplyLock,
+  fetchReplyLock,
+  releaseReplyLock,
+  subscribeToReplyLock
+} from '@/services/sessionPresenceService';
+import { logger } from '@/utils/logger';
+
+/**
+ * Soft reply lock of a session, kept in sync across agents
+ */
+export const useReplyLock = (sessionId: string | null) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [lock, setLock] = useState<ReplyLock | null>(null);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    setLock(null);
+    if (!sessionId) return;
+
+    let disposed = false;
+    fetchReplyLock(sessionId)
+      .then(fetched => {
+        if (!disposed) setLock(fetched);
+      })
+      .catch(error => logger.error('Failed to load reply lock:', error));
+
+    const unsubscribe = subscribeToReplyLock(sessionId, (changed) => {
+      if (!disposed) setLock(changed);
+    });
+
+    return () => {
+      disposed = true;
+      unsubscribe();
+    };
+  }, [sessionId]);
+
+  // Drop the lock locally once it lapses
+  useEffect(() => {
+    if (!lock) return;
+
+    const remaining = new Date(lock.locked_until).getTime() - Date.now();
+    const timer = setTimeout(() => setLock(null), Math.max(remaining, 0));
+    return () => clearTimeout(timer);
+  }, [lock]);
+
+  const acquire = useCallback(async () => {
+    if (!sessionId) return;
+
+    setUpdating(true);
+    try {
+      setLock(await acquireReplyLock(sessionId));
+      toast({
+        title: "Conversation locked",
+        description: `Only you can reply for the next ${REPLY_LOCK_MINUTES} minutes`
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Another agent already holds the reply lock",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdating(false);
+    }
+  }, [sessionId, toast]);
+
+  const release = useCallback(async () => {
+    if (!sessionId) return;
+
+    setUpdating(true);
+    try {
+      await releaseReplyLock(sessionId);
+      setLock(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to release the reply lock",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdating(false);
+    }
+  }, [sessionId, toast]);
+
+  const isMine = !!lock && lock.locked_by === user?.id;
+
+  return {
+    lock,
+    isMine,
+    isLockedByOther: !!lock && !isMine,
+    updating,
+    acquire,
+    release
+  };
+};
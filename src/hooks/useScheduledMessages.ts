@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  ScheduledMessage,
+  fetchScheduledMessages,
+  scheduleMessage,
+  updateScheduledMessage,
+  cancelScheduledMessage,
+  subscribeToScheduledMessages
+} from '@/services/scheduledMessageService';
+import { logger } from '@/utils/logger';
+
+const isWaiting = (message: ScheduledMessage) =>
+  message.status === 'pending' || message.status === 'failed';
+
+// Keeps the messages that have not gone out, soonest first
+const upsert = (list: ScheduledMessage[], changed: ScheduledMessage) => {
+  const others = list.filter(message => message.id !== changed.id);
+  if (!isWaiting(changed)) return others;
+  return [...others, changed].sort((a, b) => a.send_at.localeCompare(b.send_at));
+};
+
+/**
+ * Scheduled messages of a session that are still waiting to be sent, kept in
+ * sync with other agents and the dispatcher
+ */
+export const useScheduledMessages = (sessionId: string | null) => {
+  const { user } = useAuth();
+  const [scheduledMessages, setScheduledMessages] = useState<ScheduledMessage[]>([]);
+
+  useEffect(() => {
+    setScheduledMessages([]);
+    if (!sessionId || !user) return;
+
+    let disposed = false;
+    fetchScheduledMessages(sessionId)
+      .then(fetched => {
+        if (!disposed) setScheduledMessages(fetched);
+      })
+      .catch(error => {
+        logger.error('Failed to load scheduled messages:', error);
+      });
+
+    const unsubscribe = subscribeToScheduledMessages(sessionId, (changed) => {
+      setScheduledMessages(prev => upsert(prev, changed));
+    });
+
+    return () => {
+      disposed = true;
+      unsubscribe();
+    };
+  }, [sessionId, user]);
+
+  const schedule = useCallback(async (content: string, sendAt: Date) => {
+    if (!sessionId || !user) return;
+
+    const created = await scheduleMessage(sessionId, content, sendAt, user.id);
+    setScheduledMessages(prev => upsert(prev, created));
+    return created;
+  }, [sessionId, user]);
+
+  const update = useCallback(async (id: string, content: string, sendAt: Date) => {
+    const updated = await updateScheduledMessage(id, content, sendAt);
+    setScheduledMessages(prev => upsert(prev, updated));
+    return updated;
+  }, []);
+
+  const cancel = useCallback(async (id: string) => {
+    const cancelled = await cancelScheduledMessage(id);
+    setScheduledMessages(prev => upsert(prev, cancelled));
+  }, []);
+
+  return { scheduledMessages, schedule, update, cancel };
+};
@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ChatMessage } from '@/types/chat';
+import {
+  QueuedMessage,
+  QueuedMessageInput,
+  flushSendQueue,
+  listQueuedMessages,
+  queueMessage,
+  removeQueuedMessage,
+  retryQueuedMessage,
+  subscribeToSendQueue
+} from '@/services/sendQueueService';
+import { logger } from '@/utils/logger';
+
+/**
+ * Replies queued in the browser while offline. The queue is replayed when
+ * the connection returns and when the dashboard opens; onSent gets every
+ * message that went out, of any session.
+ */
+export const useSendQueue = (
+  sessionId: string | null,
+  onSent: (message: ChatMessage, queued: QueuedMessage) => void
+) => {
+  const [queuedMessages, setQueuedMessages] = useState<QueuedMessage[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const onSentRef = useRef(onSent);
+  onSentRef.current = onSent;
+
+  const refresh = useCallback(async () => {
+    if (!sessionId) {
+      setQueuedMessages([]);
+      return;
+    }
+
+    try {
+      setQueuedMessages(await listQueuedMessages(sessionId));
+    } catch (error) {
+      logger.error('Failed to load queued messages:', error);
+    }
+  }, [sessionId]);
+
+  const flush = useCallback(async () => {
+    try {
+      await flushSendQueue((message, queued) => onSentRef.current(message, queued));
+    } catch (error) {
+      logger.error('Failed to replay queued messages:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return subscribeToSendQueue(refresh);
+  }, [refresh]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      flush();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    // Messages left from an earlier visit
+    if (navigator.onLine) flush();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [flush]);
+
+  const enqueue = useCallback((input: QueuedMessageInput) => queueMessage(input), []);
+
+  const retry = useCallback(async (clientMessageId: string) => {
+    await retryQueuedMessage(clientMessageId);
+    if (navigator.onLine) await flush();
+  }, [flush]);
+
+  const discard = useCallback((clientMessageId: string) => removeQueuedMessage(clientMessageId), []);
+
+  return {
+    queuedMessages,
+    isOnline,
+    enqueue,
+    retry,
+    discard
+  };
+};
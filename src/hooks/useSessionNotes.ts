@@ -0,0 +1,71 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  ChatNote,
+  ChatNoteInput,
+  fetchSessionNotes,
+  createNote,
+  deleteNote,
+  subscribeToSessionNotes
+} from '@/services/noteService';
+import { logger } from '@/utils/logger';
+
+const sortByCreatedAt = (list: ChatNote[]) =>
+  [...list].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+/**
+ * Internal notes of a session, kept in sync with other agents
+ */
+export const useSessionNotes = (sessionId: string | null) => {
+  const { user } = useAuth();
+  const [notes, setNotes] = useState<ChatNote[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setNotes([]);
+    if (!sessionId || !user) return;
+
+    let disposed = false;
+    setLoading(true);
+    fetchSessionNotes(sessionId)
+      .then(fetched => {
+        if (!disposed) setNotes(fetched);
+      })
+      .catch(error => {
+        logger.error('Failed to load notes:', error);
+      })
+      .finally(() => {
+        if (!disposed) setLoading(false);
+      });
+
+    const unsubscribe = subscribeToSessionNotes(sessionId, (payload) => {
+      if (payload.eventType === 'DELETE') {
+        const removedId = payload.old.id;
+        setNotes(prev => prev.filter(note => note.id !== removedId));
+      } else {
+        const changed = payload.new;
+        setNotes(prev => sortByCreatedAt([...prev.filter(note => note.id !== changed.id), changed]));
+      }
+    });
+
+    return () => {
+      disposed = true;
+      unsubscribe();
+    };
+  }, [sessionId, user]);
+
+  const add = useCallback(async (input: Omit<ChatNoteInput, 'sessionId'>) => {
+    if (!sessionId || !user) return;
+
+    const created = await createNote({ ...input, sessionId }, user.id);
+    setNotes(prev => sortByCreatedAt([...prev.filter(note => note.id !== created.id), created]));
+    return created;
+  }, [sessionId, user]);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteNote(id);
+    setNotes(prev => prev.filter(note => note.id !== id));
+  }, []);
+
+  return { notes, loading, add, remove };
+};
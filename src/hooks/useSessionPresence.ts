@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { SessionViewer } from '@/types/chat';
+import {
+  SessionPresence,
+  TYPING_IDLE_MS,
+  joinSessionPresence
+} from '@/services/sessionPresenceService';
+
+/**
+ * Other agents with the session open and whether they are typing a reply.
+ * notifyTyping marks the current agent as typing until they stop for a
+ * few seconds.
+ */
+export const useSessionPresence = (sessionId: string | null, agentName: string) => {
+  const { user } = useAuth();
+  const [viewers, setViewers] = useState<SessionViewer[]>([]);
+  const presence = useRef<SessionPresence | null>(null);
+  const typingTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const userId = user?.id;
+
+  useEffect(() => {
+    setViewers([]);
+    if (!sessionId || !userId) return;
+
+    const joined = joinSessionPresence(sessionId, { user_id: userId, name: agentName }, setViewers);
+    presence.current = joined;
+
+    return () => {
+      if (typingTimer.current) clearTimeout(typingTimer.current);
+      presence.current = null;
+      joined.leave();
+    };
+  }, [sessionId, userId, agentName]);
+
+  const stopTyping = useCallback(() => {
+    if (typingTimer.current) {
+      clearTimeout(typingTimer.current);
+      typingTimer.current = null;
+    }
+    presence.current?.setTyping(false);
+  }, []);
+
+  const notifyTyping = useCallback(() => {
+    presence.current?.setTyping(true);
+    if (typingTimer.current) clearTimeout(typingTimer.current);
+    typingTimer.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [stopTyping]);
+
+  const others = viewers.filter(viewer => viewer.user_id !== userId);
+
+  return {
+    viewers: others,
+    typingAgents: others.filter(viewer => viewer.typing),
+    notifyTyping,
+    stopTyping
+  };
+};
@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  ChatTag,
+  ChatTagInput,
+  fetchTags,
+  createTag,
+  updateTag,
+  deleteTag
+} from '@/services/tagService';
+import { logger } from '@/utils/logger';
+
+const sortByName = (list: ChatTag[]) =>
+  [...list].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Catalog of conversation tags shared by all agents
+ */
+export const useTags = () => {
+  const { user } = useAuth();
+  const [tags, setTags] = useState<ChatTag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setTags(await fetchTags());
+      setError(null);
+    } catch (err) {
+      logger.error('Failed to load tags:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load tags');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const create = useCallback(async (input: ChatTagInput) => {
+    const created = await createTag(input, user?.id);
+    setTags(prev => sortByName([...prev, created]));
+    return created;
+  }, [user]);
+
+  const update = useCallback(async (id: string, input: ChatTagInput) => {
+    const updated = await updateTag(id, input);
+    setTags(prev => sortByName(prev.map(tag => tag.id === id ? updated : tag)));
+    return updated;
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteTag(id);
+    setTags(prev => prev.filter(tag => tag.id !== id));
+  }, []);
+
+  return {
+    tags,
+    loading,
+    error,
+    refresh,
+    create,
+    update,
+    remove
+  };
+};
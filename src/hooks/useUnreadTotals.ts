@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { subscribeToNewMessages } from '@/services/chatService';
+import { fetchUnreadTotals, subscribeToReadCursors, UnreadTotals } from '@/services/readStateService';
+import { logger } from '@/utils/logger';
+
+const REFRESH_DEBOUNCE_MS = 1000;
+
+/**
+ * Total unread messages and sessions of the signed-in agent, refreshed when
+ * new messages arrive or the read state changes on any device.
+ */
+export const useUnreadTotals = () => {
+  const { user } = useAuth();
+  const [totals, setTotals] = useState<UnreadTotals>({ unread_messages: 0, unread_sessions: 0 });
+
+  useEffect(() => {
+    if (!user) return;
+
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+    let disposed = false;
+
+    const refresh = async () => {
+      try {
+        const fetched = await fetchUnreadTotals();
+        if (!disposed) setTotals(fetched);
+      } catch (error) {
+        logger.warn('Could not refresh unread totals:', error);
+      }
+    };
+
+    const scheduleRefresh = () => {
+      if (refreshTimer) clearTimeout(refreshTimer);
+      refreshTimer = setTimeout(refresh, REFRESH_DEBOUNCE_MS);
+    };
+
+    refresh();
+    const unsubscribeMessages = subscribeToNewMessages(scheduleRefresh);
+    const unsubscribeCursors = subscribeToReadCursors(user.id, scheduleRefresh);
+
+    return () => {
+      disposed = true;
+      if (refreshTimer) clearTimeout(refreshTimer);
+      unsubscribeMessages();
+      unsubscribeCursors();
+    };
+  }, [user]);
+
+  return totals;
+};
@@ -0,0 +1,79 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  WebhookDelivery,
+  fetchSessionWebhookDeliveries,
+  retryWebhookDelivery,
+  subscribeToWebhookDeliveries
+} from '@/services/webhookOutboxService';
+import { logger } from '@/utils/logger';
+
+// Dead deliveries first, then the ones that failed most often
+const severity = (delivery: WebhookDelivery) =>
+  (delivery.status === 'dead' ? 1000 : 0) + delivery.attempt_count;
+
+/**
+ * Webhook deliveries of a session that have not gone through yet, keyed by
+ * message id. A message sent to several endpoints shows its worst delivery.
+ * Delivered ones drop out as the outbox updates.
+ */
+export const useWebhookDeliveries = (sessionId: string | null) => {
+  const [pending, setPending] = useState<Record<string, WebhookDelivery>>({});
+
+  const apply = useCallback((delivery: WebhookDelivery) => {
+    setPending(prev => {
+      if (delivery.status === 'delivered') {
+        if (!(delivery.id in prev)) return prev;
+        const next = { ...prev };
+        delete next[delivery.id];
+        return next;
+      }
+      return { ...prev, [delivery.id]: delivery };
+    });
+  }, []);
+
+  useEffect(() => {
+    setPending({});
+    if (!sessionId) return;
+
+    let disposed = false;
+    fetchSessionWebhookDeliveries(sessionId)
+      .then(fetched => {
+        if (disposed) return;
+        // Updates pushed in the meantime are newer than the fetched rows
+        setPending(prev => ({
+          ...Object.fromEntries(fetched.map(delivery => [delivery.id, delivery])),
+          ...prev
+        }));
+      })
+      .catch(error => {
+        logger.error('Failed to load webhook deliveries:', error);
+      });
+
+    const unsubscribe = subscribeToWebhookDeliveries(apply, sessionId);
+
+    return () => {
+      disposed = true;
+      unsubscribe();
+    };
+  }, [sessionId, apply]);
+
+  const deliveries = useMemo(() => {
+    const byMessage: Record<string, WebhookDelivery> = {};
+    Object.values(pending).forEach(delivery => {
+      const key = delivery.message_id?.toString();
+      if (!key) return;
+      if (!byMessage[key] || severity(delivery) > severity(byMessage[key])) {
+        byMessage[key] = delivery;
+      }
+    });
+    return byMessage;
+  }, [pending]);
+
+  const retry = useCallback(async (deliveryId: string) => {
+    const updated = await retryWebhookDelivery(deliveryId);
+    apply(updated);
+    return updated;
+  }, [apply]);
+
+  return { deliveries, retry };
+};
@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  WebhookEndpoint,
+  WebhookEndpointInput,
+  fetchWebhookEndpoints,
+  createWebhookEndpoint,
+  updateWebhookEndpoint,
+  deleteWebhookEndpoint
+} from '@/services/webhookEndpointService';
+import { logger } from '@/utils/logger';
+
+const sortByName = (list: WebhookEndpoint[]) =>
+  [...list].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Registered webhook endpoints
+ */
+export const useWebhookEndpoints = () => {
+  const { user } = useAuth();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setEndpoints(await fetchWebhookEndpoints());
+      setError(null);
+    } catch (err) {
+      logger.error('Failed to load webhook endpoints:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load webhook endpoints');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const create = useCallback(async (input: WebhookEndpointInput) => {
+    const created = await createWebhookEndpoint(input, user?.id);
+    setEndpoints(prev => sortByName([...prev, created]));
+    return created;
+  }, [user]);
+
+  const update = useCallback(async (id: string, input: Partial<WebhookEndpointInput>) => {
+    const updated = await updateWebhookEndpoint(id, input);
+    setEndpoints(prev => sortByName(prev.map(endpoint => endpoint.id === id ? updated : endpoint)));
+    return updated;
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteWebhookEndpoint(id);
+    setEndpoints(prev => prev.filter(endpoint => endpoint.id !== id));
+  }, []);
+
+  return {
+    endpoints,
+    loading,
+    error,
+    refresh,
+    create,
+    update,
+    remove
+  };
+};
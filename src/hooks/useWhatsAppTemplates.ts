@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  WhatsAppTemplate,
+  WhatsAppTemplateInput,
+  fetchWhatsAppTemplates,
+  createWhatsAppTemplate,
+  updateWhatsAppTemplate,
+  deleteWhatsAppTemplate
+} from '@/services/whatsappTemplateService';
+import { logger } from '@/utils/logger';
+
+const sortByName = (list: WhatsAppTemplate[]) =>
+  [...list].sort((a, b) => a.name.localeCompare(b.name) || a.language.localeCompare(b.language));
+
+/**
+ * WhatsApp templates that can be sent outside the 24-hour window
+ */
+export const useWhatsAppTemplates = () => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<WhatsAppTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setTemplates(await fetchWhatsAppTemplates());
+      setError(null);
+    } catch (err) {
+      logger.error('Failed to load WhatsApp templates:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load WhatsApp templates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const create = useCallback(async (input: WhatsAppTemplateInput) => {
+    const created = await createWhatsAppTemplate(input, user?.id);
+    setTemplates(prev => sortByName([...prev, created]));
+    return created;
+  }, [user]);
+
+  const update = useCallback(async (id: string, input: WhatsAppTemplateInput) => {
+    const updated = await updateWhatsAppTemplate(id, input);
+    setTemplates(prev => sortByName(prev.map(template => template.id === id ? updated : template)));
+    return updated;
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteWhatsAppTemplate(id);
+    setTemplates(prev => prev.filter(template => template.id !== id));
+  }, []);
+
+  return {
+    templates,
+    loading,
+    error,
+    refresh,
+    create,
+    update,
+    remove
+  };
+};
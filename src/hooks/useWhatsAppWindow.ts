@@ -0,0 +1,78 @@
+import { useState, useEffect } from 'react';
+import { ChatMessage, MessagePlatform } from '@/types/chat';
+import {
+  fetchLastCustomerMessageAt,
+  getWindowClosesAt
+} from '@/services/whatsappTemplateService';
+import { logger } from '@/utils/logger';
+
+// The remaining time is shown in minutes, so a coarse tick is enough
+const TICK_INTERVAL = 60 * 1000;
+
+/**
+ * The WhatsApp 24-hour window of a session. Starts from the last customer
+ * message in the database and moves with customer messages that arrive in
+ * the loaded messages. Not applicable (null) on other platforms.
+ */
+export const useWhatsAppWindow = (
+  sessionId: string | null,
+  platform: MessagePlatform | null | undefined,
+  messages: ChatMessage[]
+) => {
+  const [storedLastAt, setStoredLastAt] = useState<Date | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+  const isWhatsApp = !!sessionId && (platform ?? 'whatsapp') === 'whatsapp';
+
+  useEffect(() => {
+    setStoredLastAt(null);
+    if (!sessionId || !isWhatsApp) return;
+
+    let disposed = false;
+    setLoading(true);
+    fetchLastCustomerMessageAt(sessionId)
+      .then(lastAt => {
+        if (!disposed) setStoredLastAt(lastAt);
+      })
+      .catch(error => {
+        logger.error('Failed to load WhatsApp window:', error);
+      })
+      .finally(() => {
+        if (!disposed) setLoading(false);
+      });
+
+    return () => {
+      disposed = true;
+    };
+  }, [sessionId, isWhatsApp]);
+
+  useEffect(() => {
+    if (!isWhatsApp) return;
+
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), TICK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [isWhatsApp]);
+
+  if (!isWhatsApp) return null;
+
+  // A customer message received since the fetch reopens the window
+  const latestLoaded = [...messages]
+    .reverse()
+    .find(message => message.session_id === sessionId && message.message.type === 'human');
+  const loadedLastAt = latestLoaded ? new Date(latestLoaded.created_at) : null;
+  const lastCustomerMessageAt = loadedLastAt && (!storedLastAt || loadedLastAt > storedLastAt)
+    ? loadedLastAt
+    : storedLastAt;
+
+  const closesAt = getWindowClosesAt(lastCustomerMessageAt);
+  const remainingMs = closesAt ? Math.max(0, closesAt.getTime() - now.getTime()) : 0;
+
+  return {
+    loading,
+    lastCustomerMessageAt,
+    closesAt,
+    remainingMs,
+    isOpen: remainingMs > 0
+  };
+};
@@ -9,6 +9,86 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      agent_notifications: {
+        Row: {
+          id: string
+          user_id: string
+          type: string
+          title: string
+          body: string
+          session_id: string | null
+          note_id: string | null
+          actor_id: string | null
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          type?: string
+          title: string
+          body?: string
+          session_id?: string | null
+          note_id?: string | null
+          actor_id?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          type?: string
+          title?: string
+          body?: string
+          session_id?: string | null
+          note_id?: string | null
+          actor_id?: string | null
+          read_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_notifications_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "chat_notes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      agent_profiles: {
+        Row: {
+          id: string
+          email: string | null
+          display_name: string | null
+          accepts_assignments: boolean
+          last_seen_at: string | null
+          last_assigned_at: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id: string
+          email?: string | null
+          display_name?: string | null
+          accepts_assignments?: boolean
+          last_seen_at?: string | null
+          last_assigned_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          email?: string | null
+          display_name?: string | null
+          accepts_assignments?: boolean
+          last_seen_at?: string | null
+          last_assigned_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       app_settings: {
         Row: {
           created_at: string | null
@@ -33,6 +113,546 @@ export type Database = {
         }
         Relationships: []
       }
+      broadcast_campaigns: {
+        Row: {
+          id: string
+          name: string
+          template: string
+          segment: Json
+          status: string
+          send_rate: number
+          recipient_count: number
+          created_by: string | null
+          created_at: string
+          updated_at: string
+          started_at: string | null
+          completed_at: string | null
+          whatsapp_template: Json | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          template: string
+          segment?: Json
+          status?: string
+          send_rate?: number
+          recipient_count?: number
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          started_at?: string | null
+          completed_at?: string | null
+          whatsapp_template?: Json | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          template?: string
+          segment?: Json
+          status?: string
+          send_rate?: number
+          recipient_count?: number
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          started_at?: string | null
+          completed_at?: string | null
+          whatsapp_template?: Json | null
+        }
+        Relationships: []
+      }
+      broadcast_recipients: {
+        Row: {
+          id: number
+          campaign_id: string
+          session_id: string
+          contact_id: string | null
+          contact_name: string | null
+          content: string
+          status: string
+          message_id: number | null
+          error: string | null
+          sent_at: string | null
+          replied_at: string | null
+          reply_message_id: number | null
+          template_parameters: string[] | null
+        }
+        Insert: {
+          id?: number
+          campaign_id: string
+          session_id: string
+          contact_id?: string | null
+          contact_name?: string | null
+          content: string
+          status?: string
+          message_id?: number | null
+          error?: string | null
+          sent_at?: string | null
+          replied_at?: string | null
+          reply_message_id?: number | null
+          template_parameters?: string[] | null
+        }
+        Update: {
+          id?: number
+          campaign_id?: string
+          session_id?: string
+          contact_id?: string | null
+          contact_name?: string | null
+          content?: string
+          status?: string
+          message_id?: number | null
+          error?: string | null
+          sent_at?: string | null
+          replied_at?: string | null
+          reply_message_id?: number | null
+          template_parameters?: string[] | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "broadcast_recipients_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "broadcast_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "broadcast_recipients_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "n8n_chat_histories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "broadcast_recipients_reply_message_id_fkey"
+            columns: ["reply_message_id"]
+            isOneToOne: false
+            referencedRelation: "n8n_chat_histories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      canned_responses: {
+        Row: {
+          id: string
+          title: string
+          shortcut: string | null
+          content: string
+          created_by: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          title: string
+          shortcut?: string | null
+          content: string
+          created_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          title?: string
+          shortcut?: string | null
+          content?: string
+          created_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      chat_message_receipts: {
+        Row: {
+          message_id: number
+          session_id: string
+          status: string
+          provider_message_id: string | null
+          error: string | null
+          sent_at: string | null
+          delivered_at: string | null
+          read_at: string | null
+          failed_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          message_id: number
+          session_id: string
+          status: string
+          provider_message_id?: string | null
+          error?: string | null
+          sent_at?: string | null
+          delivered_at?: string | null
+          read_at?: string | null
+          failed_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          message_id?: number
+          session_id?: string
+          status?: string
+          provider_message_id?: string | null
+          error?: string | null
+          sent_at?: string | null
+          delivered_at?: string | null
+          read_at?: string | null
+          failed_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_message_receipts_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: true
+            referencedRelation: "n8n_chat_histories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_notes: {
+        Row: {
+          id: string
+          session_id: string
+          message_id: number | null
+          content: string
+          mentions: string[]
+          author_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          session_id: string
+          message_id?: number | null
+          content: string
+          mentions?: string[]
+          author_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          session_id?: string
+          message_id?: number | null
+          content?: string
+          mentions?: string[]
+          author_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_notes_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "n8n_chat_histories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_read_cursors: {
+        Row: {
+          user_id: string
+          session_id: string
+          last_read_message_id: number
+          marked_unread: boolean
+          read_human_count: number
+          last_read_at: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          user_id: string
+          session_id: string
+          last_read_message_id?: number
+          marked_unread?: boolean
+          read_human_count?: number
+          last_read_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          user_id?: string
+          session_id?: string
+          last_read_message_id?: number
+          marked_unread?: boolean
+          read_human_count?: number
+          last_read_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      chat_session_state: {
+        Row: {
+          session_id: string
+          bot_paused: boolean
+          bot_paused_at: string | null
+          bot_paused_by: string | null
+          bot_paused_until: string | null
+          last_agent_reply_at: string | null
+          assigned_to: string | null
+          assigned_at: string | null
+          assigned_by: string | null
+          status: string
+          status_changed_at: string | null
+          status_changed_by: string | null
+          platform: string | null
+          platform_source: string | null
+          platform_updated_at: string | null
+          platform_updated_by: string | null
+          reply_locked_by: string | null
+          reply_locked_at: string | null
+          reply_locked_until: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          session_id: string
+          bot_paused?: boolean
+          bot_paused_at?: string | null
+          bot_paused_by?: string | null
+          bot_paused_until?: string | null
+          last_agent_reply_at?: string | null
+          assigned_to?: string | null
+          assigned_at?: string | null
+          assigned_by?: string | null
+          status?: string
+          status_changed_at?: string | null
+          status_changed_by?: string | null
+          platform?: string | null
+          platform_source?: string | null
+          platform_updated_at?: string | null
+          platform_updated_by?: string | null
+          reply_locked_by?: string | null
+          reply_locked_at?: string | null
+          reply_locked_until?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          session_id?: string
+          bot_paused?: boolean
+          bot_paused_at?: string | null
+          bot_paused_by?: string | null
+          bot_paused_until?: string | null
+          last_agent_reply_at?: string | null
+          assigned_to?: string | null
+          assigned_at?: string | null
+          assigned_by?: string | null
+          status?: string
+          status_changed_at?: string | null
+          status_changed_by?: string | null
+          platform?: string | null
+          platform_source?: string | null
+          platform_updated_at?: string | null
+          platform_updated_by?: string | null
+          reply_locked_by?: string | null
+          reply_locked_at?: string | null
+          reply_locked_until?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      chat_session_status_events: {
+        Row: {
+          id: number
+          session_id: string
+          from_status: string
+          to_status: string
+          reason: string
+          changed_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          session_id: string
+          from_status: string
+          to_status: string
+          reason?: string
+          changed_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          session_id?: string
+          from_status?: string
+          to_status?: string
+          reason?: string
+          changed_by?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      chat_session_summary: {
+        Row: {
+          session_id: string
+          last_message_id: number
+          last_message: string
+          last_message_type: string | null
+          last_timestamp: string
+          first_timestamp: string
+          sender_name: string | null
+          platform: string | null
+          message_count: number
+          human_message_count: number
+          last_human_message_id: number | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          session_id: string
+          last_message_id: number
+          last_message?: string
+          last_message_type?: string | null
+          last_timestamp: string
+          first_timestamp: string
+          sender_name?: string | null
+          platform?: string | null
+          message_count?: number
+          human_message_count?: number
+          last_human_message_id?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          session_id?: string
+          last_message_id?: number
+          last_message?: string
+          last_message_type?: string | null
+          last_timestamp?: string
+          first_timestamp?: string
+          sender_name?: string | null
+          platform?: string | null
+          message_count?: number
+          human_message_count?: number
+          last_human_message_id?: number | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      chat_session_tags: {
+        Row: {
+          session_id: string
+          tag_id: string
+          tagged_by: string | null
+          created_at: string | null
+        }
+        Insert: {
+          session_id: string
+          tag_id: string
+          tagged_by?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          session_id?: string
+          tag_id?: string
+          tagged_by?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_session_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "chat_tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_tags: {
+        Row: {
+          id: string
+          name: string
+          color: string
+          created_by: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          name: string
+          color?: string
+          created_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          name?: string
+          color?: string
+          created_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      customer_sessions: {
+        Row: {
+          session_id: string
+          customer_id: string
+          link_source: string
+          linked_by: string | null
+          linked_at: string
+        }
+        Insert: {
+          session_id: string
+          customer_id: string
+          link_source?: string
+          linked_by?: string | null
+          linked_at?: string
+        }
+        Update: {
+          session_id?: string
+          customer_id?: string
+          link_source?: string
+          linked_by?: string | null
+          linked_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_sessions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customers: {
+        Row: {
+          id: string
+          display_name: string | null
+          contact_id: string | null
+          phone: string | null
+          email: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          display_name?: string | null
+          contact_id?: string | null
+          phone?: string | null
+          email?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          display_name?: string | null
+          contact_id?: string | null
+          phone?: string | null
+          email?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       documents: {
         Row: {
           content: string | null
@@ -75,6 +695,59 @@ export type Database = {
         }
         Relationships: []
       }
+      scheduled_messages: {
+        Row: {
+          id: string
+          session_id: string
+          content: string
+          send_at: string
+          status: string
+          message_id: number | null
+          last_error: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+          sent_at: string | null
+          cancelled_at: string | null
+        }
+        Insert: {
+          id?: string
+          session_id: string
+          content: string
+          send_at: string
+          status?: string
+          message_id?: number | null
+          last_error?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          sent_at?: string | null
+          cancelled_at?: string | null
+        }
+        Update: {
+          id?: string
+          session_id?: string
+          content?: string
+          send_at?: string
+          status?: string
+          message_id?: number | null
+          last_error?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          sent_at?: string | null
+          cancelled_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_messages_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "n8n_chat_histories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sentiment_analysis: {
         Row: {
           id: string
@@ -129,6 +802,69 @@ export type Database = {
         }
         Relationships: []
       }
+      sentiment_batch_jobs: {
+        Row: {
+          id: string
+          job_name: string
+          status: string | null
+          total_messages: number | null
+          processed_messages: number | null
+          failed_messages: number | null
+          session_filter: string | null
+          date_from: string | null
+          date_to: string | null
+          processing_options: Json | null
+          error_log: Json | null
+          total_tokens_used: number | null
+          estimated_cost_usd: number | null
+          actual_cost_usd: number | null
+          started_at: string | null
+          completed_at: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          job_name: string
+          status?: string | null
+          total_messages?: number | null
+          processed_messages?: number | null
+          failed_messages?: number | null
+          session_filter?: string | null
+          date_from?: string | null
+          date_to?: string | null
+          processing_options?: Json | null
+          error_log?: Json | null
+          total_tokens_used?: number | null
+          estimated_cost_usd?: number | null
+          actual_cost_usd?: number | null
+          started_at?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          job_name?: string
+          status?: string | null
+          total_messages?: number | null
+          processed_messages?: number | null
+          failed_messages?: number | null
+          session_filter?: string | null
+          date_from?: string | null
+          date_to?: string | null
+          processing_options?: Json | null
+          error_log?: Json | null
+          total_tokens_used?: number | null
+          estimated_cost_usd?: number | null
+          actual_cost_usd?: number | null
+          started_at?: string | null
+          completed_at?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       session_sentiment_summary: {
         Row: {
           id: string
@@ -198,15 +934,503 @@ export type Database = {
         }
         Relationships: []
       }
+      webhook_delivery_attempts: {
+        Row: {
+          id: number
+          outbox_id: string
+          attempt_number: number
+          succeeded: boolean
+          status_code: number | null
+          error: string | null
+          duration_ms: number | null
+          source: string
+          attempted_at: string
+        }
+        Insert: {
+          id?: number
+          outbox_id: string
+          attempt_number: number
+          succeeded: boolean
+          status_code?: number | null
+          error?: string | null
+          duration_ms?: number | null
+          source: string
+          attempted_at?: string
+        }
+        Update: {
+          id?: number
+          outbox_id?: string
+          attempt_number?: number
+          succeeded?: boolean
+          status_code?: number | null
+          error?: string | null
+          duration_ms?: number | null
+          source?: string
+          attempted_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_delivery_attempts_outbox_id_fkey"
+            columns: ["outbox_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_outbox"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          id: string
+          name: string
+          url: string
+          event_types: string[]
+          platforms: string[]
+          enabled: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          url: string
+          event_types: string[]
+          platforms?: string[]
+          enabled?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          url?: string
+          event_types?: string[]
+          platforms?: string[]
+          enabled?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      webhook_outbox: {
+        Row: {
+          id: string
+          endpoint_id: string | null
+          event_type: string
+          message_id: number | null
+          session_id: string | null
+          url: string
+          payload: Json
+          status: string
+          attempt_count: number
+          max_attempts: number
+          next_attempt_at: string
+          locked_until: string | null
+          http_request_id: number | null
+          last_status_code: number | null
+          last_error: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+          delivered_at: string | null
+          claimed_by: string | null
+        }
+        Insert: {
+          id?: string
+          endpoint_id?: string | null
+          event_type?: string
+          message_id?: number | null
+          session_id?: string | null
+          url: string
+          payload: Json
+          status?: string
+          attempt_count?: number
+          max_attempts?: number
+          next_attempt_at?: string
+          locked_until?: string | null
+          http_request_id?: number | null
+          last_status_code?: number | null
+          last_error?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          delivered_at?: string | null
+          claimed_by?: string | null
+        }
+        Update: {
+          id?: string
+          endpoint_id?: string | null
+          event_type?: string
+          message_id?: number | null
+          session_id?: string | null
+          url?: string
+          payload?: Json
+          status?: string
+          attempt_count?: number
+          max_attempts?: number
+          next_attempt_at?: string
+          locked_until?: string | null
+          http_request_id?: number | null
+          last_status_code?: number | null
+          last_error?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+          delivered_at?: string | null
+          claimed_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_outbox_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_outbox_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "n8n_chat_histories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      whatsapp_templates: {
+        Row: {
+          id: string
+          name: string
+          language: string
+          category: string
+          body: string
+          parameter_labels: string[]
+          status: string
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          language?: string
+          category?: string
+          body: string
+          parameter_labels?: string[]
+          status?: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          language?: string
+          category?: string
+          body?: string
+          parameter_labels?: string[]
+          status?: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      broadcast_campaign_overview: {
+        Row: {
+          id: string | null
+          name: string | null
+          template: string | null
+          segment: Json | null
+          status: string | null
+          send_rate: number | null
+          recipient_count: number | null
+          created_by: string | null
+          created_at: string | null
+          updated_at: string | null
+          started_at: string | null
+          completed_at: string | null
+          whatsapp_template: Json | null
+          pending_count: number | null
+          sent_count: number | null
+          failed_count: number | null
+          delivered_count: number | null
+          read_count: number | null
+          replied_count: number | null
+        }
+        Relationships: []
+      }
+      broadcast_recipient_overview: {
+        Row: {
+          id: number | null
+          campaign_id: string | null
+          session_id: string | null
+          contact_id: string | null
+          contact_name: string | null
+          content: string | null
+          status: string | null
+          message_id: number | null
+          error: string | null
+          sent_at: string | null
+          replied_at: string | null
+          reply_message_id: number | null
+          delivery_status: string | null
+          delivery_error: string | null
+        }
+        Relationships: []
+      }
+      chat_session_overview: {
+        Row: {
+          session_id: string | null
+          last_message_id: number | null
+          last_message: string | null
+          last_message_type: string | null
+          last_timestamp: string | null
+          first_timestamp: string | null
+          sender_name: string | null
+          platform: string | null
+          message_count: number | null
+          created_at: string | null
+          updated_at: string | null
+          unread_count: number | null
+          last_read_message_id: number | null
+          bot_paused: boolean | null
+          assigned_to: string | null
+          assigned_at: string | null
+          status: string | null
+          status_changed_at: string | null
+          tag_ids: string[] | null
+          platform_source: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      acquire_reply_lock: {
+        Args: { p_session_id: string; p_minutes?: number }
+        Returns: {
+          session_id: string
+          bot_paused: boolean
+          bot_paused_at: string | null
+          bot_paused_by: string | null
+          bot_paused_until: string | null
+          last_agent_reply_at: string | null
+          assigned_to: string | null
+          assigned_at: string | null
+          assigned_by: string | null
+          status: string
+          status_changed_at: string | null
+          status_changed_by: string | null
+          platform: string | null
+          platform_source: string | null
+          platform_updated_at: string | null
+          platform_updated_by: string | null
+          reply_locked_by: string | null
+          reply_locked_at: string | null
+          reply_locked_until: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+      }
+      assign_chat_session: {
+        Args: { p_session_id: string; p_user_id: string | null }
+        Returns: {
+          session_id: string
+          bot_paused: boolean
+          bot_paused_at: string | null
+          bot_paused_by: string | null
+          bot_paused_until: string | null
+          last_agent_reply_at: string | null
+          assigned_to: string | null
+          assigned_at: string | null
+          assigned_by: string | null
+          status: string
+          status_changed_at: string | null
+          status_changed_by: string | null
+          platform: string | null
+          platform_source: string | null
+          platform_updated_at: string | null
+          platform_updated_by: string | null
+          reply_locked_by: string | null
+          reply_locked_at: string | null
+          reply_locked_until: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+      }
+      backfill_chat_session_platforms: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
       binary_quantize: {
         Args: { "": string } | { "": unknown }
         Returns: unknown
       }
+      chat_message_preview: {
+        Args: { message: Json }
+        Returns: string
+      }
+      classify_chat_session_platform: {
+        Args: { p_session_id: string }
+        Returns: string | null
+      }
+      claim_webhook_delivery: {
+        Args: { p_outbox_id: string }
+        Returns: {
+          id: string
+          endpoint_id: string | null
+          event_type: string
+          message_id: number | null
+          session_id: string | null
+          url: string
+          payload: Json
+          status: string
+          attempt_count: number
+          max_attempts: number
+          next_attempt_at: string
+          locked_until: string | null
+          http_request_id: number | null
+          last_status_code: number | null
+          last_error: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+          delivered_at: string | null
+          claimed_by: string | null
+        }
+      }
+      count_closed_whatsapp_windows: {
+        Args: { p_session_ids: string[] }
+        Returns: number
+      }
+      delivery_status_rank: {
+        Args: { p_status: string }
+        Returns: number
+      }
+      dispatch_broadcast_campaigns: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      dispatch_scheduled_messages: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      enqueue_webhook_event: {
+        Args: {
+          p_event_type: string
+          p_payload: Json
+          p_session_id?: string
+          p_message_id?: number
+          p_platform?: string
+          p_endpoint_id?: string
+          p_claim?: boolean
+        }
+        Returns: {
+          id: string
+          endpoint_id: string | null
+          event_type: string
+          message_id: number | null
+          session_id: string | null
+          url: string
+          payload: Json
+          status: string
+          attempt_count: number
+          max_attempts: number
+          next_attempt_at: string
+          locked_until: string | null
+          http_request_id: number | null
+          last_status_code: number | null
+          last_error: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+          delivered_at: string | null
+          claimed_by: string | null
+        }[]
+      }
+      get_bot_status: {
+        Args: { p_session_id: string }
+        Returns: {
+          session_id: string
+          bot_paused: boolean
+          bot_paused_until: string | null
+          bot_paused_at: string | null
+          bot_paused_by: string | null
+        }[]
+      }
+      get_chat_messages: {
+        Args: {
+          p_session_id: string
+          p_limit?: number
+          p_before_created_at?: string
+          p_before_id?: number
+          p_after_created_at?: string
+          p_after_id?: number
+        }
+        Returns: {
+          created_at: string | null
+          id: number
+          message: Json
+          session_id: string
+        }[]
+      }
+      get_chat_sessions: {
+        Args: {
+          p_limit?: number
+          p_sort?: string
+          p_cursor_timestamp?: string
+          p_cursor_message_count?: number
+          p_cursor_session_id?: string
+          p_assignee?: string
+          p_status?: string
+          p_tag_ids?: string[]
+        }
+        Returns: {
+          session_id: string
+          last_message_id: number
+          last_message: string
+          last_message_type: string | null
+          last_timestamp: string
+          first_timestamp: string
+          sender_name: string | null
+          platform: string | null
+          message_count: number
+          created_at: string | null
+          updated_at: string | null
+          unread_count: number | null
+          last_read_message_id: number | null
+          bot_paused: boolean | null
+          assigned_to: string | null
+          assigned_at: string | null
+          status: string | null
+          status_changed_at: string | null
+          tag_ids: string[] | null
+          platform_source: string | null
+        }[]
+      }
+      get_last_customer_message_at: {
+        Args: { p_session_id: string }
+        Returns: string | null
+      }
+      get_resolution_stats: {
+        Args: { p_from: string; p_to?: string }
+        Returns: {
+          active_sessions: number
+          resolved_sessions: number
+          reopened_sessions: number
+          avg_resolution_minutes: number | null
+        }[]
+      }
+      get_unread_totals: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          unread_messages: number
+          unread_sessions: number
+        }[]
+      }
       halfvec_avg: {
         Args: { "": number[] }
         Returns: unknown
@@ -239,6 +1463,14 @@ export type Database = {
         Args: { "": unknown }
         Returns: unknown
       }
+      is_webhook_scheduler_enabled: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_whatsapp_window_open: {
+        Args: { p_session_id: string }
+        Returns: boolean
+      }
       ivfflat_bit_support: {
         Args: { "": unknown }
         Returns: unknown
@@ -259,6 +1491,16 @@ export type Database = {
         Args: { "": string } | { "": unknown } | { "": unknown }
         Returns: unknown
       }
+      link_contact_sessions: {
+        Args: {
+          p_contact_id: string
+          p_display_name: string
+          p_phone: string
+          p_email: string
+          p_session_ids: string[]
+        }
+        Returns: string
+      }
       match_documents: {
         Args: { query_embedding: string; match_count?: number; filter?: Json }
         Returns: {
@@ -268,6 +1510,213 @@ export type Database = {
           similarity: number
         }[]
       }
+      merge_customer_sessions: {
+        Args: { p_session_id: string; p_other_session_id: string }
+        Returns: string
+      }
+      process_webhook_outbox: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      queue_outbound_message: {
+        Args: {
+          p_session_id: string
+          p_content: string
+          p_payload?: Json
+          p_agent_reply?: boolean
+          p_template?: Json
+        }
+        Returns: number
+      }
+      record_agent_reply: {
+        Args: { p_session_id: string }
+        Returns: {
+          session_id: string
+          bot_paused: boolean
+          bot_paused_at: string | null
+          bot_paused_by: string | null
+          bot_paused_until: string | null
+          last_agent_reply_at: string | null
+          assigned_to: string | null
+          assigned_at: string | null
+          assigned_by: string | null
+          status: string
+          status_changed_at: string | null
+          status_changed_by: string | null
+          platform: string | null
+          platform_source: string | null
+          platform_updated_at: string | null
+          platform_updated_by: string | null
+          reply_locked_by: string | null
+          reply_locked_at: string | null
+          reply_locked_until: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+      }
+      record_message_receipt: {
+        Args: {
+          p_status: string
+          p_message_id?: number
+          p_provider_message_id?: string
+          p_error?: string
+          p_occurred_at?: string
+        }
+        Returns: {
+          message_id: number
+          session_id: string
+          status: string
+          provider_message_id: string | null
+          error: string | null
+          sent_at: string | null
+          delivered_at: string | null
+          read_at: string | null
+          failed_at: string | null
+          updated_at: string
+        }
+      }
+      record_webhook_attempt: {
+        Args: {
+          p_outbox_id: string
+          p_status_code: number
+          p_error?: string
+          p_duration_ms?: number
+          p_source?: string
+        }
+        Returns: {
+          id: string
+          endpoint_id: string | null
+          event_type: string
+          message_id: number | null
+          session_id: string | null
+          url: string
+          payload: Json
+          status: string
+          attempt_count: number
+          max_attempts: number
+          next_attempt_at: string
+          locked_until: string | null
+          http_request_id: number | null
+          last_status_code: number | null
+          last_error: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+          delivered_at: string | null
+          claimed_by: string | null
+        }
+      }
+      release_reply_lock: {
+        Args: { p_session_id: string }
+        Returns: undefined
+      }
+      resume_idle_bots: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      rotate_webhook_signing_secret: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      search_chat_messages: {
+        Args: {
+          p_query: string
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          message_id: number
+          session_id: string
+          created_at: string
+          message_type: string | null
+          sender_name: string | null
+          platform: string | null
+          snippet: string
+          rank: number
+        }[]
+      }
+      set_bot_paused: {
+        Args: { p_session_id: string; p_paused: boolean }
+        Returns: {
+          session_id: string
+          bot_paused: boolean
+          bot_paused_at: string | null
+          bot_paused_by: string | null
+          bot_paused_until: string | null
+          last_agent_reply_at: string | null
+          assigned_to: string | null
+          assigned_at: string | null
+          assigned_by: string | null
+          status: string
+          status_changed_at: string | null
+          status_changed_by: string | null
+          platform: string | null
+          platform_source: string | null
+          platform_updated_at: string | null
+          platform_updated_by: string | null
+          reply_locked_by: string | null
+          reply_locked_at: string | null
+          reply_locked_until: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+      }
+      set_chat_session_platform: {
+        Args: { p_session_id: string; p_platform: string | null }
+        Returns: {
+          session_id: string
+          bot_paused: boolean
+          bot_paused_at: string | null
+          bot_paused_by: string | null
+          bot_paused_until: string | null
+          last_agent_reply_at: string | null
+          assigned_to: string | null
+          assigned_at: string | null
+          assigned_by: string | null
+          status: string
+          status_changed_at: string | null
+          status_changed_by: string | null
+          platform: string | null
+          platform_source: string | null
+          platform_updated_at: string | null
+          platform_updated_by: string | null
+          reply_locked_by: string | null
+          reply_locked_at: string | null
+          reply_locked_until: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+      }
+      set_chat_session_status: {
+        Args: { p_session_id: string; p_status: string }
+        Returns: {
+          session_id: string
+          bot_paused: boolean
+          bot_paused_at: string | null
+          bot_paused_by: string | null
+          bot_paused_until: string | null
+          last_agent_reply_at: string | null
+          assigned_to: string | null
+          assigned_at: string | null
+          assigned_by: string | null
+          status: string
+          status_changed_at: string | null
+          status_changed_by: string | null
+          platform: string | null
+          platform_source: string | null
+          platform_updated_at: string | null
+          platform_updated_by: string | null
+          reply_locked_by: string | null
+          reply_locked_at: string | null
+          reply_locked_until: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+      }
+      sign_webhook_payload: {
+        Args: { p_payload: Json }
+        Returns: Json
+      }
       sparsevec_out: {
         Args: { "": unknown }
         Returns: unknown
@@ -280,6 +1729,14 @@ export type Database = {
         Args: { "": unknown[] }
         Returns: number
       }
+      touch_agent_presence: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      unmerge_customer_session: {
+        Args: { p_session_id: string }
+        Returns: string
+      }
       vector_avg: {
         Args: { "": number[] }
         Returns: string
@@ -304,6 +1761,14 @@ export type Database = {
         Args: { "": unknown[] }
         Returns: number
       }
+      webhook_request_headers: {
+        Args: { p_body: string }
+        Returns: Json
+      }
+      webhook_retry_delay: {
+        Args: { p_attempt_count: number }
+        Returns: unknown
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { BarChart3, Loader2, Pause, Play, Plus, Trash2, X } from 'lucide-react';
+import DashboardLayout from '@/components/layouts/DashboardLayout';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { CampaignFormDialog } from '@/components/broadcasts/CampaignFormDialog';
+import { CampaignResultsDialog } from '@/components/broadcasts/CampaignResultsDialog';
+import { useContactsContext } from '@/contexts/ContactsContext';
+import { useBroadcastCampaigns } from '@/hooks/useBroadcastCampaigns';
+import {
+  BROADCAST_STATUS_LABELS,
+  BroadcastAudienceMember,
+  BroadcastCampaignInput,
+  BroadcastCampaignStatus,
+  BroadcastCampaignSummary
+} from '@/services/broadcastService';
+
+const STATUS_VARIANTS: Record<BroadcastCampaignStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  draft: 'outline',
+  sending: 'default',
+  paused: 'secondary',
+  completed: 'secondary',
+  cancelled: 'destructive'
+};
+
+type PendingAction = { kind: 'start' | 'cancel' | 'delete'; campaign: BroadcastCampaignSummary };
+
+const ACTION_COPY: Record<PendingAction['kind'], { title: string; description: string; confirm: string }> = {
+  start: {
+    title: 'Start campaign?',
+    description: 'Messages are sent to every recipient at the chosen rate. You can pause or cancel while it runs.',
+    confirm: 'Start sending'
+  },
+  cancel: {
+    title: 'Cancel campaign?',
+    description: 'Recipients who have not been sent to yet are skipped. This cannot be undone.',
+    confirm: 'Cancel campaign'
+  },
+  delete: {
+    title: 'Delete draft?',
+    description: 'The draft and its recipient list are removed.',
+    confirm: 'Delete'
+  }
+};
+
+const Broadcasts = () => {
+  const { toast } = useToast();
+  const { contacts, loading: contactsLoading } = useContactsContext();
+  const { campaigns, loading, error, create, start, pause, resume, cancel, remove } = useBroadcastCampaigns();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [resultsCampaign, setResultsCampaign] = useState<BroadcastCampaignSummary | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleCreate = async (input: BroadcastCampaignInput, audience: BroadcastAudienceMember[]) => {
+    await create(input, audience);
+    toast({
+      title: "Success",
+      description: `Draft saved with ${audience.length} recipients`,
+    });
+  };
+
+  const runAction = async (campaign: BroadcastCampaignSummary, action: () => Promise<void>, failure: string) => {
+    setBusyId(campaign.id);
+    try {
+      await action();
+    } catch (err) {
+      console.error(failure, err);
+      toast({
+        title: "Error",
+        description: failure,
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return;
+    const { kind, campaign } = pendingAction;
+    setPendingAction(null);
+
+    if (kind === 'start') {
+      await runAction(campaign, () => start(campaign.id), 'Failed to start campaign');
+    } else if (kind === 'cancel') {
+      await runAction(campaign, () => cancel(campaign.id), 'Failed to cancel campaign');
+    } else {
+      await runAction(campaign, () => remove(campaign.id), 'Failed to delete campaign');
+    }
+  };
+
+  return (
+    <DashboardLayout title="Broadcasts">
+      <div className="p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Send one message to a segment of contacts. Replies arrive in Chat as usual and are counted per campaign.
+          </p>
+          <Button onClick={() => setIsFormOpen(true)} disabled={contactsLoading}>
+            <Plus className="h-4 w-4 mr-2" />
+            New campaign
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center min-h-[200px]">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : error ? (
+          <Card className="p-6 bg-destructive/10 text-destructive">{error}</Card>
+        ) : campaigns.length === 0 ? (
+          <Card className="p-6 text-center text-muted-foreground">No campaigns yet.</Card>
+        ) : (
+          <div className="space-y-3">
+            {campaigns.map(campaign => {
+              const status = campaign.status as BroadcastCampaignStatus;
+              const total = campaign.recipient_count ?? 0;
+              const processed = total - (campaign.pending_count ?? 0);
+              const isBusy = busyId === campaign.id;
+
+              return (
+                <Card key={campaign.id} className="p-4">
+                  <div className="flex items-start gap-4">
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-medium truncate">{campaign.name}</h3>
+                        <Badge variant={STATUS_VARIANTS[status] ?? 'outline'}>
+                          {BROADCAST_STATUS_LABELS[status] ?? campaign.status}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground line-clamp-2 whitespace-pre-wrap">{campaign.template}</p>
+                      {status !== 'draft' && (
+                        <Progress value={total > 0 ? (processed / total) * 100 : 0} className="h-2" />
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {total} recipients · {campaign.sent_count} sent · {campaign.delivered_count} delivered
+                        · {campaign.read_count} read · {campaign.replied_count} replied · {campaign.failed_count} failed
+                        · {campaign.send_rate}/min
+                        {campaign.started_at && <> · started {format(new Date(campaign.started_at), 'dd MMM HH:mm')}</>}
+                      </p>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      {status === 'draft' && (
+                        <Button size="sm" onClick={() => setPendingAction({ kind: 'start', campaign })} disabled={isBusy}>
+                          <Play className="h-4 w-4 mr-2" />
+                          Start
+                        </Button>
+                      )}
+                      {status === 'sending' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => runAction(campaign, () => pause(campaign.id), 'Failed to pause campaign')}
+                          disabled={isBusy}
+                        >
+                          <Pause className="h-4 w-4 mr-2" />
+                          Pause
+                        </Button>
+                      )}
+                      {status === 'paused' && (
+                        <Button
+                          size="sm"
+                          onClick={() => runAction(campaign, () => resume(campaign.id), 'Failed to resume campaign')}
+                          disabled={isBusy}
+                        >
+                          <Play className="h-4 w-4 mr-2" />
+                          Resume
+                        </Button>
+                      )}
+                      {status !== 'draft' && (
+                        <Button size="icon" variant="ghost" onClick={() => setResultsCampaign(campaign)} aria-label="Results">
+                          <BarChart3 className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {(status === 'sending' || status === 'paused') && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => setPendingAction({ kind: 'cancel', campaign })}
+                          disabled={isBusy}
+                          aria-label="Cancel campaign"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {status === 'draft' && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => setPendingAction({ kind: 'delete', campaign })}
+                          disabled={isBusy}
+                          aria-label="Delete draft"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <CampaignFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        contacts={contacts}
+        onSubmit={handleCreate}
+      />
+
+      <CampaignResultsDialog
+        campaign={resultsCampaign}
+        onOpenChange={(open) => !open && setResultsCampaign(null)}
+      />
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingAction && ACTION_COPY[pendingAction.kind].title}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction && ACTION_COPY[pendingAction.kind].description}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Back</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm}>
+              {pendingAction && ACTION_COPY[pendingAction.kind].confirm}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+};
+
+export default Broadcasts;
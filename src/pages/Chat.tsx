@@ -1,39 +1,175 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
 import DashboardLayout from "@/components/layouts/DashboardLayout";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/components/ui/use-toast";
-import { ChevronLeft, Loader2, User } from "lucide-react";
+import { ChevronLeft, Download, Loader2, User, Users, WifiOff } from "lucide-react";
 import { useTheme } from "@/contexts/ThemeContext";
-import { fetchChatSessions, fetchChatMessages, sendMessage } from "@/services/chatService";
-import { ChatMessage, ChatSession } from "@/types/chat";
+import { startOfDay } from "date-fns";
+import {
+  fetchChatSessions,
+  fetchChatMessages,
+  fetchChatMessagesAround,
+  fetchChatMessagesAroundMessage,
+  getMessageCursor,
+  sendMessage,
+  sendTemplateMessage
+} from "@/services/chatService";
+import {
+  ChatMessage,
+  ChatMessageCursor,
+  ChatNoteTarget,
+  ChatSearchResult,
+  ChatSession,
+  ChatSessionAssigneeFilter,
+  ChatSessionCursor,
+  ChatSessionSort,
+  ChatSessionStatus,
+  ChatSessionStatusFilter,
+  MessageAttachment,
+  MessagePlatform,
+  PlatformSource
+} from "@/types/chat";
 import SessionList from "@/components/chat/SessionList";
 import { ChatMessageList } from "@/components/chat/ChatMessageList";
 import ChatInput from "@/components/chat/ChatInput";
 import { useAuth } from "@/contexts/AuthContext";
+import { useContactsContext } from "@/contexts/ContactsContext";
 import { ContactName } from "@/components/chat/ContactName";
+import { BotTakeoverToggle } from "@/components/chat/BotTakeoverToggle";
+import { AssigneeSelect } from "@/components/chat/AssigneeSelect";
+import { ConversationStatusControl } from "@/components/chat/ConversationStatusControl";
+import { SessionTagsPicker } from "@/components/chat/SessionTagsPicker";
+import { PlatformSelect } from "@/components/chat/PlatformSelect";
+import { WhatsAppWindowIndicator } from "@/components/chat/WhatsAppWindowIndicator";
+import { TranscriptExportDialog } from "@/components/chat/TranscriptExportDialog";
+import { CustomerProfileDialog } from "@/components/chat/CustomerProfileDialog";
+import { SessionViewers } from "@/components/chat/SessionViewers";
 import { useMediaQuery } from "@/hooks/useMediaQuery";
+import { useChatRealtime } from "@/hooks/useChatRealtime";
+import { useAgents } from "@/hooks/useAgents";
+import { useTags } from "@/hooks/useTags";
+import { useSessionNotes } from "@/hooks/useSessionNotes";
+import { useMessageReceipts } from "@/hooks/useMessageReceipts";
+import { useWebhookDeliveries } from "@/hooks/useWebhookDeliveries";
+import { useScheduledMessages } from "@/hooks/useScheduledMessages";
+import { useWhatsAppWindow } from "@/hooks/useWhatsAppWindow";
+import { useCustomerProfile } from "@/hooks/useCustomerProfile";
+import { useSessionPresence } from "@/hooks/useSessionPresence";
+import { useReplyLock } from "@/hooks/useReplyLock";
+import { useSendQueue } from "@/hooks/useSendQueue";
+import { WebhookDelivery } from "@/services/webhookOutboxService";
+import { isNetworkError } from "@/services/sendQueueService";
+import { getAgentName, subscribeToAssignments } from "@/services/assignmentService";
+import { subscribeToSessionStatus } from "@/services/conversationStatusService";
+import { fetchSessionTagIds, subscribeToSessionTags } from "@/services/tagService";
+import { subscribeToSessionPlatform } from "@/services/platformService";
+import { getMessagePreview } from "@/services/attachmentService";
+import { formatJakartaTime } from "@/services/scheduledMessageService";
+import { WhatsAppTemplate } from "@/services/whatsappTemplateService";
+import { markSessionRead, markSessionUnread, subscribeToReadCursors } from "@/services/readStateService";
 
 const Chat = () => {
   const { toast } = useToast();
   const { theme } = useTheme();
   const { user } = useAuth();
+  const { contacts, getContact } = useContactsContext();
   const isMobile = useMediaQuery("(max-width: 768px)");
+  const { agents } = useAgents();
+  const { tags } = useTags();
   
-  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Notifications link to a conversation with ?session=
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(() => searchParams.get('session'));
   const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const sessionsRef = useRef<ChatSession[]>(sessions);
+  sessionsRef.current = sessions;
   const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [currentPage, setCurrentPage] = useState(1);
   const [hasMoreMessages, setHasMoreMessages] = useState(true);
+  const [hasNewerMessages, setHasNewerMessages] = useState(false);
+  const [isLoadingNewer, setIsLoadingNewer] = useState(false);
+  const [scrollToMessageId, setScrollToMessageId] = useState<string | null>(null);
   const [isLoadingSessions, setIsLoadingSessions] = useState(true);
+  const [isLoadingMoreSessions, setIsLoadingMoreSessions] = useState(false);
+  const [sessionsCursor, setSessionsCursor] = useState<ChatSessionCursor | null>(null);
+  const [sessionSort, setSessionSort] = useState<ChatSessionSort>('recent');
+  const sessionSortRef = useRef<ChatSessionSort>(sessionSort);
+  sessionSortRef.current = sessionSort;
+  const [assigneeFilter, setAssigneeFilter] = useState<ChatSessionAssigneeFilter>('all');
+  const assigneeFilterRef = useRef<ChatSessionAssigneeFilter>(assigneeFilter);
+  assigneeFilterRef.current = assigneeFilter;
+  const [statusFilter, setStatusFilter] = useState<ChatSessionStatusFilter>('all');
+  const statusFilterRef = useRef<ChatSessionStatusFilter>(statusFilter);
+  statusFilterRef.current = statusFilter;
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const tagFilterRef = useRef<string[]>(tagFilter);
+  tagFilterRef.current = tagFilter;
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [showChat, setShowChat] = useState(!isMobile);
+  const selectedSessionIdRef = useRef<string | null>(null);
+  selectedSessionIdRef.current = selectedSessionId;
+  const hasNewerMessagesRef = useRef(false);
+  hasNewerMessagesRef.current = hasNewerMessages;
+  const syncedReadCursors = useRef(new Map<string, number>());
+  // Message to open once the selected session changes (search result click)
+  const pendingMessageTarget = useRef<{ sessionId: string; cursor: ChatMessageCursor } | null>(null);
+  
+  const { notes, add: addNote, remove: removeNote } = useSessionNotes(selectedSessionId);
+  const [noteTarget, setNoteTarget] = useState<ChatNoteTarget | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isProfileOpen, setIsProfileOpen] = useState(false);
+  const receipts = useMessageReceipts(selectedSessionId, messages);
+  const { deliveries, retry: retryDelivery } = useWebhookDeliveries(selectedSessionId);
+  const {
+    scheduledMessages,
+    schedule: scheduleMessage,
+    update: updateScheduledMessage,
+    cancel: cancelScheduledMessage
+  } = useScheduledMessages(selectedSessionId);
+  const whatsAppWindow = useWhatsAppWindow(
+    selectedSessionId,
+    sessions.find(session => session.session_id === selectedSessionId)?.platform,
+    messages
+  );
+  const {
+    profile: customerProfile,
+    loading: isLoadingProfile,
+    merge: mergeCustomerSession,
+    unmerge: unmergeCustomerSession
+  } = useCustomerProfile(
+    selectedSessionId,
+    sessions.find(session => session.session_id === selectedSessionId)?.sender_name,
+    contacts
+  );
+  const currentAgent = agents.find(agent => agent.id === user?.id);
+  const presence = useSessionPresence(
+    selectedSessionId,
+    currentAgent ? getAgentName(currentAgent) : user?.email?.split('@')[0] || 'Agent'
+  );
+  const replyLock = useReplyLock(selectedSessionId);
+  const replyLockHolder = agents.find(agent => agent.id === replyLock.lock?.locked_by);
   
   // Reset showChat when screen size changes
   useEffect(() => {
     setShowChat(!isMobile);
   }, [isMobile]);
 
+  // Open the conversation a notification links to
+  const linkedSessionId = searchParams.get('session');
+  useEffect(() => {
+    if (!linkedSessionId) return;
+
+    setSelectedSessionId(linkedSessionId);
+    setShowChat(true);
+    setSearchParams({}, { replace: true });
+  }, [linkedSessionId, setSearchParams]);
+
+  // A note being written about a message belongs to that conversation
+  useEffect(() => {
+    setNoteTarget(null);
+  }, [selectedSessionId]);
+
   // Handle session selection
   const handleSessionSelect = (sessionId: string) => {
     setSelectedSessionId(sessionId);
@@ -47,15 +183,32 @@ const Chat = () => {
     setShowChat(false);
   };
   
-  // Fetch sessions data
-  const loadSessions = useCallback(async () => {
+  // Fetch sessions data, a null cursor (re)loads the first page
+  const loadSessions = useCallback(async (cursor: ChatSessionCursor | null = null) => {
+    const isInitialLoad = !cursor;
+    if (!isInitialLoad) {
+      setIsLoadingMoreSessions(true);
+    }
+
     try {
-      const fetchedSessions = await fetchChatSessions();
-      setSessions(fetchedSessions);
+      const { sessions: fetchedSessions, nextCursor } = await fetchChatSessions({
+        sort: sessionSort,
+        assignee: assigneeFilter,
+        status: statusFilter,
+        tagIds: tagFilter,
+        cursor
+      });
+
+      setSessions(prev => {
+        if (isInitialLoad) return fetchedSessions;
+        const known = new Set(prev.map(session => session.session_id));
+        return [...prev, ...fetchedSessions.filter(session => !known.has(session.session_id))];
+      });
+      setSessionsCursor(nextCursor);
       
       // Select the most recent session if none is selected
-      if (fetchedSessions.length > 0 && !selectedSessionId) {
-        setSelectedSessionId(fetchedSessions[0].session_id);
+      if (isInitialLoad && fetchedSessions.length > 0) {
+        setSelectedSessionId(current => current ?? fetchedSessions[0].session_id);
       }
     } catch (error) {
       console.error("Error fetching sessions:", error);
@@ -65,29 +218,58 @@ const Chat = () => {
         variant: "destructive"
       });
     } finally {
-      setIsLoadingSessions(false);
+      if (isInitialLoad) {
+        setIsLoadingSessions(false);
+      } else {
+        setIsLoadingMoreSessions(false);
+      }
     }
-  }, [selectedSessionId, toast]);
+  }, [sessionSort, assigneeFilter, statusFilter, tagFilter, toast]);
+
+  // Load the next page of sessions
+  const handleLoadMoreSessions = useCallback(() => {
+    if (sessionsCursor && !isLoadingMoreSessions) {
+      loadSessions(sessionsCursor);
+    }
+  }, [sessionsCursor, isLoadingMoreSessions, loadSessions]);
+
+  const handleSessionSortChange = (sort: ChatSessionSort) => {
+    setIsLoadingSessions(true);
+    setSessionsCursor(null);
+    setSessionSort(sort);
+  };
+
+  const handleAssigneeFilterChange = (filter: ChatSessionAssigneeFilter) => {
+    setIsLoadingSessions(true);
+    setSessionsCursor(null);
+    setAssigneeFilter(filter);
+  };
+
+  const handleStatusFilterChange = (filter: ChatSessionStatusFilter) => {
+    setIsLoadingSessions(true);
+    setSessionsCursor(null);
+    setStatusFilter(filter);
+  };
+
+  const handleTagFilterChange = (tagIds: string[]) => {
+    setIsLoadingSessions(true);
+    setSessionsCursor(null);
+    setTagFilter(tagIds);
+  };
   
-  // Fetch messages for selected session
-  const loadMessages = useCallback(async (page: number = 1) => {
+  // Fetch the latest messages for selected session
+  const loadMessages = useCallback(async () => {
     if (!selectedSessionId) return;
     
-    const isInitialLoad = page === 1;
-    if (isInitialLoad) {
-      setIsLoadingMessages(true);
-    } else {
-      setIsLoadingMore(true);
-    }
+    setIsLoadingMessages(true);
+    setScrollToMessageId(null);
 
     try {
-      const { messages: fetchedMessages, hasMore } = await fetchChatMessages(selectedSessionId, page);
+      const { messages: fetchedMessages, hasMore } = await fetchChatMessages(selectedSessionId);
       
-      setMessages(prev => 
-        page === 1 ? fetchedMessages : [...prev, ...fetchedMessages]
-      );
+      setMessages(fetchedMessages);
       setHasMoreMessages(hasMore);
-      setCurrentPage(page);
+      setHasNewerMessages(false);
     } catch (error) {
       console.error("Error fetching messages:", error);
       toast({
@@ -96,75 +278,603 @@ const Chat = () => {
         variant: "destructive"
       });
     } finally {
-      if (isInitialLoad) {
-        setIsLoadingMessages(false);
-      } else {
-        setIsLoadingMore(false);
-      }
+      setIsLoadingMessages(false);
     }
   }, [selectedSessionId, toast]);
   
-  // Load more messages
-  const handleLoadMore = useCallback(() => {
-    if (!isLoadingMore && hasMoreMessages) {
-      loadMessages(currentPage + 1);
+  // Load older messages before the first one shown
+  const handleLoadMore = useCallback(async () => {
+    if (!selectedSessionId || isLoadingMore || !hasMoreMessages || messages.length === 0) return;
+
+    setIsLoadingMore(true);
+    try {
+      const { messages: olderMessages, hasMore } = await fetchChatMessages(selectedSessionId, {
+        before: getMessageCursor(messages[0])
+      });
+
+      setMessages(prev => {
+        const known = new Set(prev.map(msg => msg.id));
+        return [...olderMessages.filter(msg => !known.has(msg.id)), ...prev];
+      });
+      setHasMoreMessages(hasMore);
+    } catch (error) {
+      console.error("Error fetching older messages:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load messages",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [selectedSessionId, isLoadingMore, hasMoreMessages, messages, toast]);
+
+  // Load newer messages after the last one shown (after jumping to a date)
+  const handleLoadNewer = useCallback(async () => {
+    if (!selectedSessionId || isLoadingNewer || !hasNewerMessages || messages.length === 0) return;
+
+    setIsLoadingNewer(true);
+    try {
+      const { messages: newerMessages, hasMore } = await fetchChatMessages(selectedSessionId, {
+        after: getMessageCursor(messages[messages.length - 1])
+      });
+
+      setMessages(prev => {
+        const known = new Set(prev.map(msg => msg.id));
+        return [...prev, ...newerMessages.filter(msg => !known.has(msg.id))];
+      });
+      setHasNewerMessages(hasMore);
+    } catch (error) {
+      console.error("Error fetching newer messages:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load messages",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoadingNewer(false);
+    }
+  }, [selectedSessionId, isLoadingNewer, hasNewerMessages, messages, toast]);
+
+  // Load the window of messages around a single message and scroll to it
+  const loadMessagesAround = useCallback(async (sessionId: string, target: ChatMessageCursor) => {
+    setIsLoadingMessages(true);
+    setScrollToMessageId(null);
+    try {
+      const { messages: windowMessages, hasOlder, hasNewer } = await fetchChatMessagesAroundMessage(sessionId, target);
+
+      setMessages(windowMessages);
+      setHasMoreMessages(hasOlder);
+      setHasNewerMessages(hasNewer);
+      setScrollToMessageId(target.id.toString());
+    } catch (error) {
+      console.error("Error loading message:", error);
+      toast({
+        title: "Error",
+        description: "Failed to open the message",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoadingMessages(false);
     }
-  }, [currentPage, hasMoreMessages, isLoadingMore, loadMessages]);
+  }, [toast]);
+
+  // Open the session of a search result, scrolled to the matching message
+  const handleSelectSearchResult = (result: ChatSearchResult) => {
+    const cursor = { created_at: result.created_at, id: Number(result.message_id) };
+
+    if (result.session_id === selectedSessionId) {
+      loadMessagesAround(result.session_id, cursor);
+    } else {
+      pendingMessageTarget.current = { sessionId: result.session_id, cursor };
+      setSelectedSessionId(result.session_id);
+    }
+    if (isMobile) {
+      setShowChat(true);
+    }
+  };
+
+  // Load the window of messages around a chosen day
+  const handleJumpToDate = useCallback(async (date: Date) => {
+    if (!selectedSessionId) return;
+
+    setIsLoadingMessages(true);
+    try {
+      const { messages: windowMessages, hasOlder, hasNewer } = await fetchChatMessagesAround(selectedSessionId, date);
+      const dayStart = startOfDay(date).getTime();
+      const target = windowMessages.find(msg => new Date(msg.created_at).getTime() >= dayStart)
+        || windowMessages[windowMessages.length - 1];
+
+      setMessages(windowMessages);
+      setHasMoreMessages(hasOlder);
+      setHasNewerMessages(hasNewer);
+      setScrollToMessageId(target?.id ?? null);
+    } catch (error) {
+      console.error("Error jumping to date:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load messages for that date",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoadingMessages(false);
+    }
+  }, [selectedSessionId, toast]);
   
   // Initial data load
   useEffect(() => {
     if (user) {
-      loadSessions();
+      loadSessions(null);
     }
   }, [user, loadSessions]);
   
   // Load messages when session changes
   useEffect(() => {
-    if (selectedSessionId) {
-      setCurrentPage(1);
-      setHasMoreMessages(true);
-      loadMessages(1);
+    if (!selectedSessionId) return;
+
+    const target = pendingMessageTarget.current;
+    pendingMessageTarget.current = null;
+    if (target?.sessionId === selectedSessionId) {
+      loadMessagesAround(selectedSessionId, target.cursor);
+    } else {
+      loadMessages();
     }
-  }, [selectedSessionId, loadMessages]);
+  }, [selectedSessionId, loadMessages, loadMessagesAround]);
   
+  // Apply messages pushed by Supabase Realtime
+  const handleRealtimeMessage = useCallback((incoming: ChatMessage) => {
+    // While browsing an older window, newer pages are fetched on demand instead
+    if (incoming.session_id === selectedSessionIdRef.current && !hasNewerMessagesRef.current) {
+      setMessages(prev => 
+        prev.some(msg => msg.id === incoming.id) ? prev : [...prev, incoming]
+      );
+    }
+
+    // Customer messages count as unread unless the agent is looking at them
+    const isViewing = incoming.session_id === selectedSessionIdRef.current &&
+      !hasNewerMessagesRef.current &&
+      document.visibilityState === 'visible';
+    const unreadIncrement = incoming.message.type === 'human' && !isViewing ? 1 : 0;
+
+    // Move the session to the top of the list with its new last message
+    setSessions(prev => {
+      const existing = prev.find(session => session.session_id === incoming.session_id);
+      // New sessions are unassigned until round-robin picks them up, which
+      // the assignment subscription reports separately
+      if (!existing && assigneeFilterRef.current === 'mine') return prev;
+      // A customer message (re)opens the session, otherwise its status is unknown here
+      const isCustomerMessage = incoming.message.type === 'human';
+      const currentStatusFilter = statusFilterRef.current;
+      if (!existing && currentStatusFilter !== 'all' && !(currentStatusFilter === 'open' && isCustomerMessage)) return prev;
+      // New sessions carry no tags yet
+      if (!existing && tagFilterRef.current.length > 0) return prev;
+      const updated: ChatSession = {
+        ...existing,
+        session_id: incoming.session_id,
+        last_message: getMessagePreview(incoming.message.content, incoming.message.attachments),
+        last_timestamp: incoming.created_at,
+        last_message_id: Number(incoming.id),
+        sender_name: incoming.message.sender_name || existing?.sender_name,
+        unread_count: isViewing ? 0 : (existing?.unread_count ?? 0) + unreadIncrement,
+        message_count: (existing?.message_count ?? 0) + 1,
+        // The stored platform wins, a manual override is not replaced by the trigger
+        platform: existing?.platform || incoming.message.trigger,
+        status: isCustomerMessage ? 'open' : existing?.status
+      };
+      // Only the "recent" ordering moves active sessions to the top
+      if (sessionSortRef.current !== 'recent' && existing) {
+        return prev.map(session => session.session_id === incoming.session_id ? updated : session);
+      }
+      return [updated, ...prev.filter(session => session.session_id !== incoming.session_id)];
+    });
+  }, []);
+
+  const { isConnected: isRealtimeConnected } = useChatRealtime({
+    enabled: !!user,
+    onMessage: handleRealtimeMessage
+  });
+  
+  // Move the read cursor forward, skipping ids that were already synced
+  const markRead = useCallback((sessionId: string, messageId?: number) => {
+    if (!user || !messageId) return;
+    if ((syncedReadCursors.current.get(sessionId) ?? 0) >= messageId) return;
+
+    syncedReadCursors.current.set(sessionId, messageId);
+    setSessions(prev => 
+      prev.map(session => 
+        session.session_id === sessionId ? { ...session, unread_count: 0 } : session
+      )
+    );
+
+    markSessionRead(user.id, sessionId, messageId).catch(error => {
+      console.error("Error marking session as read:", error);
+      syncedReadCursors.current.delete(sessionId);
+    });
+  }, [user]);
+
+  const handleMarkRead = (sessionId: string) => {
+    const session = sessions.find(s => s.session_id === sessionId);
+    markRead(sessionId, session?.last_message_id);
+  };
+
+  const handleMarkUnread = async (sessionId: string) => {
+    if (!user) return;
+
+    syncedReadCursors.current.delete(sessionId);
+    setSessions(prev => 
+      prev.map(session => 
+        session.session_id === sessionId
+          ? { ...session, unread_count: Math.max(1, session.unread_count ?? 0) }
+          : session
+      )
+    );
+
+    try {
+      await markSessionUnread(user.id, sessionId);
+    } catch (error) {
+      console.error("Error marking session as unread:", error);
+      toast({
+        title: "Error",
+        description: "Failed to mark conversation as unread",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Mark the open session as read once its latest messages are on screen
+  useEffect(() => {
+    if (!selectedSessionId || isLoadingMessages || hasNewerMessages || messages.length === 0) return;
+
+    const latest = messages[messages.length - 1];
+    if (latest.session_id !== selectedSessionId) return;
+
+    const markVisibleAsRead = () => {
+      if (document.visibilityState === 'visible') {
+        markRead(selectedSessionId, Number(latest.id));
+      }
+    };
+
+    markVisibleAsRead();
+    document.addEventListener('visibilitychange', markVisibleAsRead);
+    return () => document.removeEventListener('visibilitychange', markVisibleAsRead);
+  }, [selectedSessionId, messages, isLoadingMessages, hasNewerMessages, markRead]);
+
+  // Apply read/unread changes made on other devices
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToReadCursors(user.id, (cursor) => {
+      if (cursor.marked_unread) {
+        syncedReadCursors.current.delete(cursor.session_id);
+      }
+
+      setSessions(prev => 
+        prev.map(session => {
+          if (session.session_id !== cursor.session_id) return session;
+          if (cursor.marked_unread) {
+            return { ...session, unread_count: Math.max(1, session.unread_count ?? 0) };
+          }
+          if (cursor.last_read_message_id >= (session.last_message_id ?? 0)) {
+            return { ...session, unread_count: 0 };
+          }
+          return session;
+        })
+      );
+    });
+  }, [user]);
+
+  // Apply an assignment made here, by another agent or by round-robin
+  const handleAssignmentChange = useCallback((sessionId: string, assignedTo: string | null) => {
+    const filter = assigneeFilterRef.current;
+    const matchesFilter = filter === 'all' ||
+      (filter === 'mine' && assignedTo === user?.id) ||
+      (filter === 'unassigned' && !assignedTo);
+
+    setSessions(prev => {
+      if (!prev.some(session => session.session_id === sessionId)) return prev;
+      // Keep the open conversation listed even when it leaves the current view
+      if (!matchesFilter && sessionId !== selectedSessionIdRef.current) {
+        return prev.filter(session => session.session_id !== sessionId);
+      }
+      return prev.map(session => 
+        session.session_id === sessionId ? { ...session, assigned_to: assignedTo } : session
+      );
+    });
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToAssignments((sessionId, assignedTo) => {
+      handleAssignmentChange(sessionId, assignedTo);
+      // Conversations newly assigned to me appear in "Mine" without a reload
+      if (
+        assigneeFilterRef.current === 'mine' &&
+        assignedTo === user.id &&
+        !sessionsRef.current.some(session => session.session_id === sessionId)
+      ) {
+        loadSessions(null);
+      }
+    });
+  }, [user, handleAssignmentChange, loadSessions]);
+
+  // Apply a status change made here, by another agent or by the customer writing again
+  const handleStatusChange = useCallback((sessionId: string, status: ChatSessionStatus) => {
+    const filter = statusFilterRef.current;
+    const matchesFilter = filter === 'all' || filter === status;
+
+    setSessions(prev => {
+      if (!prev.some(session => session.session_id === sessionId)) return prev;
+      // Keep the open conversation listed even when it leaves the current view
+      if (!matchesFilter && sessionId !== selectedSessionIdRef.current) {
+        return prev.filter(session => session.session_id !== sessionId);
+      }
+      return prev.map(session => 
+        session.session_id === sessionId ? { ...session, status } : session
+      );
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToSessionStatus(handleStatusChange);
+  }, [user, handleStatusChange]);
+
+  // Apply tags changed here or by another agent
+  const handleSessionTagsChange = useCallback((sessionId: string, tagIds: string[]) => {
+    const filter = tagFilterRef.current;
+    const matchesFilter = filter.length === 0 || tagIds.some(id => filter.includes(id));
+
+    setSessions(prev => {
+      if (!prev.some(session => session.session_id === sessionId)) return prev;
+      // Keep the open conversation listed even when it leaves the current view
+      if (!matchesFilter && sessionId !== selectedSessionIdRef.current) {
+        return prev.filter(session => session.session_id !== sessionId);
+      }
+      return prev.map(session => 
+        session.session_id === sessionId ? { ...session, tag_ids: tagIds } : session
+      );
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToSessionTags(async (sessionId) => {
+      const isListed = sessionsRef.current.some(session => session.session_id === sessionId);
+      // Without a tag filter, sessions that are not listed are not affected
+      if (!isListed && tagFilterRef.current.length === 0) return;
+
+      try {
+        const tagIds = await fetchSessionTagIds(sessionId);
+        if (isListed) {
+          handleSessionTagsChange(sessionId, tagIds);
+        } else if (tagIds.some(id => tagFilterRef.current.includes(id))) {
+          loadSessions(null);
+        }
+      } catch (error) {
+        console.error("Error refreshing session tags:", error);
+      }
+    });
+  }, [user, handleSessionTagsChange, loadSessions]);
+
+  // Apply a platform set by ingestion, the backfill or another agent
+  const handlePlatformChange = useCallback((sessionId: string, platform: MessagePlatform | null, source: PlatformSource | null) => {
+    setSessions(prev => 
+      prev.map(session => 
+        session.session_id === sessionId
+          ? { ...session, platform: platform ?? undefined, platform_source: source }
+          : session
+      )
+    );
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToSessionPlatform(handlePlatformChange);
+  }, [user, handlePlatformChange]);
+
+  // Reflect takeover changes in the session list
+  const handleBotStatusChange = useCallback((sessionId: string, botPaused: boolean) => {
+    setSessions(prev => 
+      prev.map(session => 
+        session.session_id === sessionId && session.bot_paused !== botPaused
+          ? { ...session, bot_paused: botPaused }
+          : session
+      )
+    );
+  }, []);
+
+  // Show a message the agent just sent in the thread and the session list
+  const applySentMessage = (newMessage: ChatMessage, preview: string) => {
+    if (hasNewerMessages) {
+      // Browsing an older window, go back to the latest messages
+      loadMessages();
+    } else {
+      // Update the UI optimistically (realtime may have delivered it already)
+      setMessages(prev => 
+        prev.some(msg => msg.id === newMessage.id) ? prev : [...prev, newMessage]
+      );
+    }
+    
+    // Update the session list with the new message
+    setSessions(prev => 
+      prev.map(session => 
+        session.session_id === newMessage.session_id 
+          ? {
+              ...session,
+              last_message: preview,
+              last_timestamp: new Date().toISOString(),
+              last_message_id: Number(newMessage.id)
+            }
+          : session
+      )
+    );
+  };
+
+  // Replies queued while offline go out when the connection returns, whichever session is open
+  const sendQueue = useSendQueue(selectedSessionId, (newMessage, queued) => {
+    if (newMessage.session_id === selectedSessionIdRef.current) {
+      applySentMessage(newMessage, getMessagePreview(queued.content, queued.attachments));
+    }
+  });
+
   // Handle sending a message
-  const handleSendMessage = async (message: string) => {
+  const handleSendMessage = async (message: string, attachments: MessageAttachment[] = []) => {
     if (!selectedSessionId) return;
+
+    const platform = sessions.find(session => session.session_id === selectedSessionId)?.platform ?? null;
+    // Kept across retries, so a replay of a message that did arrive is not stored twice
+    const clientMessageId = crypto.randomUUID();
+    const queueReply = async () => {
+      await sendQueue.enqueue({
+        client_message_id: clientMessageId,
+        session_id: selectedSessionId,
+        content: message,
+        platform,
+        attachments
+      });
+      toast({
+        title: "You are offline",
+        description: "The message will be sent when the connection returns"
+      });
+    };
+
+    if (!navigator.onLine) {
+      await queueReply();
+      return;
+    }
     
     try {
-      const newMessage = await sendMessage(selectedSessionId, message);
-      
-      // Update the UI optimistically
-      setMessages(prev => [...prev, newMessage]);
-      
-      // Update the session list with the new message
-      setSessions(prev => 
-        prev.map(session => 
-          session.session_id === selectedSessionId 
-            ? {
-                ...session,
-                last_message: message,
-                last_timestamp: new Date().toISOString()
-              }
-            : session
-        )
-      );
+      const newMessage = await sendMessage(selectedSessionId, message, platform ?? undefined, attachments, clientMessageId);
+      applySentMessage(newMessage, getMessagePreview(message, attachments));
       
       toast({
         title: "Message sent",
         description: "Your message has been sent successfully"
       });
     } catch (error) {
+      if (isNetworkError(error)) {
+        await queueReply();
+        return;
+      }
       console.error("Error sending message:", error);
       toast({
         title: "Error",
         description: "Failed to send message. Please try again.",
         variant: "destructive"
       });
+      throw error;
+    }
+  };
+
+  // Templates are the only messages WhatsApp accepts outside the 24-hour window
+  const handleSendTemplate = async (template: WhatsAppTemplate, parameters: string[]) => {
+    if (!selectedSessionId) return;
+
+    try {
+      const newMessage = await sendTemplateMessage(selectedSessionId, template, parameters);
+      applySentMessage(newMessage, newMessage.message.content);
+      toast({
+        title: "Message sent",
+        description: `Template ${template.name} has been sent`
+      });
+    } catch (error) {
+      console.error("Error sending template:", error);
+      throw error;
+    }
+  };
+
+  // Internal notes are stored apart from the messages and never sent to n8n
+  const handleAddNote = async (content: string, mentions: string[], messageId: number | null) => {
+    try {
+      await addNote({ content, mentions, messageId });
+    } catch (error) {
+      console.error("Error adding note:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save note. Please try again.",
+        variant: "destructive"
+      });
+      throw error;
+    }
+  };
+
+  const handleDeleteNote = async (noteId: string) => {
+    try {
+      await removeNote(noteId);
+    } catch (error) {
+      console.error("Error deleting note:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete note",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Scheduled messages are sent by the database, the dashboard only queues them
+  const handleScheduleMessage = async (message: string, sendAt: Date) => {
+    try {
+      await scheduleMessage(message, sendAt);
+      toast({
+        title: "Message scheduled",
+        description: `It will be sent ${formatJakartaTime(sendAt)}`
+      });
+    } catch (error) {
+      console.error("Error scheduling message:", error);
+      throw error;
+    }
+  };
+
+  const handleEditScheduled = async (id: string, content: string, sendAt: Date) => {
+    await updateScheduledMessage(id, content, sendAt);
+  };
+
+  const handleCancelScheduled = async (id: string) => {
+    try {
+      await cancelScheduledMessage(id);
+    } catch (error) {
+      console.error("Error cancelling scheduled message:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel scheduled message",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRetryDelivery = async (delivery: WebhookDelivery) => {
+    try {
+      const updated = await retryDelivery(delivery.id);
+      if (updated.status === 'delivered') {
+        toast({
+          title: "Success",
+          description: "Message sent"
+        });
+      } else {
+        toast({
+          title: "Error",
+          description: updated.last_error
+            ? `Still failing: ${updated.last_error}`
+            : "The webhook did not accept the message",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error("Error retrying delivery:", error);
+      toast({
+        title: "Error",
+        description: "Failed to retry message",
+        variant: "destructive"
+      });
     }
   };
 
   const selectedSession = sessions.find(s => s.session_id === selectedSessionId);
+  const selectedContact = getContact(selectedSession?.sender_name || selectedSessionId || '');
   const chatTitle = selectedSession?.sender_name || 'Chat';
   
   return (
@@ -175,11 +885,33 @@ const Chat = () => {
       <div className="flex h-[calc(100vh-4rem)]">
         {/* Sessions List */}
         <div className={`${showChat ? 'hidden md:flex' : 'flex'} w-full md:w-80 flex-col border-r dark:border-gray-700 bg-white dark:bg-gray-800`}>
+        {!isLoadingSessions && !isRealtimeConnected && (
+          <div className="flex items-center gap-2 px-4 py-2 text-xs text-amber-700 bg-amber-50 dark:text-amber-300 dark:bg-amber-900/30">
+            <WifiOff className="h-3 w-3" />
+            Reconnecting to live updates...
+          </div>
+        )}
         <SessionList 
           sessions={sessions}
           selectedSessionId={selectedSessionId}
             onSelectSession={handleSessionSelect}
           isLoading={isLoadingSessions}
+          hasMore={!!sessionsCursor}
+          isLoadingMore={isLoadingMoreSessions}
+          onLoadMore={handleLoadMoreSessions}
+          sort={sessionSort}
+          onSortChange={handleSessionSortChange}
+          onMarkRead={handleMarkRead}
+          onMarkUnread={handleMarkUnread}
+          onSelectSearchResult={handleSelectSearchResult}
+          assigneeFilter={assigneeFilter}
+          onAssigneeFilterChange={handleAssigneeFilterChange}
+          agents={agents}
+          statusFilter={statusFilter}
+          onStatusFilterChange={handleStatusFilterChange}
+          tags={tags}
+          tagFilter={tagFilter}
+          onTagFilterChange={handleTagFilterChange}
         />
         </div>
         
@@ -202,14 +934,72 @@ const Chat = () => {
                 <div className="w-10 h-10 rounded-full bg-gray-200 dark:bg-gray-600 flex items-center justify-center text-gray-600 dark:text-gray-300 font-medium">
                   <User className="h-5 w-5" />
                 </div>
-                <div className="ml-3">
+                <div className="ml-3 min-w-0">
                   <ContactName 
                     phoneNumber={selectedSession?.sender_name || selectedSessionId || 'Unknown'}
                     className="font-medium dark:text-white"
                   />
-                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                  <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
                     Online
+                    {whatsAppWindow && !whatsAppWindow.loading && (
+                      <WhatsAppWindowIndicator
+                        isOpen={whatsAppWindow.isOpen}
+                        remainingMs={whatsAppWindow.remainingMs}
+                        closesAt={whatsAppWindow.closesAt}
+                      />
+                    )}
                   </div>
+                  <SessionTagsPicker
+                    sessionId={selectedSessionId}
+                    tagIds={selectedSession?.tag_ids ?? []}
+                    tags={tags}
+                    onTagsChange={handleSessionTagsChange}
+                  />
+                </div>
+                <div className="ml-auto flex items-center gap-4">
+                  <SessionViewers viewers={presence.viewers} />
+                  <Button
+                    variant="ghost"
+                    size={customerProfile && customerProfile.sessions.length > 1 ? "sm" : "icon"}
+                    onClick={() => setIsProfileOpen(true)}
+                    aria-label="Customer profile"
+                    title="Customer profile across channels"
+                  >
+                    <Users className="h-5 w-5" />
+                    {customerProfile && customerProfile.sessions.length > 1 && (
+                      <span className="ml-1 text-xs">{customerProfile.sessions.length}</span>
+                    )}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setIsExportOpen(true)}
+                    aria-label="Export conversation"
+                    title="Export conversation"
+                  >
+                    <Download className="h-5 w-5" />
+                  </Button>
+                  <PlatformSelect
+                    sessionId={selectedSessionId}
+                    platform={selectedSession?.platform ?? null}
+                    source={selectedSession?.platform_source ?? null}
+                    onPlatformChange={handlePlatformChange}
+                  />
+                  <ConversationStatusControl
+                    sessionId={selectedSessionId}
+                    status={selectedSession?.status ?? 'open'}
+                    onStatusChange={handleStatusChange}
+                  />
+                  <AssigneeSelect
+                    sessionId={selectedSessionId}
+                    assignedTo={selectedSession?.assigned_to ?? null}
+                    agents={agents}
+                    onAssigned={handleAssignmentChange}
+                  />
+                  <BotTakeoverToggle
+                    sessionId={selectedSessionId}
+                    onStatusChange={handleBotStatusChange}
+                  />
                 </div>
               </div>
               
@@ -221,13 +1011,81 @@ const Chat = () => {
                   isLoadingMore={isLoadingMore}
                   hasMore={hasMoreMessages}
                   onLoadMore={handleLoadMore}
+                  isLoadingNewer={isLoadingNewer}
+                  hasNewer={hasNewerMessages}
+                  onLoadNewer={handleLoadNewer}
+                  onJumpToDate={handleJumpToDate}
+                  onJumpToLatest={loadMessages}
+                  scrollToMessageId={scrollToMessageId}
+                  notes={notes}
+                  receipts={receipts}
+                  deliveries={deliveries}
+                  onRetryDelivery={handleRetryDelivery}
+                  scheduledMessages={scheduledMessages}
+                  onEditScheduled={handleEditScheduled}
+                  onCancelScheduled={handleCancelScheduled}
+                  queuedMessages={sendQueue.queuedMessages}
+                  onRetryQueued={sendQueue.retry}
+                  onDiscardQueued={sendQueue.discard}
+                  agents={agents}
+                  currentUserId={user?.id}
+                  onAddNote={setNoteTarget}
+                  onDeleteNote={handleDeleteNote}
                 />
               </div>
               
+              {!sendQueue.isOnline && (
+                <div className="flex items-center gap-2 px-4 py-2 text-xs text-amber-700 bg-amber-50 dark:text-amber-300 dark:bg-amber-900/30">
+                  <WifiOff className="h-3 w-3" />
+                  You are offline. Replies are kept on this device and sent when the connection returns.
+                </div>
+              )}
+
               {/* Message Input */}
               <ChatInput 
                 onSendMessage={handleSendMessage}
+                onScheduleMessage={handleScheduleMessage}
+                onSendTemplate={whatsAppWindow ? handleSendTemplate : undefined}
+                windowClosed={!!whatsAppWindow && !whatsAppWindow.loading && !whatsAppWindow.isOpen}
+                replyLock={replyLock.lock && {
+                  holderName: replyLockHolder ? getAgentName(replyLockHolder) : 'Another agent',
+                  until: replyLock.lock.locked_until,
+                  isMine: replyLock.isMine
+                }}
+                onToggleReplyLock={replyLock.isMine ? replyLock.release : replyLock.acquire}
+                typingAgents={presence.typingAgents.map(viewer => viewer.name)}
+                onTyping={presence.notifyTyping}
+                onStopTyping={presence.stopTyping}
                 isDisabled={!selectedSessionId}
+                sessionId={selectedSessionId}
+                contactFields={selectedContact?.fields}
+                onAddNote={handleAddNote}
+                agents={agents}
+                noteTarget={noteTarget}
+                onClearNoteTarget={() => setNoteTarget(null)}
+              />
+
+              <TranscriptExportDialog
+                open={isExportOpen}
+                onOpenChange={setIsExportOpen}
+                sessionId={selectedSessionId}
+                contactName={selectedContact?.fields?.Name}
+                platform={selectedSession?.platform ?? null}
+              />
+
+              <CustomerProfileDialog
+                open={isProfileOpen}
+                onOpenChange={setIsProfileOpen}
+                sessionId={selectedSessionId}
+                profile={customerProfile}
+                loading={isLoadingProfile}
+                sessions={sessions}
+                onMerge={mergeCustomerSession}
+                onUnmerge={unmergeCustomerSession}
+                onOpenSession={(sessionId) => {
+                  setIsProfileOpen(false);
+                  handleSessionSelect(sessionId);
+                }}
               />
             </>
           ) : (
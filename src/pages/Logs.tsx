@@ -5,11 +5,15 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { fetchLogs, LogEntry, MessageDirection } from "@/services/logService";
+import { DeliveryStatusFilter, fetchLogs, LogEntry, MessageDirection } from "@/services/logService";
+import { DELIVERY_STATUS_LABELS } from "@/services/receiptService";
+import { DeliveryStatus } from "@/types/chat";
 import { useToast } from "@/components/ui/use-toast";
 import { Badge } from "@/components/ui/badge";
 import { Loader2 } from "lucide-react";
 import { ContactName } from "@/components/chat/ContactName";
+import { TagFilter } from "@/components/chat/TagFilter";
+import { useTags } from "@/hooks/useTags";
 
 const Logs = () => {
   const { toast } = useToast();
@@ -17,13 +21,16 @@ const Logs = () => {
   const [dateTo, setDateTo] = useState("");
   const [phoneNumber, setPhoneNumber] = useState("");
   const [direction, setDirection] = useState<MessageDirection>("all");
+  const [status, setStatus] = useState<DeliveryStatusFilter>("all");
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const { tags } = useTags();
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   
-  const fetchLogData = async () => {
+  const fetchLogData = async (tagIds: string[] = tagFilter, statusFilter: DeliveryStatusFilter = status) => {
     setIsLoading(true);
     try {
-      const data = await fetchLogs(dateFrom, dateTo, phoneNumber, direction);
+      const data = await fetchLogs(dateFrom, dateTo, phoneNumber, direction, tagIds, statusFilter);
       setLogs(data);
     } catch (error) {
       console.error('Failed to fetch logs:', error);
@@ -62,7 +69,9 @@ const Logs = () => {
     setDateTo("");
     setPhoneNumber("");
     setDirection("all");
-    fetchLogData();
+    setStatus("all");
+    setTagFilter([]);
+    fetchLogData([], "all");
   };
 
   const getStatusBadgeColor = (status: string) => {
@@ -75,6 +84,8 @@ const Logs = () => {
         return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200';
       case 'failed':
         return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+      case 'received':
+        return 'bg-slate-100 text-slate-800 dark:bg-slate-900 dark:text-slate-200';
       default:
         return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
     }
@@ -91,7 +102,7 @@ const Logs = () => {
         </div>
         
         <Card className="p-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4 mb-4">
             <div>
               <Label htmlFor="dateFrom">From Date</Label>
               <Input
@@ -139,6 +150,34 @@ const Logs = () => {
                 </SelectContent>
               </Select>
             </div>
+            <div>
+              <Label htmlFor="status">Delivery Status</Label>
+              <Select
+                value={status}
+                onValueChange={(value: DeliveryStatusFilter) => setStatus(value)}
+              >
+                <SelectTrigger id="status" className="mt-1">
+                  <SelectValue placeholder="Any Status" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any Status</SelectItem>
+                  {(Object.keys(DELIVERY_STATUS_LABELS) as DeliveryStatus[]).map(value => (
+                    <SelectItem key={value} value={value}>
+                      {DELIVERY_STATUS_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Tags</Label>
+              <TagFilter
+                tags={tags}
+                selected={tagFilter}
+                onChange={setTagFilter}
+                className="mt-1 h-10 w-full"
+              />
+            </div>
           </div>
           
           <div className="flex justify-end gap-2">
@@ -199,7 +238,7 @@ const Logs = () => {
                           </Badge>
                         </td>
                         <td className="px-4 py-3">
-                          <Badge className={getStatusBadgeColor(log.status)}>
+                          <Badge className={getStatusBadgeColor(log.status)} title={log.error}>
                             {log.status}
                           </Badge>
                         </td>
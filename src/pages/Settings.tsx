@@ -4,28 +4,36 @@ import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/components/ui/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { getSetting, setSetting, testWebhook } from "@/services/settingsService";
-import { AlertCircle, CheckCircle2 } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { CannedResponsesSettings } from "@/components/settings/CannedResponsesSettings";
+import { AssignmentSettings } from "@/components/settings/AssignmentSettings";
+import { TagsSettings } from "@/components/settings/TagsSettings";
+import { PlatformSettings } from "@/components/settings/PlatformSettings";
+import { CustomerProfileSettings } from "@/components/settings/CustomerProfileSettings";
+import { WebhookDeliveriesSettings } from "@/components/settings/WebhookDeliveriesSettings";
+import { WebhookEndpointsSettings } from "@/components/settings/WebhookEndpointsSettings";
+import { WebhookSecuritySettings } from "@/components/settings/WebhookSecuritySettings";
+import { WhatsAppTemplatesSettings } from "@/components/settings/WhatsAppTemplatesSettings";
+import { getSetting, setSetting, SETTINGS_KEYS } from "@/services/settingsService";
 
 const Settings = () => {
   const { toast } = useToast();
-  const [webhookUrl, setWebhookUrl] = useState("");
-  const [isSaving, setIsSaving] = useState(false);
-  const [isTesting, setIsTesting] = useState(false);
-  const [testResult, setTestResult] = useState<{
-    success: boolean;
-    message: string;
-  } | null>(null);
+  const [autoResumeMinutes, setAutoResumeMinutes] = useState("30");
+  const [pauseOnAgentReply, setPauseOnAgentReply] = useState(true);
+  const [isSavingTakeover, setIsSavingTakeover] = useState(false);
 
   useEffect(() => {
     // Load settings
     const loadSettings = async () => {
       try {
-        const url = await getSetting('webhook_url');
-        if (url) setWebhookUrl(url);
+        const [resumeMinutes, pauseOnReply] = await Promise.all([
+          getSetting(SETTINGS_KEYS.BOT_AUTO_RESUME_MINUTES),
+          getSetting(SETTINGS_KEYS.BOT_PAUSE_ON_AGENT_REPLY)
+        ]);
+        if (resumeMinutes !== null) setAutoResumeMinutes(resumeMinutes);
+        if (pauseOnReply !== null) setPauseOnAgentReply(pauseOnReply === 'true');
       } catch (error) {
         console.error('Error loading settings:', error);
         toast({
@@ -39,48 +47,38 @@ const Settings = () => {
     loadSettings();
   }, [toast]);
 
-  const handleSave = async () => {
-    setIsSaving(true);
-    try {
-      await setSetting('webhook_url', webhookUrl);
-      toast({
-        title: "Success",
-        description: "Settings saved successfully",
-      });
-    } catch (error) {
-      console.error('Error saving settings:', error);
+  const handleSaveTakeover = async () => {
+    const minutes = parseInt(autoResumeMinutes, 10);
+    if (isNaN(minutes) || minutes < 0) {
       toast({
         title: "Error",
-        description: "Failed to save settings",
+        description: "Auto-resume must be a number of minutes (0 to disable)",
         variant: "destructive",
       });
-    } finally {
-      setIsSaving(false);
+      return;
     }
-  };
 
-  const handleTest = async () => {
-    setIsTesting(true);
-    setTestResult(null);
-    
+    setIsSavingTakeover(true);
     try {
-      const result = await testWebhook(webhookUrl);
-      setTestResult(result);
-      
+      const results = await Promise.all([
+        setSetting(SETTINGS_KEYS.BOT_AUTO_RESUME_MINUTES, String(minutes)),
+        setSetting(SETTINGS_KEYS.BOT_PAUSE_ON_AGENT_REPLY, String(pauseOnAgentReply))
+      ]);
+      if (results.includes(false)) throw new Error('Failed to save human takeover settings');
+
       toast({
-        title: result.success ? "Success" : "Error",
-        description: result.message,
-        variant: result.success ? "default" : "destructive",
+        title: "Success",
+        description: "Human takeover settings saved",
       });
     } catch (error) {
-      console.error('Error testing webhook:', error);
+      console.error('Error saving human takeover settings:', error);
       toast({
         title: "Error",
-        description: "Failed to test webhook",
+        description: "Failed to save settings",
         variant: "destructive",
       });
     } finally {
-      setIsTesting(false);
+      setIsSavingTakeover(false);
     }
   };
 
@@ -91,64 +89,71 @@ const Settings = () => {
           <TabsList>
             <TabsTrigger value="general">General</TabsTrigger>
             <TabsTrigger value="webhook">Webhook</TabsTrigger>
+            <TabsTrigger value="canned-responses">Canned Responses</TabsTrigger>
+            <TabsTrigger value="tags">Tags</TabsTrigger>
+            <TabsTrigger value="whatsapp-templates">WhatsApp Templates</TabsTrigger>
           </TabsList>
           
-          <TabsContent value="general">
-            <Card className="p-6">
-              <h2 className="text-lg font-medium mb-4">General Settings</h2>
-              <p className="text-muted-foreground">Coming soon...</p>
-            </Card>
-          </TabsContent>
-          
-          <TabsContent value="webhook">
+          <TabsContent value="general" className="space-y-6">
             <Card className="p-6">
-              <h2 className="text-lg font-medium mb-4">Webhook Configuration</h2>
+              <h2 className="text-lg font-medium mb-4">Human Takeover</h2>
               
               <div className="space-y-4">
                 <div>
-                  <Label htmlFor="webhookUrl">Webhook URL</Label>
+                  <Label htmlFor="autoResumeMinutes">Auto-resume bot after (minutes of agent inactivity)</Label>
                   <Input
-                    id="webhookUrl"
-                    value={webhookUrl}
-                    onChange={(e) => setWebhookUrl(e.target.value)}
-                    placeholder="Enter webhook URL"
-                    className="mt-1"
+                    id="autoResumeMinutes"
+                    type="number"
+                    min={0}
+                    value={autoResumeMinutes}
+                    onChange={(e) => setAutoResumeMinutes(e.target.value)}
+                    className="mt-1 max-w-xs"
                   />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Set to 0 to keep the bot paused until an agent resumes it.
+                  </p>
                 </div>
-                
-                <div className="flex gap-2">
-                  <Button 
-                    onClick={handleSave}
-                    disabled={isSaving}
-                  >
-                    {isSaving ? "Saving..." : "Save"}
-                  </Button>
-                  <Button 
-                    variant="outline"
-                    onClick={handleTest}
-                    disabled={!webhookUrl || isTesting}
-                  >
-                    {isTesting ? "Testing..." : "Test Webhook"}
-                  </Button>
+
+                <div className="flex items-center gap-3">
+                  <Switch
+                    id="pauseOnAgentReply"
+                    checked={pauseOnAgentReply}
+                    onCheckedChange={setPauseOnAgentReply}
+                  />
+                  <Label htmlFor="pauseOnAgentReply">Pause the bot automatically when an agent replies</Label>
                 </div>
-                
-                {testResult && (
-                  <Alert variant={testResult.success ? "default" : "destructive"}>
-                    {testResult.success ? (
-                      <CheckCircle2 className="h-4 w-4" />
-                    ) : (
-                      <AlertCircle className="h-4 w-4" />
-                    )}
-                    <AlertTitle>
-                      {testResult.success ? "Success" : "Error"}
-                    </AlertTitle>
-                    <AlertDescription>
-                      {testResult.message}
-                    </AlertDescription>
-                  </Alert>
-                )}
+
+                <Button onClick={handleSaveTakeover} disabled={isSavingTakeover}>
+                  {isSavingTakeover ? "Saving..." : "Save"}
+                </Button>
               </div>
             </Card>
+
+            <AssignmentSettings />
+
+            <PlatformSettings />
+
+            <CustomerProfileSettings />
+          </TabsContent>
+          
+          <TabsContent value="webhook" className="space-y-6">
+            <WebhookEndpointsSettings />
+
+            <WebhookSecuritySettings />
+
+            <WebhookDeliveriesSettings />
+          </TabsContent>
+
+          <TabsContent value="canned-responses">
+            <CannedResponsesSettings />
+          </TabsContent>
+
+          <TabsContent value="tags">
+            <TagsSettings />
+          </TabsContent>
+
+          <TabsContent value="whatsapp-templates">
+            <WhatsAppTemplatesSettings />
           </TabsContent>
         </Tabs>
       </div>
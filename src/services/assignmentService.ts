@@ -0,0 +1,114 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { Agent } from '@/types/agent';
+import { logger } from '@/utils/logger';
+
+type AgentProfileRow = Tables<'agent_profiles'>;
+type ChatSessionStateRow = Tables<'chat_session_state'>;
+
+// Same window as is_agent_online() in the database
+export const AGENT_ONLINE_WINDOW_MS = 2 * 60 * 1000;
+export const PRESENCE_HEARTBEAT_MS = 60 * 1000;
+
+const toAgent = (row: AgentProfileRow): Agent => ({
+  id: row.id,
+  email: row.email,
+  display_name: row.display_name,
+  accepts_assignments: row.accepts_assignments,
+  last_seen_at: row.last_seen_at,
+  is_online: !!row.last_seen_at &&
+    Date.now() - new Date(row.last_seen_at).getTime() < AGENT_ONLINE_WINDOW_MS
+});
+
+export const getAgentName = (agent: Pick<Agent, 'display_name' | 'email'>): string =>
+  agent.display_name || agent.email?.split('@')[0] || 'Unknown agent';
+
+/**
+ * Fetches every dashboard user that conversations can be assigned to
+ */
+export const fetchAgents = async (): Promise<Agent[]> => {
+  const { data, error } = await supabase
+    .from('agent_profiles')
+    .select('*')
+    .order('display_name', { ascending: true, nullsFirst: false })
+    .order('email', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch agents:', error);
+    throw error;
+  }
+
+  return (data || []).map(toAgent);
+};
+
+/**
+ * Assigns a session to an agent, or unassigns it when userId is null
+ */
+export const assignSession = async (sessionId: string, userId: string | null): Promise<string | null> => {
+  const { data, error } = await supabase.rpc('assign_chat_session', {
+    p_session_id: sessionId,
+    p_user_id: userId
+  });
+
+  if (error) {
+    logger.error('Failed to assign session:', error);
+    throw error;
+  }
+
+  logger.info('Session assignment updated:', { sessionId, userId });
+  return data.assigned_to;
+};
+
+/**
+ * Marks the current user as online for round-robin assignment
+ */
+export const touchAgentPresence = async (): Promise<void> => {
+  const { error } = await supabase.rpc('touch_agent_presence');
+
+  if (error) {
+    logger.warn('Failed to update agent presence:', error);
+  }
+};
+
+/**
+ * Includes or excludes the current user from round-robin assignment
+ */
+export const setAcceptsAssignments = async (userId: string, accepts: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('agent_profiles')
+    .update({ accepts_assignments: accepts, updated_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) {
+    logger.error('Failed to update assignment preference:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribes to assignment changes of all sessions, made manually or by
+ * round-robin. Returns a function that removes the channel.
+ */
+export const subscribeToAssignments = (
+  onChange: (sessionId: string, assignedTo: string | null) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`chat_session_state:assignments:${Date.now()}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'chat_session_state' },
+      (payload: RealtimePostgresChangesPayload<ChatSessionStateRow>) => {
+        if (payload.eventType === 'DELETE') return;
+        const previous = payload.eventType === 'UPDATE' ? payload.old : null;
+        // Bot takeover updates the same rows, only report actual assignment changes
+        if (previous && 'assigned_to' in previous && previous.assigned_to === payload.new.assigned_to) return;
+        onChange(payload.new.session_id, payload.new.assigned_to);
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,203 @@
+import { supabase } from '@/integrations/supabase/client';
+import { MessageAttachment, MessageAttachmentType } from '@/types/chat';
+import { logger } from '@/utils/logger';
+
+export const ATTACHMENT_BUCKET = 'chat-attachments';
+
+// WhatsApp rejects media above 16 MB, keep uploads forwardable on every platform
+export const MAX_ATTACHMENT_SIZE = 16 * 1024 * 1024;
+
+export const ACCEPTED_ATTACHMENT_TYPES = [
+  'image/*',
+  'video/*',
+  'audio/*',
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/plain'
+].join(',');
+
+const ATTACHMENT_TYPES: MessageAttachmentType[] = ['image', 'video', 'audio', 'document', 'location', 'sticker'];
+
+// Names used by the WhatsApp/Instagram/Facebook payloads n8n passes through
+const ATTACHMENT_TYPE_ALIASES: Record<string, MessageAttachmentType> = {
+  photo: 'image',
+  gif: 'video',
+  voice: 'audio',
+  ptt: 'audio',
+  file: 'document'
+};
+
+const MEDIA_URL_PATTERN = /^https?:\/\/\S+\.(jpe?g|png|gif|webp|mp4|mov|3gp|mp3|ogg|opus|m4a|aac|wav|pdf|docx?|xlsx?)(\?\S*)?$/i;
+
+// Customer messages from WhatsApp are stored as "whatsapp\n<phone>\n<text>"
+const WHATSAPP_PREFIX_PATTERN = /^(whatsapp\n[^\n]*\n)([\s\S]*)$/i;
+
+export const getAttachmentTypeFromMime = (mimeType?: string): MessageAttachmentType => {
+  if (!mimeType) return 'document';
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return 'document';
+};
+
+const getAttachmentTypeFromUrl = (url: string): MessageAttachmentType => {
+  const extension = url.split('?')[0].split('.').pop()?.toLowerCase() || '';
+  if (['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(extension)) return 'image';
+  if (['mp4', 'mov', '3gp'].includes(extension)) return 'video';
+  if (['mp3', 'ogg', 'opus', 'm4a', 'aac', 'wav'].includes(extension)) return 'audio';
+  return 'document';
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && !isNaN(parsed) ? parsed : undefined;
+};
+
+const toText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const normalizeAttachment = (raw: unknown): MessageAttachment | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const item = raw as Record<string, unknown>;
+
+  const url = toText(item.url) || toText(item.link) || toText(item.media_url);
+  const mimeType = toText(item.mime_type) || toText(item.mimetype) || toText(item.mimeType);
+  const rawType = toText(item.type)?.toLowerCase();
+  const type = rawType && ATTACHMENT_TYPES.includes(rawType as MessageAttachmentType)
+    ? rawType as MessageAttachmentType
+    : (rawType && ATTACHMENT_TYPE_ALIASES[rawType]) || (mimeType ? getAttachmentTypeFromMime(mimeType) : null);
+
+  const latitude = toNumber(item.latitude ?? item.lat);
+  const longitude = toNumber(item.longitude ?? item.lng);
+
+  if (type === 'location' || (!type && latitude !== undefined && longitude !== undefined)) {
+    if (latitude === undefined || longitude === undefined) return null;
+    return {
+      type: 'location',
+      latitude,
+      longitude,
+      name: toText(item.name),
+      address: toText(item.address),
+      url
+    };
+  }
+
+  if (!url) return null;
+
+  return {
+    type: type || getAttachmentTypeFromUrl(url),
+    url,
+    mime_type: mimeType,
+    file_name: toText(item.file_name) || toText(item.filename),
+    size: toNumber(item.size),
+    caption: toText(item.caption),
+    storage_path: toText(item.storage_path)
+  };
+};
+
+/**
+ * Reads the attachments of a stored message. Besides the `attachments` array
+ * written by the dashboard, a single `attachment` object and messages whose
+ * content is nothing but a media URL are recognized.
+ */
+export const normalizeAttachments = (
+  message: { content?: string; attachments?: unknown; attachment?: unknown }
+): { content: string; attachments: MessageAttachment[] } => {
+  const content = typeof message.content === 'string' ? message.content : '';
+  const rawAttachments = Array.isArray(message.attachments)
+    ? message.attachments
+    : message.attachment ? [message.attachment] : [];
+
+  const attachments = rawAttachments
+    .map(normalizeAttachment)
+    .filter((attachment): attachment is MessageAttachment => attachment !== null);
+
+  if (attachments.length === 0) {
+    const [, prefix = '', body = content] = content.match(WHATSAPP_PREFIX_PATTERN) || [];
+    const url = body.trim();
+    if (MEDIA_URL_PATTERN.test(url)) {
+      return { content: prefix, attachments: [{ type: getAttachmentTypeFromUrl(url), url }] };
+    }
+  }
+
+  return { content, attachments };
+};
+
+const ATTACHMENT_LABELS: Record<MessageAttachmentType, string> = {
+  image: 'Image',
+  video: 'Video',
+  audio: 'Audio',
+  document: 'Document',
+  location: 'Location',
+  sticker: 'Sticker'
+};
+
+/**
+ * One-line preview of a message for the session list. Mirrors
+ * chat_message_preview() in the database.
+ */
+export const getMessagePreview = (content: string, attachments: MessageAttachment[] = []): string => {
+  if (content.trim() || attachments.length === 0) return content;
+  const [first] = attachments;
+  const label = `[${ATTACHMENT_LABELS[first.type]}]`;
+  const detail = first.caption || first.file_name || first.name;
+  return detail ? `${label} ${detail}` : label;
+};
+
+export const formatFileSize = (bytes?: number): string => {
+  if (bytes === undefined) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Uploads a file picked by an agent to Supabase Storage. The bucket is
+ * public so n8n and the messaging platforms can download the file by URL.
+ */
+export const uploadChatAttachment = async (sessionId: string, file: File): Promise<MessageAttachment> => {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`File is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`);
+  }
+
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const path = `${sessionId}/${Date.now()}-${safeName}`;
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .upload(path, file, { contentType: file.type || undefined, upsert: false });
+
+  if (error) {
+    logger.error('Failed to upload attachment:', error);
+    throw error;
+  }
+
+  const { data } = supabase.storage.from(ATTACHMENT_BUCKET).getPublicUrl(path);
+
+  return {
+    type: getAttachmentTypeFromMime(file.type),
+    url: data.publicUrl,
+    mime_type: file.type || undefined,
+    file_name: file.name,
+    size: file.size,
+    storage_path: path
+  };
+};
+
+/**
+ * Removes an uploaded file that was discarded before sending
+ */
+export const removeChatAttachment = async (attachment: MessageAttachment): Promise<void> => {
+  if (!attachment.storage_path) return;
+
+  const { error } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .remove([attachment.storage_path]);
+
+  if (error) {
+    logger.warn('Failed to remove discarded attachment:', error);
+  }
+};
@@ -0,0 +1,100 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { BotStatus } from '@/types/chat';
+import { logger } from '@/utils/logger';
+
+type ChatSessionStateRow = Tables<'chat_session_state'>;
+
+// Same rule as is_bot_paused() in the database: a pause past its idle deadline has resumed
+const toBotStatus = (state: ChatSessionStateRow): BotStatus => {
+  const paused = state.bot_paused &&
+    (!state.bot_paused_until || new Date(state.bot_paused_until).getTime() > Date.now());
+
+  return {
+    session_id: state.session_id,
+    bot_paused: paused,
+    bot_paused_until: paused ? state.bot_paused_until : null,
+    bot_paused_at: paused ? state.bot_paused_at : null,
+    bot_paused_by: paused ? state.bot_paused_by : null
+  };
+};
+
+/**
+ * Fetches whether the n8n bot is paused for a session
+ */
+export const fetchBotStatus = async (sessionId: string): Promise<BotStatus> => {
+  const { data, error } = await supabase.rpc('get_bot_status', { p_session_id: sessionId });
+
+  if (error) {
+    logger.error('Failed to fetch bot status:', error);
+    throw error;
+  }
+
+  return data?.[0] || {
+    session_id: sessionId,
+    bot_paused: false,
+    bot_paused_until: null,
+    bot_paused_at: null,
+    bot_paused_by: null
+  };
+};
+
+/**
+ * Pauses (human takeover) or resumes the n8n bot for a session
+ */
+export const setBotPaused = async (sessionId: string, paused: boolean): Promise<BotStatus> => {
+  const { data, error } = await supabase.rpc('set_bot_paused', {
+    p_session_id: sessionId,
+    p_paused: paused
+  });
+
+  if (error) {
+    logger.error('Failed to update bot status:', error);
+    throw error;
+  }
+
+  logger.info('Bot status updated:', { sessionId, paused });
+  return toBotStatus(data);
+};
+
+/**
+ * Records an agent reply, which restarts the auto-resume timer of a paused
+ * bot (or pauses it, depending on the bot_pause_on_agent_reply setting)
+ */
+export const recordAgentReply = async (sessionId: string): Promise<BotStatus> => {
+  const { data, error } = await supabase.rpc('record_agent_reply', { p_session_id: sessionId });
+
+  if (error) {
+    logger.error('Failed to record agent reply:', error);
+    throw error;
+  }
+
+  return toBotStatus(data);
+};
+
+/**
+ * Subscribes to takeover changes of a session made by any agent.
+ * Returns a function that removes the channel.
+ */
+export const subscribeToBotStatus = (
+  sessionId: string,
+  onChange: (status: BotStatus) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`chat_session_state:${sessionId}:${Date.now()}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'chat_session_state', filter: `session_id=eq.${sessionId}` },
+      (payload: RealtimePostgresChangesPayload<ChatSessionStateRow>) => {
+        if (payload.eventType !== 'DELETE') {
+          onChange(toBotStatus(payload.new));
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
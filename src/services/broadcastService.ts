@@ -0,0 +1,311 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { ContactRecord } from '@/types/contact';
+import { fillTemplate } from './cannedResponseService';
+import { normalizePhoneNumber } from './contactService';
+import {
+  WhatsAppTemplate,
+  prefillTemplateParameters,
+  renderWhatsAppTemplate
+} from './whatsappTemplateService';
+import { logger } from '@/utils/logger';
+
+// Campaigns are sent by the database (dispatch_broadcast_campaigns), a few
+// recipients per minute, through the message.outbound webhook event
+export type BroadcastCampaign = Tables<'broadcast_campaigns'>;
+export type BroadcastCampaignSummary = Tables<'broadcast_campaign_overview'>;
+export type BroadcastRecipient = Tables<'broadcast_recipient_overview'>;
+
+export type BroadcastCampaignStatus = 'draft' | 'sending' | 'paused' | 'completed' | 'cancelled';
+
+export const BROADCAST_STATUS_LABELS: Record<BroadcastCampaignStatus, string> = {
+  draft: 'Draft',
+  sending: 'Sending',
+  paused: 'Paused',
+  completed: 'Completed',
+  cancelled: 'Cancelled'
+};
+
+/**
+ * Contact filters of a campaign. Every filter that is set must match.
+ */
+export interface BroadcastSegment {
+  vipOnly?: boolean;
+  interestedIn?: string | null;
+  opportunity?: string | null;
+  search?: string;
+}
+
+export interface BroadcastCampaignInput {
+  name: string;
+  template: string;
+  // Sent as this approved template instead of the free-form text, which
+  // WhatsApp refuses outside the 24-hour window
+  whatsappTemplate?: WhatsAppTemplate | null;
+  segment: BroadcastSegment;
+  sendRate: number;
+}
+
+/**
+ * A contact of the audience with the message it will receive
+ */
+export interface BroadcastAudienceMember {
+  session_id: string;
+  contact_id: string;
+  contact_name: string;
+  content: string;
+  template_parameters: string[] | null;
+  missing: string[];
+}
+
+// Inserts are split so a large audience stays under the request size limit
+const RECIPIENT_BATCH_SIZE = 500;
+
+export const matchesSegment = (contact: ContactRecord, segment: BroadcastSegment): boolean => {
+  const { fields } = contact;
+  if (segment.vipOnly && !fields.VIP) return false;
+  if (segment.interestedIn && fields['Interested in'] !== segment.interestedIn) return false;
+  if (segment.opportunity && !(fields.Opportunities || []).includes(segment.opportunity)) return false;
+
+  const search = segment.search?.trim().toLowerCase();
+  if (search) {
+    const haystack = [fields['Name and Org'], fields.Name, fields.Email, fields.Phone]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    if (!haystack.includes(search)) return false;
+  }
+
+  return true;
+};
+
+// Parameters of a WhatsApp template for one contact, and the labels of those
+// the contact has no value for
+const fillWhatsAppTemplate = (template: WhatsAppTemplate, contact: ContactRecord) => {
+  const parameters = prefillTemplateParameters(template, contact.fields);
+  return {
+    text: renderWhatsAppTemplate(template.body, parameters),
+    parameters,
+    missing: parameters
+      .map((value, index) => value ? null : template.parameter_labels[index] || `{{${index + 1}}}`)
+      .filter((label): label is string => !!label)
+  };
+};
+
+/**
+ * Resolves the contacts a segment matches and renders the template for each
+ * of them. Contacts without a phone number are left out, and a phone number
+ * shared by several contacts is only messaged once. With a WhatsApp template
+ * the parameters are filled from the contact fields named by their labels.
+ */
+export const buildAudience = (
+  contacts: ContactRecord[],
+  segment: BroadcastSegment,
+  template: string,
+  whatsappTemplate?: WhatsAppTemplate | null
+): BroadcastAudienceMember[] => {
+  const audience = new Map<string, BroadcastAudienceMember>();
+
+  contacts
+    .filter(contact => contact?.fields && matchesSegment(contact, segment))
+    .forEach(contact => {
+      const sessionId = normalizePhoneNumber(contact.fields.Phone);
+      if (!sessionId || audience.has(sessionId)) return;
+
+      const { text, parameters, missing } = whatsappTemplate
+        ? fillWhatsAppTemplate(whatsappTemplate, contact)
+        : { ...fillTemplate(template, contact.fields), parameters: null };
+      audience.set(sessionId, {
+        session_id: sessionId,
+        contact_id: contact.id,
+        contact_name: contact.fields['Name and Org'] || contact.fields.Name || sessionId,
+        content: text,
+        template_parameters: parameters,
+        missing
+      });
+    });
+
+  return Array.from(audience.values());
+};
+
+/**
+ * Fetches every campaign with its delivery totals, newest first
+ */
+export const fetchBroadcastCampaigns = async (): Promise<BroadcastCampaignSummary[]> => {
+  const { data, error } = await supabase
+    .from('broadcast_campaign_overview')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error('Failed to fetch broadcast campaigns:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+/**
+ * Fetches the recipients of a campaign with the delivery receipt of their
+ * message and whether they replied
+ */
+export const fetchBroadcastRecipients = async (campaignId: string): Promise<BroadcastRecipient[]> => {
+  const { data, error } = await supabase
+    .from('broadcast_recipient_overview')
+    .select('*')
+    .eq('campaign_id', campaignId)
+    .order('id', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch broadcast recipients:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+/**
+ * Saves a campaign as a draft with its rendered messages. Nothing is sent
+ * until the campaign is started.
+ */
+export const createBroadcastCampaign = async (
+  input: BroadcastCampaignInput,
+  audience: BroadcastAudienceMember[],
+  userId: string
+): Promise<BroadcastCampaign> => {
+  const { whatsappTemplate } = input;
+  if (whatsappTemplate && whatsappTemplate.status !== 'approved') {
+    throw new Error('Only approved templates can be sent');
+  }
+
+  const { data: campaign, error } = await supabase
+    .from('broadcast_campaigns')
+    .insert({
+      name: input.name.trim(),
+      template: whatsappTemplate ? whatsappTemplate.body : input.template,
+      whatsapp_template: whatsappTemplate
+        ? { name: whatsappTemplate.name, language: whatsappTemplate.language }
+        : null,
+      segment: input.segment as Json,
+      send_rate: input.sendRate,
+      created_by: userId
+    })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Failed to create broadcast campaign:', error);
+    throw error;
+  }
+
+  try {
+    for (let start = 0; start < audience.length; start += RECIPIENT_BATCH_SIZE) {
+      const { error: recipientsError } = await supabase
+        .from('broadcast_recipients')
+        .insert(audience.slice(start, start + RECIPIENT_BATCH_SIZE).map(member => ({
+          campaign_id: campaign.id,
+          session_id: member.session_id,
+          contact_id: member.contact_id,
+          contact_name: member.contact_name,
+          content: member.content,
+          template_parameters: member.template_parameters
+        })));
+
+      if (recipientsError) throw recipientsError;
+    }
+  } catch (recipientsError) {
+    logger.error('Failed to add broadcast recipients:', recipientsError);
+    // Do not leave a draft with part of its audience behind
+    await supabase.from('broadcast_campaigns').delete().eq('id', campaign.id);
+    throw recipientsError;
+  }
+
+  return { ...campaign, recipient_count: audience.length };
+};
+
+/**
+ * Starts sending a draft campaign
+ */
+export const startBroadcastCampaign = async (id: string): Promise<BroadcastCampaign> => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('broadcast_campaigns')
+    .update({
+      status: 'sending',
+      started_at: now,
+      updated_at: now
+    })
+    .eq('id', id)
+    .eq('status', 'draft')
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Failed to start broadcast campaign:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Pauses, resumes or cancels a started campaign. Cancelling skips the
+ * recipients that have not been sent to yet.
+ */
+export const setBroadcastCampaignStatus = async (
+  id: string,
+  status: Extract<BroadcastCampaignStatus, 'sending' | 'paused' | 'cancelled'>
+): Promise<BroadcastCampaign> => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('broadcast_campaigns')
+    .update({
+      status,
+      ...(status === 'cancelled' && { completed_at: now }),
+      updated_at: now
+    })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Failed to update broadcast campaign:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const deleteBroadcastCampaign = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('broadcast_campaigns')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    logger.error('Failed to delete broadcast campaign:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribes to campaigns being created or changing state.
+ * Returns a function that removes the channel.
+ */
+export const subscribeToBroadcastCampaigns = (
+  onChange: (payload: RealtimePostgresChangesPayload<BroadcastCampaign>) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`broadcast_campaigns:${Date.now()}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'broadcast_campaigns' },
+      onChange
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,131 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { ContactFields } from '@/types/contact';
+import { logger } from '@/utils/logger';
+
+export type CannedResponse = Tables<'canned_responses'>;
+export type CannedResponseInput = Pick<TablesInsert<'canned_responses'>, 'title' | 'shortcut' | 'content'>;
+
+const TEMPLATE_VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/**
+ * Fetches all canned responses, ordered by title
+ */
+export const fetchCannedResponses = async (): Promise<CannedResponse[]> => {
+  const { data, error } = await supabase
+    .from('canned_responses')
+    .select('*')
+    .order('title', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch canned responses:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+export const createCannedResponse = async (
+  input: CannedResponseInput,
+  userId?: string
+): Promise<CannedResponse> => {
+  const { data, error } = await supabase
+    .from('canned_responses')
+    .insert({
+      title: input.title.trim(),
+      shortcut: input.shortcut?.trim() || null,
+      content: input.content,
+      created_by: userId ?? null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Failed to create canned response:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const updateCannedResponse = async (
+  id: string,
+  input: CannedResponseInput
+): Promise<CannedResponse> => {
+  const changes: TablesUpdate<'canned_responses'> = {
+    title: input.title.trim(),
+    shortcut: input.shortcut?.trim() || null,
+    content: input.content,
+    updated_at: new Date().toISOString()
+  };
+
+  const { data, error } = await supabase
+    .from('canned_responses')
+    .update(changes)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Failed to update canned response:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const deleteCannedResponse = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('canned_responses')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    logger.error('Failed to delete canned response:', error);
+    throw error;
+  }
+};
+
+/**
+ * Lists the {{Field}} placeholders used in a template
+ */
+export const getTemplateVariables = (content: string): string[] => {
+  const variables = new Set<string>();
+  for (const match of content.matchAll(TEMPLATE_VARIABLE_PATTERN)) {
+    variables.add(match[1]);
+  }
+  return Array.from(variables);
+};
+
+const formatFieldValue = (value: ContactFields[keyof ContactFields]): string | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : null;
+  if (typeof value === 'boolean') return value ? 'Ya' : 'Tidak';
+  return String(value);
+};
+
+/**
+ * Replaces {{Field}} placeholders with values of the linked Airtable contact.
+ * Field names match case-insensitively; placeholders without a value are kept
+ * so the agent can fill them in before sending.
+ */
+export const fillTemplate = (
+  content: string,
+  fields?: ContactFields | null
+): { text: string; missing: string[] } => {
+  const missing: string[] = [];
+  const fieldsByName = new Map<string, ContactFields[keyof ContactFields]>(
+    Object.entries(fields || {}).map(([name, value]) => [name.toLowerCase(), value])
+  );
+
+  const text = content.replace(TEMPLATE_VARIABLE_PATTERN, (placeholder, name: string) => {
+    const value = formatFieldValue(fieldsByName.get(name.toLowerCase()));
+    if (value === null) {
+      if (!missing.includes(name)) missing.push(name);
+      return placeholder;
+    }
+    return value;
+  });
+
+  return { text, missing };
+};
@@ -1,6 +1,38 @@
 import { supabase } from '@/integrations/supabase/client';
-import { ChatMessage, ChatSession } from '@/types/chat';
-import { getSetting } from './settingsService';
+import type { Tables } from '@/integrations/supabase/types';
+import { format } from 'date-fns';
+import {
+  BotStatus,
+  ChatMessage,
+  ChatMessageCursor,
+  ChatMessagePage,
+  ChatMessageWindow,
+  ChatSearchResult,
+  ChatSession,
+  ChatSessionAssigneeFilter,
+  ChatSessionCursor,
+  ChatSessionPage,
+  ChatSessionSort,
+  ChatSessionStatus,
+  ChatSessionStatusFilter,
+  MessageAttachment,
+  MessagePlatform,
+  PlatformSource,
+  WhatsAppTemplateMessage
+} from '@/types/chat';
+import type { RealtimePostgresInsertPayload, REALTIME_SUBSCRIBE_STATES } from '@supabase/supabase-js';
+import { recordAgentReply } from './botControlService';
+import { normalizeAttachments } from './attachmentService';
+import { fetchSessionPlatform } from './platformService';
+import { emitWebhookEvent } from './webhookOutboxService';
+import {
+  WhatsAppTemplate,
+  fetchLastCustomerMessageAt,
+  isWindowOpen,
+  renderWhatsAppTemplate
+} from './whatsappTemplateService';
+import { assertCanReply } from './sessionPresenceService';
+import { fromJakartaParts } from './scheduledMessageService';
 import { logger } from '@/utils/logger';
 
 // Define a type that represents the expected message structure
@@ -10,6 +42,10 @@ type MessageObject = {
   sender_name?: string;
   timestamp?: string;
   trigger?: 'whatsapp' | 'instagram' | 'facebook';
+  attachments?: unknown;
+  attachment?: unknown;
+  template?: WhatsAppTemplateMessage;
+  client_message_id?: string;
 };
 
 // Helper function to parse the message safely
@@ -46,215 +82,490 @@ const parseMessage = (message: any): MessageObject => {
   return message as MessageObject;
 };
 
-// Session platform cache
-const sessionPlatforms = new Map<string, 'whatsapp' | 'instagram' | 'facebook'>();
+type ChatHistoryRow = Tables<'n8n_chat_histories'>;
+
+// Helper function to convert a n8n_chat_histories row into a ChatMessage
+const mapChatHistoryRow = (item: ChatHistoryRow): ChatMessage => {
+  const messageObj = parseMessage(item.message);
+  const { content, attachments } = normalizeAttachments(messageObj);
+
+  return {
+    id: item.id.toString(),
+    session_id: item.session_id,
+    message: {
+      content,
+      type: messageObj.type || 'human',
+      sender_name: messageObj.sender_name,
+      timestamp: messageObj.timestamp || item.created_at,
+      trigger: messageObj.trigger,
+      ...(attachments.length > 0 && { attachments }),
+      ...(messageObj.template && { template: messageObj.template }),
+      ...(messageObj.client_message_id && { client_message_id: messageObj.client_message_id })
+    },
+    created_at: item.created_at || new Date().toISOString(),
+  };
+};
 
-// Helper function to detect and store platform for a session
-const detectAndStorePlatform = (sessionId: string, message: string): 'whatsapp' | 'instagram' | 'facebook' => {
-  // First check if we already know this session's platform
-  const existingPlatform = sessionPlatforms.get(sessionId);
-  if (existingPlatform) {
-    return existingPlatform;
-  }
+export const fetchChatSessions = async (
+  options: {
+    limit?: number;
+    sort?: ChatSessionSort;
+    cursor?: ChatSessionCursor | null;
+    assignee?: ChatSessionAssigneeFilter;
+    status?: ChatSessionStatusFilter;
+    tagIds?: string[];
+  } = {}
+): Promise<ChatSessionPage> => {
+  const { limit = 30, sort = 'recent', cursor = null, assignee = 'all', status = 'all', tagIds = [] } = options;
 
-  // Check if message contains instagram session pattern
-  if (message.toLowerCase().includes('instagram') || sessionId.length === 15) {
-    sessionPlatforms.set(sessionId, 'instagram');
-    return 'instagram';
-  }
+  try {
+    const { data, error } = await supabase.rpc('get_chat_sessions', {
+      p_limit: limit,
+      p_sort: sort,
+      p_cursor_timestamp: cursor?.last_timestamp,
+      p_cursor_message_count: cursor?.message_count,
+      p_cursor_session_id: cursor?.session_id,
+      p_assignee: assignee,
+      p_status: status,
+      p_tag_ids: tagIds.length > 0 ? tagIds : undefined
+    });
 
-  // Check if message contains whatsapp pattern
-  if (message.toLowerCase().includes('whatsapp') || sessionId.length === 12) {
-    sessionPlatforms.set(sessionId, 'whatsapp');
-    return 'whatsapp';
-  }
+    if (error) throw error;
 
-  // Check for Facebook patterns
-  // Facebook user IDs are typically longer (16-17 digits)
-  if (
-    message.toLowerCase().includes('facebook') || 
-    /^\d{16,17}$/.test(sessionId) ||
-    sessionId.startsWith('fb_') ||
-    // Check for common Facebook message patterns
-    message.toLowerCase().includes('messenger') ||
-    // Facebook PSID format
-    /^[0-9]{16}$/.test(sessionId)
-  ) {
-    sessionPlatforms.set(sessionId, 'facebook');
-    logger.debug('Detected Facebook platform:', { sessionId, message });
-    return 'facebook';
-  }
+    logger.debug('Fetched chat sessions:', { count: data?.length || 0, sort, assignee, status, tagIds, cursor });
+
+    const sessions: ChatSession[] = (data || []).map(row => ({
+      session_id: row.session_id,
+      last_message: row.last_message || '',
+      last_timestamp: row.last_timestamp,
+      sender_name: row.sender_name || undefined,
+      unread_count: row.unread_count ?? 0,
+      last_message_id: row.last_message_id,
+      message_count: row.message_count,
+      platform: (row.platform as MessagePlatform) || undefined,
+      platform_source: (row.platform_source as PlatformSource) || null,
+      bot_paused: row.bot_paused ?? false,
+      assigned_to: row.assigned_to,
+      status: (row.status as ChatSessionStatus) || 'open',
+      tag_ids: row.tag_ids ?? []
+    }));
+
+    const last = sessions[sessions.length - 1];
+    const nextCursor: ChatSessionCursor | null = sessions.length === limit && last
+      ? {
+          session_id: last.session_id,
+          last_timestamp: last.last_timestamp,
+          message_count: last.message_count ?? 0
+        }
+      : null;
 
-  // For Instagram-like session IDs (numeric, 15 digits)
-  if (/^\d{15}$/.test(sessionId)) {
-    sessionPlatforms.set(sessionId, 'instagram');
-    return 'instagram';
+    return { sessions, nextCursor };
+  } catch (error) {
+    logger.error('Failed to fetch chat sessions:', error as Error);
+    throw error;
   }
+};
 
-  // If session ID starts with specific prefixes
-  if (sessionId.startsWith('wa_')) {
-    sessionPlatforms.set(sessionId, 'whatsapp');
-    return 'whatsapp';
-  }
+export const fetchChatMessages = async (
+  sessionId: string,
+  options: {
+    before?: ChatMessageCursor | null;
+    after?: ChatMessageCursor | null;
+    limit?: number;
+  } = {}
+): Promise<ChatMessagePage> => {
+  const { before = null, after = null, limit = 20 } = options;
 
-  if (sessionId.startsWith('ig_')) {
-    sessionPlatforms.set(sessionId, 'instagram');
-    return 'instagram';
+  try {
+    // Ask for one extra row to know whether another page exists
+    const { data, error } = await supabase.rpc('get_chat_messages', {
+      p_session_id: sessionId,
+      p_limit: limit + 1,
+      p_before_created_at: before?.created_at,
+      p_before_id: before?.id,
+      p_after_created_at: after?.created_at,
+      p_after_id: after?.id
+    });
+
+    if (error) throw error;
+
+    const rows = data || [];
+    const hasMore = rows.length > limit;
+    const messages = rows.slice(0, limit).map(mapChatHistoryRow);
+
+    logger.debug('Fetched chat messages:', { 
+      sessionId, 
+      count: messages.length,
+      before,
+      after,
+      limit 
+    });
+
+    return {
+      // Backward pages arrive newest first, keep chronological order
+      messages: after ? messages : messages.reverse(),
+      hasMore
+    };
+  } catch (error) {
+    logger.error('Failed to fetch chat messages:', error as Error);
+    throw error;
   }
+};
+
+/**
+ * Builds the keyset cursor of a message for fetchChatMessages
+ */
+export const getMessageCursor = (message: ChatMessage): ChatMessageCursor => ({
+  created_at: message.created_at,
+  id: Number(message.id)
+});
 
-  // Default to whatsapp if no platform detected
-  logger.debug('No specific platform detected, defaulting to WhatsApp:', { sessionId, message });
-  sessionPlatforms.set(sessionId, 'whatsapp');
-  return 'whatsapp';
+// Loads messages on both sides of a keyset position
+const fetchChatMessageWindow = async (
+  sessionId: string,
+  pivot: ChatMessageCursor,
+  limit: number
+): Promise<ChatMessageWindow> => {
+  const [older, newer] = await Promise.all([
+    fetchChatMessages(sessionId, { before: pivot, limit: Math.ceil(limit / 2) }),
+    fetchChatMessages(sessionId, { after: pivot, limit })
+  ]);
+
+  return {
+    messages: [...older.messages, ...newer.messages],
+    hasOlder: older.hasMore,
+    hasNewer: newer.hasMore
+  };
 };
 
-// Helper function to get platform for a session
-const getSessionPlatform = (sessionId: string, message: string): 'whatsapp' | 'instagram' | 'facebook' => {
-  return sessionPlatforms.get(sessionId) || detectAndStorePlatform(sessionId, message);
+/**
+ * Loads the window of messages around the start of the given day so the
+ * agent can page both backward and forward from there. The day is the
+ * calendar date picked and starts at midnight Jakarta time, so every agent
+ * lands on the same message whatever their browser's time zone.
+ */
+export const fetchChatMessagesAround = async (
+  sessionId: string,
+  date: Date,
+  limit: number = 20
+): Promise<ChatMessageWindow> => {
+  const dayStart = fromJakartaParts(format(date, 'yyyy-MM-dd'), '00:00');
+  return fetchChatMessageWindow(sessionId, { created_at: dayStart.toISOString(), id: 0 }, limit);
 };
 
-// Helper function to parse platform message
-const parsePlatformMessage = (message: string): { 
-  platform?: 'whatsapp' | 'instagram' | 'facebook',
-  actualMessage: string,
-  targetSessionId?: string
-} => {
-  const parts = message.split(' ');
-  if (parts.length >= 2) {
-    const platform = parts[0].toLowerCase();
-    if (['whatsapp', 'instagram', 'facebook'].includes(platform)) {
-      return {
-        platform: platform as 'whatsapp' | 'instagram' | 'facebook',
-        targetSessionId: parts[1],
-        actualMessage: parts.slice(2).join(' ') || 'Hello' // Default message if no content
-      };
-    }
+/**
+ * Loads the window of messages around a specific message, which is the
+ * first message of the newer half
+ */
+export const fetchChatMessagesAroundMessage = async (
+  sessionId: string,
+  target: ChatMessageCursor,
+  limit: number = 20
+): Promise<ChatMessageWindow> => {
+  return fetchChatMessageWindow(sessionId, { created_at: target.created_at, id: target.id - 1 }, limit);
+};
+
+/**
+ * Latest messages across several sessions, e.g. every channel of one
+ * customer, in chronological order. Pass the first message shown as
+ * `before` to page backward.
+ */
+export const fetchMessagesForSessions = async (
+  sessionIds: string[],
+  { before = null, limit = 50 }: { before?: ChatMessageCursor | null; limit?: number } = {}
+): Promise<ChatMessagePage> => {
+  if (sessionIds.length === 0) return { messages: [], hasMore: false };
+
+  let query = supabase
+    .from('n8n_chat_histories')
+    .select('*')
+    .in('session_id', sessionIds)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (before) {
+    query = query.or(
+      `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`
+    );
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Failed to fetch messages for sessions:', error);
+    throw error;
   }
-  return { actualMessage: message };
+
+  const rows = data || [];
+  return {
+    messages: rows.slice(0, limit).map(mapChatHistoryRow).reverse(),
+    hasMore: rows.length > limit
+  };
 };
 
-export const fetchChatSessions = async (): Promise<ChatSession[]> => {
+/**
+ * Full-text search across the messages of all sessions, best matches first
+ */
+export const searchChatMessages = async (
+  query: string,
+  { limit = 20, offset = 0 }: { limit?: number; offset?: number } = {}
+): Promise<ChatSearchResult[]> => {
+  if (!query.trim()) return [];
+
   try {
-    const { data, error } = await supabase
-      .from('n8n_chat_histories')
-      .select('session_id, message, created_at')
-      .order('created_at', { ascending: false });
+    const { data, error } = await supabase.rpc('search_chat_messages', {
+      p_query: query,
+      p_limit: limit,
+      p_offset: offset
+    });
 
     if (error) throw error;
 
-    // Group messages by session_id and get the latest message for each session
-    const sessions = data.reduce((acc: { [key: string]: ChatSession }, curr) => {
-      const messageObj = typeof curr.message === 'string' ? JSON.parse(curr.message) : curr.message;
-      
-      if (!acc[curr.session_id] || new Date(curr.created_at) > new Date(acc[curr.session_id].last_timestamp)) {
-        // Detect and store platform for this session
-        const platform = getSessionPlatform(curr.session_id, messageObj.content || '');
-        
-        acc[curr.session_id] = {
-          session_id: curr.session_id,
-          last_message: messageObj.content || '',
-          last_timestamp: curr.created_at,
-          sender_name: messageObj.sender_name,
-          unread_count: 0
-        };
-      }
-      return acc;
-    }, {});
-
-    return Object.values(sessions);
+    return (data || []).map(row => ({
+      message_id: row.message_id.toString(),
+      session_id: row.session_id,
+      created_at: row.created_at,
+      type: row.message_type === 'human' ? 'human' : 'ai',
+      sender_name: row.sender_name || undefined,
+      platform: (row.platform as MessagePlatform) || undefined,
+      snippet: row.snippet
+    }));
   } catch (error) {
-    logger.error('Failed to fetch chat sessions:', error as Error);
+    logger.error('Failed to search chat messages:', error as Error);
     throw error;
   }
 };
 
-export const fetchChatMessages = async (
-  sessionId: string,
-  page: number = 1,
-  limit: number = 20
-): Promise<{ messages: ChatMessage[]; hasMore: boolean }> => {
-  try {
-    // Calculate offset
-    const offset = (page - 1) * limit;
-
-    // First get total count
-    const { count } = await supabase
-      .from('n8n_chat_histories')
-      .select('*', { count: 'exact', head: true })
-      .eq('session_id', sessionId);
-
-    // Then fetch paginated data
-    const { data, error } = await supabase
-      .from('n8n_chat_histories')
-      .select('*')
-      .eq('session_id', sessionId)
-      .order('created_at', { ascending: false }) // Changed to descending for better pagination
-      .range(offset, offset + limit - 1);
+/**
+ * Returns the id of the most recent row in n8n_chat_histories, used as the
+ * starting point for realtime catch-up.
+ */
+export const fetchLatestMessageId = async (): Promise<number | null> => {
+  const { data, error } = await supabase
+    .from('n8n_chat_histories')
+    .select('id')
+    .order('id', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch latest message id:', error);
+    throw error;
+  }
 
-    if (error) throw error;
+  return data?.id ?? null;
+};
 
-    logger.debug('Fetched chat messages:', { 
-      sessionId, 
-      count: data?.length || 0,
-      page,
-      limit 
-    });
+/**
+ * Fetches every message inserted after the given id, oldest first.
+ * Used to catch up on rows missed while the realtime connection was down.
+ */
+export const fetchMessagesSince = async (
+  lastId: number,
+  limit: number = 500
+): Promise<ChatMessage[]> => {
+  const { data, error } = await supabase
+    .from('n8n_chat_histories')
+    .select('*')
+    .gt('id', lastId)
+    .order('id', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    logger.error('Failed to fetch missed messages:', error);
+    throw error;
+  }
+
+  logger.debug('Fetched missed messages:', { lastId, count: data?.length || 0 });
+
+  return (data || []).map(mapChatHistoryRow);
+};
 
-    const messages = data.map(item => {
-      // Parse message using our helper
-      const messageObj = parseMessage(item.message);
-      
-      return {
-        id: item.id.toString(),
-        session_id: item.session_id,
-        message: {
-          content: messageObj.content || '',
-          type: messageObj.type || 'human',
-          sender_name: messageObj.sender_name,
-          timestamp: messageObj.timestamp || item.created_at,
-          trigger: messageObj.trigger
-        },
-        created_at: item.created_at || new Date().toISOString(),
-      };
+/**
+ * Subscribes to inserts on n8n_chat_histories through Supabase Realtime.
+ * Returns a function that removes the channel.
+ */
+export const subscribeToNewMessages = (
+  onMessage: (message: ChatMessage) => void,
+  onStatus?: (status: `${REALTIME_SUBSCRIBE_STATES}`, error?: Error) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`n8n_chat_histories:inserts:${Date.now()}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'n8n_chat_histories' },
+      (payload: RealtimePostgresInsertPayload<ChatHistoryRow>) => {
+        try {
+          onMessage(mapChatHistoryRow(payload.new));
+        } catch (error) {
+          logger.error('Failed to handle realtime message:', error as Error);
+        }
+      }
+    )
+    .subscribe((status, error) => {
+      logger.debug('Chat realtime status:', { status, error });
+      onStatus?.(status, error);
     });
 
-    // Check if there are more messages to load
-    const hasMore = count ? offset + limit < count : false;
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
 
-    return {
-      messages: messages.reverse(), // Reverse to maintain chronological order
-      hasMore
+// Sends a stored agent message to the endpoints that receive outbound messages
+const emitOutboundMessage = async (
+  sessionId: string,
+  messageId: number,
+  messageContent: ChatMessage['message'],
+  platform: MessagePlatform,
+  botStatus: BotStatus | null
+) => {
+  try {
+    const webhookPayload = {
+      session_id: sessionId,
+      // n8n reports delivery receipts against this id
+      message_id: messageId,
+      message: messageContent,
+      timestamp: messageContent.timestamp,
+      bot_paused: botStatus?.bot_paused ?? false,
+      bot_paused_until: botStatus?.bot_paused_until ?? null
     };
+
+    logger.debug('Sending webhook payload:', webhookPayload);
+
+    // Goes through the outbox, so a failed call is retried instead of lost
+    const deliveries = await emitWebhookEvent('message.outbound', webhookPayload, {
+      sessionId,
+      messageId,
+      platform
+    });
+    if (deliveries.length === 0) {
+      logger.warn('No webhook endpoint receives outbound messages for this platform:', { sessionId, platform });
+    }
   } catch (error) {
-    logger.error('Failed to fetch chat messages:', error as Error);
+    logger.error('Failed to queue message for the webhook:', error as Error);
+  }
+};
+
+// Message stored by an earlier attempt of the same send, if any
+const fetchMessageByClientId = async (clientMessageId: string): Promise<ChatHistoryRow | null> => {
+  const { data, error } = await supabase
+    .from('n8n_chat_histories')
+    .select('*')
+    .eq('message->>client_message_id', clientMessageId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Finishes a send whose message an earlier attempt already stored. The
+// webhook is only queued when that attempt did not get to it.
+const resumeAgentMessage = async (row: ChatHistoryRow, platform: MessagePlatform): Promise<ChatMessage> => {
+  const { count, error } = await supabase
+    .from('webhook_outbox')
+    .select('id', { count: 'exact', head: true })
+    .eq('message_id', row.id)
+    .eq('event_type', 'message.outbound');
+
+  if (error) throw error;
+
+  const stored = mapChatHistoryRow(row);
+  if (!count) {
+    await emitOutboundMessage(row.session_id, row.id, stored.message, platform, null);
+  }
+
+  logger.info('Send already stored, not storing it again:', { messageId: row.id, webhookQueued: !count });
+  return stored;
+};
+
+const deliverAgentMessage = async (
+  sessionId: string,
+  messageContent: ChatMessage['message'],
+  platform: MessagePlatform
+): Promise<ChatMessage> => {
+  // A soft lock held by another agent blocks replies until it lapses
+  await assertCanReply(sessionId);
+
+  // First, add the message to Supabase
+  const newMessage = {
+    session_id: sessionId,
+    message: messageContent
+  };
+
+  const { data, error } = await supabase
+    .from('n8n_chat_histories')
+    .insert(newMessage)
+    .select()
+    .single();
+
+  if (error) {
+    // An earlier attempt of the same send got the message stored
+    if (error.code === '23505' && messageContent.client_message_id) {
+      const stored = await fetchMessageByClientId(messageContent.client_message_id);
+      if (stored) return resumeAgentMessage(stored, platform);
+    }
     throw error;
   }
+
+  // Record the agent reply so a paused bot stays paused while the agent is active
+  let botStatus: BotStatus | null = null;
+  try {
+    botStatus = await recordAgentReply(sessionId);
+  } catch (error) {
+    logger.warn('Could not record agent reply for bot takeover:', error);
+  }
+
+  await emitOutboundMessage(sessionId, data.id, messageContent, platform, botStatus);
+
+  return {
+    id: data.id.toString(),
+    session_id: sessionId,
+    message: messageContent,
+    created_at: data.created_at || new Date().toISOString(),
+  };
 };
 
-export const sendMessage = async (sessionId: string, message: string, trigger?: 'whatsapp' | 'instagram' | 'facebook'): Promise<ChatMessage> => {
+/**
+ * Sends an agent reply on the session's channel. A send that is retried with
+ * the same clientMessageId is stored and sent to the webhook only once.
+ */
+export const sendMessage = async (
+  sessionId: string,
+  message: string,
+  trigger?: 'whatsapp' | 'instagram' | 'facebook',
+  attachments: MessageAttachment[] = [],
+  clientMessageId?: string
+): Promise<ChatMessage> => {
   try {
-    // Determine the platform
-    const platform = trigger || getSessionPlatform(sessionId, message);
-    
-    logger.debug('Platform detection result:', { 
-      sessionId, 
-      detectedPlatform: platform,
-      trigger,
-      messagePreview: message.substring(0, 100)
-    });
+    // Reply on the channel stored for the session
+    const storedPlatform = trigger ? null : await fetchSessionPlatform(sessionId);
+    const platform = trigger || storedPlatform || 'whatsapp';
+
+    if (!trigger && !storedPlatform) {
+      logger.warn('Session platform unknown, replying on WhatsApp:', { sessionId });
+    }
+
+    // A replay of a send that was stored before the connection dropped
+    if (clientMessageId) {
+      const stored = await fetchMessageByClientId(clientMessageId);
+      if (stored) return await resumeAgentMessage(stored, platform);
+    }
+
+    // WhatsApp rejects free-form messages outside the 24-hour window
+    if (platform === 'whatsapp' && !isWindowOpen(await fetchLastCustomerMessageAt(sessionId))) {
+      throw new Error('The 24-hour WhatsApp window is closed, send an approved template instead');
+    }
 
     // Create the message object that will be consistent throughout
     const messageContent = {
       content: message,
       type: 'ai' as const,
       timestamp: new Date().toISOString(),
-      trigger: platform
-    };
-
-    // First, add the message to Supabase
-    const newMessage = {
-      session_id: sessionId,
-      message: messageContent
+      trigger: platform,
+      ...(attachments.length > 0 && { attachments }),
+      ...(clientMessageId && { client_message_id: clientMessageId })
     };
 
     logger.debug('Sending message:', { 
@@ -264,51 +575,45 @@ export const sendMessage = async (sessionId: string, message: string, trigger?:
       originalMessage: message
     });
 
-    const { data, error } = await supabase
-      .from('n8n_chat_histories')
-      .insert(newMessage)
-      .select()
-      .single();
-
-    if (error) throw error;
+    return await deliverAgentMessage(sessionId, messageContent, platform);
+  } catch (error) {
+    logger.error('Failed to send message:', error as Error);
+    throw error;
+  }
+};
 
-    // Then, send to webhook if configured
-    try {
-      const webhookUrl = await getSetting('webhook_url');
-      
-      if (webhookUrl) {
-        const webhookPayload = {
-          session_id: sessionId,
-          message: messageContent,
-          timestamp: messageContent.timestamp
-        };
-        
-        logger.debug('Sending webhook payload:', webhookPayload);
-
-        const response = await fetch(webhookUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(webhookPayload),
-        });
-
-        if (!response.ok) {
-          logger.error(`Webhook request failed with status ${response.status}: ${response.statusText}`);
-        }
-      }
-    } catch (error) {
-      logger.error('Failed to send message to webhook:', error as Error);
+/**
+ * Sends an approved WhatsApp template. The rendered body is stored as the
+ * message text; the template name and parameters travel with it so n8n can
+ * send it as a template, which works outside the 24-hour window.
+ */
+export const sendTemplateMessage = async (
+  sessionId: string,
+  template: WhatsAppTemplate,
+  parameters: string[]
+): Promise<ChatMessage> => {
+  try {
+    if (template.status !== 'approved') {
+      throw new Error('Only approved templates can be sent');
     }
 
-    return {
-      id: data.id.toString(),
-      session_id: sessionId,
-      message: messageContent,
-      created_at: data.created_at || new Date().toISOString(),
+    const messageContent = {
+      content: renderWhatsAppTemplate(template.body, parameters),
+      type: 'ai' as const,
+      timestamp: new Date().toISOString(),
+      trigger: 'whatsapp' as const,
+      template: {
+        name: template.name,
+        language: template.language,
+        parameters
+      }
     };
+
+    logger.debug('Sending template message:', { sessionId, template: template.name });
+
+    return await deliverAgentMessage(sessionId, messageContent, 'whatsapp');
   } catch (error) {
-    logger.error('Failed to send message:', error as Error);
+    logger.error('Failed to send template message:', error as Error);
     throw error;
   }
 };
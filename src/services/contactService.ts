@@ -1,16 +1,41 @@
 import { ContactRecord, ContactsResponse } from '@/types/contact';
-import { getSetting } from './settingsService';
+import { fetchEndpointForEvent } from './webhookEndpointService';
+
+/**
+ * Turns a contact phone number into the form chat sessions use: digits only
+ * with the 62 country code, e.g. "0812-3456" becomes "628123456"
+ */
+export const normalizePhoneNumber = (phone: string): string => {
+  // Check if phone is null, undefined, or empty
+  if (!phone || typeof phone !== 'string') {
+    return '';
+  }
+
+  // Remove any non-digit characters
+  const digits = phone.replace(/\D/g, '');
+
+  // If the number starts with '62', keep it as is
+  // If it starts with '0', replace '0' with '62'
+  // Otherwise, assume it's a local number and add '62'
+  if (digits.startsWith('62')) {
+    return digits;
+  } else if (digits.startsWith('0')) {
+    return '62' + digits.slice(1);
+  } else {
+    return '62' + digits;
+  }
+};
 
 export const contactService = {
   async getContacts(): Promise<ContactRecord[]> {
     try {
-      const webhookUrl = await getSetting('webhook_url');
+      const endpoint = await fetchEndpointForEvent('contacts.fetch');
       
-      if (!webhookUrl) {
-        throw new Error('Webhook URL not configured');
+      if (!endpoint) {
+        throw new Error('No webhook endpoint configured for the contact list');
       }
 
-      const response = await fetch(webhookUrl);
+      const response = await fetch(endpoint.url);
       if (!response.ok) {
         throw new Error('Failed to fetch contacts');
       }
@@ -0,0 +1,104 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { ChatSessionStatus } from '@/types/chat';
+import { logger } from '@/utils/logger';
+
+type ChatSessionStateRow = Tables<'chat_session_state'>;
+
+export interface ResolutionStats {
+  activeSessions: number;
+  resolvedSessions: number;
+  reopenedSessions: number;
+  resolutionRate: number; // percentage of active sessions that were resolved
+  averageResolutionMinutes: number | null;
+}
+
+export const CHAT_SESSION_STATUS_LABELS: Record<ChatSessionStatus, string> = {
+  open: 'Open',
+  pending: 'Pending',
+  resolved: 'Resolved',
+  closed: 'Closed'
+};
+
+// Resolved and closed conversations are done until the customer writes again
+export const isSessionDone = (status: ChatSessionStatus | undefined): boolean =>
+  status === 'resolved' || status === 'closed';
+
+/**
+ * Moves a session to a new status as the current agent. The transition is
+ * recorded for resolution reporting.
+ */
+export const setSessionStatus = async (
+  sessionId: string,
+  status: ChatSessionStatus
+): Promise<ChatSessionStatus> => {
+  const { data, error } = await supabase.rpc('set_chat_session_status', {
+    p_session_id: sessionId,
+    p_status: status
+  });
+
+  if (error) {
+    logger.error('Failed to update conversation status:', error);
+    throw error;
+  }
+
+  logger.info('Conversation status updated:', { sessionId, status });
+  return data.status as ChatSessionStatus;
+};
+
+/**
+ * Resolution figures for a period, computed from recorded status transitions
+ */
+export const fetchResolutionStats = async (from: Date, to: Date = new Date()): Promise<ResolutionStats> => {
+  const { data, error } = await supabase.rpc('get_resolution_stats', {
+    p_from: from.toISOString(),
+    p_to: to.toISOString()
+  });
+
+  if (error) {
+    logger.error('Failed to fetch resolution stats:', error);
+    throw error;
+  }
+
+  const row = data?.[0];
+  const activeSessions = row?.active_sessions ?? 0;
+  const resolvedSessions = row?.resolved_sessions ?? 0;
+
+  return {
+    activeSessions,
+    resolvedSessions,
+    reopenedSessions: row?.reopened_sessions ?? 0,
+    resolutionRate: activeSessions > 0
+      ? Math.min(100, Math.round((resolvedSessions / activeSessions) * 100))
+      : 0,
+    averageResolutionMinutes: row?.avg_resolution_minutes ?? null
+  };
+};
+
+/**
+ * Subscribes to status changes of all sessions, made by agents or by a
+ * customer reopening a conversation. Returns a function that removes the channel.
+ */
+export const subscribeToSessionStatus = (
+  onChange: (sessionId: string, status: ChatSessionStatus) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`chat_session_state:status:${Date.now()}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'chat_session_state' },
+      (payload: RealtimePostgresChangesPayload<ChatSessionStateRow>) => {
+        if (payload.eventType === 'DELETE') return;
+        const previous = payload.eventType === 'UPDATE' ? payload.old : null;
+        // Takeover and assignment update the same rows, only report status changes
+        if (previous && 'status' in previous && previous.status === payload.new.status) return;
+        onChange(payload.new.session_id, payload.new.status as ChatSessionStatus);
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
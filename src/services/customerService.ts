@@ -0,0 +1,230 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { MessagePlatform } from '@/types/chat';
+import { ContactRecord } from '@/types/contact';
+import { normalizePhoneNumber } from './contactService';
+import { logger } from '@/utils/logger';
+
+export type Customer = Tables<'customers'>;
+export type CustomerSession = Tables<'customer_sessions'>;
+
+// A linked session with what the session list knows about it
+export interface CustomerProfileSession extends CustomerSession {
+  platform: MessagePlatform | null;
+  sender_name: string | null;
+  last_message: string | null;
+  last_timestamp: string | null;
+}
+
+export interface CustomerProfile {
+  customer: Customer;
+  sessions: CustomerProfileSession[];
+}
+
+// Shorter digit runs are order numbers and the like, not phone numbers
+const MIN_PHONE_DIGITS = 8;
+const SESSION_PAGE_SIZE = 1000;
+
+const toPhoneKey = (value: string) =>
+  value.replace(/\D/g, '').length >= MIN_PHONE_DIGITS ? normalizePhoneNumber(value) : null;
+
+const toEmailKey = (value: string) =>
+  value.includes('@') ? value.trim().toLowerCase() : null;
+
+/**
+ * Finds the Airtable contact whose phone or email matches one of the
+ * identifiers of a session (its id or sender name)
+ */
+export const findContactForSession = (
+  contacts: ContactRecord[],
+  identifiers: (string | null | undefined)[]
+): ContactRecord | null => {
+  const phones = new Set<string>();
+  const emails = new Set<string>();
+  for (const identifier of identifiers) {
+    if (!identifier) continue;
+    const email = toEmailKey(identifier);
+    if (email) {
+      emails.add(email);
+      continue;
+    }
+    const phone = toPhoneKey(identifier);
+    if (phone) phones.add(phone);
+  }
+
+  return contacts.find(contact => {
+    const phone = contact.fields?.Phone ? toPhoneKey(contact.fields.Phone) : null;
+    const email = contact.fields?.Email ? toEmailKey(contact.fields.Email) : null;
+    return (!!phone && phones.has(phone)) || (!!email && emails.has(email));
+  }) ?? null;
+};
+
+/**
+ * Customer a session belongs to, with all of the customer's sessions.
+ * Null when the session is not linked to a customer.
+ */
+export const fetchCustomerProfile = async (sessionId: string): Promise<CustomerProfile | null> => {
+  try {
+    const { data: link, error: linkError } = await supabase
+      .from('customer_sessions')
+      .select('customer_id')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (linkError) throw linkError;
+    if (!link) return null;
+
+    const [customerResult, sessionsResult] = await Promise.all([
+      supabase.from('customers').select('*').eq('id', link.customer_id).single(),
+      supabase.from('customer_sessions').select('*').eq('customer_id', link.customer_id)
+    ]);
+
+    if (customerResult.error) throw customerResult.error;
+    if (sessionsResult.error) throw sessionsResult.error;
+
+    const links = sessionsResult.data || [];
+    const { data: overview, error: overviewError } = await supabase
+      .from('chat_session_overview')
+      .select('session_id, platform, sender_name, last_message, last_timestamp')
+      .in('session_id', links.map(item => item.session_id));
+
+    if (overviewError) throw overviewError;
+
+    const overviewById = new Map((overview || []).map(row => [row.session_id, row]));
+    const sessions = links
+      .map(item => {
+        const row = overviewById.get(item.session_id);
+        return {
+          ...item,
+          platform: (row?.platform as MessagePlatform) || null,
+          sender_name: row?.sender_name ?? null,
+          last_message: row?.last_message ?? null,
+          last_timestamp: row?.last_timestamp ?? null
+        };
+      })
+      .sort((a, b) => (b.last_timestamp ?? '').localeCompare(a.last_timestamp ?? ''));
+
+    return { customer: customerResult.data, sessions };
+  } catch (error) {
+    logger.error('Failed to fetch customer profile:', error as Error);
+    throw error;
+  }
+};
+
+/**
+ * Links sessions to the customer of an Airtable contact. Sessions that
+ * already belong to a customer keep their link.
+ */
+export const linkSessionsToContact = async (
+  contact: ContactRecord,
+  sessionIds: string[]
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('link_contact_sessions', {
+    p_contact_id: contact.id,
+    p_display_name: contact.fields?.Name || contact.fields?.['Name and Org'] || null,
+    p_phone: contact.fields?.Phone ? normalizePhoneNumber(contact.fields.Phone) : null,
+    p_email: contact.fields?.Email || null,
+    p_session_ids: sessionIds
+  });
+
+  if (error) {
+    logger.error('Failed to link sessions to contact:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Goes through every session and links the ones that match an Airtable
+ * contact. Returns the number of sessions that matched a contact.
+ */
+export const linkAllSessionsToContacts = async (contacts: ContactRecord[]): Promise<number> => {
+  const sessionsByContact = new Map<string, { contact: ContactRecord; sessionIds: string[] }>();
+
+  for (let from = 0; ; from += SESSION_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('chat_session_overview')
+      .select('session_id, sender_name')
+      .order('session_id', { ascending: true })
+      .range(from, from + SESSION_PAGE_SIZE - 1);
+
+    if (error) {
+      logger.error('Failed to list sessions for customer linking:', error);
+      throw error;
+    }
+
+    for (const row of data || []) {
+      if (!row.session_id) continue;
+      const contact = findContactForSession(contacts, [row.session_id, row.sender_name]);
+      if (!contact) continue;
+
+      const entry = sessionsByContact.get(contact.id) ?? { contact, sessionIds: [] };
+      entry.sessionIds.push(row.session_id);
+      sessionsByContact.set(contact.id, entry);
+    }
+
+    if (!data || data.length < SESSION_PAGE_SIZE) break;
+  }
+
+  let matched = 0;
+  for (const { contact, sessionIds } of sessionsByContact.values()) {
+    await linkSessionsToContact(contact, sessionIds);
+    matched += sessionIds.length;
+  }
+
+  logger.info('Linked sessions to contacts:', { contacts: sessionsByContact.size, sessions: matched });
+  return matched;
+};
+
+/**
+ * Puts two sessions, and the customers they belong to, under one customer
+ */
+export const mergeCustomerSessions = async (sessionId: string, otherSessionId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('merge_customer_sessions', {
+    p_session_id: sessionId,
+    p_other_session_id: otherSessionId
+  });
+
+  if (error) {
+    logger.error('Failed to merge customer sessions:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Moves a session out of its customer into a customer of its own
+ */
+export const unmergeCustomerSession = async (sessionId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('unmerge_customer_session', {
+    p_session_id: sessionId
+  });
+
+  if (error) {
+    logger.error('Failed to unmerge customer session:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Subscribes to session links being added, moved or removed by any agent.
+ * Returns a function that removes the channel.
+ */
+export const subscribeToCustomerSessions = (onChange: () => void): (() => void) => {
+  const channel = supabase
+    .channel(`customer_sessions:changes:${Date.now()}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'customer_sessions' },
+      () => onChange()
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
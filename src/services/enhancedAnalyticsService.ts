@@ -1,11 +1,13 @@
 import { supabase } from '@/integrations/supabase/client';
 import { logger } from '@/utils/logger';
+import { fetchResolutionStats, ResolutionStats } from './conversationStatusService';
 
 export interface EnhancedAnalytics {
   averageResponseTime: number; // in minutes
   customerSatisfactionScore: number; // 0-100
   peakHours: PeakHourData[];
   resolutionRate: number; // percentage
+  resolution: ResolutionStats;
 }
 
 export interface PeakHourData {
@@ -153,56 +155,40 @@ class EnhancedAnalyticsService {
     }
   }
 
-  async getResolutionRate(): Promise<number> {
+  async getResolutionStats(): Promise<ResolutionStats> {
     try {
       const now = new Date();
       const oneWeekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
 
-      // Get session sentiment summaries from last week
-      const { data: sessions, error } = await supabase
-        .from('session_sentiment_summary')
-        .select('satisfaction_score, dominant_sentiment, conversation_quality')
-        .gte('last_analyzed_at', oneWeekAgo.toISOString());
-
-      if (error) throw error;
-
-      if (!sessions || sessions.length === 0) return 70; // Default rate
-
-      // Count resolved conversations
-      // A conversation is considered resolved if:
-      // 1. Satisfaction score > 0.6 OR
-      // 2. Dominant sentiment is positive OR
-      // 3. Conversation quality is 'good' or 'excellent'
-      const resolvedSessions = sessions.filter(session => {
-        return (
-          (session.satisfaction_score && session.satisfaction_score > 0.6) ||
-          session.dominant_sentiment === 'positive' ||
-          ['good', 'excellent'].includes(session.conversation_quality || '')
-        );
-      });
-
-      const resolutionRate = (resolvedSessions.length / sessions.length) * 100;
-      return Math.round(resolutionRate);
+      // Computed from recorded status transitions (resolve, close, reopen)
+      return await fetchResolutionStats(oneWeekAgo, now);
     } catch (error) {
       logger.error('Failed to calculate resolution rate:', error);
-      return 70; // Default fallback
+      return {
+        activeSessions: 0,
+        resolvedSessions: 0,
+        reopenedSessions: 0,
+        resolutionRate: 0,
+        averageResolutionMinutes: null
+      };
     }
   }
 
   async getEnhancedAnalytics(): Promise<EnhancedAnalytics> {
     try {
-      const [averageResponseTime, customerSatisfactionScore, peakHours, resolutionRate] = await Promise.all([
+      const [averageResponseTime, customerSatisfactionScore, peakHours, resolution] = await Promise.all([
         this.getAverageResponseTime(),
         this.getCustomerSatisfactionScore(), 
         this.getPeakHours(),
-        this.getResolutionRate()
+        this.getResolutionStats()
       ]);
 
       return {
         averageResponseTime,
         customerSatisfactionScore,
         peakHours,
-        resolutionRate
+        resolutionRate: resolution.resolutionRate,
+        resolution
       };
     } catch (error) {
       logger.error('Failed to get enhanced analytics:', error);
@@ -8,8 +8,10 @@ import {
   SentimentStats, 
   SentimentFilter,
   SentimentType,
-  EmotionType 
+  EmotionType,
+  SessionSentimentSummary
 } from '@/types/sentiment';
+import { fetchTaggedSessionIds } from './tagService';
 
 interface HybridSentimentConfig {
   useOpenAI: boolean;
@@ -387,6 +389,50 @@ class HybridSentimentService {
     }
   }
 
+  // Per-session sentiment rollups, most recently active first
+  async getSessionSummaries(filter: SentimentFilter = {}, limit: number = 50): Promise<SessionSentimentSummary[]> {
+    try {
+      let query = supabase
+        .from('session_sentiment_summary')
+        .select('session_id, total_human_messages, positive_percentage, negative_percentage, neutral_percentage, dominant_sentiment, satisfaction_score, conversation_quality, last_message_at')
+        .order('last_message_at', { ascending: false, nullsFirst: false })
+        .limit(limit);
+
+      if (filter.tag_ids && filter.tag_ids.length > 0) {
+        const sessionIds = await fetchTaggedSessionIds(filter.tag_ids);
+        if (sessionIds.length === 0) return [];
+        query = query.in('session_id', sessionIds);
+      }
+      if (filter.session_id) {
+        query = query.eq('session_id', filter.session_id);
+      }
+      if (filter.date_from) {
+        query = query.gte('last_message_at', filter.date_from);
+      }
+      if (filter.date_to) {
+        query = query.lte('last_message_at', filter.date_to);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return (data || []).map(row => ({
+        session_id: row.session_id,
+        total_human_messages: row.total_human_messages ?? 0,
+        positive_percentage: row.positive_percentage ?? 0,
+        negative_percentage: row.negative_percentage ?? 0,
+        neutral_percentage: row.neutral_percentage ?? 0,
+        dominant_sentiment: row.dominant_sentiment,
+        satisfaction_score: row.satisfaction_score,
+        conversation_quality: row.conversation_quality,
+        last_message_at: row.last_message_at
+      }));
+    } catch (error) {
+      logger.error('Failed to get session sentiment summaries:', error);
+      throw error;
+    }
+  }
+
   // Save sentiment analysis to database
   async saveSentimentAnalysis(
     messageId: number, 
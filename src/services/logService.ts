@@ -1,5 +1,7 @@
 import { supabase } from '@/integrations/supabase/client';
 import { logger } from '@/utils/logger';
+import { DeliveryStatus } from '@/types/chat';
+import { fetchTaggedSessionIds } from './tagService';
 
 export interface LogEntry {
   id: string;
@@ -10,24 +12,46 @@ export interface LogEntry {
   messageType: string;
   direction: "incoming" | "outgoing";
   timestamp: string;
-  status: "sent" | "delivered" | "read" | "failed";
+  // Incoming messages are "received"; outgoing ones carry the last receipt
+  // reported by n8n, or "unknown" when none was reported
+  status: DeliveryStatus | "received" | "unknown";
+  error?: string;
   sender_name?: string;
 }
 
 export type MessageDirection = "incoming" | "outgoing" | "all";
 
+export type DeliveryStatusFilter = DeliveryStatus | "all";
+
 export const fetchLogs = async (
   dateFrom?: string,
   dateTo?: string,
   phoneNumber?: string,
-  direction?: MessageDirection
+  direction?: MessageDirection,
+  tagIds: string[] = [],
+  status: DeliveryStatusFilter = "all"
 ): Promise<LogEntry[]> => {
   try {
+    // Tags belong to sessions, so resolve them to session ids first
+    const taggedSessionIds = tagIds.length > 0 ? await fetchTaggedSessionIds(tagIds) : null;
+    if (taggedSessionIds && taggedSessionIds.length === 0) {
+      return [];
+    }
+
+    // Receipts only exist for outgoing messages, so a status filter drops
+    // every message without one
+    const filterByStatus = status !== 'all';
     let query = supabase
       .from('n8n_chat_histories')
-      .select('*')
+      .select(filterByStatus
+        ? '*, chat_message_receipts!inner(status, error)'
+        : '*, chat_message_receipts(status, error)')
       .order('created_at', { ascending: false });
 
+    if (filterByStatus) {
+      query = query.eq('chat_message_receipts.status', status);
+    }
+
     // Apply date filters
     if (dateFrom) {
       const startDate = new Date(dateFrom);
@@ -45,11 +69,17 @@ export const fetchLogs = async (
       query = query.ilike('session_id', `%${phoneNumber}%`);
     }
 
+    if (taggedSessionIds) {
+      query = query.in('session_id', taggedSessionIds);
+    }
+
     logger.debug('Fetching logs with filters:', {
       dateFrom,
       dateTo,
       phoneNumber,
-      direction
+      direction,
+      tagIds,
+      status
     });
 
     const { data, error } = await query;
@@ -79,23 +109,9 @@ export const fetchLogs = async (
         }
       }
 
-      // Determine direction and type based on message type
-      let messageDirection: "incoming" | "outgoing";
-      let status: "sent" | "delivered" | "read" | "failed" = "sent";
-
-      switch (messageObj.type) {
-        case 'human':
-          messageDirection = 'incoming';
-          status = 'read';
-          break;
-        case 'ai':
-          messageDirection = 'outgoing';
-          status = 'delivered';
-          break;
-        default:
-          messageDirection = 'incoming';
-          status = 'read';
-      }
+      // Determine direction based on message type
+      const messageDirection: "incoming" | "outgoing" = messageObj.type === 'ai' ? 'outgoing' : 'incoming';
+      const receipt = item.chat_message_receipts;
 
       // Filter by direction if specified
       if (direction && direction !== 'all' && messageDirection !== direction) {
@@ -111,7 +127,10 @@ export const fetchLogs = async (
         messageType: messageObj.type || 'text',
         direction: messageDirection,
         timestamp: item.created_at,
-        status,
+        status: messageDirection === 'incoming'
+          ? 'received'
+          : (receipt?.status as DeliveryStatus) || 'unknown',
+        error: receipt?.error || undefined,
         sender_name: messageObj.sender_name
       };
     }).filter(Boolean) as LogEntry[];
@@ -0,0 +1,106 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { Agent } from '@/types/agent';
+import { getAgentName } from '@/services/assignmentService';
+import { logger } from '@/utils/logger';
+
+// Internal notes are stored apart from n8n_chat_histories, so they are never
+// sent to the customer or forwarded to the webhook
+export type ChatNote = Tables<'chat_notes'>;
+
+export interface ChatNoteInput {
+  sessionId: string;
+  content: string;
+  messageId?: number | null;
+  mentions?: string[];
+}
+
+/**
+ * Returns the agents mentioned as "@Name" in a note
+ */
+export const findMentionedAgents = (content: string, agents: Agent[]): Agent[] =>
+  agents.filter(agent => content.includes(`@${getAgentName(agent)}`));
+
+/**
+ * Fetches the notes of a session, oldest first
+ */
+export const fetchSessionNotes = async (sessionId: string): Promise<ChatNote[]> => {
+  const { data, error } = await supabase
+    .from('chat_notes')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch notes:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+/**
+ * Adds a note to a session, or to one of its messages when messageId is set.
+ * Mentioned agents are notified by the database.
+ */
+export const createNote = async (input: ChatNoteInput, userId: string): Promise<ChatNote> => {
+  const { data, error } = await supabase
+    .from('chat_notes')
+    .insert({
+      session_id: input.sessionId,
+      message_id: input.messageId ?? null,
+      content: input.content.trim(),
+      mentions: input.mentions ?? [],
+      author_id: userId
+    })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Failed to create note:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const deleteNote = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('chat_notes')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    logger.error('Failed to delete note:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribes to notes being added, edited or deleted in a session.
+ * Returns a function that removes the channel.
+ */
+export const subscribeToSessionNotes = (
+  sessionId: string,
+  onChange: (payload: RealtimePostgresChangesPayload<ChatNote>) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`chat_notes:${sessionId}:${Date.now()}`)
+    .on(
+      'postgres_changes',
+      // Delete events cannot be filtered server-side, so match the session here
+      { event: '*', schema: 'public', table: 'chat_notes' },
+      (payload: RealtimePostgresChangesPayload<ChatNote>) => {
+        const row = payload.eventType === 'DELETE' ? payload.old : payload.new;
+        if (row && 'session_id' in row && row.session_id === sessionId) {
+          onChange(payload);
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,77 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+
+export type AgentNotification = Tables<'agent_notifications'>;
+
+/**
+ * Fetches the latest notifications of an agent, newest first
+ */
+export const fetchAgentNotifications = async (userId: string, limit = 50): Promise<AgentNotification[]> => {
+  const { data, error } = await supabase
+    .from('agent_notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    logger.error('Failed to fetch notifications:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+export const markAgentNotificationRead = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('agent_notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('read_at', null);
+
+  if (error) {
+    logger.error('Failed to mark notification read:', error);
+    throw error;
+  }
+};
+
+export const markAllAgentNotificationsRead = async (userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('agent_notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (error) {
+    logger.error('Failed to mark notifications read:', error);
+    throw error;
+  }
+};
+
+/**
+ * Subscribes to new notifications for an agent.
+ * Returns a function that removes the channel.
+ */
+export const subscribeToAgentNotifications = (
+  userId: string,
+  onInsert: (notification: AgentNotification) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`agent_notifications:${userId}:${Date.now()}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'agent_notifications', filter: `user_id=eq.${userId}` },
+      (payload: RealtimePostgresChangesPayload<AgentNotification>) => {
+        if (payload.eventType === 'INSERT') {
+          onInsert(payload.new);
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
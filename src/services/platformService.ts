@@ -0,0 +1,105 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { MessagePlatform, PlatformSource } from '@/types/chat';
+import { logger } from '@/utils/logger';
+
+type ChatSessionStateRow = Tables<'chat_session_state'>;
+
+export const PLATFORM_LABELS: Record<MessagePlatform, string> = {
+  whatsapp: 'WhatsApp',
+  instagram: 'Instagram',
+  facebook: 'Facebook'
+};
+
+/**
+ * Fetches the stored platform of a session, null when it is unknown
+ */
+export const fetchSessionPlatform = async (sessionId: string): Promise<MessagePlatform | null> => {
+  const { data, error } = await supabase
+    .from('chat_session_overview')
+    .select('platform')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch session platform:', error);
+    throw error;
+  }
+
+  return (data?.platform as MessagePlatform) || null;
+};
+
+/**
+ * Overrides the platform of a session. Passing null removes the override and
+ * goes back to the platform found in the messages.
+ */
+export const setSessionPlatform = async (
+  sessionId: string,
+  platform: MessagePlatform | null
+): Promise<MessagePlatform | null> => {
+  const { data, error } = await supabase.rpc('set_chat_session_platform', {
+    p_session_id: sessionId,
+    p_platform: platform
+  });
+
+  if (error) {
+    logger.error('Failed to set session platform:', error);
+    throw error;
+  }
+
+  logger.info('Session platform updated:', { sessionId, platform: data.platform });
+  return (data.platform as MessagePlatform) || null;
+};
+
+/**
+ * Reclassifies the platform of every session without a manual override.
+ * Returns the number of sessions that changed.
+ */
+export const backfillSessionPlatforms = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('backfill_chat_session_platforms');
+
+  if (error) {
+    logger.error('Failed to backfill session platforms:', error);
+    throw error;
+  }
+
+  return data ?? 0;
+};
+
+/**
+ * Subscribes to platform changes from ingestion, the backfill or another
+ * agent. Returns a function that removes the channel.
+ */
+export const subscribeToSessionPlatform = (
+  onChange: (sessionId: string, platform: MessagePlatform | null, source: PlatformSource | null) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`chat_session_state:platform:${Date.now()}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'chat_session_state' },
+      (payload: RealtimePostgresChangesPayload<ChatSessionStateRow>) => {
+        if (payload.eventType === 'DELETE') return;
+        const previous = payload.eventType === 'UPDATE' ? payload.old : null;
+        // Other session state shares the row, only report platform changes
+        if (
+          previous &&
+          'platform' in previous &&
+          previous.platform === payload.new.platform &&
+          previous.platform_source === payload.new.platform_source
+        ) return;
+        if (!previous && !payload.new.platform) return;
+        onChange(
+          payload.new.session_id,
+          (payload.new.platform as MessagePlatform) || null,
+          (payload.new.platform_source as PlatformSource) || null
+        );
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
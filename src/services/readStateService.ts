@@ -0,0 +1,95 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+
+export type ReadCursor = Tables<'chat_read_cursors'>;
+
+export interface UnreadTotals {
+  unread_messages: number;
+  unread_sessions: number;
+}
+
+/**
+ * Moves the current user's read cursor of a session up to the given message
+ */
+export const markSessionRead = async (
+  userId: string,
+  sessionId: string,
+  lastMessageId: number
+): Promise<void> => {
+  const { error } = await supabase
+    .from('chat_read_cursors')
+    .upsert({
+      user_id: userId,
+      session_id: sessionId,
+      last_read_message_id: lastMessageId,
+      marked_unread: false,
+      last_read_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id,session_id' });
+
+  if (error) {
+    logger.error('Failed to mark session as read:', error);
+    throw error;
+  }
+};
+
+/**
+ * Flags a session as unread for the current user until it is opened again
+ */
+export const markSessionUnread = async (userId: string, sessionId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('chat_read_cursors')
+    .upsert({
+      user_id: userId,
+      session_id: sessionId,
+      marked_unread: true,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id,session_id' });
+
+  if (error) {
+    logger.error('Failed to mark session as unread:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetches the total unread messages and sessions of the current user
+ */
+export const fetchUnreadTotals = async (): Promise<UnreadTotals> => {
+  const { data, error } = await supabase.rpc('get_unread_totals');
+
+  if (error) {
+    logger.error('Failed to fetch unread totals:', error);
+    throw error;
+  }
+
+  return data?.[0] || { unread_messages: 0, unread_sessions: 0 };
+};
+
+/**
+ * Subscribes to read cursor changes of a user, including those made on
+ * other devices. Returns a function that removes the channel.
+ */
+export const subscribeToReadCursors = (
+  userId: string,
+  onChange: (cursor: ReadCursor) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`chat_read_cursors:${userId}:${Date.now()}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'chat_read_cursors', filter: `user_id=eq.${userId}` },
+      (payload: RealtimePostgresChangesPayload<ReadCursor>) => {
+        if (payload.eventType !== 'DELETE') {
+          onChange(payload.new);
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
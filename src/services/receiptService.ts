@@ -0,0 +1,64 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { DeliveryStatus } from '@/types/chat';
+import { logger } from '@/utils/logger';
+
+// Written by n8n through the record_message_receipt RPC, read-only here
+export type MessageReceipt = Tables<'chat_message_receipts'>;
+
+export const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  sent: 'Sent',
+  delivered: 'Delivered',
+  read: 'Read',
+  failed: 'Failed'
+};
+
+/**
+ * Fetches the receipts of the given messages, keyed by message id
+ */
+export const fetchMessageReceipts = async (messageIds: number[]): Promise<Record<string, MessageReceipt>> => {
+  if (messageIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('chat_message_receipts')
+    .select('*')
+    .in('message_id', messageIds);
+
+  if (error) {
+    logger.error('Failed to fetch message receipts:', error);
+    throw error;
+  }
+
+  const receipts: Record<string, MessageReceipt> = {};
+  (data || []).forEach(receipt => {
+    receipts[receipt.message_id.toString()] = receipt;
+  });
+  return receipts;
+};
+
+/**
+ * Subscribes to receipts recorded for the messages of a session.
+ * Returns a function that removes the channel.
+ */
+export const subscribeToMessageReceipts = (
+  sessionId: string,
+  onChange: (receipt: MessageReceipt) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`chat_message_receipts:${sessionId}:${Date.now()}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'chat_message_receipts', filter: `session_id=eq.${sessionId}` },
+      (payload: RealtimePostgresChangesPayload<MessageReceipt>) => {
+        if (payload.eventType !== 'DELETE') {
+          onChange(payload.new);
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,268 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { ChatMessage } from '@/types/chat';
+import { fetchChatMessages } from './chatService';
+import { logger } from '@/utils/logger';
+
+export type ReplySuggestionProviderName = 'openai' | 'local';
+
+// A knowledge base chunk the draft is grounded in, numbered as cited in the draft
+export interface ReplySuggestionSource {
+  index: number;
+  id: number;
+  title: string;
+  content: string;
+  metadata: Json;
+  similarity: number | null;
+}
+
+export interface ReplySuggestion {
+  draft: string;
+  sources: ReplySuggestionSource[];
+  query: string;
+  provider: ReplySuggestionProviderName;
+}
+
+interface DraftInput {
+  conversation: ChatMessage[];
+  sources: ReplySuggestionSource[];
+}
+
+interface ReplySuggestionProvider {
+  name: ReplySuggestionProviderName;
+  // Null when the provider has no embeddings; retrieval then falls back to keyword matching
+  embed(text: string): Promise<number[] | null>;
+  draftReply(input: DraftInput): Promise<string>;
+}
+
+const SUGGESTION_CONFIG = {
+  provider: import.meta.env.VITE_REPLY_SUGGESTION_PROVIDER as ReplySuggestionProviderName | undefined,
+  chatModel: import.meta.env.VITE_REPLY_SUGGESTION_MODEL || 'gpt-4o-mini',
+  // Must be the model the documents were embedded with
+  embeddingModel: import.meta.env.VITE_EMBEDDING_MODEL || 'text-embedding-3-small',
+  matchCount: 4,
+  // Messages of the conversation given to the model
+  contextMessages: 12,
+  // Recent customer messages the knowledge base is searched with
+  queryMessages: 3,
+  maxTokens: 400,
+  temperature: 0.3
+};
+
+const TITLE_KEYS = ['title', 'source', 'file_name', 'fileName', 'filename', 'url'];
+
+const getSourceTitle = (id: number, metadata: Json): string => {
+  if (metadata && typeof metadata === 'object' && !Array.isArray(metadata)) {
+    for (const key of TITLE_KEYS) {
+      const value = metadata[key];
+      if (typeof value === 'string' && value.trim()) return value;
+    }
+  }
+  return `Document #${id}`;
+};
+
+// Chat completions and embeddings from the OpenAI API
+class OpenAIReplyProvider implements ReplySuggestionProvider {
+  name = 'openai' as const;
+
+  constructor(private apiKey: string) {}
+
+  private async request(path: string, body: unknown) {
+    const response = await fetch(`https://api.openai.com/v1/${path}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI API request failed: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  async embed(text: string): Promise<number[] | null> {
+    const data = await this.request('embeddings', {
+      model: SUGGESTION_CONFIG.embeddingModel,
+      input: text
+    });
+    return data.data?.[0]?.embedding ?? null;
+  }
+
+  async draftReply({ conversation, sources }: DraftInput): Promise<string> {
+    const transcript = conversation
+      .map(message => `${message.message.type === 'ai' ? 'Agent' : 'Customer'}: ${message.message.content}`)
+      .join('\n');
+    const knowledge = sources.length > 0
+      ? sources.map(source => `[${source.index}] ${source.title}\n${source.content}`).join('\n\n')
+      : 'No matching documents.';
+
+    const data = await this.request('chat/completions', {
+      model: SUGGESTION_CONFIG.chatModel,
+      max_tokens: SUGGESTION_CONFIG.maxTokens,
+      temperature: SUGGESTION_CONFIG.temperature,
+      messages: [
+        {
+          role: 'system',
+          content: `You draft replies for a customer service agent in Indonesia.
+Write the next agent message in the customer's language, friendly and concise, ready to send on WhatsApp.
+Only state facts found in the numbered documents and cite them inline as [1], [2].
+If the documents do not answer the question, say the agent will check and get back to the customer. Never invent prices, dates or policies.`
+        },
+        {
+          role: 'user',
+          content: `Documents:\n${knowledge}\n\nConversation:\n${transcript}\n\nDraft the agent's next reply.`
+        }
+      ]
+    });
+
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error('The language model returned no draft');
+    }
+    return content.trim();
+  }
+}
+
+// Offline stand-in for development and tests: no embeddings, and a draft
+// assembled from the best matching document
+class LocalReplyProvider implements ReplySuggestionProvider {
+  name = 'local' as const;
+
+  async embed(): Promise<number[] | null> {
+    return null;
+  }
+
+  async draftReply({ sources }: DraftInput): Promise<string> {
+    const [best] = sources;
+    if (!best) {
+      return 'Terima kasih atas pertanyaannya. Kami cek dulu dan segera kabari kembali ya.';
+    }
+
+    const excerpt = best.content.split(/(?<=[.!?])\s+/).slice(0, 2).join(' ').trim();
+    return `Terima kasih atas pertanyaannya. ${excerpt} [${best.index}]`;
+  }
+}
+
+/**
+ * The configured provider. VITE_REPLY_SUGGESTION_PROVIDER picks it; without
+ * it OpenAI is used when an API key is set and the local stub otherwise.
+ */
+export const getReplySuggestionProvider = (): ReplySuggestionProvider => {
+  const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
+  const provider = SUGGESTION_CONFIG.provider || (apiKey ? 'openai' : 'local');
+
+  if (provider === 'openai') {
+    if (!apiKey) {
+      logger.warn('OpenAI API key not found, reply suggestions use the local provider');
+      return new LocalReplyProvider();
+    }
+    return new OpenAIReplyProvider(apiKey);
+  }
+  return new LocalReplyProvider();
+};
+
+/**
+ * Text the knowledge base is searched with: the customer's latest messages
+ */
+export const buildSuggestionQuery = (messages: ChatMessage[]): string =>
+  messages
+    .filter(message => message.message.type !== 'ai' && message.message.content.trim())
+    .slice(-SUGGESTION_CONFIG.queryMessages)
+    .map(message => message.message.content.trim())
+    .join('\n');
+
+/**
+ * Draft as a chat message: the customer does not see the sources, so the
+ * [n] citations go, and lines are joined for the single-line chat input
+ */
+export const draftToMessage = (draft: string): string =>
+  draft
+    .replace(/\s*\[\d+(?:\s*,\s*\d+)*\]/g, '')
+    .replace(/\s*\n+\s*/g, ' ')
+    .trim();
+
+// Keyword fallback for providers without embeddings: documents containing
+// the longest words of the query
+const fetchDocumentsByKeyword = async (query: string, count: number) => {
+  const words = Array.from(new Set(query.toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) ?? []))
+    .sort((a, b) => b.length - a.length)
+    .slice(0, 5);
+  if (words.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id, content, metadata')
+    .or(words.map(word => `content.ilike.%${word}%`).join(','))
+    .limit(count);
+
+  if (error) throw error;
+  return (data || []).map(row => ({ ...row, content: row.content ?? '', similarity: null as number | null }));
+};
+
+/**
+ * Top knowledge base chunks for a query, through match_documents when the
+ * provider has embeddings
+ */
+export const fetchMatchingDocuments = async (
+  query: string,
+  provider: ReplySuggestionProvider,
+  count: number = SUGGESTION_CONFIG.matchCount
+): Promise<ReplySuggestionSource[]> => {
+  try {
+    const embedding = await provider.embed(query);
+    let rows: { id: number; content: string; metadata: Json; similarity: number | null }[];
+
+    if (embedding) {
+      const { data, error } = await supabase.rpc('match_documents', {
+        query_embedding: JSON.stringify(embedding),
+        match_count: count
+      });
+      if (error) throw error;
+      rows = data || [];
+    } else {
+      rows = await fetchDocumentsByKeyword(query, count);
+    }
+
+    return rows.map((row, index) => ({
+      index: index + 1,
+      id: row.id,
+      title: getSourceTitle(row.id, row.metadata),
+      content: row.content,
+      metadata: row.metadata,
+      similarity: row.similarity
+    }));
+  } catch (error) {
+    logger.error('Failed to fetch matching documents:', error as Error);
+    throw error;
+  }
+};
+
+/**
+ * Drafts a reply to the latest customer messages of a session, grounded in
+ * the documents knowledge base. The agent reviews and edits it before sending.
+ */
+export const suggestReply = async (sessionId: string): Promise<ReplySuggestion> => {
+  try {
+    const provider = getReplySuggestionProvider();
+    const { messages } = await fetchChatMessages(sessionId, { limit: SUGGESTION_CONFIG.contextMessages });
+    const query = buildSuggestionQuery(messages);
+
+    if (!query) {
+      throw new Error('The customer has not written anything to reply to');
+    }
+
+    const sources = await fetchMatchingDocuments(query, provider);
+    const draft = await provider.draftReply({ conversation: messages, sources });
+
+    logger.debug('Drafted reply suggestion:', { sessionId, provider: provider.name, sources: sources.length });
+
+    return { draft, sources, query, provider: provider.name };
+  } catch (error) {
+    logger.error('Failed to suggest reply:', error as Error);
+    throw error;
+  }
+};
@@ -0,0 +1,188 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+
+// Replies waiting to be sent. They are dispatched by the database
+// (dispatch_scheduled_messages), so they go out even with the dashboard closed.
+export type ScheduledMessage = Tables<'scheduled_messages'>;
+
+export type ScheduledMessageStatus = 'pending' | 'sent' | 'cancelled' | 'failed';
+
+// Times are picked and shown in Jakarta time, whatever the agent's browser
+// is set to. Jakarta has no daylight saving, so the offset never changes.
+export const SCHEDULE_TIME_ZONE = 'Asia/Jakarta';
+const SCHEDULE_UTC_OFFSET = '+07:00';
+
+/**
+ * Splits a moment into the date ("2026-10-20") and time ("09:00") it has in
+ * Jakarta, for date and time inputs
+ */
+export const toJakartaParts = (date: Date): { date: string; time: string } => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: SCHEDULE_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}`
+  };
+};
+
+/**
+ * The moment a Jakarta date and time refer to
+ */
+export const fromJakartaParts = (date: string, time: string): Date =>
+  new Date(`${date}T${time}:00${SCHEDULE_UTC_OFFSET}`);
+
+/**
+ * Formats a send time for agents, e.g. "Kam, 20 Okt 09.00 WIB"
+ */
+export const formatJakartaTime = (value: string | Date): string =>
+  `${new Intl.DateTimeFormat('id-ID', {
+    timeZone: SCHEDULE_TIME_ZONE,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).format(new Date(value))} WIB`;
+
+/**
+ * Fetches the messages of a session that have not gone out yet, including
+ * failed ones, soonest first
+ */
+export const fetchScheduledMessages = async (sessionId: string): Promise<ScheduledMessage[]> => {
+  const { data, error } = await supabase
+    .from('scheduled_messages')
+    .select('*')
+    .eq('session_id', sessionId)
+    .in('status', ['pending', 'failed'])
+    .order('send_at', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch scheduled messages:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+export const scheduleMessage = async (
+  sessionId: string,
+  content: string,
+  sendAt: Date,
+  userId: string
+): Promise<ScheduledMessage> => {
+  const { data, error } = await supabase
+    .from('scheduled_messages')
+    .insert({
+      session_id: sessionId,
+      content: content.trim(),
+      send_at: sendAt.toISOString(),
+      created_by: userId
+    })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Failed to schedule message:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Changes the text or send time of a message that has not gone out. A failed
+ * message is scheduled again.
+ */
+export const updateScheduledMessage = async (
+  id: string,
+  content: string,
+  sendAt: Date
+): Promise<ScheduledMessage> => {
+  const { data, error } = await supabase
+    .from('scheduled_messages')
+    .update({
+      content: content.trim(),
+      send_at: sendAt.toISOString(),
+      status: 'pending',
+      last_error: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .in('status', ['pending', 'failed'])
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to update scheduled message:', error);
+    throw error;
+  }
+
+  if (!data) {
+    throw new Error('This message has already been sent or cancelled');
+  }
+
+  return data;
+};
+
+export const cancelScheduledMessage = async (id: string): Promise<ScheduledMessage> => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('scheduled_messages')
+    .update({
+      status: 'cancelled',
+      cancelled_at: now,
+      updated_at: now
+    })
+    .eq('id', id)
+    .in('status', ['pending', 'failed'])
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to cancel scheduled message:', error);
+    throw error;
+  }
+
+  if (!data) {
+    throw new Error('This message has already been sent or cancelled');
+  }
+
+  return data;
+};
+
+/**
+ * Subscribes to messages of a session being scheduled, edited, cancelled or
+ * sent. Returns a function that removes the channel.
+ */
+export const subscribeToScheduledMessages = (
+  sessionId: string,
+  onChange: (message: ScheduledMessage) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`scheduled_messages:${sessionId}:${Date.now()}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'scheduled_messages', filter: `session_id=eq.${sessionId}` },
+      (payload: RealtimePostgresChangesPayload<ScheduledMessage>) => {
+        if (payload.eventType !== 'DELETE') {
+          onChange(payload.new);
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,203 @@
+import { ChatMessage, MessageAttachment, MessagePlatform } from '@/types/chat';
+import { sendMessage } from './chatService';
+import { logger } from '@/utils/logger';
+
+export type QueuedMessageStatus = 'pending' | 'failed';
+
+// An agent reply waiting in the browser for the connection to return
+export interface QueuedMessage {
+  client_message_id: string;
+  session_id: string;
+  content: string;
+  platform: MessagePlatform | null;
+  attachments: MessageAttachment[];
+  queued_at: string;
+  status: QueuedMessageStatus;
+  attempts: number;
+  last_error: string | null;
+}
+
+export type QueuedMessageInput = Pick<QueuedMessage, 'client_message_id' | 'session_id' | 'content' | 'platform' | 'attachments'>;
+
+const DB_NAME = 'chat-send-queue';
+const STORE_NAME = 'messages';
+// Serializes replays across tabs of the dashboard
+const LOCK_NAME = 'chat-send-queue';
+
+const NETWORK_ERROR = /failed to fetch|networkerror|network request failed|load failed|fetch failed/i;
+
+let database: Promise<IDBDatabase> | null = null;
+let flushing: Promise<number> | null = null;
+const listeners = new Set<() => void>();
+const tabs = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(DB_NAME) : null;
+
+const openQueue = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'client_message_id' });
+        store.createIndex('queued_at', 'queued_at');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      database = null;
+      throw error;
+    });
+  }
+  return database;
+};
+
+const runInStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openQueue();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const notifyChange = () => {
+  listeners.forEach(listener => listener());
+  tabs?.postMessage('changed');
+};
+
+const getQueuedMessage = (clientMessageId: string) =>
+  runInStore<QueuedMessage | undefined>('readonly', store => store.get(clientMessageId));
+
+const putQueuedMessage = async (message: QueuedMessage) => {
+  await runInStore('readwrite', store => store.put(message));
+  notifyChange();
+};
+
+/**
+ * Whether a send failed because the browser could not reach Supabase, as
+ * opposed to Supabase refusing it
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = error instanceof Error
+    ? error.message
+    : (error as { message?: unknown })?.message;
+  return typeof message === 'string' && NETWORK_ERROR.test(message);
+};
+
+/**
+ * Queued messages in the order they were written, of one session or all
+ */
+export const listQueuedMessages = async (sessionId?: string): Promise<QueuedMessage[]> => {
+  const messages = await runInStore<QueuedMessage[]>('readonly', store => store.index('queued_at').getAll());
+  return sessionId ? messages.filter(message => message.session_id === sessionId) : messages;
+};
+
+/**
+ * Keeps a reply that could not be sent until the connection returns. The
+ * client message id must be the one of the failed attempt, so a replay of a
+ * message that did reach Supabase is not stored twice.
+ */
+export const queueMessage = async (input: QueuedMessageInput): Promise<QueuedMessage> => {
+  const queued: QueuedMessage = {
+    ...input,
+    queued_at: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+    last_error: null
+  };
+
+  await putQueuedMessage(queued);
+  logger.info('Message queued until the connection returns:', { sessionId: input.session_id });
+  return queued;
+};
+
+/**
+ * Puts a failed message back in line for the next replay
+ */
+export const retryQueuedMessage = async (clientMessageId: string): Promise<void> => {
+  const queued = await getQueuedMessage(clientMessageId);
+  if (!queued) return;
+  await putQueuedMessage({ ...queued, status: 'pending', last_error: null });
+};
+
+/**
+ * Drops a queued message without sending it
+ */
+export const removeQueuedMessage = async (clientMessageId: string): Promise<void> => {
+  await runInStore('readwrite', store => store.delete(clientMessageId));
+  notifyChange();
+};
+
+const replayQueue = async (onSent: (message: ChatMessage, queued: QueuedMessage) => void): Promise<number> => {
+  let sent = 0;
+
+  for (const queued of await listQueuedMessages()) {
+    if (queued.status !== 'pending') continue;
+
+    try {
+      const message = await sendMessage(
+        queued.session_id,
+        queued.content,
+        queued.platform ?? undefined,
+        queued.attachments,
+        queued.client_message_id
+      );
+      await removeQueuedMessage(queued.client_message_id);
+      onSent(message, queued);
+      sent += 1;
+    } catch (error) {
+      if (isNetworkError(error)) {
+        // Still offline: stop, so later messages do not overtake this one
+        await putQueuedMessage({ ...queued, attempts: queued.attempts + 1 });
+        break;
+      }
+      await putQueuedMessage({
+        ...queued,
+        status: 'failed',
+        attempts: queued.attempts + 1,
+        last_error: error instanceof Error ? error.message : 'Message could not be sent'
+      });
+    }
+  }
+
+  if (sent > 0) {
+    logger.info('Replayed queued messages:', { sent });
+  }
+  return sent;
+};
+
+/**
+ * Sends the pending messages in the order they were queued. Only one replay
+ * runs at a time, across tabs too. Returns the number of messages sent.
+ */
+export const flushSendQueue = (onSent: (message: ChatMessage, queued: QueuedMessage) => void): Promise<number> => {
+  if (!flushing) {
+    const replay = () => replayQueue(onSent);
+    flushing = (typeof navigator !== 'undefined' && navigator.locks
+      ? navigator.locks.request(LOCK_NAME, replay)
+      : replay()
+    ).finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+};
+
+/**
+ * Subscribes to messages being queued, sent or dropped, in this tab or
+ * another one. Returns a function that removes the listener.
+ */
+export const subscribeToSendQueue = (onChange: () => void): (() => void) => {
+  const handleMessage = () => onChange();
+  listeners.add(onChange);
+  tabs?.addEventListener('message', handleMessage);
+
+  return () => {
+    listeners.delete(onChange);
+    tabs?.removeEventListener('message', handleMessage);
+  };
+};
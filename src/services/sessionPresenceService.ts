@@ -0,0 +1,173 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { format } from 'date-fns';
+import { ReplyLock, SessionViewer } from '@/types/chat';
+import { logger } from '@/utils/logger';
+
+type ChatSessionStateRow = Tables<'chat_session_state'>;
+
+export const REPLY_LOCK_MINUTES = 5;
+// Typing is cleared when no key was pressed for this long
+export const TYPING_IDLE_MS = 4000;
+
+export interface SessionPresence {
+  setTyping: (typing: boolean) => void;
+  leave: () => void;
+}
+
+// An expired lock is no lock: it lapses without anyone releasing it
+const toReplyLock = (state: Pick<ChatSessionStateRow, 'session_id' | 'reply_locked_by' | 'reply_locked_at' | 'reply_locked_until'>): ReplyLock | null => {
+  if (!state.reply_locked_by || !state.reply_locked_until) return null;
+  if (new Date(state.reply_locked_until).getTime() <= Date.now()) return null;
+
+  return {
+    session_id: state.session_id,
+    locked_by: state.reply_locked_by,
+    locked_at: state.reply_locked_at,
+    locked_until: state.reply_locked_until
+  };
+};
+
+/**
+ * Joins the presence channel of a session as the current agent. onSync gets
+ * everyone with the session open, the current agent included; an agent with
+ * several tabs open is listed once.
+ */
+export const joinSessionPresence = (
+  sessionId: string,
+  agent: { user_id: string; name: string },
+  onSync: (viewers: SessionViewer[]) => void
+): SessionPresence => {
+  const state: SessionViewer = {
+    user_id: agent.user_id,
+    name: agent.name,
+    typing: false,
+    viewing_since: new Date().toISOString()
+  };
+  let subscribed = false;
+
+  const channel = supabase.channel(`presence:session:${sessionId}`, {
+    config: { presence: { key: agent.user_id } }
+  });
+
+  channel
+    .on('presence', { event: 'sync' }, () => {
+      const viewers = Object.values(channel.presenceState<SessionViewer>())
+        .filter(metas => metas.length > 0)
+        .map(metas => ({
+          user_id: metas[0].user_id,
+          name: metas[0].name,
+          typing: metas.some(meta => meta.typing),
+          viewing_since: metas.map(meta => meta.viewing_since).sort()[0]
+        }));
+      onSync(viewers);
+    })
+    .subscribe((status) => {
+      if (status !== 'SUBSCRIBED') return;
+      subscribed = true;
+      channel.track(state).catch(error => logger.warn('Failed to join session presence:', error));
+    });
+
+  return {
+    setTyping: (typing: boolean) => {
+      if (state.typing === typing) return;
+      state.typing = typing;
+      if (subscribed) {
+        channel.track(state).catch(error => logger.warn('Failed to update typing presence:', error));
+      }
+    },
+    leave: () => {
+      supabase.removeChannel(channel);
+    }
+  };
+};
+
+/**
+ * Fetches the reply lock of a session, null when nobody holds one
+ */
+export const fetchReplyLock = async (sessionId: string): Promise<ReplyLock | null> => {
+  const { data, error } = await supabase
+    .from('chat_session_state')
+    .select('session_id, reply_locked_by, reply_locked_at, reply_locked_until')
+    .eq('session_id', sessionId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Failed to fetch reply lock:', error);
+    throw error;
+  }
+
+  return data ? toReplyLock(data) : null;
+};
+
+/**
+ * Takes exclusive reply rights to a session, or extends them when the
+ * current agent already holds the lock
+ */
+export const acquireReplyLock = async (
+  sessionId: string,
+  minutes: number = REPLY_LOCK_MINUTES
+): Promise<ReplyLock | null> => {
+  const { data, error } = await supabase.rpc('acquire_reply_lock', {
+    p_session_id: sessionId,
+    p_minutes: minutes
+  });
+
+  if (error) {
+    logger.error('Failed to acquire reply lock:', error);
+    throw error;
+  }
+
+  logger.info('Reply lock acquired:', { sessionId, until: data.reply_locked_until });
+  return toReplyLock(data);
+};
+
+/**
+ * Gives up the reply lock of a session held by the current agent
+ */
+export const releaseReplyLock = async (sessionId: string): Promise<void> => {
+  const { error } = await supabase.rpc('release_reply_lock', { p_session_id: sessionId });
+
+  if (error) {
+    logger.error('Failed to release reply lock:', error);
+    throw error;
+  }
+};
+
+/**
+ * Throws when another agent holds the reply lock of a session
+ */
+export const assertCanReply = async (sessionId: string): Promise<void> => {
+  const lock = await fetchReplyLock(sessionId);
+  if (!lock) return;
+
+  const { data } = await supabase.auth.getSession();
+  if (lock.locked_by !== data.session?.user.id) {
+    throw new Error(`Another agent is handling this conversation until ${format(new Date(lock.locked_until), 'HH:mm')}`);
+  }
+};
+
+/**
+ * Subscribes to the reply lock of a session being taken, extended or
+ * released by any agent. Returns a function that removes the channel.
+ */
+export const subscribeToReplyLock = (
+  sessionId: string,
+  onChange: (lock: ReplyLock | null) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`chat_session_state:reply_lock:${sessionId}:${Date.now()}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'chat_session_state', filter: `session_id=eq.${sessionId}` },
+      (payload: RealtimePostgresChangesPayload<ChatSessionStateRow>) => {
+        onChange(payload.eventType === 'DELETE' ? null : toReplyLock(payload.new));
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -1,7 +1,13 @@
 import { supabase } from '@/integrations/supabase/client';
 
 export const SETTINGS_KEYS = {
-  WEBHOOK_URL: 'webhook_url'
+  WEBHOOK_SIGNING_SECRET: 'webhook_signing_secret',
+  WEBHOOK_SIGNING_SECRET_ROTATED_AT: 'webhook_signing_secret_rotated_at',
+  WEBHOOK_BEARER_TOKEN: 'webhook_bearer_token',
+  WEBHOOK_CUSTOM_HEADERS: 'webhook_custom_headers',
+  BOT_AUTO_RESUME_MINUTES: 'bot_auto_resume_minutes',
+  BOT_PAUSE_ON_AGENT_REPLY: 'bot_pause_on_agent_reply',
+  AUTO_ASSIGN_ENABLED: 'auto_assign_enabled'
 } as const;
 
 export type AppSetting = {
@@ -50,50 +56,5 @@ export const updateSetting = async (key: string, value: string): Promise<boolean
   return true;
 };
 
-/**
- * Tests a webhook URL by sending a test payload
- */
-export const testWebhook = async (url: string): Promise<{ success: boolean; message: string }> => {
-  try {
-    const timestamp = new Date().toISOString();
-    
-    // Create message object with correct type
-    const messageObject = {
-      content: "This is a test message from the WhatsApp chatbot system",
-      type: "ai" as const,
-      timestamp: timestamp
-    };
-    
-    // Create test payload based on the format used in chatService.ts
-    const testPayload = {
-      session_id: "6281234567890",
-      message: messageObject
-    };
-    
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(testPayload),
-    });
-    
-    if (!response.ok) {
-      return { 
-        success: false, 
-        message: `Failed to send test: Server responded with ${response.status} ${response.statusText}` 
-      };
-    }
-    
-    return { success: true, message: 'Webhook test successful!' };
-  } catch (error) {
-    console.error('Error testing webhook:', error);
-    return { 
-      success: false, 
-      message: `Error testing webhook: ${error instanceof Error ? error.message : String(error)}` 
-    };
-  }
-};
-
 // Add alias export for backward compatibility
 export const setSetting = updateSetting;
@@ -0,0 +1,208 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+
+export type ChatTag = Tables<'chat_tags'>;
+export type ChatTagInput = Pick<TablesInsert<'chat_tags'>, 'name' | 'color'>;
+
+type ChatSessionTagRow = Tables<'chat_session_tags'>;
+
+// Palette offered when creating a tag
+export const TAG_COLORS = [
+  '#ef4444',
+  '#f97316',
+  '#f59e0b',
+  '#22c55e',
+  '#14b8a6',
+  '#3b82f6',
+  '#8b5cf6',
+  '#ec4899',
+  '#6b7280'
+];
+
+/**
+ * Fetches the tag catalog, ordered by name
+ */
+export const fetchTags = async (): Promise<ChatTag[]> => {
+  const { data, error } = await supabase
+    .from('chat_tags')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch tags:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+export const createTag = async (input: ChatTagInput, userId?: string): Promise<ChatTag> => {
+  const { data, error } = await supabase
+    .from('chat_tags')
+    .insert({
+      name: input.name.trim(),
+      color: input.color,
+      created_by: userId ?? null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Failed to create tag:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const updateTag = async (id: string, input: ChatTagInput): Promise<ChatTag> => {
+  const { data, error } = await supabase
+    .from('chat_tags')
+    .update({
+      name: input.name.trim(),
+      color: input.color,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Failed to update tag:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * Deletes a tag from the catalog, which also removes it from every session
+ */
+export const deleteTag = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('chat_tags')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    logger.error('Failed to delete tag:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetches the ids of the tags attached to a session, oldest first
+ */
+export const fetchSessionTagIds = async (sessionId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('chat_session_tags')
+    .select('tag_id')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch session tags:', error);
+    throw error;
+  }
+
+  return (data || []).map(row => row.tag_id);
+};
+
+export const addSessionTag = async (sessionId: string, tagId: string, userId?: string): Promise<void> => {
+  const { error } = await supabase
+    .from('chat_session_tags')
+    .upsert(
+      { session_id: sessionId, tag_id: tagId, tagged_by: userId ?? null },
+      { onConflict: 'session_id,tag_id', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    logger.error('Failed to tag session:', error);
+    throw error;
+  }
+};
+
+export const removeSessionTag = async (sessionId: string, tagId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('chat_session_tags')
+    .delete()
+    .eq('session_id', sessionId)
+    .eq('tag_id', tagId);
+
+  if (error) {
+    logger.error('Failed to untag session:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetches the sessions carrying any of the given tags
+ */
+export const fetchTaggedSessionIds = async (tagIds: string[]): Promise<string[]> => {
+  if (tagIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('chat_session_tags')
+    .select('session_id')
+    .in('tag_id', tagIds);
+
+  if (error) {
+    logger.error('Failed to fetch tagged sessions:', error);
+    throw error;
+  }
+
+  return Array.from(new Set((data || []).map(row => row.session_id)));
+};
+
+/**
+ * Fetches the tag ids of several sessions at once, keyed by session id
+ */
+export const fetchSessionTagMap = async (sessionIds: string[]): Promise<Record<string, string[]>> => {
+  if (sessionIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('chat_session_tags')
+    .select('session_id, tag_id')
+    .in('session_id', sessionIds)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch session tags:', error);
+    throw error;
+  }
+
+  const tagMap: Record<string, string[]> = {};
+  (data || []).forEach(row => {
+    if (!tagMap[row.session_id]) tagMap[row.session_id] = [];
+    tagMap[row.session_id].push(row.tag_id);
+  });
+  return tagMap;
+};
+
+/**
+ * Subscribes to tags being attached to or removed from any session.
+ * Returns a function that removes the channel.
+ */
+export const subscribeToSessionTags = (
+  onChange: (sessionId: string) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`chat_session_tags:${Date.now()}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'chat_session_tags' },
+      (payload: RealtimePostgresChangesPayload<ChatSessionTagRow>) => {
+        const row = payload.eventType === 'DELETE' ? payload.old : payload.new;
+        if (row && 'session_id' in row && row.session_id) {
+          onChange(row.session_id);
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,299 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ChatMessage, MessageAttachment, MessagePlatform } from '@/types/chat';
+import { fetchChatMessages, getMessageCursor } from './chatService';
+import { PLATFORM_LABELS } from './platformService';
+import { SCHEDULE_TIME_ZONE, toJakartaParts } from './scheduledMessageService';
+import { logger } from '@/utils/logger';
+
+export type TranscriptFormat = 'pdf' | 'txt' | 'json';
+
+// Either bound may be left open to export from the first or up to the last message
+export interface TranscriptRange {
+  from?: Date | null;
+  to?: Date | null;
+}
+
+export interface TranscriptEntry {
+  message_id: number;
+  created_at: string;
+  time_jakarta: string;
+  sender: string;
+  type: 'human' | 'ai';
+  platform: MessagePlatform | null;
+  content: string;
+  attachments: MessageAttachment[];
+  sentiment: 'positive' | 'negative' | 'neutral' | null;
+  sentiment_confidence: number | null;
+}
+
+export interface Transcript {
+  session_id: string;
+  contact_name: string | null;
+  platform: MessagePlatform | null;
+  time_zone: string;
+  range: { from: string | null; to: string | null };
+  exported_at: string;
+  messages: TranscriptEntry[];
+}
+
+const PAGE_SIZE = 200;
+// Keeps the message id filter of a sentiment query within URL limits
+const SENTIMENT_BATCH_SIZE = 200;
+
+const SENTIMENT_LABELS: Record<NonNullable<TranscriptEntry['sentiment']>, string> = {
+  positive: 'Positive',
+  negative: 'Negative',
+  neutral: 'Neutral'
+};
+
+/**
+ * Formats a moment as Jakarta time, e.g. "2026-10-19 14:05 WIB"
+ */
+export const formatJakartaTimestamp = (date: Date): string => {
+  const { date: day, time } = toJakartaParts(date);
+  return `${day} ${time} WIB`;
+};
+
+// Pages forward through the session so long conversations are exported whole
+const fetchMessagesInRange = async (sessionId: string, range: TranscriptRange): Promise<ChatMessage[]> => {
+  const messages: ChatMessage[] = [];
+  let after = { created_at: (range.from ?? new Date(0)).toISOString(), id: 0 };
+
+  for (;;) {
+    const page = await fetchChatMessages(sessionId, { after, limit: PAGE_SIZE });
+    const inRange = range.to
+      ? page.messages.filter(message => new Date(message.created_at) < range.to!)
+      : page.messages;
+    messages.push(...inRange);
+
+    if (!page.hasMore || inRange.length < page.messages.length || page.messages.length === 0) break;
+    after = getMessageCursor(page.messages[page.messages.length - 1]);
+  }
+
+  return messages;
+};
+
+const fetchSentiments = async (messageIds: number[]) => {
+  const sentiments = new Map<number, { sentiment: TranscriptEntry['sentiment']; confidence: number }>();
+
+  for (let i = 0; i < messageIds.length; i += SENTIMENT_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('sentiment_analysis')
+      .select('message_id, sentiment, confidence_score')
+      .in('message_id', messageIds.slice(i, i + SENTIMENT_BATCH_SIZE));
+
+    if (error) {
+      logger.error('Failed to fetch transcript sentiment:', error);
+      throw error;
+    }
+
+    for (const row of data || []) {
+      sentiments.set(row.message_id, { sentiment: row.sentiment, confidence: row.confidence_score });
+    }
+  }
+
+  return sentiments;
+};
+
+/**
+ * Loads the messages of a session, or of a date range within it, with the
+ * sentiment of each message
+ */
+export const fetchTranscript = async (
+  sessionId: string,
+  range: TranscriptRange,
+  options: { contactName?: string | null; platform?: MessagePlatform | null } = {}
+): Promise<Transcript> => {
+  try {
+    const messages = await fetchMessagesInRange(sessionId, range);
+    const sentiments = await fetchSentiments(messages.map(message => Number(message.id)));
+
+    const entries: TranscriptEntry[] = messages.map(message => {
+      const type = message.message.type === 'ai' ? 'ai' : 'human';
+      const sentiment = sentiments.get(Number(message.id));
+      return {
+        message_id: Number(message.id),
+        created_at: message.created_at,
+        time_jakarta: formatJakartaTimestamp(new Date(message.created_at)),
+        sender: type === 'human'
+          ? message.message.sender_name || options.contactName || sessionId
+          : message.message.sender_name || 'Bot/Agent',
+        type,
+        platform: message.message.trigger || options.platform || null,
+        content: message.message.content,
+        attachments: message.message.attachments ?? [],
+        sentiment: sentiment?.sentiment ?? null,
+        sentiment_confidence: sentiment?.confidence ?? null
+      };
+    });
+
+    logger.debug('Fetched transcript:', { sessionId, count: entries.length });
+
+    return {
+      session_id: sessionId,
+      contact_name: options.contactName || null,
+      platform: options.platform || null,
+      time_zone: SCHEDULE_TIME_ZONE,
+      range: {
+        from: range.from?.toISOString() ?? null,
+        to: range.to?.toISOString() ?? null
+      },
+      exported_at: new Date().toISOString(),
+      messages: entries
+    };
+  } catch (error) {
+    logger.error('Failed to fetch transcript:', error as Error);
+    throw error;
+  }
+};
+
+const describeAttachment = (attachment: MessageAttachment) =>
+  attachment.type === 'location'
+    ? `[location: ${attachment.name || attachment.address || `${attachment.latitude}, ${attachment.longitude}`}]`
+    : `[${attachment.type}: ${attachment.file_name || attachment.url || 'file'}]`;
+
+const describeRange = (transcript: Transcript) => {
+  const from = transcript.range.from ? formatJakartaTimestamp(new Date(transcript.range.from)) : 'first message';
+  const to = transcript.range.to ? formatJakartaTimestamp(new Date(transcript.range.to)) : 'last message';
+  return `${from} - ${to}`;
+};
+
+const describePlatform = (platform: MessagePlatform | null) =>
+  platform ? PLATFORM_LABELS[platform] : 'Unknown';
+
+/**
+ * Plain text transcript, one block per message
+ */
+export const formatTranscriptText = (transcript: Transcript): string => {
+  const header = [
+    `Conversation transcript: ${transcript.contact_name || transcript.session_id}`,
+    `Session: ${transcript.session_id}`,
+    `Platform: ${describePlatform(transcript.platform)}`,
+    `Period: ${describeRange(transcript)}`,
+    `Exported: ${formatJakartaTimestamp(new Date(transcript.exported_at))}`,
+    `Messages: ${transcript.messages.length}`
+  ];
+
+  const blocks = transcript.messages.map(entry => {
+    const meta = [
+      entry.platform ? PLATFORM_LABELS[entry.platform] : null,
+      entry.sentiment ? `sentiment: ${SENTIMENT_LABELS[entry.sentiment]}` : null
+    ].filter(Boolean).join(', ');
+    const lines = [
+      `[${entry.time_jakarta}] ${entry.sender}${meta ? ` (${meta})` : ''}`,
+      ...(entry.content ? [entry.content] : []),
+      ...entry.attachments.map(describeAttachment)
+    ];
+    return lines.join('\n');
+  });
+
+  return [header.join('\n'), ...blocks].join('\n\n') + '\n';
+};
+
+/**
+ * Machine-readable transcript
+ */
+export const formatTranscriptJson = (transcript: Transcript): string =>
+  JSON.stringify(transcript, null, 2);
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Printable HTML transcript, saved as PDF from the browser's print dialog
+ */
+export const formatTranscriptHtml = (transcript: Transcript): string => {
+  const title = `Transcript ${transcript.contact_name || transcript.session_id}`;
+  const rows = transcript.messages.map(entry => `
+    <div class="message ${entry.type}">
+      <div class="meta">
+        <strong>${escapeHtml(entry.sender)}</strong>
+        <span>${escapeHtml(entry.time_jakarta)}</span>
+        ${entry.platform ? `<span>${PLATFORM_LABELS[entry.platform]}</span>` : ''}
+        ${entry.sentiment ? `<span class="sentiment ${entry.sentiment}">${SENTIMENT_LABELS[entry.sentiment]}</span>` : ''}
+      </div>
+      <div class="content">${escapeHtml(entry.content)}</div>
+      ${entry.attachments.map(attachment => `<div class="attachment">${escapeHtml(describeAttachment(attachment))}</div>`).join('')}
+    </div>
+  `).join('');
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>${escapeHtml(title)}</title>
+      <style>
+        body { font-family: Arial, sans-serif; margin: 20px; color: #111; }
+        .header { margin-bottom: 24px; border-bottom: 1px solid #ddd; padding-bottom: 12px; }
+        .header h1 { font-size: 20px; margin: 0 0 8px; }
+        .header p { margin: 2px 0; font-size: 12px; color: #555; }
+        .message { margin-bottom: 12px; padding: 8px 12px; border-radius: 8px; page-break-inside: avoid; }
+        .message.human { background: #f3f4f6; margin-right: 15%; }
+        .message.ai { background: #e0ecff; margin-left: 15%; }
+        .meta { font-size: 11px; color: #555; margin-bottom: 4px; }
+        .meta span { margin-left: 8px; }
+        .content { font-size: 13px; white-space: pre-wrap; word-break: break-word; }
+        .attachment { font-size: 11px; color: #555; margin-top: 4px; }
+        .sentiment.positive { color: #15803d; }
+        .sentiment.negative { color: #b91c1c; }
+        .footer { margin-top: 24px; text-align: center; color: #666; font-size: 11px; }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <h1>${escapeHtml(title)}</h1>
+        <p>Session: ${escapeHtml(transcript.session_id)} · Platform: ${describePlatform(transcript.platform)}</p>
+        <p>Period: ${escapeHtml(describeRange(transcript))} · ${transcript.messages.length} messages</p>
+        <p>Exported ${escapeHtml(formatJakartaTimestamp(new Date(transcript.exported_at)))}, times in Asia/Jakarta (WIB)</p>
+      </div>
+      ${rows || '<p>No messages in this period.</p>'}
+      <div class="footer">
+        <p>Report generated by Sailendra Chat Nexus</p>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Downloads a transcript as text or JSON, or opens the print dialog for PDF
+ */
+export const exportTranscript = (transcript: Transcript, format: TranscriptFormat): void => {
+  const baseName = `transcript_${transcript.session_id.replace(/[^\w-]/g, '_')}_${toJakartaParts(new Date(transcript.exported_at)).date}`;
+
+  if (format === 'txt') {
+    downloadFile(formatTranscriptText(transcript), `${baseName}.txt`, 'text/plain;charset=utf-8;');
+    return;
+  }
+  if (format === 'json') {
+    downloadFile(formatTranscriptJson(transcript), `${baseName}.json`, 'application/json;charset=utf-8;');
+    return;
+  }
+
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Allow pop-ups for this site to export a PDF');
+  }
+  printWindow.document.write(formatTranscriptHtml(transcript));
+  printWindow.document.close();
+  printWindow.print();
+};
@@ -0,0 +1,159 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { MessagePlatform } from '@/types/chat';
+import { logger } from '@/utils/logger';
+import type { WebhookDeliveryWithAttempts } from './webhookOutboxService';
+
+export type WebhookEndpoint = Tables<'webhook_endpoints'>;
+export type WebhookEndpointInput = Pick<TablesInsert<'webhook_endpoints'>, 'name' | 'url' | 'event_types' | 'platforms' | 'enabled'>;
+
+export type WebhookEventType =
+  | 'message.outbound'
+  | 'conversation.resolved'
+  | 'conversation.assigned'
+  | 'contacts.fetch';
+
+export const WEBHOOK_EVENT_TYPES: Record<WebhookEventType, { label: string; description: string }> = {
+  'message.outbound': {
+    label: 'Outbound messages',
+    description: 'Agent replies to send to the customer'
+  },
+  'conversation.resolved': {
+    label: 'Conversation resolved',
+    description: 'A conversation is marked as resolved'
+  },
+  'conversation.assigned': {
+    label: 'Conversation assigned',
+    description: 'A conversation is assigned to an agent'
+  },
+  'contacts.fetch': {
+    label: 'Contact list',
+    description: 'GET request answered with the contacts'
+  }
+};
+
+/**
+ * Fetches every registered endpoint, ordered by name
+ */
+export const fetchWebhookEndpoints = async (): Promise<WebhookEndpoint[]> => {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch webhook endpoints:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+/**
+ * Fetches the first enabled endpoint that receives an event, for request /
+ * response events such as contacts.fetch
+ */
+export const fetchEndpointForEvent = async (
+  eventType: WebhookEventType,
+  platform?: MessagePlatform
+): Promise<WebhookEndpoint | null> => {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('enabled', true)
+    .contains('event_types', [eventType])
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch webhook endpoint:', error);
+    throw error;
+  }
+
+  return (data || []).find(endpoint =>
+    endpoint.platforms.length === 0 || (platform && endpoint.platforms.includes(platform))
+  ) ?? null;
+};
+
+export const createWebhookEndpoint = async (
+  input: WebhookEndpointInput,
+  userId?: string
+): Promise<WebhookEndpoint> => {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .insert({
+      name: input.name.trim(),
+      url: input.url.trim(),
+      event_types: input.event_types,
+      platforms: input.platforms ?? [],
+      enabled: input.enabled ?? true,
+      created_by: userId ?? null
+    })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Failed to create webhook endpoint:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const updateWebhookEndpoint = async (
+  id: string,
+  input: Partial<WebhookEndpointInput>
+): Promise<WebhookEndpoint> => {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .update({
+      ...input,
+      ...(input.name !== undefined && { name: input.name.trim() }),
+      ...(input.url !== undefined && { url: input.url.trim() }),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Failed to update webhook endpoint:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const deleteWebhookEndpoint = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    logger.error('Failed to delete webhook endpoint:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetches the latest deliveries of an endpoint with their attempts
+ */
+export const fetchEndpointDeliveries = async (
+  endpointId: string,
+  limit = 50
+): Promise<WebhookDeliveryWithAttempts[]> => {
+  const { data, error } = await supabase
+    .from('webhook_outbox')
+    .select('*, webhook_delivery_attempts(*)')
+    .eq('endpoint_id', endpointId)
+    .order('created_at', { ascending: false })
+    .order('attempt_number', { referencedTable: 'webhook_delivery_attempts', ascending: false })
+    .limit(limit);
+
+  if (error) {
+    logger.error('Failed to fetch endpoint deliveries:', error);
+    throw error;
+  }
+
+  return data || [];
+};
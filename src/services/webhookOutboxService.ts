@@ -0,0 +1,246 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { logger } from '@/utils/logger';
+import { MessagePlatform } from '@/types/chat';
+import { signWebhookPayload } from './webhookSigningService';
+import type { WebhookEventType } from './webhookEndpointService';
+
+export type WebhookDelivery = Tables<'webhook_outbox'>;
+export type WebhookDeliveryAttempt = Tables<'webhook_delivery_attempts'>;
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'delivered' | 'dead';
+
+export type WebhookDeliveryWithAttempts = WebhookDelivery & {
+  webhook_delivery_attempts: WebhookDeliveryAttempt[];
+  webhook_endpoints?: { name: string } | null;
+};
+
+const REQUEST_TIMEOUT_MS = 10000;
+// A queued delivery this long past due was not picked up by the scheduler
+const OVERDUE_AFTER_MS = 5 * 60 * 1000;
+
+export interface WebhookSchedulerStatus {
+  enabled: boolean;
+  // Queued deliveries past due that nothing has attempted yet
+  overdue: number;
+}
+
+/**
+ * Sends a delivery claimed by this client and records the result, which
+ * schedules the next attempt when it failed
+ */
+const attemptDelivery = async (delivery: WebhookDelivery): Promise<WebhookDelivery> => {
+  const startedAt = Date.now();
+  let statusCode: number | null = null;
+  let failure: string | null = null;
+
+  try {
+    // Signed for every attempt, so the timestamp is always fresh
+    const { body, headers } = await signWebhookPayload(delivery.payload);
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    statusCode = response.status;
+    if (!response.ok) {
+      failure = `HTTP ${response.status} ${response.statusText}`.trim();
+    }
+  } catch (error) {
+    failure = error instanceof Error ? error.message : String(error);
+  }
+
+  const { data, error } = await supabase.rpc('record_webhook_attempt', {
+    p_outbox_id: delivery.id,
+    p_status_code: statusCode,
+    p_error: failure,
+    p_duration_ms: Date.now() - startedAt
+  });
+
+  if (error) {
+    logger.error('Failed to record webhook attempt:', error);
+    throw error;
+  }
+
+  if (data.status !== 'delivered') {
+    logger.warn('Webhook delivery failed:', {
+      deliveryId: data.id,
+      attempt: data.attempt_count,
+      status: data.status,
+      error: data.last_error
+    });
+  }
+
+  return data;
+};
+
+interface WebhookEventTarget {
+  sessionId?: string;
+  messageId?: number;
+  platform?: MessagePlatform;
+  // Send to this endpoint only, whatever it subscribes to
+  endpointId?: string;
+}
+
+/**
+ * Queues an event for every endpoint that receives it and makes the first
+ * attempt for each. Failed attempts stay in the outbox and are retried with
+ * backoff. Returns the deliveries, none when no endpoint receives the event.
+ */
+export const emitWebhookEvent = async (
+  eventType: WebhookEventType | 'webhook.test',
+  payload: Json,
+  target: WebhookEventTarget = {}
+): Promise<WebhookDelivery[]> => {
+  const { data, error } = await supabase.rpc('enqueue_webhook_event', {
+    p_event_type: eventType,
+    p_payload: payload,
+    p_session_id: target.sessionId ?? null,
+    p_message_id: target.messageId ?? null,
+    p_platform: target.platform ?? null,
+    p_endpoint_id: target.endpointId ?? null
+  });
+
+  if (error) {
+    logger.error('Failed to enqueue webhook event:', error);
+    throw error;
+  }
+
+  return Promise.all((data || []).map(attemptDelivery));
+};
+
+/**
+ * Sends a test event to one endpoint through the outbox, so it shows up in
+ * the endpoint history
+ */
+export const testWebhookEndpoint = async (endpointId: string): Promise<WebhookDelivery | null> => {
+  const [delivery] = await emitWebhookEvent('webhook.test', {
+    session_id: '6281234567890',
+    message: {
+      content: 'This is a test message from the WhatsApp chatbot system',
+      type: 'ai',
+      timestamp: new Date().toISOString()
+    }
+  }, { endpointId });
+
+  return delivery ?? null;
+};
+
+/**
+ * Attempts a pending or dead delivery right away
+ */
+export const retryWebhookDelivery = async (deliveryId: string): Promise<WebhookDelivery> => {
+  const { data, error } = await supabase.rpc('claim_webhook_delivery', {
+    p_outbox_id: deliveryId
+  });
+
+  if (error) {
+    logger.error('Failed to claim webhook delivery:', error);
+    throw error;
+  }
+
+  return attemptDelivery(data);
+};
+
+/**
+ * Fetches the deliveries of a session that have not gone through yet
+ */
+export const fetchSessionWebhookDeliveries = async (sessionId: string): Promise<WebhookDelivery[]> => {
+  const { data, error } = await supabase
+    .from('webhook_outbox')
+    .select('*')
+    .eq('session_id', sessionId)
+    .neq('status', 'delivered');
+
+  if (error) {
+    logger.error('Failed to fetch session webhook deliveries:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+/**
+ * Fetches deliveries that need attention: dead ones, ones waiting for a
+ * retry after a failure, queued ones the scheduler did not pick up, and
+ * attempts whose result never came back
+ */
+export const fetchStuckWebhookDeliveries = async (): Promise<WebhookDeliveryWithAttempts[]> => {
+  const now = new Date().toISOString();
+  const overdue = new Date(Date.now() - OVERDUE_AFTER_MS).toISOString();
+  const { data, error } = await supabase
+    .from('webhook_outbox')
+    .select('*, webhook_delivery_attempts(*), webhook_endpoints(name)')
+    .or(`status.eq.dead,and(status.eq.pending,attempt_count.gt.0),and(status.eq.pending,next_attempt_at.lt.${overdue}),and(status.eq.delivering,locked_until.lt.${now})`)
+    .order('created_at', { ascending: false })
+    .order('attempt_number', { referencedTable: 'webhook_delivery_attempts', ascending: false })
+    .limit(100);
+
+  if (error) {
+    logger.error('Failed to fetch stuck webhook deliveries:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+/**
+ * Whether the database sends queued deliveries on its own (pg_cron and
+ * pg_net), and how many are overdue. Conversation events are only queued,
+ * without the scheduler they wait until they are retried by hand.
+ */
+export const fetchWebhookSchedulerStatus = async (): Promise<WebhookSchedulerStatus> => {
+  const [scheduler, waiting] = await Promise.all([
+    supabase.rpc('is_webhook_scheduler_enabled'),
+    supabase
+      .from('webhook_outbox')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'pending')
+      .eq('attempt_count', 0)
+      .lt('next_attempt_at', new Date(Date.now() - OVERDUE_AFTER_MS).toISOString())
+  ]);
+
+  const error = scheduler.error ?? waiting.error;
+  if (error) {
+    logger.error('Failed to fetch webhook scheduler status:', error);
+    throw error;
+  }
+
+  return {
+    enabled: scheduler.data === true,
+    overdue: waiting.count ?? 0
+  };
+};
+
+/**
+ * Subscribes to outbox changes, for one session when sessionId is given.
+ * Returns a function that removes the channel.
+ */
+export const subscribeToWebhookDeliveries = (
+  onChange: (delivery: WebhookDelivery) => void,
+  sessionId?: string
+): (() => void) => {
+  const channel = supabase
+    .channel(`webhook_outbox:${sessionId ?? 'all'}:${Date.now()}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'webhook_outbox',
+        ...(sessionId && { filter: `session_id=eq.${sessionId}` })
+      },
+      (payload: RealtimePostgresChangesPayload<WebhookDelivery>) => {
+        if (payload.eventType !== 'DELETE') {
+          onChange(payload.new);
+        }
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,98 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { logger } from '@/utils/logger';
+
+export interface SignedWebhookRequest {
+  body: string;
+  headers: Record<string, string>;
+}
+
+// Set by the signing, custom headers cannot replace them
+export const RESERVED_WEBHOOK_HEADERS = [
+  'content-type',
+  'authorization',
+  'x-webhook-timestamp',
+  'x-webhook-signature'
+];
+
+/**
+ * Whether a header name is one of the reserved ones, in any letter case
+ */
+export const isReservedWebhookHeader = (name: string): boolean =>
+  RESERVED_WEBHOOK_HEADERS.includes(name.trim().toLowerCase());
+
+// Verification on the receiving side, shown in Settings and N8N_INTEGRATION.md
+export const WEBHOOK_VERIFICATION_SNIPPET = `const crypto = require('crypto');
+
+// rawBody: the request body exactly as received (not re-serialized JSON)
+function verifyWebhook(rawBody, headers, secret, toleranceSeconds = 300) {
+  const timestamp = headers['x-webhook-timestamp'];
+  const signatures = (headers['x-webhook-signature'] || '').split(',');
+  if (!timestamp || signatures.length === 0) return false;
+
+  // Reject old requests so a captured request cannot be replayed
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > toleranceSeconds) return false;
+
+  const expected = Buffer.from('sha256=' + crypto
+    .createHmac('sha256', secret)
+    .update(timestamp + '.' + rawBody)
+    .digest('hex'));
+
+  return signatures.some(signature => {
+    const received = Buffer.from(signature.trim());
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+  });
+}`;
+
+/**
+ * Serializes a webhook payload and builds its signed headers. The body must
+ * be sent exactly as returned, the signature covers these bytes.
+ */
+export const signWebhookPayload = async (payload: Json): Promise<SignedWebhookRequest> => {
+  const { data, error } = await supabase.rpc('sign_webhook_payload', {
+    p_payload: payload
+  });
+
+  if (error) {
+    logger.error('Failed to sign webhook payload:', error);
+    throw error;
+  }
+
+  return data as unknown as SignedWebhookRequest;
+};
+
+/**
+ * Generates a new signing secret. Requests are signed with the previous
+ * secret as well for 24 hours so the receiver can be updated.
+ */
+export const rotateWebhookSigningSecret = async (): Promise<string> => {
+  const { data, error } = await supabase.rpc('rotate_webhook_signing_secret');
+
+  if (error) {
+    logger.error('Failed to rotate webhook signing secret:', error);
+    throw error;
+  }
+
+  logger.info('Webhook signing secret rotated');
+  return data;
+};
+
+/**
+ * Parses the stored custom headers, ignoring anything that is not a JSON
+ * object of strings and any spelling of a reserved header
+ */
+export const parseCustomHeaders = (value: string | null): Record<string, string> => {
+  if (!value) return {};
+  try {
+    const parsed = JSON.parse(value);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([name, headerValue]) =>
+        typeof headerValue === 'string' && !isReservedWebhookHeader(name)
+      )
+    ) as Record<string, string>;
+  } catch {
+    return {};
+  }
+};
@@ -0,0 +1,197 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+import { ContactFields } from '@/types/contact';
+import { fillTemplate } from './cannedResponseService';
+import { logger } from '@/utils/logger';
+
+export type WhatsAppTemplate = Tables<'whatsapp_templates'>;
+export type WhatsAppTemplateInput = Pick<
+  TablesInsert<'whatsapp_templates'>,
+  'name' | 'language' | 'category' | 'body' | 'parameter_labels' | 'status'
+>;
+export type WhatsAppTemplateCategory = 'MARKETING' | 'UTILITY' | 'AUTHENTICATION';
+export type WhatsAppTemplateStatus = 'approved' | 'pending' | 'rejected' | 'paused';
+
+export const WHATSAPP_TEMPLATE_CATEGORIES: WhatsAppTemplateCategory[] = ['UTILITY', 'MARKETING', 'AUTHENTICATION'];
+
+export const WHATSAPP_TEMPLATE_STATUS_LABELS: Record<WhatsAppTemplateStatus, string> = {
+  approved: 'Approved',
+  pending: 'In review',
+  rejected: 'Rejected',
+  paused: 'Paused'
+};
+
+// WhatsApp only accepts free-form replies this long after the customer's last message
+export const WHATSAPP_WINDOW_HOURS = 24;
+
+const PARAMETER_PATTERN = /\{\{\s*(\d+)\s*\}\}/g;
+
+/**
+ * Fetches all WhatsApp templates, ordered by name
+ */
+export const fetchWhatsAppTemplates = async (): Promise<WhatsAppTemplate[]> => {
+  const { data, error } = await supabase
+    .from('whatsapp_templates')
+    .select('*')
+    .order('name', { ascending: true })
+    .order('language', { ascending: true });
+
+  if (error) {
+    logger.error('Failed to fetch WhatsApp templates:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+const toTemplateRow = (input: WhatsAppTemplateInput) => ({
+  name: input.name.trim(),
+  language: input.language?.trim() || 'id',
+  category: input.category,
+  body: input.body,
+  parameter_labels: (input.parameter_labels ?? []).map(label => label.trim()),
+  status: input.status
+});
+
+export const createWhatsAppTemplate = async (
+  input: WhatsAppTemplateInput,
+  userId?: string
+): Promise<WhatsAppTemplate> => {
+  const { data, error } = await supabase
+    .from('whatsapp_templates')
+    .insert({ ...toTemplateRow(input), created_by: userId ?? null })
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Failed to create WhatsApp template:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const updateWhatsAppTemplate = async (
+  id: string,
+  input: WhatsAppTemplateInput
+): Promise<WhatsAppTemplate> => {
+  const changes: TablesUpdate<'whatsapp_templates'> = {
+    ...toTemplateRow(input),
+    updated_at: new Date().toISOString()
+  };
+
+  const { data, error } = await supabase
+    .from('whatsapp_templates')
+    .update(changes)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    logger.error('Failed to update WhatsApp template:', error);
+    throw error;
+  }
+
+  return data;
+};
+
+export const deleteWhatsAppTemplate = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('whatsapp_templates')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    logger.error('Failed to delete WhatsApp template:', error);
+    throw error;
+  }
+};
+
+/**
+ * Number of {{1}}, {{2}}... parameters a template body takes
+ */
+export const getTemplateParameterCount = (body: string): number => {
+  let count = 0;
+  for (const match of body.matchAll(PARAMETER_PATTERN)) {
+    count = Math.max(count, Number(match[1]));
+  }
+  return count;
+};
+
+/**
+ * Replaces the numbered parameters of a template body. Parameters without a
+ * value are kept as written.
+ */
+export const renderWhatsAppTemplate = (body: string, parameters: string[]): string =>
+  body.replace(PARAMETER_PATTERN, (placeholder, index: string) => {
+    const value = parameters[Number(index) - 1];
+    return value?.trim() ? value : placeholder;
+  });
+
+/**
+ * Initial parameter values for a contact. A parameter whose label names a
+ * contact field, e.g. "Name", starts with that field's value.
+ */
+export const prefillTemplateParameters = (
+  template: WhatsAppTemplate,
+  fields?: ContactFields | null
+): string[] =>
+  Array.from({ length: getTemplateParameterCount(template.body) }, (_, index) => {
+    const label = template.parameter_labels[index];
+    if (!label) return '';
+
+    const { text, missing } = fillTemplate(`{{${label}}}`, fields);
+    return missing.length > 0 ? '' : text;
+  });
+
+/**
+ * Time of the customer's last message in a session, null when they never wrote
+ */
+export const fetchLastCustomerMessageAt = async (sessionId: string): Promise<Date | null> => {
+  const { data, error } = await supabase.rpc('get_last_customer_message_at', {
+    p_session_id: sessionId
+  });
+
+  if (error) {
+    logger.error('Failed to fetch last customer message:', error);
+    throw error;
+  }
+
+  return data ? new Date(data) : null;
+};
+
+/**
+ * How many of the given sessions are on WhatsApp with the 24-hour window
+ * closed, i.e. only reachable with a template
+ */
+export const countClosedWhatsAppWindows = async (sessionIds: string[]): Promise<number> => {
+  if (sessionIds.length === 0) return 0;
+
+  const { data, error } = await supabase.rpc('count_closed_whatsapp_windows', {
+    p_session_ids: sessionIds
+  });
+
+  if (error) {
+    logger.error('Failed to count closed WhatsApp windows:', error);
+    throw error;
+  }
+
+  return data ?? 0;
+};
+
+/**
+ * When the 24-hour window that opened with the given customer message closes
+ */
+export const getWindowClosesAt = (lastCustomerMessageAt: Date | null): Date | null =>
+  lastCustomerMessageAt
+    ? new Date(lastCustomerMessageAt.getTime() + WHATSAPP_WINDOW_HOURS * 60 * 60 * 1000)
+    : null;
+
+/**
+ * Whether free-form replies are still accepted, false when the customer never
+ * wrote or the window has run out
+ */
+export const isWindowOpen = (lastCustomerMessageAt: Date | null, now: Date = new Date()): boolean => {
+  const closesAt = getWindowClosesAt(lastCustomerMessageAt);
+  return !!closesAt && closesAt > now;
+};
@@ -0,0 +1,9 @@
+// A dashboard user that conversations can be assigned to
+export interface Agent {
+  id: string;
+  email: string | null;
+  display_name: string | null;
+  accepts_assignments: boolean;
+  last_seen_at: string | null;
+  is_online: boolean;
+}
@@ -2,6 +2,40 @@ import { SentimentAnalysis } from './sentiment';
 
 export type MessagePlatform = 'whatsapp' | 'instagram' | 'facebook';
 
+// How a session's platform was set: from the message trigger on ingestion,
+// by the backfill job, or overridden by an agent
+export type PlatformSource = 'trigger' | 'backfill' | 'manual';
+
+export type MessageAttachmentType = 'image' | 'video' | 'audio' | 'document' | 'location' | 'sticker';
+
+// Media sent or received with a message. Location attachments carry
+// coordinates instead of a file URL. A type alias (not an interface) so it
+// can be stored in the JSON message column.
+export type MessageAttachment = {
+  type: MessageAttachmentType;
+  url?: string;
+  mime_type?: string;
+  file_name?: string;
+  size?: number;
+  caption?: string;
+  storage_path?: string; // Set for files uploaded by agents to Supabase Storage
+  latitude?: number;
+  longitude?: number;
+  name?: string;
+  address?: string;
+};
+
+// WhatsApp template a message was sent with, so n8n can send it as a
+// template instead of free text outside the 24-hour window
+export type WhatsAppTemplateMessage = {
+  name: string;
+  language: string;
+  parameters: string[];
+};
+
+// Delivery state of an outbound message, as reported back by n8n or the provider
+export type DeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
 export interface ChatMessage {
   id: string;
   session_id: string;
@@ -11,18 +45,36 @@ export interface ChatMessage {
     sender_name?: string;
     timestamp?: string;
     trigger?: MessagePlatform;
+    attachments?: MessageAttachment[];
+    template?: WhatsAppTemplateMessage;
+    // Set by the dashboard before the first send attempt, so a replayed message is stored once
+    client_message_id?: string;
   };
   created_at: string;
   sentiment?: SentimentAnalysis;
   sentiment_loading?: boolean;
 }
 
+// Message an internal note is being written about
+export interface ChatNoteTarget {
+  message_id: number;
+  preview: string;
+}
+
 export interface ChatSession {
   session_id: string;
   last_message: string;
   last_timestamp: string;
   sender_name?: string;
   unread_count?: number;
+  last_message_id?: number;
+  message_count?: number;
+  platform?: MessagePlatform;
+  platform_source?: PlatformSource | null;
+  bot_paused?: boolean;
+  assigned_to?: string | null;
+  status?: ChatSessionStatus;
+  tag_ids?: string[];
   sentiment_summary?: {
     overall_sentiment: 'positive' | 'negative' | 'neutral';
     sentiment_distribution: {
@@ -36,6 +88,82 @@ export interface ChatSession {
   };
 }
 
+export type ChatSessionSort = 'recent' | 'oldest' | 'most_messages';
+
+// Inbox views: sessions assigned to the current agent, nobody, or anyone
+export type ChatSessionAssigneeFilter = 'mine' | 'unassigned' | 'all';
+
+// Conversation lifecycle, pending means waiting on the customer
+export type ChatSessionStatus = 'open' | 'pending' | 'resolved' | 'closed';
+
+export type ChatSessionStatusFilter = ChatSessionStatus | 'all';
+
+// Keyset cursor pointing at the last session of the previous page
+export interface ChatSessionCursor {
+  session_id: string;
+  last_timestamp: string;
+  message_count: number;
+}
+
+export interface ChatSessionPage {
+  sessions: ChatSession[];
+  nextCursor: ChatSessionCursor | null;
+}
+
+// Keyset cursor into a session's messages, ordered by (created_at, id)
+export interface ChatMessageCursor {
+  created_at: string;
+  id: number;
+}
+
+export interface ChatMessagePage {
+  messages: ChatMessage[];
+  hasMore: boolean;
+}
+
+export interface ChatMessageWindow {
+  messages: ChatMessage[];
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
+// A message matching a full-text search. Matched words in the snippet are
+// wrapped in <mark></mark>.
+export interface ChatSearchResult {
+  message_id: string;
+  session_id: string;
+  created_at: string;
+  type: 'human' | 'ai';
+  sender_name?: string;
+  platform?: MessagePlatform;
+  snippet: string;
+}
+
+// Human takeover state of a session, as n8n sees it
+export interface BotStatus {
+  session_id: string;
+  bot_paused: boolean;
+  bot_paused_until: string | null;
+  bot_paused_at: string | null;
+  bot_paused_by: string | null;
+}
+
+// Soft lock giving one agent exclusive reply rights to a session for a while
+export interface ReplyLock {
+  session_id: string;
+  locked_by: string;
+  locked_at: string | null;
+  locked_until: string;
+}
+
+// An agent with the session open, from Realtime presence
+export interface SessionViewer {
+  user_id: string;
+  name: string;
+  typing: boolean;
+  viewing_since: string;
+}
+
 export interface ChatAnalytics {
   session_id: string;
   total_messages: number;
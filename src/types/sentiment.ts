@@ -65,6 +65,20 @@ export interface SentimentFilter {
   min_confidence?: number;
   emotions?: EmotionType[];
   language?: string;
+  tag_ids?: string[]; // Sessions carrying any of these tags
+}
+
+// Per-session rollup kept in session_sentiment_summary
+export interface SessionSentimentSummary {
+  session_id: string;
+  total_human_messages: number;
+  positive_percentage: number;
+  negative_percentage: number;
+  neutral_percentage: number;
+  dominant_sentiment: SentimentType | null;
+  satisfaction_score: number | null;
+  conversation_quality: string | null;
+  last_message_at: string | null;
 }
 
 // Configuration for sentiment analysis service
@@ -0,0 +1,5 @@
+-- Publish inserts on n8n_chat_histories through Supabase Realtime so the
+-- inbox can show new customer messages without a refresh.
+ALTER PUBLICATION supabase_realtime ADD TABLE n8n_chat_histories;
+
+COMMENT ON TABLE n8n_chat_histories IS 'Chat messages written by n8n and agents; published to supabase_realtime for live inbox updates';
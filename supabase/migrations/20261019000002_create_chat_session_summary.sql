@@ -0,0 +1,207 @@
+-- Per-session aggregation of n8n_chat_histories so the inbox no longer has to
+-- download the whole history table and group it in the browser.
+
+-- Normalize a stored message into a JSON object. n8n sometimes stores the
+-- message as a JSON-encoded string instead of an object.
+CREATE OR REPLACE FUNCTION chat_message_json(message JSONB)
+RETURNS JSONB AS $$
+BEGIN
+    IF jsonb_typeof(message) = 'string' THEN
+        BEGIN
+            RETURN (message #>> '{}')::JSONB;
+        EXCEPTION WHEN others THEN
+            RETURN jsonb_build_object('content', message #>> '{}');
+        END;
+    END IF;
+    RETURN message;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- One row per chat session
+CREATE TABLE chat_session_summary (
+    session_id VARCHAR PRIMARY KEY,
+    last_message_id INTEGER NOT NULL, -- References n8n_chat_histories.id
+    last_message TEXT NOT NULL DEFAULT '',
+    last_message_type VARCHAR(10),
+    last_timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    first_timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    sender_name VARCHAR,
+    platform VARCHAR(20), -- whatsapp, instagram, facebook
+    message_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_chat_session_summary_recent ON chat_session_summary(last_timestamp DESC, session_id DESC);
+CREATE INDEX idx_chat_session_summary_message_count ON chat_session_summary(message_count DESC, session_id DESC);
+CREATE INDEX IF NOT EXISTS idx_n8n_chat_histories_session_created ON n8n_chat_histories(session_id, created_at DESC, id DESC);
+
+-- Rebuild the summary row of a single session from its messages
+CREATE OR REPLACE FUNCTION refresh_chat_session_summary(p_session_id VARCHAR)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM n8n_chat_histories WHERE session_id = p_session_id) THEN
+        DELETE FROM chat_session_summary WHERE session_id = p_session_id;
+        RETURN;
+    END IF;
+
+    INSERT INTO chat_session_summary (
+        session_id,
+        last_message_id,
+        last_message,
+        last_message_type,
+        last_timestamp,
+        first_timestamp,
+        sender_name,
+        platform,
+        message_count
+    )
+    SELECT
+        p_session_id,
+        latest.id,
+        COALESCE(chat_message_json(latest.message)->>'content', ''),
+        chat_message_json(latest.message)->>'type',
+        COALESCE(latest.created_at, NOW()),
+        COALESCE(stats.first_timestamp, NOW()),
+        chat_message_json(latest.message)->>'sender_name',
+        (
+            SELECT chat_message_json(h.message)->>'trigger'
+            FROM n8n_chat_histories h
+            WHERE h.session_id = p_session_id
+              AND chat_message_json(h.message)->>'trigger' IN ('whatsapp', 'instagram', 'facebook')
+            ORDER BY h.created_at DESC, h.id DESC
+            LIMIT 1
+        ),
+        stats.message_count
+    FROM (
+        SELECT id, message, created_at
+        FROM n8n_chat_histories
+        WHERE session_id = p_session_id
+        ORDER BY created_at DESC, id DESC
+        LIMIT 1
+    ) latest,
+    (
+        SELECT COUNT(*) AS message_count, MIN(created_at) AS first_timestamp
+        FROM n8n_chat_histories
+        WHERE session_id = p_session_id
+    ) stats
+    ON CONFLICT (session_id)
+    DO UPDATE SET
+        last_message_id = EXCLUDED.last_message_id,
+        last_message = EXCLUDED.last_message,
+        last_message_type = EXCLUDED.last_message_type,
+        last_timestamp = EXCLUDED.last_timestamp,
+        first_timestamp = EXCLUDED.first_timestamp,
+        sender_name = EXCLUDED.sender_name,
+        platform = EXCLUDED.platform,
+        message_count = EXCLUDED.message_count,
+        updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+-- Keep the summary current as messages are written. Inserts are applied
+-- incrementally; updates and deletes rebuild the affected session.
+CREATE OR REPLACE FUNCTION update_chat_session_summary()
+RETURNS TRIGGER AS $$
+DECLARE
+    msg JSONB;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM refresh_chat_session_summary(OLD.session_id);
+        RETURN OLD;
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        PERFORM refresh_chat_session_summary(NEW.session_id);
+        IF OLD.session_id IS DISTINCT FROM NEW.session_id THEN
+            PERFORM refresh_chat_session_summary(OLD.session_id);
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    msg := chat_message_json(NEW.message);
+
+    INSERT INTO chat_session_summary (
+        session_id,
+        last_message_id,
+        last_message,
+        last_message_type,
+        last_timestamp,
+        first_timestamp,
+        sender_name,
+        platform,
+        message_count
+    ) VALUES (
+        NEW.session_id,
+        NEW.id,
+        COALESCE(msg->>'content', ''),
+        msg->>'type',
+        COALESCE(NEW.created_at, NOW()),
+        COALESCE(NEW.created_at, NOW()),
+        msg->>'sender_name',
+        CASE WHEN msg->>'trigger' IN ('whatsapp', 'instagram', 'facebook') THEN msg->>'trigger' END,
+        1
+    )
+    ON CONFLICT (session_id)
+    DO UPDATE SET
+        last_message_id = CASE WHEN EXCLUDED.last_timestamp >= chat_session_summary.last_timestamp
+            THEN EXCLUDED.last_message_id ELSE chat_session_summary.last_message_id END,
+        last_message = CASE WHEN EXCLUDED.last_timestamp >= chat_session_summary.last_timestamp
+            THEN EXCLUDED.last_message ELSE chat_session_summary.last_message END,
+        last_message_type = CASE WHEN EXCLUDED.last_timestamp >= chat_session_summary.last_timestamp
+            THEN EXCLUDED.last_message_type ELSE chat_session_summary.last_message_type END,
+        sender_name = CASE WHEN EXCLUDED.last_timestamp >= chat_session_summary.last_timestamp
+            THEN EXCLUDED.sender_name ELSE chat_session_summary.sender_name END,
+        last_timestamp = GREATEST(chat_session_summary.last_timestamp, EXCLUDED.last_timestamp),
+        first_timestamp = LEAST(chat_session_summary.first_timestamp, EXCLUDED.first_timestamp),
+        platform = COALESCE(EXCLUDED.platform, chat_session_summary.platform),
+        message_count = chat_session_summary.message_count + 1,
+        updated_at = NOW();
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_chat_session_summary
+    AFTER INSERT OR UPDATE OR DELETE ON n8n_chat_histories
+    FOR EACH ROW
+    EXECUTE FUNCTION update_chat_session_summary();
+
+-- Backfill existing sessions
+SELECT refresh_chat_session_summary(session_id)
+FROM (SELECT DISTINCT session_id FROM n8n_chat_histories) sessions;
+
+-- Cursor-paginated session list. The cursor is the sort key of the last row
+-- of the previous page plus its session_id as a tie-breaker.
+-- p_sort: 'recent' (default), 'oldest' or 'most_messages'
+CREATE OR REPLACE FUNCTION get_chat_sessions(
+    p_limit INTEGER DEFAULT 30,
+    p_sort TEXT DEFAULT 'recent',
+    p_cursor_timestamp TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_cursor_message_count INTEGER DEFAULT NULL,
+    p_cursor_session_id VARCHAR DEFAULT NULL
+)
+RETURNS SETOF chat_session_summary AS $$
+    SELECT *
+    FROM chat_session_summary s
+    WHERE p_cursor_session_id IS NULL
+       OR CASE p_sort
+            WHEN 'oldest' THEN
+                (s.last_timestamp, s.session_id) > (p_cursor_timestamp, p_cursor_session_id)
+            WHEN 'most_messages' THEN
+                (s.message_count, s.session_id) < (p_cursor_message_count, p_cursor_session_id)
+            ELSE
+                (s.last_timestamp, s.session_id) < (p_cursor_timestamp, p_cursor_session_id)
+          END
+    ORDER BY
+        CASE WHEN p_sort = 'oldest' THEN s.last_timestamp END ASC,
+        CASE WHEN p_sort = 'oldest' THEN s.session_id END ASC,
+        CASE WHEN p_sort = 'most_messages' THEN s.message_count END DESC,
+        CASE WHEN p_sort <> 'oldest' AND p_sort <> 'most_messages' THEN s.last_timestamp END DESC,
+        CASE WHEN p_sort <> 'oldest' THEN s.session_id END DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON TABLE chat_session_summary IS 'One row per chat session with its latest message, maintained by trigger on n8n_chat_histories';
+COMMENT ON FUNCTION get_chat_sessions IS 'Returns a page of chat_session_summary rows using keyset pagination';
+COMMENT ON COLUMN chat_session_summary.platform IS 'Most recent trigger platform seen in the session: whatsapp, instagram, facebook';
@@ -0,0 +1,37 @@
+-- Keyset pagination over a session's messages, keyed on (created_at, id).
+-- Replaces offset paging, which needed an exact count per page and skipped or
+-- duplicated rows when new messages arrived between pages.
+--
+-- Pass a "before" cursor to page backward (newest first), an "after" cursor
+-- to page forward (oldest first). Without a cursor the latest messages are
+-- returned. The caller asks for one row more than it shows to know whether
+-- another page exists.
+CREATE OR REPLACE FUNCTION get_chat_messages(
+    p_session_id VARCHAR,
+    p_limit INTEGER DEFAULT 20,
+    p_before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_before_id INTEGER DEFAULT NULL,
+    p_after_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_after_id INTEGER DEFAULT NULL
+)
+RETURNS SETOF n8n_chat_histories AS $$
+    SELECT *
+    FROM n8n_chat_histories h
+    WHERE h.session_id = p_session_id
+      AND (
+        p_before_created_at IS NULL
+        OR (h.created_at, h.id) < (p_before_created_at, COALESCE(p_before_id, 0))
+      )
+      AND (
+        p_after_created_at IS NULL
+        OR (h.created_at, h.id) > (p_after_created_at, COALESCE(p_after_id, 0))
+      )
+    ORDER BY
+        CASE WHEN p_after_created_at IS NOT NULL THEN h.created_at END ASC,
+        CASE WHEN p_after_created_at IS NOT NULL THEN h.id END ASC,
+        CASE WHEN p_after_created_at IS NULL THEN h.created_at END DESC,
+        CASE WHEN p_after_created_at IS NULL THEN h.id END DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 201);
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION get_chat_messages IS 'Keyset-paginated messages of one session ordered by (created_at, id)';
@@ -0,0 +1,89 @@
+-- Per-agent read state: the last message each user has seen in each session.
+-- Unread counts are the customer messages after that cursor.
+CREATE TABLE chat_read_cursors (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    session_id VARCHAR NOT NULL,
+    last_read_message_id INTEGER NOT NULL DEFAULT 0, -- References n8n_chat_histories.id
+    marked_unread BOOLEAN NOT NULL DEFAULT FALSE, -- Set by "Mark as unread"
+    last_read_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, session_id)
+);
+
+CREATE INDEX idx_chat_read_cursors_session_id ON chat_read_cursors(session_id);
+
+ALTER TABLE chat_read_cursors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own read cursors" ON chat_read_cursors
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id);
+
+-- Other devices of the same agent pick up read/unread changes live
+ALTER PUBLICATION supabase_realtime ADD TABLE chat_read_cursors;
+
+-- Session list as seen by the current user
+CREATE OR REPLACE VIEW chat_session_overview AS
+SELECT
+    s.*,
+    GREATEST(
+        COALESCE(unread.count, 0),
+        CASE WHEN c.marked_unread THEN 1 ELSE 0 END
+    )::INTEGER AS unread_count,
+    c.last_read_message_id
+FROM chat_session_summary s
+LEFT JOIN chat_read_cursors c
+    ON c.session_id = s.session_id
+   AND c.user_id = auth.uid()
+LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS count
+    FROM n8n_chat_histories h
+    WHERE h.session_id = s.session_id
+      AND h.id > COALESCE(c.last_read_message_id, 0)
+      AND chat_message_json(h.message)->>'type' = 'human'
+) unread ON s.last_message_id > COALESCE(c.last_read_message_id, 0);
+
+-- get_chat_sessions now returns the per-user overview
+DROP FUNCTION IF EXISTS get_chat_sessions(INTEGER, TEXT, TIMESTAMP WITH TIME ZONE, INTEGER, VARCHAR);
+
+CREATE OR REPLACE FUNCTION get_chat_sessions(
+    p_limit INTEGER DEFAULT 30,
+    p_sort TEXT DEFAULT 'recent',
+    p_cursor_timestamp TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_cursor_message_count INTEGER DEFAULT NULL,
+    p_cursor_session_id VARCHAR DEFAULT NULL
+)
+RETURNS SETOF chat_session_overview AS $$
+    SELECT *
+    FROM chat_session_overview s
+    WHERE p_cursor_session_id IS NULL
+       OR CASE p_sort
+            WHEN 'oldest' THEN
+                (s.last_timestamp, s.session_id) > (p_cursor_timestamp, p_cursor_session_id)
+            WHEN 'most_messages' THEN
+                (s.message_count, s.session_id) < (p_cursor_message_count, p_cursor_session_id)
+            ELSE
+                (s.last_timestamp, s.session_id) < (p_cursor_timestamp, p_cursor_session_id)
+          END
+    ORDER BY
+        CASE WHEN p_sort = 'oldest' THEN s.last_timestamp END ASC,
+        CASE WHEN p_sort = 'oldest' THEN s.session_id END ASC,
+        CASE WHEN p_sort = 'most_messages' THEN s.message_count END DESC,
+        CASE WHEN p_sort <> 'oldest' AND p_sort <> 'most_messages' THEN s.last_timestamp END DESC,
+        CASE WHEN p_sort <> 'oldest' THEN s.session_id END DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$ LANGUAGE sql STABLE;
+
+-- Total unread messages and sessions for the current user (sidebar badge)
+CREATE OR REPLACE FUNCTION get_unread_totals()
+RETURNS TABLE (unread_messages INTEGER, unread_sessions INTEGER) AS $$
+    SELECT
+        COALESCE(SUM(unread_count), 0)::INTEGER,
+        COUNT(*) FILTER (WHERE unread_count > 0)::INTEGER
+    FROM chat_session_overview;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON TABLE chat_read_cursors IS 'Last message each agent has read per chat session, synced across devices';
+COMMENT ON VIEW chat_session_overview IS 'chat_session_summary joined with the read state of the current user';
+COMMENT ON COLUMN chat_read_cursors.marked_unread IS 'Forces the session to show as unread until it is opened again';
@@ -0,0 +1,194 @@
+-- Human takeover: per-session switch that tells n8n to stop auto-answering
+-- while an agent handles the conversation.
+
+-- Agent-managed state of a chat session
+CREATE TABLE chat_session_state (
+    session_id VARCHAR PRIMARY KEY,
+    bot_paused BOOLEAN NOT NULL DEFAULT FALSE,
+    bot_paused_at TIMESTAMP WITH TIME ZONE,
+    bot_paused_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    bot_paused_until TIMESTAMP WITH TIME ZONE, -- NULL while paused means until resumed manually
+    last_agent_reply_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_chat_session_state_bot_paused ON chat_session_state(bot_paused_until) WHERE bot_paused;
+
+ALTER TABLE chat_session_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users manage chat session state" ON chat_session_state
+    FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE chat_session_state;
+
+-- Idle period after which a paused bot resumes on its own (0 disables)
+INSERT INTO app_settings (key, value)
+VALUES
+    ('bot_auto_resume_minutes', '30'),
+    ('bot_pause_on_agent_reply', 'true')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION bot_auto_resume_interval()
+RETURNS INTERVAL AS $$
+DECLARE
+    minutes INTEGER;
+BEGIN
+    SELECT NULLIF(value, '')::INTEGER INTO minutes
+    FROM app_settings
+    WHERE key = 'bot_auto_resume_minutes';
+
+    IF minutes IS NULL OR minutes <= 0 THEN
+        RETURN NULL;
+    END IF;
+    RETURN make_interval(mins => minutes);
+EXCEPTION WHEN invalid_text_representation THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Whether the bot is paused right now, taking the idle auto-resume into account
+CREATE OR REPLACE FUNCTION is_bot_paused(state chat_session_state)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(state.bot_paused, FALSE)
+       AND (state.bot_paused_until IS NULL OR state.bot_paused_until > NOW());
+$$ LANGUAGE sql STABLE;
+
+-- Pause or resume the bot for a session
+CREATE OR REPLACE FUNCTION set_bot_paused(p_session_id VARCHAR, p_paused BOOLEAN)
+RETURNS chat_session_state AS $$
+    INSERT INTO chat_session_state (
+        session_id,
+        bot_paused,
+        bot_paused_at,
+        bot_paused_by,
+        bot_paused_until
+    ) VALUES (
+        p_session_id,
+        p_paused,
+        CASE WHEN p_paused THEN NOW() END,
+        CASE WHEN p_paused THEN auth.uid() END,
+        CASE WHEN p_paused THEN NOW() + bot_auto_resume_interval() END
+    )
+    ON CONFLICT (session_id)
+    DO UPDATE SET
+        bot_paused = EXCLUDED.bot_paused,
+        bot_paused_at = EXCLUDED.bot_paused_at,
+        bot_paused_by = EXCLUDED.bot_paused_by,
+        bot_paused_until = EXCLUDED.bot_paused_until,
+        updated_at = NOW()
+    RETURNING *;
+$$ LANGUAGE sql;
+
+-- Called when an agent replies: restarts the idle timer of a paused bot and,
+-- when bot_pause_on_agent_reply is enabled, pauses it
+CREATE OR REPLACE FUNCTION record_agent_reply(p_session_id VARCHAR)
+RETURNS chat_session_state AS $$
+DECLARE
+    pause_on_reply BOOLEAN;
+    result chat_session_state;
+BEGIN
+    SELECT COALESCE(value = 'true', FALSE) INTO pause_on_reply
+    FROM app_settings
+    WHERE key = 'bot_pause_on_agent_reply';
+
+    INSERT INTO chat_session_state (session_id, last_agent_reply_at)
+    VALUES (p_session_id, NOW())
+    ON CONFLICT (session_id)
+    DO UPDATE SET last_agent_reply_at = NOW(), updated_at = NOW()
+    RETURNING * INTO result;
+
+    IF is_bot_paused(result) THEN
+        UPDATE chat_session_state
+        SET bot_paused_until = NOW() + bot_auto_resume_interval(),
+            updated_at = NOW()
+        WHERE session_id = p_session_id
+        RETURNING * INTO result;
+    ELSIF COALESCE(pause_on_reply, FALSE) THEN
+        result := set_bot_paused(p_session_id, TRUE);
+    END IF;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Status endpoint for n8n: POST /rest/v1/rpc/get_bot_status { "p_session_id": "..." }
+CREATE OR REPLACE FUNCTION get_bot_status(p_session_id VARCHAR)
+RETURNS TABLE (
+    session_id VARCHAR,
+    bot_paused BOOLEAN,
+    bot_paused_until TIMESTAMP WITH TIME ZONE,
+    bot_paused_at TIMESTAMP WITH TIME ZONE,
+    bot_paused_by UUID
+) AS $$
+    SELECT
+        p_session_id,
+        COALESCE(is_bot_paused(s), FALSE),
+        CASE WHEN is_bot_paused(s) THEN s.bot_paused_until END,
+        CASE WHEN is_bot_paused(s) THEN s.bot_paused_at END,
+        CASE WHEN is_bot_paused(s) THEN s.bot_paused_by END
+    FROM (SELECT p_session_id AS id) requested
+    LEFT JOIN chat_session_state s ON s.session_id = requested.id;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION get_bot_status(VARCHAR) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_bot_status(VARCHAR) TO authenticated, service_role;
+
+-- Flip expired pauses back so the stored flag matches what n8n sees
+CREATE OR REPLACE FUNCTION resume_idle_bots()
+RETURNS INTEGER AS $$
+DECLARE
+    resumed INTEGER;
+BEGIN
+    UPDATE chat_session_state
+    SET bot_paused = FALSE,
+        bot_paused_at = NULL,
+        bot_paused_by = NULL,
+        bot_paused_until = NULL,
+        updated_at = NOW()
+    WHERE bot_paused
+      AND bot_paused_until IS NOT NULL
+      AND bot_paused_until <= NOW();
+
+    GET DIAGNOSTICS resumed = ROW_COUNT;
+    RETURN resumed;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule('resume-idle-bots', '* * * * *', 'SELECT resume_idle_bots()');
+    END IF;
+END $$;
+
+-- Expose the takeover flag in the session list
+CREATE OR REPLACE VIEW chat_session_overview AS
+SELECT
+    s.*,
+    GREATEST(
+        COALESCE(unread.count, 0),
+        CASE WHEN c.marked_unread THEN 1 ELSE 0 END
+    )::INTEGER AS unread_count,
+    c.last_read_message_id,
+    COALESCE(is_bot_paused(st), FALSE) AS bot_paused
+FROM chat_session_summary s
+LEFT JOIN chat_read_cursors c
+    ON c.session_id = s.session_id
+   AND c.user_id = auth.uid()
+LEFT JOIN chat_session_state st
+    ON st.session_id = s.session_id
+LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS count
+    FROM n8n_chat_histories h
+    WHERE h.session_id = s.session_id
+      AND h.id > COALESCE(c.last_read_message_id, 0)
+      AND chat_message_json(h.message)->>'type' = 'human'
+) unread ON s.last_message_id > COALESCE(c.last_read_message_id, 0);
+
+COMMENT ON TABLE chat_session_state IS 'Agent-managed state per chat session (human takeover of the bot)';
+COMMENT ON COLUMN chat_session_state.bot_paused_until IS 'Auto-resume deadline, pushed forward on every agent reply';
+COMMENT ON FUNCTION get_bot_status IS 'Lets n8n check whether it should auto-reply to a session';
@@ -0,0 +1,25 @@
+-- Saved reply templates agents can insert with "/" in the chat input.
+-- Content may contain {{Field}} placeholders filled from the Airtable contact.
+CREATE TABLE canned_responses (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    title VARCHAR NOT NULL,
+    shortcut VARCHAR, -- Optional keyword, e.g. "salam" for "/salam"
+    content TEXT NOT NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_canned_responses_shortcut ON canned_responses(LOWER(shortcut)) WHERE shortcut IS NOT NULL;
+CREATE INDEX idx_canned_responses_title ON canned_responses(title);
+
+ALTER TABLE canned_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users manage canned responses" ON canned_responses
+    FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+COMMENT ON TABLE canned_responses IS 'Shared reply templates for the chat input';
+COMMENT ON COLUMN canned_responses.content IS 'Template text; {{Name}}, {{Interested in}}, {{Budget}} etc. are replaced with ContactFields values';
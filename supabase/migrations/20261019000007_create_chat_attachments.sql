@@ -0,0 +1,210 @@
+-- Media attachments: a public storage bucket for files sent by agents and
+-- session previews for messages that only carry an attachment.
+
+-- Public so n8n and the messaging platforms can fetch files by URL
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'chat-attachments',
+    'chat-attachments',
+    TRUE,
+    16777216, -- 16 MB, the WhatsApp media limit
+    ARRAY[
+        'image/*',
+        'video/*',
+        'audio/*',
+        'application/pdf',
+        'application/msword',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/vnd.ms-excel',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'text/plain'
+    ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Authenticated users upload chat attachments" ON storage.objects
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (bucket_id = 'chat-attachments');
+
+CREATE POLICY "Authenticated users read chat attachments" ON storage.objects
+    FOR SELECT
+    TO authenticated
+    USING (bucket_id = 'chat-attachments');
+
+-- Agents may only remove files they uploaded (discarded before sending)
+CREATE POLICY "Users delete their own chat attachments" ON storage.objects
+    FOR DELETE
+    TO authenticated
+    USING (bucket_id = 'chat-attachments' AND owner = auth.uid());
+
+-- One-line preview of a message: its text, or a label for attachment-only
+-- messages such as "[Image]" or "[Document] invoice.pdf"
+CREATE OR REPLACE FUNCTION chat_message_preview(message JSONB)
+RETURNS TEXT AS $$
+DECLARE
+    msg JSONB := chat_message_json(message);
+    attachment JSONB;
+    label TEXT;
+    detail TEXT;
+BEGIN
+    IF COALESCE(TRIM(msg->>'content'), '') <> '' THEN
+        RETURN msg->>'content';
+    END IF;
+
+    attachment := COALESCE(msg->'attachments'->0, msg->'attachment');
+    IF attachment IS NULL OR jsonb_typeof(attachment) <> 'object' THEN
+        RETURN COALESCE(msg->>'content', '');
+    END IF;
+
+    label := CASE LOWER(attachment->>'type')
+        WHEN 'image' THEN '[Image]'
+        WHEN 'photo' THEN '[Image]'
+        WHEN 'video' THEN '[Video]'
+        WHEN 'gif' THEN '[Video]'
+        WHEN 'audio' THEN '[Audio]'
+        WHEN 'voice' THEN '[Audio]'
+        WHEN 'ptt' THEN '[Audio]'
+        WHEN 'location' THEN '[Location]'
+        WHEN 'sticker' THEN '[Sticker]'
+        ELSE '[Document]'
+    END;
+    detail := COALESCE(attachment->>'caption', attachment->>'file_name', attachment->>'name');
+
+    RETURN CASE WHEN detail IS NULL OR detail = '' THEN label ELSE label || ' ' || detail END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Same as before, with last_message taken from chat_message_preview()
+CREATE OR REPLACE FUNCTION refresh_chat_session_summary(p_session_id VARCHAR)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM n8n_chat_histories WHERE session_id = p_session_id) THEN
+        DELETE FROM chat_session_summary WHERE session_id = p_session_id;
+        RETURN;
+    END IF;
+
+    INSERT INTO chat_session_summary (
+        session_id,
+        last_message_id,
+        last_message,
+        last_message_type,
+        last_timestamp,
+        first_timestamp,
+        sender_name,
+        platform,
+        message_count
+    )
+    SELECT
+        p_session_id,
+        latest.id,
+        chat_message_preview(latest.message),
+        chat_message_json(latest.message)->>'type',
+        COALESCE(latest.created_at, NOW()),
+        COALESCE(stats.first_timestamp, NOW()),
+        chat_message_json(latest.message)->>'sender_name',
+        (
+            SELECT chat_message_json(h.message)->>'trigger'
+            FROM n8n_chat_histories h
+            WHERE h.session_id = p_session_id
+              AND chat_message_json(h.message)->>'trigger' IN ('whatsapp', 'instagram', 'facebook')
+            ORDER BY h.created_at DESC, h.id DESC
+            LIMIT 1
+        ),
+        stats.message_count
+    FROM (
+        SELECT id, message, created_at
+        FROM n8n_chat_histories
+        WHERE session_id = p_session_id
+        ORDER BY created_at DESC, id DESC
+        LIMIT 1
+    ) latest,
+    (
+        SELECT COUNT(*) AS message_count, MIN(created_at) AS first_timestamp
+        FROM n8n_chat_histories
+        WHERE session_id = p_session_id
+    ) stats
+    ON CONFLICT (session_id)
+    DO UPDATE SET
+        last_message_id = EXCLUDED.last_message_id,
+        last_message = EXCLUDED.last_message,
+        last_message_type = EXCLUDED.last_message_type,
+        last_timestamp = EXCLUDED.last_timestamp,
+        first_timestamp = EXCLUDED.first_timestamp,
+        sender_name = EXCLUDED.sender_name,
+        platform = EXCLUDED.platform,
+        message_count = EXCLUDED.message_count,
+        updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_chat_session_summary()
+RETURNS TRIGGER AS $$
+DECLARE
+    msg JSONB;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM refresh_chat_session_summary(OLD.session_id);
+        RETURN OLD;
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        PERFORM refresh_chat_session_summary(NEW.session_id);
+        IF OLD.session_id IS DISTINCT FROM NEW.session_id THEN
+            PERFORM refresh_chat_session_summary(OLD.session_id);
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    msg := chat_message_json(NEW.message);
+
+    INSERT INTO chat_session_summary (
+        session_id,
+        last_message_id,
+        last_message,
+        last_message_type,
+        last_timestamp,
+        first_timestamp,
+        sender_name,
+        platform,
+        message_count
+    ) VALUES (
+        NEW.session_id,
+        NEW.id,
+        chat_message_preview(msg),
+        msg->>'type',
+        COALESCE(NEW.created_at, NOW()),
+        COALESCE(NEW.created_at, NOW()),
+        msg->>'sender_name',
+        CASE WHEN msg->>'trigger' IN ('whatsapp', 'instagram', 'facebook') THEN msg->>'trigger' END,
+        1
+    )
+    ON CONFLICT (session_id)
+    DO UPDATE SET
+        last_message_id = CASE WHEN EXCLUDED.last_timestamp >= chat_session_summary.last_timestamp
+            THEN EXCLUDED.last_message_id ELSE chat_session_summary.last_message_id END,
+        last_message = CASE WHEN EXCLUDED.last_timestamp >= chat_session_summary.last_timestamp
+            THEN EXCLUDED.last_message ELSE chat_session_summary.last_message END,
+        last_message_type = CASE WHEN EXCLUDED.last_timestamp >= chat_session_summary.last_timestamp
+            THEN EXCLUDED.last_message_type ELSE chat_session_summary.last_message_type END,
+        sender_name = CASE WHEN EXCLUDED.last_timestamp >= chat_session_summary.last_timestamp
+            THEN EXCLUDED.sender_name ELSE chat_session_summary.sender_name END,
+        last_timestamp = GREATEST(chat_session_summary.last_timestamp, EXCLUDED.last_timestamp),
+        first_timestamp = LEAST(chat_session_summary.first_timestamp, EXCLUDED.first_timestamp),
+        platform = COALESCE(EXCLUDED.platform, chat_session_summary.platform),
+        message_count = chat_session_summary.message_count + 1,
+        updated_at = NOW();
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Refresh previews of sessions whose latest message is attachment-only
+UPDATE chat_session_summary s
+SET last_message = chat_message_preview(h.message),
+    updated_at = NOW()
+FROM n8n_chat_histories h
+WHERE h.id = s.last_message_id
+  AND s.last_message = '';
+
+COMMENT ON FUNCTION chat_message_preview IS 'Message text, or a label such as [Image] for attachment-only messages';
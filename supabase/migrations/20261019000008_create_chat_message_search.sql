@@ -0,0 +1,104 @@
+-- Full-text search over message content across all conversations.
+--
+-- chat_search copies the built-in Indonesian snowball configuration (PG 12+)
+-- so "harganya", "berharga" and "harga" share a stem. PostgreSQL ships no
+-- Indonesian stop word list, so common words such as "yang" and "dengan" are
+-- indexed and matched like any other word.
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'chat_search') THEN
+        CREATE TEXT SEARCH CONFIGURATION chat_search (COPY = indonesian);
+    END IF;
+END $$;
+
+-- Searchable text of a message: its content without the
+-- "whatsapp\n<phone>\n" header of customer messages, plus attachment captions
+-- and file names
+CREATE OR REPLACE FUNCTION chat_message_search_text(message JSONB)
+RETURNS TEXT AS $$
+    SELECT CONCAT_WS(
+        ' ',
+        regexp_replace(COALESCE(chat_message_json(message)->>'content', ''), '^whatsapp\n[^\n]*\n', '', 'i'),
+        (
+            SELECT string_agg(CONCAT_WS(' ', a->>'caption', a->>'file_name', a->>'name'), ' ')
+            FROM jsonb_array_elements(
+                CASE WHEN jsonb_typeof(chat_message_json(message)->'attachments') = 'array'
+                    THEN chat_message_json(message)->'attachments'
+                    ELSE '[]'::JSONB
+                END
+            ) a
+        )
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION chat_message_tsvector(message JSONB)
+RETURNS TSVECTOR AS $$
+    SELECT to_tsvector('chat_search'::REGCONFIG, chat_message_search_text(message));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_n8n_chat_histories_search
+    ON n8n_chat_histories USING GIN (chat_message_tsvector(message));
+
+-- Turns what the agent typed into a prefix query: every word must match,
+-- and partial words match while typing ("harg pak" finds "harga paket")
+CREATE OR REPLACE FUNCTION chat_search_query(p_query TEXT)
+RETURNS TSQUERY AS $$
+    SELECT to_tsquery('chat_search'::REGCONFIG, string_agg(quote_literal(word) || ':*', ' & '))
+    FROM regexp_split_to_table(LOWER(COALESCE(p_query, '')), '[^[:alnum:]]+') AS word
+    WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Ranked matches with a highlighted snippet. Matches in the snippet are
+-- wrapped in <mark></mark>; the client renders them as text, never as HTML.
+CREATE OR REPLACE FUNCTION search_chat_messages(
+    p_query TEXT,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    message_id INTEGER,
+    session_id VARCHAR,
+    created_at TIMESTAMP WITH TIME ZONE,
+    message_type TEXT,
+    sender_name TEXT,
+    platform TEXT,
+    snippet TEXT,
+    rank REAL
+) AS $$
+    WITH query AS (
+        SELECT chat_search_query(p_query) AS q
+    ),
+    matches AS (
+        SELECT
+            h.id,
+            h.session_id,
+            h.created_at,
+            h.message,
+            ts_rank(chat_message_tsvector(h.message), query.q) AS rank
+        FROM n8n_chat_histories h, query
+        WHERE query.q IS NOT NULL
+          AND chat_message_tsvector(h.message) @@ query.q
+        ORDER BY rank DESC, h.created_at DESC, h.id DESC
+        LIMIT LEAST(GREATEST(p_limit, 1), 100)
+        OFFSET GREATEST(p_offset, 0)
+    )
+    SELECT
+        m.id,
+        m.session_id,
+        m.created_at,
+        chat_message_json(m.message)->>'type',
+        chat_message_json(m.message)->>'sender_name',
+        chat_message_json(m.message)->>'trigger',
+        ts_headline(
+            'chat_search'::REGCONFIG,
+            chat_message_search_text(m.message),
+            query.q,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+        ),
+        m.rank
+    FROM matches m, query
+    ORDER BY m.rank DESC, m.created_at DESC, m.id DESC;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON TEXT SEARCH CONFIGURATION chat_search IS 'Indonesian stemming for chat message search';
+COMMENT ON FUNCTION search_chat_messages IS 'Full-text search across all chat messages with highlighted snippets';
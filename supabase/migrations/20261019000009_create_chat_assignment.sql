@@ -0,0 +1,228 @@
+-- Conversation assignment: sessions can be owned by an agent, the inbox can
+-- be filtered to Mine / Unassigned / All, and new sessions can optionally be
+-- handed out round-robin among online agents.
+
+-- Agents as the dashboard sees them. auth.users is not readable from the
+-- client, so a public profile is kept per user.
+CREATE TABLE agent_profiles (
+    id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    email VARCHAR,
+    display_name VARCHAR,
+    accepts_assignments BOOLEAN NOT NULL DEFAULT TRUE, -- Included in round-robin
+    last_seen_at TIMESTAMP WITH TIME ZONE, -- Heartbeat from an open dashboard
+    last_assigned_at TIMESTAMP WITH TIME ZONE, -- Round-robin position
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE agent_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users view agent profiles" ON agent_profiles
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Users update their own agent profile" ON agent_profiles
+    FOR UPDATE
+    TO authenticated
+    USING (auth.uid() = id)
+    WITH CHECK (auth.uid() = id);
+
+CREATE OR REPLACE FUNCTION create_agent_profile()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.agent_profiles (id, email, display_name)
+    VALUES (
+        NEW.id,
+        NEW.email,
+        COALESCE(NEW.raw_user_meta_data->>'full_name', NEW.raw_user_meta_data->>'name')
+    )
+    ON CONFLICT (id) DO NOTHING;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_create_agent_profile
+    AFTER INSERT ON auth.users
+    FOR EACH ROW
+    EXECUTE FUNCTION create_agent_profile();
+
+INSERT INTO agent_profiles (id, email, display_name)
+SELECT
+    id,
+    email,
+    COALESCE(raw_user_meta_data->>'full_name', raw_user_meta_data->>'name')
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- Called every minute by an open dashboard
+CREATE OR REPLACE FUNCTION touch_agent_presence()
+RETURNS VOID AS $$
+    INSERT INTO agent_profiles (id, email, last_seen_at)
+    VALUES (auth.uid(), auth.jwt()->>'email', NOW())
+    ON CONFLICT (id)
+    DO UPDATE SET last_seen_at = NOW();
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- An agent counts as online while heartbeats keep arriving
+CREATE OR REPLACE FUNCTION is_agent_online(profile agent_profiles)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(profile.last_seen_at > NOW() - INTERVAL '2 minutes', FALSE);
+$$ LANGUAGE sql STABLE;
+
+-- Assignment lives with the rest of the agent-managed session state
+ALTER TABLE chat_session_state
+    ADD COLUMN assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN assigned_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN assigned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL; -- NULL for auto-assignment
+
+CREATE INDEX idx_chat_session_state_assigned_to ON chat_session_state(assigned_to);
+
+INSERT INTO app_settings (key, value)
+VALUES ('auto_assign_enabled', 'false')
+ON CONFLICT (key) DO NOTHING;
+
+-- Assign a session to an agent, or unassign it with p_user_id NULL
+CREATE OR REPLACE FUNCTION assign_chat_session(p_session_id VARCHAR, p_user_id UUID)
+RETURNS chat_session_state AS $$
+    INSERT INTO chat_session_state (session_id, assigned_to, assigned_at, assigned_by)
+    VALUES (
+        p_session_id,
+        p_user_id,
+        CASE WHEN p_user_id IS NOT NULL THEN NOW() END,
+        CASE WHEN p_user_id IS NOT NULL THEN auth.uid() END
+    )
+    ON CONFLICT (session_id)
+    DO UPDATE SET
+        assigned_to = EXCLUDED.assigned_to,
+        assigned_at = EXCLUDED.assigned_at,
+        assigned_by = EXCLUDED.assigned_by,
+        updated_at = NOW()
+    RETURNING *;
+$$ LANGUAGE sql;
+
+-- Round-robin: the online agent who was assigned a session longest ago
+CREATE OR REPLACE FUNCTION auto_assign_chat_session()
+RETURNS TRIGGER AS $$
+DECLARE
+    enabled BOOLEAN;
+    agent_id UUID;
+BEGIN
+    SELECT COALESCE(value = 'true', FALSE) INTO enabled
+    FROM app_settings
+    WHERE key = 'auto_assign_enabled';
+
+    IF NOT COALESCE(enabled, FALSE) THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM chat_session_state
+        WHERE session_id = NEW.session_id AND assigned_to IS NOT NULL
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT p.id INTO agent_id
+    FROM agent_profiles p
+    WHERE p.accepts_assignments
+      AND is_agent_online(p)
+    ORDER BY p.last_assigned_at ASC NULLS FIRST, p.id
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF agent_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    UPDATE agent_profiles
+    SET last_assigned_at = NOW()
+    WHERE id = agent_id;
+
+    INSERT INTO chat_session_state (session_id, assigned_to, assigned_at)
+    VALUES (NEW.session_id, agent_id, NOW())
+    ON CONFLICT (session_id)
+    DO UPDATE SET
+        assigned_to = EXCLUDED.assigned_to,
+        assigned_at = EXCLUDED.assigned_at,
+        assigned_by = NULL,
+        updated_at = NOW();
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A new summary row means the first message of a new session
+CREATE TRIGGER trigger_auto_assign_chat_session
+    AFTER INSERT ON chat_session_summary
+    FOR EACH ROW
+    EXECUTE FUNCTION auto_assign_chat_session();
+
+-- Expose the assignee in the session list
+CREATE OR REPLACE VIEW chat_session_overview AS
+SELECT
+    s.*,
+    GREATEST(
+        COALESCE(unread.count, 0),
+        CASE WHEN c.marked_unread THEN 1 ELSE 0 END
+    )::INTEGER AS unread_count,
+    c.last_read_message_id,
+    COALESCE(is_bot_paused(st), FALSE) AS bot_paused,
+    st.assigned_to,
+    st.assigned_at
+FROM chat_session_summary s
+LEFT JOIN chat_read_cursors c
+    ON c.session_id = s.session_id
+   AND c.user_id = auth.uid()
+LEFT JOIN chat_session_state st
+    ON st.session_id = s.session_id
+LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS count
+    FROM n8n_chat_histories h
+    WHERE h.session_id = s.session_id
+      AND h.id > COALESCE(c.last_read_message_id, 0)
+      AND chat_message_json(h.message)->>'type' = 'human'
+) unread ON s.last_message_id > COALESCE(c.last_read_message_id, 0);
+
+-- get_chat_sessions gains an assignee filter: 'all' (default), 'mine', 'unassigned'
+DROP FUNCTION IF EXISTS get_chat_sessions(INTEGER, TEXT, TIMESTAMP WITH TIME ZONE, INTEGER, VARCHAR);
+
+CREATE OR REPLACE FUNCTION get_chat_sessions(
+    p_limit INTEGER DEFAULT 30,
+    p_sort TEXT DEFAULT 'recent',
+    p_cursor_timestamp TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_cursor_message_count INTEGER DEFAULT NULL,
+    p_cursor_session_id VARCHAR DEFAULT NULL,
+    p_assignee TEXT DEFAULT 'all'
+)
+RETURNS SETOF chat_session_overview AS $$
+    SELECT *
+    FROM chat_session_overview s
+    WHERE (
+        p_cursor_session_id IS NULL
+        OR CASE p_sort
+            WHEN 'oldest' THEN
+                (s.last_timestamp, s.session_id) > (p_cursor_timestamp, p_cursor_session_id)
+            WHEN 'most_messages' THEN
+                (s.message_count, s.session_id) < (p_cursor_message_count, p_cursor_session_id)
+            ELSE
+                (s.last_timestamp, s.session_id) < (p_cursor_timestamp, p_cursor_session_id)
+          END
+      )
+      AND CASE p_assignee
+            WHEN 'mine' THEN s.assigned_to = auth.uid()
+            WHEN 'unassigned' THEN s.assigned_to IS NULL
+            ELSE TRUE
+          END
+    ORDER BY
+        CASE WHEN p_sort = 'oldest' THEN s.last_timestamp END ASC,
+        CASE WHEN p_sort = 'oldest' THEN s.session_id END ASC,
+        CASE WHEN p_sort = 'most_messages' THEN s.message_count END DESC,
+        CASE WHEN p_sort <> 'oldest' AND p_sort <> 'most_messages' THEN s.last_timestamp END DESC,
+        CASE WHEN p_sort <> 'oldest' THEN s.session_id END DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON TABLE agent_profiles IS 'Public profile of each dashboard user, used for assignment and round-robin';
+COMMENT ON COLUMN chat_session_state.assigned_to IS 'Agent responsible for the conversation, NULL when unassigned';
+COMMENT ON FUNCTION auto_assign_chat_session IS 'Round-robin assignment of new sessions among online agents when auto_assign_enabled is true';
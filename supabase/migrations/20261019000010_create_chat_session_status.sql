@@ -0,0 +1,244 @@
+-- Conversation status lifecycle: every session is open, pending (waiting on
+-- the customer), resolved or closed. Each transition is recorded so the
+-- resolution rate is computed from what agents actually did.
+
+ALTER TABLE chat_session_state
+    ADD COLUMN status VARCHAR(10) NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'pending', 'resolved', 'closed')),
+    ADD COLUMN status_changed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN status_changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL; -- NULL when reopened by the customer
+
+CREATE INDEX idx_chat_session_state_status ON chat_session_state(status);
+
+-- One row per status change
+CREATE TABLE chat_session_status_events (
+    id BIGSERIAL PRIMARY KEY,
+    session_id VARCHAR NOT NULL,
+    from_status VARCHAR(10) NOT NULL,
+    to_status VARCHAR(10) NOT NULL,
+    reason VARCHAR(20) NOT NULL DEFAULT 'agent', -- agent, customer_message
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_chat_session_status_events_session ON chat_session_status_events(session_id, created_at DESC);
+CREATE INDEX idx_chat_session_status_events_created ON chat_session_status_events(created_at, to_status);
+
+-- The history is read-only for clients, transitions go through set_chat_session_status()
+ALTER TABLE chat_session_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users view status history" ON chat_session_status_events
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+-- Move a session to a new status and record the transition. A session
+-- without a state row is open.
+CREATE OR REPLACE FUNCTION change_chat_session_status(
+    p_session_id VARCHAR,
+    p_status VARCHAR,
+    p_reason VARCHAR,
+    p_changed_by UUID
+)
+RETURNS chat_session_state AS $$
+DECLARE
+    previous chat_session_state;
+    result chat_session_state;
+BEGIN
+    INSERT INTO chat_session_state (session_id)
+    VALUES (p_session_id)
+    ON CONFLICT (session_id) DO NOTHING;
+
+    SELECT * INTO previous
+    FROM chat_session_state
+    WHERE session_id = p_session_id
+    FOR UPDATE;
+
+    IF previous.status = p_status THEN
+        RETURN previous;
+    END IF;
+
+    UPDATE chat_session_state
+    SET status = p_status,
+        status_changed_at = NOW(),
+        status_changed_by = p_changed_by,
+        updated_at = NOW()
+    WHERE session_id = p_session_id
+    RETURNING * INTO result;
+
+    INSERT INTO chat_session_status_events (session_id, from_status, to_status, reason, changed_by)
+    VALUES (p_session_id, previous.status, p_status, p_reason, p_changed_by);
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION change_chat_session_status(VARCHAR, VARCHAR, VARCHAR, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Resolve, close, mark pending or reopen a session as the current agent
+CREATE OR REPLACE FUNCTION set_chat_session_status(p_session_id VARCHAR, p_status VARCHAR)
+RETURNS chat_session_state AS $$
+BEGIN
+    IF p_status NOT IN ('open', 'pending', 'resolved', 'closed') THEN
+        RAISE EXCEPTION 'Invalid conversation status: %', p_status;
+    END IF;
+
+    RETURN change_chat_session_status(p_session_id, p_status, 'agent', auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION set_chat_session_status(VARCHAR, VARCHAR) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_chat_session_status(VARCHAR, VARCHAR) TO authenticated, service_role;
+
+-- A customer writing again reopens the conversation
+CREATE OR REPLACE FUNCTION reopen_chat_session_on_customer_message()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF chat_message_json(NEW.message)->>'type' = 'human' AND EXISTS (
+        SELECT 1 FROM chat_session_state
+        WHERE session_id = NEW.session_id AND status <> 'open'
+    ) THEN
+        PERFORM change_chat_session_status(NEW.session_id, 'open', 'customer_message', NULL);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_reopen_chat_session_on_customer_message
+    AFTER INSERT ON n8n_chat_histories
+    FOR EACH ROW
+    EXECUTE FUNCTION reopen_chat_session_on_customer_message();
+
+-- Resolution figures for a period, from recorded transitions:
+-- active_sessions: conversations with messages or status changes in the period
+-- resolved_sessions: conversations moved from open/pending to resolved/closed
+-- reopened_sessions: conversations moved from resolved/closed back to open
+-- avg_resolution_minutes: time from (re)opening to resolution
+CREATE OR REPLACE FUNCTION get_resolution_stats(
+    p_from TIMESTAMP WITH TIME ZONE,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS TABLE (
+    active_sessions INTEGER,
+    resolved_sessions INTEGER,
+    reopened_sessions INTEGER,
+    avg_resolution_minutes NUMERIC
+) AS $$
+    WITH transitions AS (
+        SELECT *
+        FROM chat_session_status_events
+        WHERE created_at >= p_from
+          AND created_at < p_to
+    ),
+    resolutions AS (
+        SELECT *
+        FROM transitions
+        WHERE to_status IN ('resolved', 'closed')
+          AND from_status IN ('open', 'pending')
+    ),
+    active AS (
+        SELECT session_id
+        FROM chat_session_summary
+        WHERE last_timestamp >= p_from
+          AND first_timestamp < p_to
+        UNION
+        SELECT session_id FROM transitions
+    )
+    SELECT
+        (SELECT COUNT(*) FROM active)::INTEGER,
+        (SELECT COUNT(DISTINCT session_id) FROM resolutions)::INTEGER,
+        (
+            SELECT COUNT(DISTINCT session_id)
+            FROM transitions
+            WHERE to_status = 'open'
+              AND from_status IN ('resolved', 'closed')
+        )::INTEGER,
+        (
+            SELECT ROUND(AVG(EXTRACT(EPOCH FROM r.created_at - COALESCE(opened.created_at, s.first_timestamp)) / 60)::NUMERIC, 1)
+            FROM resolutions r
+            LEFT JOIN chat_session_summary s ON s.session_id = r.session_id
+            LEFT JOIN LATERAL (
+                SELECT e.created_at
+                FROM chat_session_status_events e
+                WHERE e.session_id = r.session_id
+                  AND e.to_status = 'open'
+                  AND e.created_at < r.created_at
+                ORDER BY e.created_at DESC
+                LIMIT 1
+            ) opened ON TRUE
+        );
+$$ LANGUAGE sql STABLE;
+
+-- Expose the status in the session list
+CREATE OR REPLACE VIEW chat_session_overview AS
+SELECT
+    s.*,
+    GREATEST(
+        COALESCE(unread.count, 0),
+        CASE WHEN c.marked_unread THEN 1 ELSE 0 END
+    )::INTEGER AS unread_count,
+    c.last_read_message_id,
+    COALESCE(is_bot_paused(st), FALSE) AS bot_paused,
+    st.assigned_to,
+    st.assigned_at,
+    COALESCE(st.status, 'open') AS status,
+    st.status_changed_at
+FROM chat_session_summary s
+LEFT JOIN chat_read_cursors c
+    ON c.session_id = s.session_id
+   AND c.user_id = auth.uid()
+LEFT JOIN chat_session_state st
+    ON st.session_id = s.session_id
+LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS count
+    FROM n8n_chat_histories h
+    WHERE h.session_id = s.session_id
+      AND h.id > COALESCE(c.last_read_message_id, 0)
+      AND chat_message_json(h.message)->>'type' = 'human'
+) unread ON s.last_message_id > COALESCE(c.last_read_message_id, 0);
+
+-- get_chat_sessions gains a status filter: 'all' (default) or one status
+DROP FUNCTION IF EXISTS get_chat_sessions(INTEGER, TEXT, TIMESTAMP WITH TIME ZONE, INTEGER, VARCHAR, TEXT);
+
+CREATE OR REPLACE FUNCTION get_chat_sessions(
+    p_limit INTEGER DEFAULT 30,
+    p_sort TEXT DEFAULT 'recent',
+    p_cursor_timestamp TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_cursor_message_count INTEGER DEFAULT NULL,
+    p_cursor_session_id VARCHAR DEFAULT NULL,
+    p_assignee TEXT DEFAULT 'all',
+    p_status TEXT DEFAULT 'all'
+)
+RETURNS SETOF chat_session_overview AS $$
+    SELECT *
+    FROM chat_session_overview s
+    WHERE (
+        p_cursor_session_id IS NULL
+        OR CASE p_sort
+            WHEN 'oldest' THEN
+                (s.last_timestamp, s.session_id) > (p_cursor_timestamp, p_cursor_session_id)
+            WHEN 'most_messages' THEN
+                (s.message_count, s.session_id) < (p_cursor_message_count, p_cursor_session_id)
+            ELSE
+                (s.last_timestamp, s.session_id) < (p_cursor_timestamp, p_cursor_session_id)
+          END
+      )
+      AND CASE p_assignee
+            WHEN 'mine' THEN s.assigned_to = auth.uid()
+            WHEN 'unassigned' THEN s.assigned_to IS NULL
+            ELSE TRUE
+          END
+      AND (p_status = 'all' OR s.status = p_status)
+    ORDER BY
+        CASE WHEN p_sort = 'oldest' THEN s.last_timestamp END ASC,
+        CASE WHEN p_sort = 'oldest' THEN s.session_id END ASC,
+        CASE WHEN p_sort = 'most_messages' THEN s.message_count END DESC,
+        CASE WHEN p_sort <> 'oldest' AND p_sort <> 'most_messages' THEN s.last_timestamp END DESC,
+        CASE WHEN p_sort <> 'oldest' THEN s.session_id END DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON COLUMN chat_session_state.status IS 'Conversation status: open, pending (waiting on the customer), resolved or closed';
+COMMENT ON TABLE chat_session_status_events IS 'History of conversation status transitions, used for resolution reporting';
+COMMENT ON FUNCTION get_resolution_stats IS 'Resolution rate inputs for a period, computed from recorded status transitions';
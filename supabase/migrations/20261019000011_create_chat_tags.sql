@@ -0,0 +1,131 @@
+-- Session tags: a shared catalog of colored labels ("komplain", "order",
+-- "VIP follow-up", "spam") that agents attach to conversations and filter by.
+
+CREATE TABLE chat_tags (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR NOT NULL,
+    color VARCHAR(7) NOT NULL DEFAULT '#64748b', -- Hex color of the chip
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_chat_tags_name ON chat_tags(LOWER(name));
+
+-- Tags attached to a session
+CREATE TABLE chat_session_tags (
+    session_id VARCHAR NOT NULL,
+    tag_id UUID NOT NULL REFERENCES chat_tags(id) ON DELETE CASCADE,
+    tagged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (session_id, tag_id)
+);
+
+CREATE INDEX idx_chat_session_tags_tag ON chat_session_tags(tag_id);
+
+ALTER TABLE chat_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_session_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users manage chat tags" ON chat_tags
+    FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users manage session tags" ON chat_session_tags
+    FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+-- Deletes must carry the session id for realtime subscribers
+ALTER TABLE chat_session_tags REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE chat_session_tags;
+
+INSERT INTO chat_tags (name, color)
+VALUES
+    ('komplain', '#ef4444'),
+    ('order', '#3b82f6'),
+    ('VIP follow-up', '#f59e0b'),
+    ('spam', '#6b7280')
+ON CONFLICT DO NOTHING;
+
+-- Expose the tags in the session list
+CREATE OR REPLACE VIEW chat_session_overview AS
+SELECT
+    s.*,
+    GREATEST(
+        COALESCE(unread.count, 0),
+        CASE WHEN c.marked_unread THEN 1 ELSE 0 END
+    )::INTEGER AS unread_count,
+    c.last_read_message_id,
+    COALESCE(is_bot_paused(st), FALSE) AS bot_paused,
+    st.assigned_to,
+    st.assigned_at,
+    COALESCE(st.status, 'open') AS status,
+    st.status_changed_at,
+    COALESCE(tags.tag_ids, '{}') AS tag_ids
+FROM chat_session_summary s
+LEFT JOIN chat_read_cursors c
+    ON c.session_id = s.session_id
+   AND c.user_id = auth.uid()
+LEFT JOIN chat_session_state st
+    ON st.session_id = s.session_id
+LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS count
+    FROM n8n_chat_histories h
+    WHERE h.session_id = s.session_id
+      AND h.id > COALESCE(c.last_read_message_id, 0)
+      AND chat_message_json(h.message)->>'type' = 'human'
+) unread ON s.last_message_id > COALESCE(c.last_read_message_id, 0)
+LEFT JOIN LATERAL (
+    SELECT ARRAY_AGG(t.tag_id ORDER BY t.created_at) AS tag_ids
+    FROM chat_session_tags t
+    WHERE t.session_id = s.session_id
+) tags ON TRUE;
+
+-- get_chat_sessions gains a tag filter: sessions carrying any of p_tag_ids
+DROP FUNCTION IF EXISTS get_chat_sessions(INTEGER, TEXT, TIMESTAMP WITH TIME ZONE, INTEGER, VARCHAR, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION get_chat_sessions(
+    p_limit INTEGER DEFAULT 30,
+    p_sort TEXT DEFAULT 'recent',
+    p_cursor_timestamp TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_cursor_message_count INTEGER DEFAULT NULL,
+    p_cursor_session_id VARCHAR DEFAULT NULL,
+    p_assignee TEXT DEFAULT 'all',
+    p_status TEXT DEFAULT 'all',
+    p_tag_ids UUID[] DEFAULT NULL
+)
+RETURNS SETOF chat_session_overview AS $$
+    SELECT *
+    FROM chat_session_overview s
+    WHERE (
+        p_cursor_session_id IS NULL
+        OR CASE p_sort
+            WHEN 'oldest' THEN
+                (s.last_timestamp, s.session_id) > (p_cursor_timestamp, p_cursor_session_id)
+            WHEN 'most_messages' THEN
+                (s.message_count, s.session_id) < (p_cursor_message_count, p_cursor_session_id)
+            ELSE
+                (s.last_timestamp, s.session_id) < (p_cursor_timestamp, p_cursor_session_id)
+          END
+      )
+      AND CASE p_assignee
+            WHEN 'mine' THEN s.assigned_to = auth.uid()
+            WHEN 'unassigned' THEN s.assigned_to IS NULL
+            ELSE TRUE
+          END
+      AND (p_status = 'all' OR s.status = p_status)
+      AND (COALESCE(CARDINALITY(p_tag_ids), 0) = 0 OR s.tag_ids && p_tag_ids)
+    ORDER BY
+        CASE WHEN p_sort = 'oldest' THEN s.last_timestamp END ASC,
+        CASE WHEN p_sort = 'oldest' THEN s.session_id END ASC,
+        CASE WHEN p_sort = 'most_messages' THEN s.message_count END DESC,
+        CASE WHEN p_sort <> 'oldest' AND p_sort <> 'most_messages' THEN s.last_timestamp END DESC,
+        CASE WHEN p_sort <> 'oldest' THEN s.session_id END DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 200);
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON TABLE chat_tags IS 'Catalog of colored labels for conversations';
+COMMENT ON TABLE chat_session_tags IS 'Tags attached to chat sessions';
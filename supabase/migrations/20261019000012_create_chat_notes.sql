@@ -0,0 +1,115 @@
+-- Internal notes: private context agents leave on a conversation or on a
+-- single message, e.g. when handing over between shifts. Notes live in their
+-- own table and are never written to n8n_chat_histories, so they never reach
+-- the customer or the n8n webhook. Mentioned teammates get a notification.
+
+CREATE TABLE chat_notes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id VARCHAR NOT NULL,
+    message_id INTEGER REFERENCES n8n_chat_histories(id) ON DELETE SET NULL, -- NULL for notes on the whole session
+    content TEXT NOT NULL CHECK (LENGTH(TRIM(content)) > 0),
+    mentions UUID[] NOT NULL DEFAULT '{}', -- Mentioned agents (agent_profiles.id)
+    author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_chat_notes_session ON chat_notes(session_id, created_at);
+
+ALTER TABLE chat_notes ENABLE ROW LEVEL SECURITY;
+
+-- Every agent reads the notes, only the author edits or deletes them
+CREATE POLICY "Authenticated users view chat notes" ON chat_notes
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users add their own chat notes" ON chat_notes
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (author_id = auth.uid());
+
+CREATE POLICY "Authors update their chat notes" ON chat_notes
+    FOR UPDATE
+    TO authenticated
+    USING (author_id = auth.uid())
+    WITH CHECK (author_id = auth.uid());
+
+CREATE POLICY "Authors delete their chat notes" ON chat_notes
+    FOR DELETE
+    TO authenticated
+    USING (author_id = auth.uid());
+
+-- Deletes must carry the session id for realtime subscribers
+ALTER TABLE chat_notes REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE chat_notes;
+
+-- Per-agent notifications, read by useNotifications in the dashboard
+CREATE TABLE agent_notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    type VARCHAR(20) NOT NULL DEFAULT 'mention', -- mention
+    title VARCHAR NOT NULL,
+    body TEXT NOT NULL DEFAULT '',
+    session_id VARCHAR,
+    note_id UUID REFERENCES chat_notes(id) ON DELETE CASCADE,
+    actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- Who caused it
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_agent_notifications_user ON agent_notifications(user_id, created_at DESC);
+
+-- Notifications are created by triggers, agents only read and mark their own
+ALTER TABLE agent_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view their own notifications" ON agent_notifications
+    FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Users mark their own notifications read" ON agent_notifications
+    FOR UPDATE
+    TO authenticated
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE agent_notifications;
+
+-- Notify the agents mentioned in a new note, or newly mentioned in an edit.
+-- Authors are not notified of their own mentions.
+CREATE OR REPLACE FUNCTION notify_chat_note_mentions()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_author_name VARCHAR;
+BEGIN
+    SELECT COALESCE(p.display_name, SPLIT_PART(p.email, '@', 1))
+    INTO v_author_name
+    FROM agent_profiles p
+    WHERE p.id = NEW.author_id;
+
+    INSERT INTO agent_notifications (user_id, type, title, body, session_id, note_id, actor_id)
+    SELECT
+        p.id,
+        'mention',
+        COALESCE(v_author_name, 'A teammate') || ' mentioned you in a note',
+        LEFT(NEW.content, 200),
+        NEW.session_id,
+        NEW.id,
+        NEW.author_id
+    FROM agent_profiles p
+    WHERE p.id = ANY(NEW.mentions)
+      AND p.id IS DISTINCT FROM NEW.author_id
+      AND (TG_OP = 'INSERT' OR NOT p.id = ANY(OLD.mentions));
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_notify_chat_note_mentions
+    AFTER INSERT OR UPDATE OF mentions ON chat_notes
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_chat_note_mentions();
+
+COMMENT ON TABLE chat_notes IS 'Internal agent notes on chat sessions or messages, never sent to customers';
+COMMENT ON TABLE agent_notifications IS 'Per-agent notifications such as mentions in internal notes';
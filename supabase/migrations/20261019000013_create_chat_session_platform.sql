@@ -0,0 +1,206 @@
+-- Explicit channel per session. The platform used to be guessed in the
+-- browser from the length of the session id (12 digits = WhatsApp, 15 =
+-- Instagram) and kept in memory only, which mislabelled Facebook PSIDs and
+-- Indonesian phone numbers. It is now stored per session: taken from the
+-- `trigger` field of incoming messages, reclassified for historical sessions
+-- by a backfill job, and overridable by an agent.
+
+ALTER TABLE chat_session_state
+    ADD COLUMN platform VARCHAR(20)
+        CHECK (platform IN ('whatsapp', 'instagram', 'facebook')),
+    ADD COLUMN platform_source VARCHAR(10)
+        CHECK (platform_source IN ('trigger', 'backfill', 'manual')), -- Manual overrides are never replaced automatically
+    ADD COLUMN platform_updated_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN platform_updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL; -- Set for manual overrides
+
+-- Platform of a session from its messages: the most recent valid `trigger`,
+-- otherwise the "whatsapp\n<phone>\n<text>" prefix n8n writes on customer
+-- messages. NULL when the messages carry neither.
+CREATE OR REPLACE FUNCTION classify_chat_session_platform(p_session_id VARCHAR)
+RETURNS VARCHAR AS $$
+    SELECT COALESCE(
+        (
+            SELECT LOWER(chat_message_json(h.message)->>'trigger')
+            FROM n8n_chat_histories h
+            WHERE h.session_id = p_session_id
+              AND LOWER(chat_message_json(h.message)->>'trigger') IN ('whatsapp', 'instagram', 'facebook')
+            ORDER BY h.created_at DESC, h.id DESC
+            LIMIT 1
+        ),
+        (
+            SELECT LOWER(SPLIT_PART(chat_message_json(h.message)->>'content', E'\n', 1))
+            FROM n8n_chat_histories h
+            WHERE h.session_id = p_session_id
+              AND chat_message_json(h.message)->>'type' = 'human'
+              AND LOWER(SPLIT_PART(chat_message_json(h.message)->>'content', E'\n', 1)) IN ('whatsapp', 'instagram', 'facebook')
+            ORDER BY h.created_at DESC, h.id DESC
+            LIMIT 1
+        )
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Store the platform from the trigger field as messages are ingested
+CREATE OR REPLACE FUNCTION record_chat_session_platform()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_platform VARCHAR := LOWER(chat_message_json(NEW.message)->>'trigger');
+BEGIN
+    IF v_platform IS NULL OR v_platform NOT IN ('whatsapp', 'instagram', 'facebook') THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO chat_session_state (session_id, platform, platform_source, platform_updated_at)
+    VALUES (NEW.session_id, v_platform, 'trigger', NOW())
+    ON CONFLICT (session_id)
+    DO UPDATE SET
+        platform = EXCLUDED.platform,
+        platform_source = EXCLUDED.platform_source,
+        platform_updated_at = EXCLUDED.platform_updated_at,
+        updated_at = NOW()
+    WHERE chat_session_state.platform_source IS DISTINCT FROM 'manual'
+      AND (
+          chat_session_state.platform IS DISTINCT FROM EXCLUDED.platform
+          OR chat_session_state.platform_source IS DISTINCT FROM 'trigger'
+      );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_record_chat_session_platform
+    AFTER INSERT ON n8n_chat_histories
+    FOR EACH ROW
+    EXECUTE FUNCTION record_chat_session_platform();
+
+-- Reclassify every session that has no manual override. Returns the number
+-- of sessions whose platform changed.
+CREATE OR REPLACE FUNCTION backfill_chat_session_platforms()
+RETURNS INTEGER AS $$
+DECLARE
+    v_updated INTEGER;
+BEGIN
+    WITH classified AS (
+        SELECT s.session_id, classify_chat_session_platform(s.session_id) AS platform
+        FROM chat_session_summary s
+        LEFT JOIN chat_session_state st ON st.session_id = s.session_id
+        WHERE st.platform_source IS DISTINCT FROM 'manual'
+    ),
+    upserted AS (
+        INSERT INTO chat_session_state (session_id, platform, platform_source, platform_updated_at)
+        SELECT session_id, platform, 'backfill', NOW()
+        FROM classified
+        WHERE platform IS NOT NULL
+        ON CONFLICT (session_id)
+        DO UPDATE SET
+            platform = EXCLUDED.platform,
+            platform_source = EXCLUDED.platform_source,
+            platform_updated_at = EXCLUDED.platform_updated_at,
+            updated_at = NOW()
+        WHERE chat_session_state.platform_source IS DISTINCT FROM 'manual'
+          AND chat_session_state.platform IS DISTINCT FROM EXCLUDED.platform
+        RETURNING 1
+    )
+    SELECT COUNT(*) INTO v_updated FROM upserted;
+
+    RETURN v_updated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION backfill_chat_session_platforms() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION backfill_chat_session_platforms() TO authenticated, service_role;
+
+-- Override the platform of a session as the current agent. NULL removes the
+-- override and goes back to the platform found in the messages.
+CREATE OR REPLACE FUNCTION set_chat_session_platform(p_session_id VARCHAR, p_platform VARCHAR)
+RETURNS chat_session_state AS $$
+DECLARE
+    result chat_session_state;
+BEGIN
+    IF p_platform IS NOT NULL AND p_platform NOT IN ('whatsapp', 'instagram', 'facebook') THEN
+        RAISE EXCEPTION 'Invalid platform: %', p_platform;
+    END IF;
+
+    INSERT INTO chat_session_state (session_id)
+    VALUES (p_session_id)
+    ON CONFLICT (session_id) DO NOTHING;
+
+    IF p_platform IS NULL THEN
+        UPDATE chat_session_state
+        SET platform = classify_chat_session_platform(p_session_id),
+            platform_source = 'backfill',
+            platform_updated_at = NOW(),
+            platform_updated_by = NULL,
+            updated_at = NOW()
+        WHERE session_id = p_session_id
+        RETURNING * INTO result;
+    ELSE
+        UPDATE chat_session_state
+        SET platform = p_platform,
+            platform_source = 'manual',
+            platform_updated_at = NOW(),
+            platform_updated_by = auth.uid(),
+            updated_at = NOW()
+        WHERE session_id = p_session_id
+        RETURNING * INTO result;
+    END IF;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION set_chat_session_platform(VARCHAR, VARCHAR) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_chat_session_platform(VARCHAR, VARCHAR) TO authenticated, service_role;
+
+-- Classify the sessions that exist today
+SELECT backfill_chat_session_platforms();
+
+-- The session list reads the stored platform. The columns of
+-- chat_session_summary are listed so `platform` can be replaced in place;
+-- the cast keeps the column type of the existing view.
+CREATE OR REPLACE VIEW chat_session_overview AS
+SELECT
+    s.session_id,
+    s.last_message_id,
+    s.last_message,
+    s.last_message_type,
+    s.last_timestamp,
+    s.first_timestamp,
+    s.sender_name,
+    COALESCE(st.platform, s.platform)::VARCHAR(20) AS platform,
+    s.message_count,
+    s.created_at,
+    s.updated_at,
+    GREATEST(
+        COALESCE(unread.count, 0),
+        CASE WHEN c.marked_unread THEN 1 ELSE 0 END
+    )::INTEGER AS unread_count,
+    c.last_read_message_id,
+    COALESCE(is_bot_paused(st), FALSE) AS bot_paused,
+    st.assigned_to,
+    st.assigned_at,
+    COALESCE(st.status, 'open') AS status,
+    st.status_changed_at,
+    COALESCE(tags.tag_ids, '{}') AS tag_ids,
+    st.platform_source
+FROM chat_session_summary s
+LEFT JOIN chat_read_cursors c
+    ON c.session_id = s.session_id
+   AND c.user_id = auth.uid()
+LEFT JOIN chat_session_state st
+    ON st.session_id = s.session_id
+LEFT JOIN LATERAL (
+    SELECT COUNT(*) AS count
+    FROM n8n_chat_histories h
+    WHERE h.session_id = s.session_id
+      AND h.id > COALESCE(c.last_read_message_id, 0)
+      AND chat_message_json(h.message)->>'type' = 'human'
+) unread ON s.last_message_id > COALESCE(c.last_read_message_id, 0)
+LEFT JOIN LATERAL (
+    SELECT ARRAY_AGG(t.tag_id ORDER BY t.created_at) AS tag_ids
+    FROM chat_session_tags t
+    WHERE t.session_id = s.session_id
+) tags ON TRUE;
+
+COMMENT ON COLUMN chat_session_state.platform IS 'Channel of the session: whatsapp, instagram, facebook';
+COMMENT ON COLUMN chat_session_state.platform_source IS 'How the platform was set: trigger (ingestion), backfill, manual (agent override)';
+COMMENT ON FUNCTION backfill_chat_session_platforms IS 'Reclassifies the platform of every session without a manual override';
@@ -0,0 +1,137 @@
+-- Delivery receipts for outbound messages. n8n (or the WhatsApp provider
+-- through n8n) reports sent / delivered / read / failed for each message the
+-- dashboard or the bot sends, instead of the dashboard assuming every reply
+-- was delivered.
+
+-- Current delivery state of an outbound message, with the time each state
+-- was first reported
+CREATE TABLE chat_message_receipts (
+    message_id INTEGER PRIMARY KEY REFERENCES n8n_chat_histories(id) ON DELETE CASCADE,
+    session_id VARCHAR NOT NULL,
+    status VARCHAR(10) NOT NULL CHECK (status IN ('sent', 'delivered', 'read', 'failed')),
+    provider_message_id VARCHAR, -- Id given by the platform, e.g. the WhatsApp wamid
+    error TEXT, -- Reason reported with the last failure
+    sent_at TIMESTAMP WITH TIME ZONE,
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    read_at TIMESTAMP WITH TIME ZONE,
+    failed_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_chat_message_receipts_provider ON chat_message_receipts(provider_message_id)
+    WHERE provider_message_id IS NOT NULL;
+CREATE INDEX idx_chat_message_receipts_session ON chat_message_receipts(session_id);
+CREATE INDEX idx_chat_message_receipts_status ON chat_message_receipts(status);
+
+-- Receipts are written through record_message_receipt() only
+ALTER TABLE chat_message_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users view message receipts" ON chat_message_receipts
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE chat_message_receipts;
+
+-- Order of the delivery states. Receipts can arrive out of order, a later
+-- state is never replaced by an earlier one.
+CREATE OR REPLACE FUNCTION delivery_status_rank(p_status VARCHAR)
+RETURNS INTEGER AS $$
+    SELECT CASE p_status
+        WHEN 'failed' THEN 0
+        WHEN 'sent' THEN 1
+        WHEN 'delivered' THEN 2
+        WHEN 'read' THEN 3
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Record a receipt for an outbound message. The message is identified by its
+-- n8n_chat_histories id, or by the provider id once a receipt carrying both
+-- has been recorded. A failure only applies while the message is not yet
+-- delivered, and a later "sent" (successful retry) clears it.
+CREATE OR REPLACE FUNCTION record_message_receipt(
+    p_status VARCHAR,
+    p_message_id INTEGER DEFAULT NULL,
+    p_provider_message_id VARCHAR DEFAULT NULL,
+    p_error TEXT DEFAULT NULL,
+    p_occurred_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS chat_message_receipts AS $$
+DECLARE
+    v_message n8n_chat_histories;
+    v_message_id INTEGER := p_message_id;
+    v_occurred_at TIMESTAMP WITH TIME ZONE := COALESCE(p_occurred_at, NOW());
+    result chat_message_receipts;
+BEGIN
+    IF p_status IS NULL OR p_status NOT IN ('sent', 'delivered', 'read', 'failed') THEN
+        RAISE EXCEPTION 'Invalid delivery status: %', p_status;
+    END IF;
+
+    IF v_message_id IS NULL AND p_provider_message_id IS NOT NULL THEN
+        SELECT message_id INTO v_message_id
+        FROM chat_message_receipts
+        WHERE provider_message_id = p_provider_message_id;
+    END IF;
+
+    SELECT * INTO v_message FROM n8n_chat_histories WHERE id = v_message_id;
+
+    IF v_message.id IS NULL THEN
+        RAISE EXCEPTION 'Unknown message: id %, provider id %', p_message_id, p_provider_message_id;
+    END IF;
+
+    IF chat_message_json(v_message.message)->>'type' = 'human' THEN
+        RAISE EXCEPTION 'Message % is not an outbound message', v_message.id;
+    END IF;
+
+    INSERT INTO chat_message_receipts (
+        message_id,
+        session_id,
+        status,
+        provider_message_id,
+        error,
+        sent_at,
+        delivered_at,
+        read_at,
+        failed_at
+    ) VALUES (
+        v_message.id,
+        v_message.session_id,
+        p_status,
+        p_provider_message_id,
+        CASE WHEN p_status = 'failed' THEN p_error END,
+        CASE WHEN p_status = 'sent' THEN v_occurred_at END,
+        CASE WHEN p_status = 'delivered' THEN v_occurred_at END,
+        CASE WHEN p_status = 'read' THEN v_occurred_at END,
+        CASE WHEN p_status = 'failed' THEN v_occurred_at END
+    )
+    ON CONFLICT (message_id)
+    DO UPDATE SET
+        status = CASE
+            WHEN delivery_status_rank(EXCLUDED.status) > delivery_status_rank(chat_message_receipts.status)
+              OR (EXCLUDED.status = 'failed' AND chat_message_receipts.status = 'sent')
+            THEN EXCLUDED.status
+            ELSE chat_message_receipts.status
+        END,
+        provider_message_id = COALESCE(EXCLUDED.provider_message_id, chat_message_receipts.provider_message_id),
+        error = CASE
+            WHEN EXCLUDED.status = 'failed' THEN COALESCE(p_error, chat_message_receipts.error)
+            WHEN delivery_status_rank(EXCLUDED.status) > delivery_status_rank(chat_message_receipts.status) THEN NULL
+            ELSE chat_message_receipts.error
+        END,
+        sent_at = COALESCE(chat_message_receipts.sent_at, EXCLUDED.sent_at),
+        delivered_at = COALESCE(chat_message_receipts.delivered_at, EXCLUDED.delivered_at),
+        read_at = COALESCE(chat_message_receipts.read_at, EXCLUDED.read_at),
+        failed_at = COALESCE(EXCLUDED.failed_at, chat_message_receipts.failed_at),
+        updated_at = NOW()
+    RETURNING * INTO result;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Receipts come from n8n with the service role key, not from agents
+REVOKE EXECUTE ON FUNCTION record_message_receipt(VARCHAR, INTEGER, VARCHAR, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_message_receipt(VARCHAR, INTEGER, VARCHAR, TEXT, TIMESTAMP WITH TIME ZONE) TO service_role;
+
+COMMENT ON TABLE chat_message_receipts IS 'Delivery state of outbound messages as reported by n8n or the messaging provider';
+COMMENT ON FUNCTION record_message_receipt IS 'Records a sent/delivered/read/failed receipt for an outbound message';
@@ -0,0 +1,283 @@
+-- Outbox for the webhook that hands agent replies to n8n. sendMessage used
+-- to POST the reply once and only log a failure, so a reply could be saved
+-- in the dashboard without ever reaching the customer. Every reply now gets
+-- an outbox row: the dashboard makes the first attempt, failed attempts are
+-- retried with exponential backoff, and a delivery that keeps failing ends
+-- in a dead-letter state until an agent retries it.
+
+CREATE TABLE webhook_outbox (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    message_id INTEGER REFERENCES n8n_chat_histories(id) ON DELETE CASCADE,
+    session_id VARCHAR NOT NULL,
+    url TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(12) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'delivering', 'delivered', 'dead')),
+    attempt_count INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 6,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    locked_until TIMESTAMP WITH TIME ZONE, -- An attempt is in flight until then
+    http_request_id BIGINT, -- pg_net request of a scheduled attempt
+    last_status_code INTEGER,
+    last_error TEXT,
+    created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    delivered_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_webhook_outbox_due ON webhook_outbox(next_attempt_at)
+    WHERE status = 'pending';
+CREATE INDEX idx_webhook_outbox_session ON webhook_outbox(session_id, created_at DESC);
+CREATE INDEX idx_webhook_outbox_message ON webhook_outbox(message_id);
+
+-- Every attempt, kept for the admin view
+CREATE TABLE webhook_delivery_attempts (
+    id BIGSERIAL PRIMARY KEY,
+    outbox_id UUID NOT NULL REFERENCES webhook_outbox(id) ON DELETE CASCADE,
+    attempt_number INTEGER NOT NULL,
+    succeeded BOOLEAN NOT NULL,
+    status_code INTEGER,
+    error TEXT,
+    duration_ms INTEGER,
+    source VARCHAR(10) NOT NULL CHECK (source IN ('dashboard', 'scheduler')),
+    attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_delivery_attempts_outbox ON webhook_delivery_attempts(outbox_id, attempt_number);
+
+-- Rows change through the functions below only
+ALTER TABLE webhook_outbox ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_delivery_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users view webhook deliveries" ON webhook_outbox
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users view webhook delivery attempts" ON webhook_delivery_attempts
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE webhook_outbox;
+
+-- Wait before the next attempt: 30 seconds, doubling after every failure,
+-- capped at one hour
+CREATE OR REPLACE FUNCTION webhook_retry_delay(p_attempt_count INTEGER)
+RETURNS INTERVAL AS $$
+    SELECT LEAST(30 * POWER(2, GREATEST(p_attempt_count - 1, 0)), 3600) * INTERVAL '1 second';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Queue the webhook call for a message and claim it for the caller, who
+-- makes the first attempt right away
+CREATE OR REPLACE FUNCTION enqueue_webhook_delivery(
+    p_message_id INTEGER,
+    p_url TEXT,
+    p_payload JSONB
+)
+RETURNS webhook_outbox AS $$
+DECLARE
+    v_session_id VARCHAR;
+    result webhook_outbox;
+BEGIN
+    SELECT session_id INTO v_session_id FROM n8n_chat_histories WHERE id = p_message_id;
+
+    IF v_session_id IS NULL THEN
+        RAISE EXCEPTION 'Unknown message: %', p_message_id;
+    END IF;
+
+    INSERT INTO webhook_outbox (message_id, session_id, url, payload, status, locked_until)
+    VALUES (p_message_id, v_session_id, p_url, p_payload, 'delivering', NOW() + INTERVAL '1 minute')
+    RETURNING * INTO result;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Claim a delivery for an attempt made now, whatever its schedule. Dead
+-- deliveries can be claimed too, that is how an agent retries them.
+CREATE OR REPLACE FUNCTION claim_webhook_delivery(p_outbox_id UUID)
+RETURNS webhook_outbox AS $$
+DECLARE
+    result webhook_outbox;
+BEGIN
+    UPDATE webhook_outbox
+    SET status = 'delivering',
+        locked_until = NOW() + INTERVAL '1 minute',
+        http_request_id = NULL,
+        updated_at = NOW()
+    WHERE id = p_outbox_id
+      AND (
+          status IN ('pending', 'dead')
+          OR (status = 'delivering' AND locked_until < NOW())
+      )
+    RETURNING * INTO result;
+
+    IF result.id IS NULL THEN
+        RAISE EXCEPTION 'Delivery % is already delivered or in progress', p_outbox_id;
+    END IF;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record the result of the attempt in flight. A failure schedules the next
+-- attempt, or moves the delivery to dead once max_attempts is reached.
+CREATE OR REPLACE FUNCTION record_webhook_attempt(
+    p_outbox_id UUID,
+    p_status_code INTEGER,
+    p_error TEXT DEFAULT NULL,
+    p_duration_ms INTEGER DEFAULT NULL,
+    p_source VARCHAR DEFAULT 'dashboard'
+)
+RETURNS webhook_outbox AS $$
+DECLARE
+    v_delivery webhook_outbox;
+    v_attempt INTEGER;
+    v_succeeded BOOLEAN := p_error IS NULL AND p_status_code BETWEEN 200 AND 299;
+    result webhook_outbox;
+BEGIN
+    SELECT * INTO v_delivery FROM webhook_outbox WHERE id = p_outbox_id FOR UPDATE;
+
+    IF v_delivery.id IS NULL THEN
+        RAISE EXCEPTION 'Unknown delivery: %', p_outbox_id;
+    END IF;
+
+    IF v_delivery.status <> 'delivering' THEN
+        RAISE EXCEPTION 'Delivery % has no attempt in flight', p_outbox_id;
+    END IF;
+
+    v_attempt := v_delivery.attempt_count + 1;
+
+    INSERT INTO webhook_delivery_attempts (
+        outbox_id,
+        attempt_number,
+        succeeded,
+        status_code,
+        error,
+        duration_ms,
+        source
+    ) VALUES (
+        p_outbox_id,
+        v_attempt,
+        v_succeeded,
+        p_status_code,
+        p_error,
+        p_duration_ms,
+        p_source
+    );
+
+    UPDATE webhook_outbox
+    SET status = CASE
+            WHEN v_succeeded THEN 'delivered'
+            WHEN v_attempt >= max_attempts THEN 'dead'
+            ELSE 'pending'
+        END,
+        attempt_count = v_attempt,
+        next_attempt_at = NOW() + webhook_retry_delay(v_attempt),
+        locked_until = NULL,
+        http_request_id = NULL,
+        last_status_code = p_status_code,
+        last_error = CASE
+            WHEN v_succeeded THEN NULL
+            ELSE COALESCE(p_error, 'HTTP ' || p_status_code)
+        END,
+        delivered_at = CASE WHEN v_succeeded THEN NOW() END,
+        updated_at = NOW()
+    WHERE id = p_outbox_id
+    RETURNING * INTO result;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Retry due deliveries from the database, run every minute by pg_cron.
+-- Requests go out through pg_net, which answers asynchronously: each run
+-- first records the responses to the requests sent by the previous run,
+-- then sends the deliveries that are due. Returns the number sent.
+CREATE OR REPLACE FUNCTION process_webhook_outbox()
+RETURNS INTEGER AS $$
+DECLARE
+    v_delivery webhook_outbox;
+    v_response RECORD;
+    v_sent INTEGER := 0;
+BEGIN
+    FOR v_delivery IN
+        SELECT * FROM webhook_outbox
+        WHERE status = 'delivering'
+          AND (http_request_id IS NOT NULL OR locked_until < NOW())
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        IF v_delivery.http_request_id IS NULL THEN
+            -- The dashboard claimed it and never reported back (tab closed)
+            PERFORM record_webhook_attempt(v_delivery.id, NULL, 'No result reported by the dashboard', NULL, 'scheduler');
+            CONTINUE;
+        END IF;
+
+        SELECT status_code, error_msg, timed_out INTO v_response
+        FROM net._http_response
+        WHERE id = v_delivery.http_request_id;
+
+        IF FOUND THEN
+            PERFORM record_webhook_attempt(
+                v_delivery.id,
+                v_response.status_code,
+                CASE WHEN v_response.timed_out THEN 'Request timed out' ELSE v_response.error_msg END,
+                NULL,
+                'scheduler'
+            );
+        ELSIF v_delivery.locked_until < NOW() THEN
+            PERFORM record_webhook_attempt(v_delivery.id, NULL, 'No response received', NULL, 'scheduler');
+        END IF;
+    END LOOP;
+
+    FOR v_delivery IN
+        SELECT * FROM webhook_outbox
+        WHERE status = 'pending'
+          AND next_attempt_at <= NOW()
+        ORDER BY next_attempt_at
+        LIMIT 50
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        UPDATE webhook_outbox
+        SET status = 'delivering',
+            locked_until = NOW() + INTERVAL '2 minutes',
+            http_request_id = net.http_post(
+                url := v_delivery.url,
+                body := v_delivery.payload,
+                headers := jsonb_build_object('Content-Type', 'application/json'),
+                timeout_milliseconds := 10000
+            ),
+            updated_at = NOW()
+        WHERE id = v_delivery.id;
+
+        v_sent := v_sent + 1;
+    END LOOP;
+
+    RETURN v_sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION enqueue_webhook_delivery(INTEGER, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION enqueue_webhook_delivery(INTEGER, TEXT, JSONB) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION claim_webhook_delivery(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION claim_webhook_delivery(UUID) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION record_webhook_attempt(UUID, INTEGER, TEXT, INTEGER, VARCHAR) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_webhook_attempt(UUID, INTEGER, TEXT, INTEGER, VARCHAR) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION process_webhook_outbox() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION process_webhook_outbox() TO service_role;
+
+-- Automatic retries need pg_cron and pg_net. Without them, failed deliveries
+-- wait in the outbox for an agent to retry them.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+       AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+        PERFORM cron.schedule('process-webhook-outbox', '* * * * *', 'SELECT process_webhook_outbox()');
+    END IF;
+END $$;
+
+COMMENT ON TABLE webhook_outbox IS 'Webhook calls for outbound messages with retry state: pending, delivering, delivered, dead';
+COMMENT ON TABLE webhook_delivery_attempts IS 'Every attempt made for a webhook_outbox delivery';
+COMMENT ON FUNCTION process_webhook_outbox IS 'Sends due webhook deliveries through pg_net and records the responses';
@@ -0,0 +1,193 @@
+-- Signed and authenticated webhook requests. Replies used to be posted to
+-- n8n as plain JSON, so anyone who learned the webhook URL could inject
+-- traffic. Every request is now signed with HMAC-SHA256 over
+-- "<timestamp>.<body>" using a shared secret that can be rotated, and can
+-- carry a bearer token and custom headers set in Settings → Webhook.
+--
+--   X-Webhook-Timestamp: 1760868000
+--   X-Webhook-Signature: sha256=<hex>[,sha256=<hex signed with the previous secret>]
+--
+-- Headers are built here so the dashboard and the outbox scheduler sign the
+-- exact bytes pg_net sends (the jsonb text form of the payload).
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+INSERT INTO app_settings (key, value)
+VALUES
+    ('webhook_signing_secret', encode(extensions.gen_random_bytes(32), 'hex')),
+    ('webhook_signing_secret_previous', ''), -- Still signed with for a day after a rotation
+    ('webhook_signing_secret_rotated_at', ''),
+    ('webhook_bearer_token', ''),
+    ('webhook_custom_headers', '{}') -- JSON object of header name to value
+ON CONFLICT (key) DO NOTHING;
+
+-- Headers of a webhook request with the given body, signed at the current time
+CREATE OR REPLACE FUNCTION webhook_request_headers(p_body TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_settings JSONB;
+    v_timestamp TEXT := EXTRACT(EPOCH FROM NOW())::BIGINT::TEXT;
+    v_signatures TEXT[] := '{}';
+    v_rotated_at TIMESTAMP WITH TIME ZONE;
+    v_headers JSONB;
+BEGIN
+    SELECT jsonb_object_agg(key, value) INTO v_settings
+    FROM app_settings
+    WHERE key LIKE 'webhook\_%';
+
+    BEGIN
+        v_headers := NULLIF(v_settings->>'webhook_custom_headers', '')::JSONB;
+    EXCEPTION WHEN invalid_text_representation THEN
+        v_headers := NULL;
+    END;
+
+    BEGIN
+        v_rotated_at := NULLIF(v_settings->>'webhook_signing_secret_rotated_at', '')::TIMESTAMP WITH TIME ZONE;
+    EXCEPTION WHEN invalid_datetime_format THEN
+        v_rotated_at := NULL;
+    END;
+
+    IF v_headers IS NULL OR jsonb_typeof(v_headers) <> 'object' THEN
+        v_headers := '{}';
+    END IF;
+
+    -- Custom headers never replace the ones below
+    v_headers := v_headers || jsonb_build_object('Content-Type', 'application/json');
+
+    IF COALESCE(v_settings->>'webhook_bearer_token', '') <> '' THEN
+        v_headers := v_headers || jsonb_build_object('Authorization', 'Bearer ' || (v_settings->>'webhook_bearer_token'));
+    END IF;
+
+    IF COALESCE(v_settings->>'webhook_signing_secret', '') <> '' THEN
+        v_signatures := v_signatures || ('sha256=' || encode(
+            extensions.hmac(v_timestamp || '.' || p_body, v_settings->>'webhook_signing_secret', 'sha256'),
+            'hex'
+        ));
+
+        -- Receivers still configured with the previous secret keep working
+        -- for a day after a rotation
+        IF COALESCE(v_settings->>'webhook_signing_secret_previous', '') <> ''
+           AND v_rotated_at > NOW() - INTERVAL '24 hours' THEN
+            v_signatures := v_signatures || ('sha256=' || encode(
+                extensions.hmac(v_timestamp || '.' || p_body, v_settings->>'webhook_signing_secret_previous', 'sha256'),
+                'hex'
+            ));
+        END IF;
+
+        v_headers := v_headers || jsonb_build_object(
+            'X-Webhook-Timestamp', v_timestamp,
+            'X-Webhook-Signature', array_to_string(v_signatures, ',')
+        );
+    END IF;
+
+    RETURN v_headers;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Body and headers the dashboard sends for a payload. The body is the text
+-- form of the jsonb, which is what the signature covers.
+CREATE OR REPLACE FUNCTION sign_webhook_payload(p_payload JSONB)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'body', p_payload::TEXT,
+        'headers', webhook_request_headers(p_payload::TEXT)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Replace the signing secret, keeping the current one as the previous
+-- secret. Returns the new secret.
+CREATE OR REPLACE FUNCTION rotate_webhook_signing_secret()
+RETURNS TEXT AS $$
+DECLARE
+    v_current TEXT;
+    v_secret TEXT := encode(extensions.gen_random_bytes(32), 'hex');
+BEGIN
+    SELECT value INTO v_current FROM app_settings WHERE key = 'webhook_signing_secret';
+
+    INSERT INTO app_settings (key, value)
+    VALUES
+        ('webhook_signing_secret', v_secret),
+        ('webhook_signing_secret_previous', COALESCE(v_current, '')),
+        ('webhook_signing_secret_rotated_at', NOW()::TEXT)
+    ON CONFLICT (key)
+    DO UPDATE SET
+        value = EXCLUDED.value,
+        updated_at = NOW();
+
+    RETURN v_secret;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION webhook_request_headers(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION webhook_request_headers(TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION sign_webhook_payload(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION sign_webhook_payload(JSONB) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION rotate_webhook_signing_secret() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION rotate_webhook_signing_secret() TO authenticated, service_role;
+
+-- Scheduled retries are signed too
+CREATE OR REPLACE FUNCTION process_webhook_outbox()
+RETURNS INTEGER AS $$
+DECLARE
+    v_delivery webhook_outbox;
+    v_response RECORD;
+    v_sent INTEGER := 0;
+BEGIN
+    FOR v_delivery IN
+        SELECT * FROM webhook_outbox
+        WHERE status = 'delivering'
+          AND (http_request_id IS NOT NULL OR locked_until < NOW())
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        IF v_delivery.http_request_id IS NULL THEN
+            -- The dashboard claimed it and never reported back (tab closed)
+            PERFORM record_webhook_attempt(v_delivery.id, NULL, 'No result reported by the dashboard', NULL, 'scheduler');
+            CONTINUE;
+        END IF;
+
+        SELECT status_code, error_msg, timed_out INTO v_response
+        FROM net._http_response
+        WHERE id = v_delivery.http_request_id;
+
+        IF FOUND THEN
+            PERFORM record_webhook_attempt(
+                v_delivery.id,
+                v_response.status_code,
+                CASE WHEN v_response.timed_out THEN 'Request timed out' ELSE v_response.error_msg END,
+                NULL,
+                'scheduler'
+            );
+        ELSIF v_delivery.locked_until < NOW() THEN
+            PERFORM record_webhook_attempt(v_delivery.id, NULL, 'No response received', NULL, 'scheduler');
+        END IF;
+    END LOOP;
+
+    FOR v_delivery IN
+        SELECT * FROM webhook_outbox
+        WHERE status = 'pending'
+          AND next_attempt_at <= NOW()
+        ORDER BY next_attempt_at
+        LIMIT 50
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        UPDATE webhook_outbox
+        SET status = 'delivering',
+            locked_until = NOW() + INTERVAL '2 minutes',
+            http_request_id = net.http_post(
+                url := v_delivery.url,
+                body := v_delivery.payload,
+                headers := webhook_request_headers(v_delivery.payload::TEXT),
+                timeout_milliseconds := 10000
+            ),
+            updated_at = NOW()
+        WHERE id = v_delivery.id;
+
+        v_sent := v_sent + 1;
+    END LOOP;
+
+    RETURN v_sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION webhook_request_headers IS 'Content-Type, bearer token, custom headers and HMAC-SHA256 signature headers for a webhook body';
+COMMENT ON FUNCTION rotate_webhook_signing_secret IS 'Generates a new webhook signing secret; the previous one stays valid for 24 hours';
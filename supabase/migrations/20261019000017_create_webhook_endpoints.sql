@@ -0,0 +1,275 @@
+-- Webhook registry. A single `webhook_url` setting used to receive the
+-- outbound messages and serve the contact list, so one n8n endpoint had to
+-- do everything. Any number of endpoints can now be registered, each with
+-- the event types it receives and optionally the platforms it is limited
+-- to. Every delivery records its endpoint, which gives each endpoint its
+-- own history.
+--
+-- Event types:
+--   message.outbound       an agent reply (sent by the dashboard)
+--   conversation.resolved  a conversation moved to resolved
+--   conversation.assigned  a conversation assigned to an agent
+--   contacts.fetch         GET request answered with the contact list
+
+CREATE TABLE webhook_endpoints (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    url TEXT NOT NULL,
+    event_types TEXT[] NOT NULL
+        CHECK (
+            cardinality(event_types) > 0
+            AND event_types <@ ARRAY['message.outbound', 'conversation.resolved', 'conversation.assigned', 'contacts.fetch']
+        ),
+    platforms TEXT[] NOT NULL DEFAULT '{}' -- Empty means every platform
+        CHECK (platforms <@ ARRAY['whatsapp', 'instagram', 'facebook']),
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_endpoints_event_types ON webhook_endpoints USING GIN(event_types);
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users manage webhook endpoints" ON webhook_endpoints
+    FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+-- The existing URL becomes the first endpoint, with what it served so far
+INSERT INTO webhook_endpoints (name, url, event_types, created_by)
+SELECT 'n8n', value, ARRAY['message.outbound', 'contacts.fetch'], NULL
+FROM app_settings
+WHERE key = 'webhook_url'
+  AND COALESCE(value, '') <> '';
+
+-- Deliveries belong to an endpoint and an event. Events that are not about
+-- a conversation (a test request) have no session.
+ALTER TABLE webhook_outbox
+    ADD COLUMN endpoint_id UUID REFERENCES webhook_endpoints(id) ON DELETE SET NULL,
+    ADD COLUMN event_type VARCHAR(40) NOT NULL DEFAULT 'message.outbound',
+    ALTER COLUMN session_id DROP NOT NULL;
+
+CREATE INDEX idx_webhook_outbox_endpoint ON webhook_outbox(endpoint_id, created_at DESC);
+
+UPDATE webhook_outbox o
+SET endpoint_id = e.id
+FROM webhook_endpoints e
+WHERE o.url = e.url;
+
+DROP FUNCTION IF EXISTS enqueue_webhook_delivery(INTEGER, TEXT, JSONB);
+
+-- Queue an event for every enabled endpoint subscribed to it, or for one
+-- endpoint when p_endpoint_id is given (test requests). Endpoints limited
+-- to some platforms only receive events of sessions on those platforms.
+-- With p_claim the rows are claimed for the caller, who makes the first
+-- attempt right away; otherwise the scheduler sends them.
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(
+    p_event_type VARCHAR,
+    p_payload JSONB,
+    p_session_id VARCHAR DEFAULT NULL,
+    p_message_id INTEGER DEFAULT NULL,
+    p_platform VARCHAR DEFAULT NULL,
+    p_endpoint_id UUID DEFAULT NULL,
+    p_claim BOOLEAN DEFAULT TRUE
+)
+RETURNS SETOF webhook_outbox AS $$
+DECLARE
+    v_platform VARCHAR := p_platform;
+BEGIN
+    IF v_platform IS NULL AND p_session_id IS NOT NULL THEN
+        SELECT platform INTO v_platform FROM chat_session_state WHERE session_id = p_session_id;
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO webhook_outbox (
+        endpoint_id,
+        event_type,
+        message_id,
+        session_id,
+        url,
+        payload,
+        status,
+        locked_until
+    )
+    SELECT
+        e.id,
+        p_event_type,
+        p_message_id,
+        p_session_id,
+        e.url,
+        jsonb_build_object('event', p_event_type) || p_payload,
+        CASE WHEN p_claim THEN 'delivering' ELSE 'pending' END,
+        CASE WHEN p_claim THEN NOW() + INTERVAL '1 minute' END
+    FROM webhook_endpoints e
+    WHERE CASE
+        WHEN p_endpoint_id IS NOT NULL THEN e.id = p_endpoint_id
+        ELSE e.enabled
+            AND p_event_type = ANY(e.event_types)
+            AND (cardinality(e.platforms) = 0 OR v_platform = ANY(e.platforms))
+    END
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION enqueue_webhook_event(VARCHAR, JSONB, VARCHAR, INTEGER, VARCHAR, UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION enqueue_webhook_event(VARCHAR, JSONB, VARCHAR, INTEGER, VARCHAR, UUID, BOOLEAN) TO authenticated, service_role;
+
+-- Retries go to the current URL of the endpoint, so fixing a wrong URL and
+-- retrying dead deliveries works
+CREATE OR REPLACE FUNCTION claim_webhook_delivery(p_outbox_id UUID)
+RETURNS webhook_outbox AS $$
+DECLARE
+    result webhook_outbox;
+BEGIN
+    UPDATE webhook_outbox o
+    SET status = 'delivering',
+        locked_until = NOW() + INTERVAL '1 minute',
+        http_request_id = NULL,
+        url = COALESCE((SELECT e.url FROM webhook_endpoints e WHERE e.id = o.endpoint_id), o.url),
+        updated_at = NOW()
+    WHERE o.id = p_outbox_id
+      AND (
+          o.status IN ('pending', 'dead')
+          OR (o.status = 'delivering' AND o.locked_until < NOW())
+      )
+    RETURNING o.* INTO result;
+
+    IF result.id IS NULL THEN
+        RAISE EXCEPTION 'Delivery % is already delivered or in progress', p_outbox_id;
+    END IF;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION process_webhook_outbox()
+RETURNS INTEGER AS $$
+DECLARE
+    v_delivery webhook_outbox;
+    v_response RECORD;
+    v_url TEXT;
+    v_sent INTEGER := 0;
+BEGIN
+    FOR v_delivery IN
+        SELECT * FROM webhook_outbox
+        WHERE status = 'delivering'
+          AND (http_request_id IS NOT NULL OR locked_until < NOW())
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        IF v_delivery.http_request_id IS NULL THEN
+            -- The dashboard claimed it and never reported back (tab closed)
+            PERFORM record_webhook_attempt(v_delivery.id, NULL, 'No result reported by the dashboard', NULL, 'scheduler');
+            CONTINUE;
+        END IF;
+
+        SELECT status_code, error_msg, timed_out INTO v_response
+        FROM net._http_response
+        WHERE id = v_delivery.http_request_id;
+
+        IF FOUND THEN
+            PERFORM record_webhook_attempt(
+                v_delivery.id,
+                v_response.status_code,
+                CASE WHEN v_response.timed_out THEN 'Request timed out' ELSE v_response.error_msg END,
+                NULL,
+                'scheduler'
+            );
+        ELSIF v_delivery.locked_until < NOW() THEN
+            PERFORM record_webhook_attempt(v_delivery.id, NULL, 'No response received', NULL, 'scheduler');
+        END IF;
+    END LOOP;
+
+    FOR v_delivery IN
+        SELECT * FROM webhook_outbox
+        WHERE status = 'pending'
+          AND next_attempt_at <= NOW()
+        ORDER BY next_attempt_at
+        LIMIT 50
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        v_url := COALESCE(
+            (SELECT url FROM webhook_endpoints WHERE id = v_delivery.endpoint_id),
+            v_delivery.url
+        );
+
+        UPDATE webhook_outbox
+        SET status = 'delivering',
+            locked_until = NOW() + INTERVAL '2 minutes',
+            url = v_url,
+            http_request_id = net.http_post(
+                url := v_url,
+                body := v_delivery.payload,
+                headers := webhook_request_headers(v_delivery.payload::TEXT),
+                timeout_milliseconds := 10000
+            ),
+            updated_at = NOW()
+        WHERE id = v_delivery.id;
+
+        v_sent := v_sent + 1;
+    END LOOP;
+
+    RETURN v_sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Conversation events come from the database, so changes made by n8n or by
+-- auto-assignment are sent as well. The scheduler delivers them.
+CREATE OR REPLACE FUNCTION queue_conversation_resolved_webhook()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.to_status = 'resolved' THEN
+        PERFORM enqueue_webhook_event(
+            'conversation.resolved',
+            jsonb_build_object(
+                'session_id', NEW.session_id,
+                'from_status', NEW.from_status,
+                'resolved_by', NEW.changed_by,
+                'timestamp', NEW.created_at
+            ),
+            NEW.session_id,
+            p_claim := FALSE
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_queue_conversation_resolved_webhook
+    AFTER INSERT ON chat_session_status_events
+    FOR EACH ROW
+    EXECUTE FUNCTION queue_conversation_resolved_webhook();
+
+CREATE OR REPLACE FUNCTION queue_conversation_assigned_webhook()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.assigned_to IS NOT NULL
+       AND (TG_OP = 'INSERT' OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to) THEN
+        PERFORM enqueue_webhook_event(
+            'conversation.assigned',
+            jsonb_build_object(
+                'session_id', NEW.session_id,
+                'assigned_to', NEW.assigned_to,
+                'assigned_by', NEW.assigned_by,
+                'timestamp', COALESCE(NEW.assigned_at, NOW())
+            ),
+            NEW.session_id,
+            p_platform := NEW.platform,
+            p_claim := FALSE
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_queue_conversation_assigned_webhook
+    AFTER INSERT OR UPDATE OF assigned_to ON chat_session_state
+    FOR EACH ROW
+    EXECUTE FUNCTION queue_conversation_assigned_webhook();
+
+COMMENT ON TABLE webhook_endpoints IS 'Registered webhook endpoints with the event types and platforms they receive';
+COMMENT ON COLUMN webhook_outbox.event_type IS 'Event of the delivery: message.outbound, conversation.resolved, conversation.assigned, webhook.test';
@@ -0,0 +1,150 @@
+-- Scheduled messages: agents write a reply now and pick when it goes out
+-- (e.g. "saya kabari besok jam 9"). Messages wait here until they are due
+-- and are then dispatched by the database, so they go out even when every
+-- dashboard is closed. Dispatching does what sendMessage does: the reply is
+-- written to n8n_chat_histories, counted as an agent reply for the bot
+-- takeover, and queued as a message.outbound webhook event.
+
+CREATE TABLE scheduled_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id VARCHAR NOT NULL,
+    content TEXT NOT NULL CHECK (LENGTH(TRIM(content)) > 0),
+    send_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(10) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'sent', 'cancelled', 'failed')),
+    message_id INTEGER REFERENCES n8n_chat_histories(id) ON DELETE SET NULL, -- The message written when it went out
+    last_error TEXT,
+    created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    sent_at TIMESTAMP WITH TIME ZONE,
+    cancelled_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_scheduled_messages_due ON scheduled_messages(send_at)
+    WHERE status = 'pending';
+CREATE INDEX idx_scheduled_messages_session ON scheduled_messages(session_id, send_at);
+
+ALTER TABLE scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+-- Any agent can see, edit or cancel a message until it has gone out.
+-- Sending is left to dispatch_scheduled_messages.
+CREATE POLICY "Authenticated users view scheduled messages" ON scheduled_messages
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users schedule messages" ON scheduled_messages
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (status = 'pending' AND created_by = auth.uid());
+
+CREATE POLICY "Authenticated users edit or cancel unsent scheduled messages" ON scheduled_messages
+    FOR UPDATE
+    TO authenticated
+    USING (status IN ('pending', 'failed'))
+    WITH CHECK (status IN ('pending', 'cancelled'));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE scheduled_messages;
+
+-- Send the scheduled messages that are due, run every minute by pg_cron.
+-- Rows are locked while they are sent, so an agent editing a message at the
+-- same time either changes it before it goes out or finds it already sent.
+CREATE OR REPLACE FUNCTION dispatch_scheduled_messages()
+RETURNS INTEGER AS $$
+DECLARE
+    v_scheduled scheduled_messages;
+    v_platform VARCHAR;
+    v_content JSONB;
+    v_message_id INTEGER;
+    v_state chat_session_state;
+    v_sent INTEGER := 0;
+BEGIN
+    FOR v_scheduled IN
+        SELECT *
+        FROM scheduled_messages
+        WHERE status = 'pending'
+          AND send_at <= NOW()
+        ORDER BY send_at
+        LIMIT 100
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        BEGIN
+            -- Reply on the channel stored for the session, like sendMessage
+            SELECT platform INTO v_platform
+            FROM chat_session_state
+            WHERE session_id = v_scheduled.session_id;
+            v_platform := COALESCE(v_platform, 'whatsapp');
+
+            v_content := jsonb_build_object(
+                'content', v_scheduled.content,
+                'type', 'ai',
+                'timestamp', NOW(),
+                'trigger', v_platform
+            );
+
+            INSERT INTO n8n_chat_histories (session_id, message)
+            VALUES (v_scheduled.session_id, v_content)
+            RETURNING id INTO v_message_id;
+
+            v_state := record_agent_reply(v_scheduled.session_id);
+
+            PERFORM enqueue_webhook_event(
+                'message.outbound',
+                jsonb_build_object(
+                    'session_id', v_scheduled.session_id,
+                    'message_id', v_message_id,
+                    'message', v_content,
+                    'timestamp', v_content->'timestamp',
+                    'bot_paused', is_bot_paused(v_state),
+                    'bot_paused_until', v_state.bot_paused_until,
+                    'scheduled_message_id', v_scheduled.id
+                ),
+                v_scheduled.session_id,
+                v_message_id,
+                v_platform,
+                p_claim := FALSE
+            );
+
+            UPDATE scheduled_messages
+            SET status = 'sent',
+                message_id = v_message_id,
+                last_error = NULL,
+                sent_at = NOW(),
+                updated_at = NOW()
+            WHERE id = v_scheduled.id;
+
+            v_sent := v_sent + 1;
+        EXCEPTION WHEN OTHERS THEN
+            UPDATE scheduled_messages
+            SET status = 'failed',
+                last_error = SQLERRM,
+                updated_at = NOW()
+            WHERE id = v_scheduled.id;
+        END;
+    END LOOP;
+
+    -- Hand the replies to the webhook now instead of on the next outbox run
+    IF v_sent > 0 THEN
+        PERFORM process_webhook_outbox();
+    END IF;
+
+    RETURN v_sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION dispatch_scheduled_messages() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION dispatch_scheduled_messages() TO service_role;
+
+-- Dispatching needs pg_cron, and pg_net to reach the webhook. Without them,
+-- scheduled messages stay pending.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+       AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+        PERFORM cron.schedule('dispatch-scheduled-messages', '* * * * *', 'SELECT dispatch_scheduled_messages()');
+    END IF;
+END $$;
+
+COMMENT ON TABLE scheduled_messages IS 'Agent replies to send at a later time: pending, sent, cancelled, failed';
+COMMENT ON FUNCTION dispatch_scheduled_messages IS 'Sends the scheduled messages that are due through the message.outbound webhook event';
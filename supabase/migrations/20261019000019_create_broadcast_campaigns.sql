@@ -0,0 +1,408 @@
+-- Broadcast campaigns: one message sent to a segment of contacts (e.g. all
+-- VIP contacts) without opening each chat. Contacts live in Airtable and are
+-- only known to the dashboard, so the audience is resolved and every message
+-- rendered when the campaign is created; each recipient gets a row with its
+-- final text. The database then sends a few recipients per minute through the
+-- same message.outbound webhook event as agent replies, and links the next
+-- customer message of each recipient back to the campaign.
+
+CREATE TABLE broadcast_campaigns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(120) NOT NULL CHECK (LENGTH(TRIM(name)) > 0),
+    template TEXT NOT NULL CHECK (LENGTH(TRIM(template)) > 0),
+    segment JSONB NOT NULL DEFAULT '{}', -- Filters the audience was picked with, for display
+    status VARCHAR(10) NOT NULL DEFAULT 'draft'
+        CHECK (status IN ('draft', 'sending', 'paused', 'completed', 'cancelled')),
+    send_rate INTEGER NOT NULL DEFAULT 20 CHECK (send_rate BETWEEN 1 AND 60), -- Messages per minute
+    recipient_count INTEGER NOT NULL DEFAULT 0,
+    created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_broadcast_campaigns_sending ON broadcast_campaigns(started_at)
+    WHERE status = 'sending';
+
+CREATE TABLE broadcast_recipients (
+    id BIGSERIAL PRIMARY KEY,
+    campaign_id UUID NOT NULL REFERENCES broadcast_campaigns(id) ON DELETE CASCADE,
+    session_id VARCHAR NOT NULL, -- Normalized phone number, as used by the chat sessions
+    contact_id VARCHAR, -- Airtable record id
+    contact_name VARCHAR,
+    content TEXT NOT NULL, -- Template rendered with the contact fields
+    status VARCHAR(10) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+    message_id INTEGER REFERENCES n8n_chat_histories(id) ON DELETE SET NULL,
+    error TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    replied_at TIMESTAMP WITH TIME ZONE,
+    reply_message_id INTEGER REFERENCES n8n_chat_histories(id) ON DELETE SET NULL,
+    UNIQUE (campaign_id, session_id)
+);
+
+CREATE INDEX idx_broadcast_recipients_pending ON broadcast_recipients(campaign_id, id)
+    WHERE status = 'pending';
+CREATE INDEX idx_broadcast_recipients_awaiting_reply ON broadcast_recipients(session_id, sent_at DESC)
+    WHERE status = 'sent' AND replied_at IS NULL;
+
+ALTER TABLE broadcast_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE broadcast_recipients ENABLE ROW LEVEL SECURITY;
+
+-- Agents create and control campaigns; recipients are only added while the
+-- campaign is a draft and are updated by the dispatcher afterwards
+CREATE POLICY "Authenticated users view broadcast campaigns" ON broadcast_campaigns
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users create broadcast campaigns" ON broadcast_campaigns
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (status = 'draft' AND created_by = auth.uid());
+
+CREATE POLICY "Authenticated users control broadcast campaigns" ON broadcast_campaigns
+    FOR UPDATE
+    TO authenticated
+    USING (status NOT IN ('completed', 'cancelled'))
+    WITH CHECK (status IN ('draft', 'sending', 'paused', 'cancelled'));
+
+CREATE POLICY "Authenticated users delete draft broadcast campaigns" ON broadcast_campaigns
+    FOR DELETE
+    TO authenticated
+    USING (status = 'draft');
+
+CREATE POLICY "Authenticated users view broadcast recipients" ON broadcast_recipients
+    FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Authenticated users add recipients to draft campaigns" ON broadcast_recipients
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        status = 'pending'
+        AND EXISTS (
+            SELECT 1 FROM broadcast_campaigns c
+            WHERE c.id = campaign_id AND c.status = 'draft'
+        )
+    );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE broadcast_campaigns;
+
+-- Keep recipient_count in step with the recipients added to a draft
+CREATE OR REPLACE FUNCTION count_broadcast_recipients()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE broadcast_campaigns c
+    SET recipient_count = (
+            SELECT COUNT(*) FROM broadcast_recipients r WHERE r.campaign_id = c.id
+        ),
+        updated_at = NOW()
+    WHERE c.id IN (SELECT DISTINCT campaign_id FROM added_recipients);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_count_broadcast_recipients
+    AFTER INSERT ON broadcast_recipients
+    REFERENCING NEW TABLE AS added_recipients
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION count_broadcast_recipients();
+
+-- Write an outbound message and queue it for the webhook, the database side
+-- of sendMessage. Replies on the stored platform of the session and counts as
+-- an agent reply for the bot takeover unless p_agent_reply is false. Extra
+-- payload fields are merged into the webhook payload. Returns the message id.
+CREATE OR REPLACE FUNCTION queue_outbound_message(
+    p_session_id VARCHAR,
+    p_content TEXT,
+    p_payload JSONB DEFAULT '{}',
+    p_agent_reply BOOLEAN DEFAULT TRUE
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_platform VARCHAR;
+    v_content JSONB;
+    v_message_id INTEGER;
+    v_state chat_session_state;
+BEGIN
+    SELECT platform INTO v_platform
+    FROM chat_session_state
+    WHERE session_id = p_session_id;
+    v_platform := COALESCE(v_platform, 'whatsapp');
+
+    v_content := jsonb_build_object(
+        'content', p_content,
+        'type', 'ai',
+        'timestamp', NOW(),
+        'trigger', v_platform
+    );
+
+    INSERT INTO n8n_chat_histories (session_id, message)
+    VALUES (p_session_id, v_content)
+    RETURNING id INTO v_message_id;
+
+    IF p_agent_reply THEN
+        v_state := record_agent_reply(p_session_id);
+    ELSE
+        SELECT * INTO v_state
+        FROM chat_session_state
+        WHERE session_id = p_session_id;
+    END IF;
+
+    PERFORM enqueue_webhook_event(
+        'message.outbound',
+        jsonb_build_object(
+            'session_id', p_session_id,
+            'message_id', v_message_id,
+            'message', v_content,
+            'timestamp', v_content->'timestamp',
+            'bot_paused', COALESCE(is_bot_paused(v_state), FALSE),
+            'bot_paused_until', v_state.bot_paused_until
+        ) || COALESCE(p_payload, '{}'),
+        p_session_id,
+        v_message_id,
+        v_platform,
+        p_claim := FALSE
+    );
+
+    RETURN v_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_outbound_message(VARCHAR, TEXT, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION queue_outbound_message(VARCHAR, TEXT, JSONB, BOOLEAN) TO service_role;
+
+-- Scheduled messages now go through queue_outbound_message as well
+CREATE OR REPLACE FUNCTION dispatch_scheduled_messages()
+RETURNS INTEGER AS $$
+DECLARE
+    v_scheduled scheduled_messages;
+    v_message_id INTEGER;
+    v_sent INTEGER := 0;
+BEGIN
+    FOR v_scheduled IN
+        SELECT *
+        FROM scheduled_messages
+        WHERE status = 'pending'
+          AND send_at <= NOW()
+        ORDER BY send_at
+        LIMIT 100
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        BEGIN
+            v_message_id := queue_outbound_message(
+                v_scheduled.session_id,
+                v_scheduled.content,
+                jsonb_build_object('scheduled_message_id', v_scheduled.id)
+            );
+
+            UPDATE scheduled_messages
+            SET status = 'sent',
+                message_id = v_message_id,
+                last_error = NULL,
+                sent_at = NOW(),
+                updated_at = NOW()
+            WHERE id = v_scheduled.id;
+
+            v_sent := v_sent + 1;
+        EXCEPTION WHEN OTHERS THEN
+            UPDATE scheduled_messages
+            SET status = 'failed',
+                last_error = SQLERRM,
+                updated_at = NOW()
+            WHERE id = v_scheduled.id;
+        END;
+    END LOOP;
+
+    -- Hand the replies to the webhook now instead of on the next outbox run
+    IF v_sent > 0 THEN
+        PERFORM process_webhook_outbox();
+    END IF;
+
+    RETURN v_sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Send the next recipients of every running campaign, run every minute by
+-- pg_cron. Each run sends at most send_rate messages per campaign, which
+-- keeps a large broadcast from flooding the webhook or the WhatsApp number.
+CREATE OR REPLACE FUNCTION dispatch_broadcast_campaigns()
+RETURNS INTEGER AS $$
+DECLARE
+    v_campaign broadcast_campaigns;
+    v_recipient broadcast_recipients;
+    v_message_id INTEGER;
+    v_sent INTEGER := 0;
+BEGIN
+    FOR v_campaign IN
+        SELECT *
+        FROM broadcast_campaigns
+        WHERE status = 'sending'
+        ORDER BY started_at
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        FOR v_recipient IN
+            SELECT *
+            FROM broadcast_recipients
+            WHERE campaign_id = v_campaign.id
+              AND status = 'pending'
+            ORDER BY id
+            LIMIT v_campaign.send_rate
+            FOR UPDATE SKIP LOCKED
+        LOOP
+            BEGIN
+                -- A broadcast is not an agent taking over the conversation
+                v_message_id := queue_outbound_message(
+                    v_recipient.session_id,
+                    v_recipient.content,
+                    jsonb_build_object(
+                        'campaign_id', v_campaign.id,
+                        'broadcast_recipient_id', v_recipient.id
+                    ),
+                    FALSE
+                );
+
+                UPDATE broadcast_recipients
+                SET status = 'sent',
+                    message_id = v_message_id,
+                    error = NULL,
+                    sent_at = NOW()
+                WHERE id = v_recipient.id;
+
+                v_sent := v_sent + 1;
+            EXCEPTION WHEN OTHERS THEN
+                UPDATE broadcast_recipients
+                SET status = 'failed',
+                    error = SQLERRM
+                WHERE id = v_recipient.id;
+            END;
+        END LOOP;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM broadcast_recipients
+            WHERE campaign_id = v_campaign.id AND status = 'pending'
+        ) THEN
+            UPDATE broadcast_campaigns
+            SET status = 'completed',
+                completed_at = NOW(),
+                updated_at = NOW()
+            WHERE id = v_campaign.id;
+        END IF;
+    END LOOP;
+
+    IF v_sent > 0 THEN
+        PERFORM process_webhook_outbox();
+    END IF;
+
+    RETURN v_sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION dispatch_broadcast_campaigns() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION dispatch_broadcast_campaigns() TO service_role;
+
+-- Recipients of a cancelled campaign that were not reached yet are skipped
+CREATE OR REPLACE FUNCTION skip_cancelled_broadcast_recipients()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE broadcast_recipients
+    SET status = 'skipped'
+    WHERE campaign_id = NEW.id
+      AND status = 'pending';
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_skip_cancelled_broadcast_recipients
+    AFTER UPDATE OF status ON broadcast_campaigns
+    FOR EACH ROW
+    WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+    EXECUTE FUNCTION skip_cancelled_broadcast_recipients();
+
+-- A customer message within 7 days of a broadcast counts as a reply to it.
+-- Only the first reply to the latest broadcast the customer got is linked.
+CREATE OR REPLACE FUNCTION record_broadcast_reply()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF chat_message_json(NEW.message)->>'type' IS DISTINCT FROM 'human' THEN
+        RETURN NEW;
+    END IF;
+
+    UPDATE broadcast_recipients
+    SET replied_at = COALESCE(NEW.created_at, NOW()),
+        reply_message_id = NEW.id
+    WHERE id = (
+        SELECT r.id
+        FROM broadcast_recipients r
+        WHERE r.session_id = NEW.session_id
+          AND r.status = 'sent'
+          AND r.sent_at >= NOW() - INTERVAL '7 days'
+        ORDER BY r.sent_at DESC
+        LIMIT 1
+    )
+      AND replied_at IS NULL;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER trigger_record_broadcast_reply
+    AFTER INSERT ON n8n_chat_histories
+    FOR EACH ROW
+    EXECUTE FUNCTION record_broadcast_reply();
+
+-- Recipients with the delivery receipt of their message, for the results view
+CREATE OR REPLACE VIEW broadcast_recipient_overview
+WITH (security_invoker = true) AS
+SELECT
+    r.id,
+    r.campaign_id,
+    r.session_id,
+    r.contact_id,
+    r.contact_name,
+    r.content,
+    r.status,
+    r.message_id,
+    r.error,
+    r.sent_at,
+    r.replied_at,
+    r.reply_message_id,
+    rc.status AS delivery_status,
+    rc.error AS delivery_error
+FROM broadcast_recipients r
+LEFT JOIN chat_message_receipts rc ON rc.message_id = r.message_id;
+
+-- Per campaign totals for the campaign list
+CREATE OR REPLACE VIEW broadcast_campaign_overview
+WITH (security_invoker = true) AS
+SELECT
+    c.*,
+    COUNT(r.id) FILTER (WHERE r.status = 'pending')::INTEGER AS pending_count,
+    COUNT(r.id) FILTER (WHERE r.status = 'sent')::INTEGER AS sent_count,
+    COUNT(r.id) FILTER (WHERE r.status = 'failed' OR r.delivery_status = 'failed')::INTEGER AS failed_count,
+    COUNT(r.id) FILTER (WHERE r.delivery_status IN ('delivered', 'read'))::INTEGER AS delivered_count,
+    COUNT(r.id) FILTER (WHERE r.delivery_status = 'read')::INTEGER AS read_count,
+    COUNT(r.id) FILTER (WHERE r.replied_at IS NOT NULL)::INTEGER AS replied_count
+FROM broadcast_campaigns c
+LEFT JOIN broadcast_recipient_overview r ON r.campaign_id = c.id
+GROUP BY c.id;
+
+-- Sending needs pg_cron, and pg_net to reach the webhook. Without them,
+-- started campaigns stay in the sending state.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+       AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+        PERFORM cron.schedule('dispatch-broadcast-campaigns', '* * * * *', 'SELECT dispatch_broadcast_campaigns()');
+    END IF;
+END $$;
+
+COMMENT ON TABLE broadcast_campaigns IS 'Messages sent to a segment of contacts: draft, sending, paused, completed, cancelled';
+COMMENT ON TABLE broadcast_recipients IS 'One row per contact of a broadcast with the rendered message, its result and the reply';
+COMMENT ON FUNCTION dispatch_broadcast_campaigns IS 'Sends up to send_rate recipients of every running campaign through the message.outbound webhook event';
+COMMENT ON VIEW broadcast_campaign_overview IS 'broadcast_campaigns with sent, delivered, read, failed and replied totals';
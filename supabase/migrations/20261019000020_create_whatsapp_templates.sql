@@ -0,0 +1,44 @@
+-- WhatsApp 24-hour customer service window. WhatsApp Business only accepts
+-- free-form replies within 24 hours of the customer's last message; after
+-- that only approved template messages go through. The dashboard reads the
+-- time of the last customer message to show the window and block free-form
+-- replies, and keeps the approved templates agents can send instead.
+
+CREATE TABLE whatsapp_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(512) NOT NULL CHECK (name ~ '^[a-z0-9_]+$'), -- Template name as registered with WhatsApp
+    language VARCHAR(10) NOT NULL DEFAULT 'id', -- WhatsApp language code, e.g. id, en_US
+    category VARCHAR(20) NOT NULL DEFAULT 'UTILITY'
+        CHECK (category IN ('MARKETING', 'UTILITY', 'AUTHENTICATION')),
+    body TEXT NOT NULL CHECK (LENGTH(TRIM(body)) > 0), -- Body with {{1}}, {{2}}... parameters
+    parameter_labels TEXT[] NOT NULL DEFAULT '{}', -- Label of each parameter, a contact field name prefills it
+    status VARCHAR(10) NOT NULL DEFAULT 'approved'
+        CHECK (status IN ('approved', 'pending', 'rejected', 'paused')),
+    created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (name, language)
+);
+
+ALTER TABLE whatsapp_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users manage WhatsApp templates" ON whatsapp_templates
+    FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+-- Time of the last message the customer sent in a session, NULL when they
+-- never wrote. The 24-hour window runs from there.
+CREATE OR REPLACE FUNCTION get_last_customer_message_at(p_session_id VARCHAR)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+    SELECT h.created_at
+    FROM n8n_chat_histories h
+    WHERE h.session_id = p_session_id
+      AND chat_message_json(h.message)->>'type' = 'human'
+    ORDER BY h.created_at DESC, h.id DESC
+    LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON TABLE whatsapp_templates IS 'Approved WhatsApp template messages, the only messages allowed outside the 24-hour window';
+COMMENT ON FUNCTION get_last_customer_message_at IS 'Start of the WhatsApp 24-hour window of a session';
@@ -0,0 +1,172 @@
+-- Customer profiles: one person behind several sessions. The same customer
+-- often writes from WhatsApp and Instagram, which arrive as unrelated
+-- session ids. A customer groups them, either linked automatically through
+-- the Airtable contact whose phone or email matches the session, or merged
+-- by an agent. Each session belongs to at most one customer.
+
+CREATE TABLE customers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    display_name VARCHAR(255),
+    contact_id VARCHAR(255) UNIQUE, -- Airtable contact record id
+    phone VARCHAR(50),
+    email VARCHAR(255),
+    created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE customer_sessions (
+    session_id VARCHAR(255) PRIMARY KEY,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    -- auto: matched with the Airtable contact, manual: merged or unmerged by an agent
+    link_source VARCHAR(10) NOT NULL DEFAULT 'manual' CHECK (link_source IN ('auto', 'manual')),
+    linked_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+    linked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_customer_sessions_customer ON customer_sessions(customer_id);
+
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users manage customers" ON customers
+    FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+CREATE POLICY "Authenticated users manage customer sessions" ON customer_sessions
+    FOR ALL
+    TO authenticated
+    USING (true)
+    WITH CHECK (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE customer_sessions;
+
+-- Links sessions to the customer of an Airtable contact, creating it on
+-- first use. Sessions that already belong to a customer keep their link, so
+-- a manual merge or unmerge is never undone by automatic matching.
+CREATE OR REPLACE FUNCTION link_contact_sessions(
+    p_contact_id VARCHAR,
+    p_display_name VARCHAR,
+    p_phone VARCHAR,
+    p_email VARCHAR,
+    p_session_ids VARCHAR[]
+)
+RETURNS UUID AS $$
+DECLARE
+    v_customer_id UUID;
+BEGIN
+    INSERT INTO customers (contact_id, display_name, phone, email)
+    VALUES (p_contact_id, p_display_name, p_phone, p_email)
+    ON CONFLICT (contact_id)
+    DO UPDATE SET
+        display_name = COALESCE(EXCLUDED.display_name, customers.display_name),
+        phone = COALESCE(EXCLUDED.phone, customers.phone),
+        email = COALESCE(EXCLUDED.email, customers.email),
+        updated_at = NOW()
+    RETURNING id INTO v_customer_id;
+
+    INSERT INTO customer_sessions (session_id, customer_id, link_source)
+    SELECT DISTINCT s, v_customer_id, 'auto'
+    FROM UNNEST(p_session_ids) AS s
+    ON CONFLICT (session_id) DO NOTHING;
+
+    RETURN v_customer_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Puts two sessions under one customer. When both already have a customer,
+-- every session of the other one moves over and the other profile is
+-- removed; its contact details fill the gaps of the kept one.
+CREATE OR REPLACE FUNCTION merge_customer_sessions(p_session_id VARCHAR, p_other_session_id VARCHAR)
+RETURNS UUID AS $$
+DECLARE
+    v_customer_id UUID;
+    v_other_id UUID;
+    v_other customers;
+BEGIN
+    IF p_session_id = p_other_session_id THEN
+        RAISE EXCEPTION 'Cannot merge a session with itself';
+    END IF;
+
+    SELECT customer_id INTO v_customer_id FROM customer_sessions WHERE session_id = p_session_id;
+    SELECT customer_id INTO v_other_id FROM customer_sessions WHERE session_id = p_other_session_id;
+
+    IF v_customer_id IS NULL AND v_other_id IS NULL THEN
+        INSERT INTO customers DEFAULT VALUES RETURNING id INTO v_customer_id;
+    ELSIF v_customer_id IS NULL THEN
+        v_customer_id := v_other_id;
+    END IF;
+
+    IF v_other_id IS NOT NULL AND v_other_id <> v_customer_id THEN
+        UPDATE customer_sessions
+        SET customer_id = v_customer_id,
+            link_source = 'manual',
+            linked_by = auth.uid(),
+            linked_at = NOW()
+        WHERE customer_id = v_other_id;
+
+        DELETE FROM customers WHERE id = v_other_id RETURNING * INTO v_other;
+
+        UPDATE customers
+        SET display_name = COALESCE(display_name, v_other.display_name),
+            contact_id = COALESCE(contact_id, v_other.contact_id),
+            phone = COALESCE(phone, v_other.phone),
+            email = COALESCE(email, v_other.email),
+            updated_at = NOW()
+        WHERE id = v_customer_id;
+    END IF;
+
+    INSERT INTO customer_sessions (session_id, customer_id, link_source)
+    VALUES
+        (p_session_id, v_customer_id, 'manual'),
+        (p_other_session_id, v_customer_id, 'manual')
+    ON CONFLICT (session_id) DO NOTHING;
+
+    RETURN v_customer_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Takes a session out of its customer into a profile of its own. The new
+-- link is manual, so automatic matching does not put it back.
+CREATE OR REPLACE FUNCTION unmerge_customer_session(p_session_id VARCHAR)
+RETURNS UUID AS $$
+DECLARE
+    v_customer_id UUID;
+    v_new_id UUID;
+BEGIN
+    SELECT customer_id INTO v_customer_id
+    FROM customer_sessions
+    WHERE session_id = p_session_id
+    FOR UPDATE;
+
+    IF v_customer_id IS NULL THEN
+        RAISE EXCEPTION 'Session % is not linked to a customer', p_session_id;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM customer_sessions
+        WHERE customer_id = v_customer_id AND session_id <> p_session_id
+    ) THEN
+        RETURN v_customer_id;
+    END IF;
+
+    INSERT INTO customers DEFAULT VALUES RETURNING id INTO v_new_id;
+
+    UPDATE customer_sessions
+    SET customer_id = v_new_id,
+        link_source = 'manual',
+        linked_by = auth.uid(),
+        linked_at = NOW()
+    WHERE session_id = p_session_id;
+
+    RETURN v_new_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE customers IS 'A customer behind one or more chat sessions across channels';
+COMMENT ON TABLE customer_sessions IS 'Session membership of customers, each session belongs to at most one';
+COMMENT ON FUNCTION link_contact_sessions IS 'Links sessions matched with an Airtable contact without overriding existing links';
+COMMENT ON FUNCTION merge_customer_sessions IS 'Manual merge of two sessions, and their customers, into one customer';
+COMMENT ON FUNCTION unmerge_customer_session IS 'Moves a session out of its customer into a new customer of its own';
@@ -0,0 +1,62 @@
+-- Agent collision: who is viewing and typing in a session travels over
+-- Realtime presence and is not stored. The soft lock below gives one agent
+-- exclusive reply rights to a session for a few minutes.
+
+ALTER TABLE chat_session_state
+    ADD COLUMN reply_locked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN reply_locked_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN reply_locked_until TIMESTAMP WITH TIME ZONE; -- The lock lapses on its own after this
+
+-- Take the reply lock of a session, or extend it when the caller already
+-- holds it. Fails while another agent holds an unexpired lock.
+CREATE OR REPLACE FUNCTION acquire_reply_lock(p_session_id VARCHAR, p_minutes INTEGER DEFAULT 5)
+RETURNS chat_session_state AS $$
+DECLARE
+    result chat_session_state;
+BEGIN
+    IF p_minutes IS NULL OR p_minutes <= 0 OR p_minutes > 60 THEN
+        RAISE EXCEPTION 'Invalid lock duration: % minutes', p_minutes;
+    END IF;
+
+    INSERT INTO chat_session_state (session_id, reply_locked_by, reply_locked_at, reply_locked_until)
+    VALUES (p_session_id, auth.uid(), NOW(), NOW() + make_interval(mins => p_minutes))
+    ON CONFLICT (session_id)
+    DO UPDATE SET
+        reply_locked_by = EXCLUDED.reply_locked_by,
+        reply_locked_at = CASE
+            WHEN chat_session_state.reply_locked_by = EXCLUDED.reply_locked_by
+             AND chat_session_state.reply_locked_until > NOW()
+            THEN chat_session_state.reply_locked_at
+            ELSE EXCLUDED.reply_locked_at
+        END,
+        reply_locked_until = EXCLUDED.reply_locked_until,
+        updated_at = NOW()
+    WHERE chat_session_state.reply_locked_by IS NULL
+       OR chat_session_state.reply_locked_by = EXCLUDED.reply_locked_by
+       OR chat_session_state.reply_locked_until IS NULL
+       OR chat_session_state.reply_locked_until <= NOW()
+    RETURNING * INTO result;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Replies to session % are locked by another agent', p_session_id;
+    END IF;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Give the lock up early. Only the holder can release it; anyone else waits
+-- for it to lapse.
+CREATE OR REPLACE FUNCTION release_reply_lock(p_session_id VARCHAR)
+RETURNS VOID AS $$
+    UPDATE chat_session_state
+    SET reply_locked_by = NULL,
+        reply_locked_at = NULL,
+        reply_locked_until = NULL,
+        updated_at = NOW()
+    WHERE session_id = p_session_id
+      AND reply_locked_by = auth.uid();
+$$ LANGUAGE sql;
+
+COMMENT ON COLUMN chat_session_state.reply_locked_by IS 'Agent with exclusive reply rights until reply_locked_until';
+COMMENT ON FUNCTION acquire_reply_lock IS 'Soft lock: exclusive reply rights for a few minutes, extended when the holder acquires it again';
@@ -0,0 +1,10 @@
+-- Offline send queue: the dashboard gives every outgoing message an id of
+-- its own (message->>'client_message_id') before the first attempt. A message
+-- replayed after a dropped connection keeps that id, so a second insert of
+-- the same message fails instead of storing it twice.
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_n8n_chat_histories_client_message_id
+    ON n8n_chat_histories ((message->>'client_message_id'))
+    WHERE message->>'client_message_id' IS NOT NULL;
+
+COMMENT ON INDEX idx_n8n_chat_histories_client_message_id IS 'De-duplicates messages replayed from the browser send queue';
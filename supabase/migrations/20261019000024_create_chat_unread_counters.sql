@@ -0,0 +1,279 @@
+-- Unread counts without scanning history. chat_session_overview counted the
+-- customer messages after each read cursor per row, which ran for every
+-- session before get_chat_sessions applied its LIMIT and for the whole view
+-- in get_unread_totals. The summary now keeps a running count of customer
+-- messages and each read cursor remembers how many of them it covered, so
+-- unread is a subtraction.
+
+ALTER TABLE chat_session_summary
+    ADD COLUMN human_message_count INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN last_human_message_id INTEGER; -- References n8n_chat_histories.id
+
+ALTER TABLE chat_read_cursors
+    ADD COLUMN read_human_count INTEGER NOT NULL DEFAULT 0; -- Customer messages up to last_read_message_id
+
+-- Same as before, plus the customer message counter. The platform comes from
+-- customer messages only: agent replies carry the channel the dashboard
+-- picked, not the one the customer wrote on.
+CREATE OR REPLACE FUNCTION refresh_chat_session_summary(p_session_id VARCHAR)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM n8n_chat_histories WHERE session_id = p_session_id) THEN
+        DELETE FROM chat_session_summary WHERE session_id = p_session_id;
+        RETURN;
+    END IF;
+
+    INSERT INTO chat_session_summary (
+        session_id,
+        last_message_id,
+        last_message,
+        last_message_type,
+        last_timestamp,
+        first_timestamp,
+        sender_name,
+        platform,
+        message_count,
+        human_message_count,
+        last_human_message_id
+    )
+    SELECT
+        p_session_id,
+        latest.id,
+        chat_message_preview(latest.message),
+        chat_message_json(latest.message)->>'type',
+        COALESCE(latest.created_at, NOW()),
+        COALESCE(stats.first_timestamp, NOW()),
+        chat_message_json(latest.message)->>'sender_name',
+        (
+            SELECT chat_message_json(h.message)->>'trigger'
+            FROM n8n_chat_histories h
+            WHERE h.session_id = p_session_id
+              AND chat_message_json(h.message)->>'type' = 'human'
+              AND chat_message_json(h.message)->>'trigger' IN ('whatsapp', 'instagram', 'facebook')
+            ORDER BY h.created_at DESC, h.id DESC
+            LIMIT 1
+        ),
+        stats.message_count,
+        stats.human_message_count,
+        stats.last_human_message_id
+    FROM (
+        SELECT id, message, created_at
+        FROM n8n_chat_histories
+        WHERE session_id = p_session_id
+        ORDER BY created_at DESC, id DESC
+        LIMIT 1
+    ) latest,
+    (
+        SELECT
+            COUNT(*) AS message_count,
+            MIN(created_at) AS first_timestamp,
+            COUNT(*) FILTER (WHERE chat_message_json(message)->>'type' = 'human') AS human_message_count,
+            MAX(id) FILTER (WHERE chat_message_json(message)->>'type' = 'human') AS last_human_message_id
+        FROM n8n_chat_histories
+        WHERE session_id = p_session_id
+    ) stats
+    ON CONFLICT (session_id)
+    DO UPDATE SET
+        last_message_id = EXCLUDED.last_message_id,
+        last_message = EXCLUDED.last_message,
+        last_message_type = EXCLUDED.last_message_type,
+        last_timestamp = EXCLUDED.last_timestamp,
+        first_timestamp = EXCLUDED.first_timestamp,
+        sender_name = EXCLUDED.sender_name,
+        platform = EXCLUDED.platform,
+        message_count = EXCLUDED.message_count,
+        human_message_count = EXCLUDED.human_message_count,
+        last_human_message_id = EXCLUDED.last_human_message_id,
+        updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_chat_session_summary()
+RETURNS TRIGGER AS $$
+DECLARE
+    msg JSONB;
+    is_human BOOLEAN;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        PERFORM refresh_chat_session_summary(OLD.session_id);
+        RETURN OLD;
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        PERFORM refresh_chat_session_summary(NEW.session_id);
+        IF OLD.session_id IS DISTINCT FROM NEW.session_id THEN
+            PERFORM refresh_chat_session_summary(OLD.session_id);
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    msg := chat_message_json(NEW.message);
+    is_human := COALESCE(msg->>'type' = 'human', FALSE);
+
+    INSERT INTO chat_session_summary (
+        session_id,
+        last_message_id,
+        last_message,
+        last_message_type,
+        last_timestamp,
+        first_timestamp,
+        sender_name,
+        platform,
+        message_count,
+        human_message_count,
+        last_human_message_id
+    ) VALUES (
+        NEW.session_id,
+        NEW.id,
+        chat_message_preview(msg),
+        msg->>'type',
+        COALESCE(NEW.created_at, NOW()),
+        COALESCE(NEW.created_at, NOW()),
+        msg->>'sender_name',
+        CASE WHEN is_human AND msg->>'trigger' IN ('whatsapp', 'instagram', 'facebook') THEN msg->>'trigger' END,
+        1,
+        CASE WHEN is_human THEN 1 ELSE 0 END,
+        CASE WHEN is_human THEN NEW.id END
+    )
+    ON CONFLICT (session_id)
+    DO UPDATE SET
+        last_message_id = CASE WHEN EXCLUDED.last_timestamp >= chat_session_summary.last_timestamp
+            THEN EXCLUDED.last_message_id ELSE chat_session_summary.last_message_id END,
+        last_message = CASE WHEN EXCLUDED.last_timestamp >= chat_session_summary.last_timestamp
+            THEN EXCLUDED.last_message ELSE chat_session_summary.last_message END,
+        last_message_type = CASE WHEN EXCLUDED.last_timestamp >= chat_session_summary.last_timestamp
+            THEN EXCLUDED.last_message_type ELSE chat_session_summary.last_message_type END,
+        sender_name = CASE WHEN EXCLUDED.last_timestamp >= chat_session_summary.last_timestamp
+            THEN EXCLUDED.sender_name ELSE chat_session_summary.sender_name END,
+        last_timestamp = GREATEST(chat_session_summary.last_timestamp, EXCLUDED.last_timestamp),
+        first_timestamp = LEAST(chat_session_summary.first_timestamp, EXCLUDED.first_timestamp),
+        platform = COALESCE(EXCLUDED.platform, chat_session_summary.platform),
+        message_count = chat_session_summary.message_count + 1,
+        human_message_count = chat_session_summary.human_message_count + EXCLUDED.human_message_count,
+        last_human_message_id = GREATEST(chat_session_summary.last_human_message_id, EXCLUDED.last_human_message_id),
+        updated_at = NOW();
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Customer messages a cursor covers. Reading up to the latest customer
+-- message, the usual case, takes the counter as is; only a cursor further
+-- back counts the messages of that one session.
+CREATE OR REPLACE FUNCTION set_read_human_count()
+RETURNS TRIGGER AS $$
+DECLARE
+    summary chat_session_summary;
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.last_read_message_id IS NOT DISTINCT FROM OLD.last_read_message_id THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO summary FROM chat_session_summary WHERE session_id = NEW.session_id;
+
+    IF summary.session_id IS NULL OR NEW.last_read_message_id <= 0 THEN
+        NEW.read_human_count := 0;
+    ELSIF summary.last_human_message_id IS NULL OR NEW.last_read_message_id >= summary.last_human_message_id THEN
+        NEW.read_human_count := summary.human_message_count;
+    ELSE
+        SELECT COUNT(*) INTO NEW.read_human_count
+        FROM n8n_chat_histories h
+        WHERE h.session_id = NEW.session_id
+          AND h.id <= NEW.last_read_message_id
+          AND chat_message_json(h.message)->>'type' = 'human';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_set_read_human_count
+    BEFORE INSERT OR UPDATE ON chat_read_cursors
+    FOR EACH ROW
+    EXECUTE FUNCTION set_read_human_count();
+
+-- Backfill the counters
+UPDATE chat_session_summary s
+SET human_message_count = counts.human_message_count,
+    last_human_message_id = counts.last_human_message_id
+FROM (
+    SELECT
+        session_id,
+        COUNT(*) AS human_message_count,
+        MAX(id) AS last_human_message_id
+    FROM n8n_chat_histories
+    WHERE chat_message_json(message)->>'type' = 'human'
+    GROUP BY session_id
+) counts
+WHERE counts.session_id = s.session_id;
+
+UPDATE chat_read_cursors c
+SET read_human_count = (
+    SELECT COUNT(*)
+    FROM n8n_chat_histories h
+    WHERE h.session_id = c.session_id
+      AND h.id <= c.last_read_message_id
+      AND chat_message_json(h.message)->>'type' = 'human'
+);
+
+-- Same columns as before, unread from the counters. Clamped at zero because
+-- a deleted message can leave a cursor count above the session count.
+CREATE OR REPLACE VIEW chat_session_overview AS
+SELECT
+    s.session_id,
+    s.last_message_id,
+    s.last_message,
+    s.last_message_type,
+    s.last_timestamp,
+    s.first_timestamp,
+    s.sender_name,
+    COALESCE(st.platform, s.platform)::VARCHAR(20) AS platform,
+    s.message_count,
+    s.created_at,
+    s.updated_at,
+    GREATEST(
+        s.human_message_count - COALESCE(c.read_human_count, 0),
+        CASE WHEN c.marked_unread THEN 1 ELSE 0 END,
+        0
+    )::INTEGER AS unread_count,
+    c.last_read_message_id,
+    COALESCE(is_bot_paused(st), FALSE) AS bot_paused,
+    st.assigned_to,
+    st.assigned_at,
+    COALESCE(st.status, 'open') AS status,
+    st.status_changed_at,
+    COALESCE(tags.tag_ids, '{}') AS tag_ids,
+    st.platform_source
+FROM chat_session_summary s
+LEFT JOIN chat_read_cursors c
+    ON c.session_id = s.session_id
+   AND c.user_id = auth.uid()
+LEFT JOIN chat_session_state st
+    ON st.session_id = s.session_id
+LEFT JOIN LATERAL (
+    SELECT ARRAY_AGG(t.tag_id ORDER BY t.created_at) AS tag_ids
+    FROM chat_session_tags t
+    WHERE t.session_id = s.session_id
+) tags ON TRUE;
+
+-- Reads the counters directly instead of the whole overview
+CREATE OR REPLACE FUNCTION get_unread_totals()
+RETURNS TABLE (unread_messages INTEGER, unread_sessions INTEGER) AS $$
+    SELECT
+        COALESCE(SUM(unread.count), 0)::INTEGER,
+        COUNT(*) FILTER (WHERE unread.count > 0)::INTEGER
+    FROM chat_session_summary s
+    LEFT JOIN chat_read_cursors c
+        ON c.session_id = s.session_id
+       AND c.user_id = auth.uid()
+    CROSS JOIN LATERAL (
+        SELECT GREATEST(
+            s.human_message_count - COALESCE(c.read_human_count, 0),
+            CASE WHEN c.marked_unread THEN 1 ELSE 0 END,
+            0
+        ) AS count
+    ) unread;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON COLUMN chat_session_summary.human_message_count IS 'Customer messages in the session, for unread counts';
+COMMENT ON COLUMN chat_read_cursors.read_human_count IS 'Customer messages up to last_read_message_id, set by trigger';
@@ -0,0 +1,79 @@
+-- Status changes only through set_chat_session_status(). The row policy
+-- on chat_session_state lets agents write the row directly (bot pause), which
+-- also let them change the status without a recorded transition.
+-- change_chat_session_status() raises a transaction-local flag around its
+-- update; any other write to the status columns is rejected.
+
+CREATE OR REPLACE FUNCTION guard_chat_session_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_setting('app.chat_session_status_change', TRUE) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        IF NEW.status <> 'open' OR NEW.status_changed_at IS NOT NULL OR NEW.status_changed_by IS NOT NULL THEN
+            RAISE EXCEPTION 'Conversation status of % must be changed with set_chat_session_status()', NEW.session_id;
+        END IF;
+    ELSIF NEW.status IS DISTINCT FROM OLD.status
+       OR NEW.status_changed_at IS DISTINCT FROM OLD.status_changed_at
+       OR NEW.status_changed_by IS DISTINCT FROM OLD.status_changed_by THEN
+        RAISE EXCEPTION 'Conversation status of % must be changed with set_chat_session_status()', NEW.session_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_guard_chat_session_status
+    BEFORE INSERT OR UPDATE ON chat_session_state
+    FOR EACH ROW
+    EXECUTE FUNCTION guard_chat_session_status();
+
+-- Same as before, with the flag raised for its own update only
+CREATE OR REPLACE FUNCTION change_chat_session_status(
+    p_session_id VARCHAR,
+    p_status VARCHAR,
+    p_reason VARCHAR,
+    p_changed_by UUID
+)
+RETURNS chat_session_state AS $$
+DECLARE
+    previous chat_session_state;
+    result chat_session_state;
+BEGIN
+    INSERT INTO chat_session_state (session_id)
+    VALUES (p_session_id)
+    ON CONFLICT (session_id) DO NOTHING;
+
+    SELECT * INTO previous
+    FROM chat_session_state
+    WHERE session_id = p_session_id
+    FOR UPDATE;
+
+    IF previous.status = p_status THEN
+        RETURN previous;
+    END IF;
+
+    PERFORM set_config('app.chat_session_status_change', 'on', TRUE);
+
+    UPDATE chat_session_state
+    SET status = p_status,
+        status_changed_at = NOW(),
+        status_changed_by = p_changed_by,
+        updated_at = NOW()
+    WHERE session_id = p_session_id
+    RETURNING * INTO result;
+
+    PERFORM set_config('app.chat_session_status_change', 'off', TRUE);
+
+    INSERT INTO chat_session_status_events (session_id, from_status, to_status, reason, changed_by)
+    VALUES (p_session_id, previous.status, p_status, p_reason, p_changed_by);
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION change_chat_session_status(VARCHAR, VARCHAR, VARCHAR, UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION guard_chat_session_status IS 'Rejects status changes made outside change_chat_session_status()';
@@ -0,0 +1,65 @@
+-- Classify the platform of a session from customer messages only. Agent
+-- replies carry the `trigger` the dashboard picked for them, so one reply
+-- sent with the wrong channel relabelled the whole session. The summary
+-- platform follows the same rule since migration 24.
+
+CREATE OR REPLACE FUNCTION classify_chat_session_platform(p_session_id VARCHAR)
+RETURNS VARCHAR AS $$
+    SELECT COALESCE(
+        (
+            SELECT LOWER(chat_message_json(h.message)->>'trigger')
+            FROM n8n_chat_histories h
+            WHERE h.session_id = p_session_id
+              AND chat_message_json(h.message)->>'type' = 'human'
+              AND LOWER(chat_message_json(h.message)->>'trigger') IN ('whatsapp', 'instagram', 'facebook')
+            ORDER BY h.created_at DESC, h.id DESC
+            LIMIT 1
+        ),
+        (
+            SELECT LOWER(SPLIT_PART(chat_message_json(h.message)->>'content', E'\n', 1))
+            FROM n8n_chat_histories h
+            WHERE h.session_id = p_session_id
+              AND chat_message_json(h.message)->>'type' = 'human'
+              AND LOWER(SPLIT_PART(chat_message_json(h.message)->>'content', E'\n', 1)) IN ('whatsapp', 'instagram', 'facebook')
+            ORDER BY h.created_at DESC, h.id DESC
+            LIMIT 1
+        )
+    );
+$$ LANGUAGE sql STABLE;
+
+-- record_chat_session_platform() no longer runs for agent and bot messages
+DROP TRIGGER IF EXISTS trigger_record_chat_session_platform ON n8n_chat_histories;
+
+CREATE TRIGGER trigger_record_chat_session_platform
+    AFTER INSERT ON n8n_chat_histories
+    FOR EACH ROW
+    WHEN (chat_message_json(NEW.message)->>'type' = 'human')
+    EXECUTE FUNCTION record_chat_session_platform();
+
+-- Reclassify sessions labelled from agent messages. The backfill only
+-- stores platforms it finds, so first clear the labels of sessions whose
+-- customer messages name none.
+UPDATE chat_session_state
+SET platform = NULL,
+    platform_source = NULL,
+    platform_updated_at = NOW(),
+    updated_at = NOW()
+WHERE platform IS NOT NULL
+  AND platform_source IS DISTINCT FROM 'manual'
+  AND classify_chat_session_platform(session_id) IS NULL;
+
+SELECT backfill_chat_session_platforms();
+
+-- The session list falls back to the summary platform, which agent replies
+-- set as well until migration 24
+UPDATE chat_session_summary s
+SET platform = (
+    SELECT chat_message_json(h.message)->>'trigger'
+    FROM n8n_chat_histories h
+    WHERE h.session_id = s.session_id
+      AND chat_message_json(h.message)->>'type' = 'human'
+      AND chat_message_json(h.message)->>'trigger' IN ('whatsapp', 'instagram', 'facebook')
+    ORDER BY h.created_at DESC, h.id DESC
+    LIMIT 1
+)
+WHERE s.platform IS NOT NULL;
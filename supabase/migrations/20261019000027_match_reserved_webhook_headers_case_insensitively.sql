@@ -0,0 +1,72 @@
+-- Custom webhook headers could still override the signing headers when
+-- spelled in another case ("content-type", "x-webhook-signature"): the JSON
+-- merge only replaced keys with the exact same spelling, so both went out.
+-- Custom headers are now dropped by their lower-cased name.
+
+-- Same as before, with reserved names matched case-insensitively
+CREATE OR REPLACE FUNCTION webhook_request_headers(p_body TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_settings JSONB;
+    v_timestamp TEXT := EXTRACT(EPOCH FROM NOW())::BIGINT::TEXT;
+    v_signatures TEXT[] := '{}';
+    v_rotated_at TIMESTAMP WITH TIME ZONE;
+    v_headers JSONB;
+BEGIN
+    SELECT jsonb_object_agg(key, value) INTO v_settings
+    FROM app_settings
+    WHERE key LIKE 'webhook\_%';
+
+    BEGIN
+        v_headers := NULLIF(v_settings->>'webhook_custom_headers', '')::JSONB;
+    EXCEPTION WHEN invalid_text_representation THEN
+        v_headers := NULL;
+    END;
+
+    BEGIN
+        v_rotated_at := NULLIF(v_settings->>'webhook_signing_secret_rotated_at', '')::TIMESTAMP WITH TIME ZONE;
+    EXCEPTION WHEN invalid_datetime_format THEN
+        v_rotated_at := NULL;
+    END;
+
+    IF v_headers IS NULL OR jsonb_typeof(v_headers) <> 'object' THEN
+        v_headers := '{}';
+    END IF;
+
+    -- Header names are case-insensitive: drop any spelling of the reserved ones
+    SELECT COALESCE(jsonb_object_agg(key, value), '{}') INTO v_headers
+    FROM jsonb_each(v_headers)
+    WHERE LOWER(key) NOT IN ('content-type', 'authorization', 'x-webhook-timestamp', 'x-webhook-signature');
+
+    -- Custom headers never replace the ones below
+    v_headers := v_headers || jsonb_build_object('Content-Type', 'application/json');
+
+    IF COALESCE(v_settings->>'webhook_bearer_token', '') <> '' THEN
+        v_headers := v_headers || jsonb_build_object('Authorization', 'Bearer ' || (v_settings->>'webhook_bearer_token'));
+    END IF;
+
+    IF COALESCE(v_settings->>'webhook_signing_secret', '') <> '' THEN
+        v_signatures := v_signatures || ('sha256=' || encode(
+            extensions.hmac(v_timestamp || '.' || p_body, v_settings->>'webhook_signing_secret', 'sha256'),
+            'hex'
+        ));
+
+        -- Receivers still configured with the previous secret keep working
+        -- for a day after a rotation
+        IF COALESCE(v_settings->>'webhook_signing_secret_previous', '') <> ''
+           AND v_rotated_at > NOW() - INTERVAL '24 hours' THEN
+            v_signatures := v_signatures || ('sha256=' || encode(
+                extensions.hmac(v_timestamp || '.' || p_body, v_settings->>'webhook_signing_secret_previous', 'sha256'),
+                'hex'
+            ));
+        END IF;
+
+        v_headers := v_headers || jsonb_build_object(
+            'X-Webhook-Timestamp', v_timestamp,
+            'X-Webhook-Signature', array_to_string(v_signatures, ',')
+        );
+    END IF;
+
+    RETURN v_headers;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
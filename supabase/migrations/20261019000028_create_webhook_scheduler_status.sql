@@ -0,0 +1,30 @@
+-- Conversation events (conversation.resolved, conversation.assigned) are
+-- queued by triggers and only sent by process_webhook_outbox(). Without
+-- pg_cron and pg_net nothing runs it and they wait in the outbox. The
+-- endpoints settings read the state of the scheduler and the deliveries
+-- waiting on it, so this is visible and they can be sent by hand.
+
+-- Whether process_webhook_outbox() runs every minute
+CREATE OR REPLACE FUNCTION is_webhook_scheduler_enabled()
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_scheduled BOOLEAN;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+       OR NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+        RETURN FALSE;
+    END IF;
+
+    -- cron.job only exists with pg_cron
+    EXECUTE 'SELECT EXISTS (SELECT 1 FROM cron.job WHERE jobname = $1 AND active)'
+        INTO v_scheduled
+        USING 'process-webhook-outbox';
+
+    RETURN v_scheduled;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION is_webhook_scheduler_enabled() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_webhook_scheduler_enabled() TO authenticated, service_role;
+
+COMMENT ON FUNCTION is_webhook_scheduler_enabled IS 'Whether pg_cron runs process_webhook_outbox(), without it queued events are only sent by hand';
@@ -0,0 +1,83 @@
+-- The WhatsApp 24-hour window was only checked by sendMessage in the
+-- browser. Scheduled messages and broadcasts are written by the database
+-- through queue_outbound_message(), which sent free-form text to customers
+-- whose window had closed. It now refuses them; the dispatchers already mark
+-- a message they could not queue as failed with the error, so a scheduled
+-- message or broadcast recipient outside the window ends up failed with
+-- "The 24-hour WhatsApp window ... is closed".
+
+-- Whether free-form replies are still accepted, false when the customer
+-- never wrote. Same rule as isWindowOpen() in the dashboard.
+CREATE OR REPLACE FUNCTION is_whatsapp_window_open(p_session_id VARCHAR)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(get_last_customer_message_at(p_session_id) > NOW() - INTERVAL '24 hours', FALSE);
+$$ LANGUAGE sql STABLE;
+
+-- Same as before, refusing free-form WhatsApp messages outside the window
+CREATE OR REPLACE FUNCTION queue_outbound_message(
+    p_session_id VARCHAR,
+    p_content TEXT,
+    p_payload JSONB DEFAULT '{}',
+    p_agent_reply BOOLEAN DEFAULT TRUE
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_platform VARCHAR;
+    v_content JSONB;
+    v_message_id INTEGER;
+    v_state chat_session_state;
+BEGIN
+    SELECT platform INTO v_platform
+    FROM chat_session_state
+    WHERE session_id = p_session_id;
+    v_platform := COALESCE(v_platform, 'whatsapp');
+
+    -- Only approved templates go out after the window, and this path sends
+    -- free-form text
+    IF v_platform = 'whatsapp' AND NOT is_whatsapp_window_open(p_session_id) THEN
+        RAISE EXCEPTION 'The 24-hour WhatsApp window of % is closed, send an approved template instead', p_session_id;
+    END IF;
+
+    v_content := jsonb_build_object(
+        'content', p_content,
+        'type', 'ai',
+        'timestamp', NOW(),
+        'trigger', v_platform
+    );
+
+    INSERT INTO n8n_chat_histories (session_id, message)
+    VALUES (p_session_id, v_content)
+    RETURNING id INTO v_message_id;
+
+    IF p_agent_reply THEN
+        v_state := record_agent_reply(p_session_id);
+    ELSE
+        SELECT * INTO v_state
+        FROM chat_session_state
+        WHERE session_id = p_session_id;
+    END IF;
+
+    PERFORM enqueue_webhook_event(
+        'message.outbound',
+        jsonb_build_object(
+            'session_id', p_session_id,
+            'message_id', v_message_id,
+            'message', v_content,
+            'timestamp', v_content->'timestamp',
+            'bot_paused', COALESCE(is_bot_paused(v_state), FALSE),
+            'bot_paused_until', v_state.bot_paused_until
+        ) || COALESCE(p_payload, '{}'),
+        p_session_id,
+        v_message_id,
+        v_platform,
+        p_claim := FALSE
+    );
+
+    RETURN v_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_outbound_message(VARCHAR, TEXT, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION queue_outbound_message(VARCHAR, TEXT, JSONB, BOOLEAN) TO service_role;
+
+COMMENT ON FUNCTION is_whatsapp_window_open IS 'Whether the WhatsApp 24-hour window of a session accepts free-form messages';
@@ -0,0 +1,166 @@
+-- record_webhook_attempt() is open to every agent so the dashboard can
+-- report the attempts it makes, but it accepted a result for any delivery in
+-- flight: one agent could mark another's delivery, or one the scheduler was
+-- sending, delivered or dead. Claims now record who made them and only that
+-- user can report the result.
+
+ALTER TABLE webhook_outbox
+    ADD COLUMN claimed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL; -- Agent making the attempt in flight, NULL for the scheduler
+
+-- Same as before, recording the claiming user
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(
+    p_event_type VARCHAR,
+    p_payload JSONB,
+    p_session_id VARCHAR DEFAULT NULL,
+    p_message_id INTEGER DEFAULT NULL,
+    p_platform VARCHAR DEFAULT NULL,
+    p_endpoint_id UUID DEFAULT NULL,
+    p_claim BOOLEAN DEFAULT TRUE
+)
+RETURNS SETOF webhook_outbox AS $$
+DECLARE
+    v_platform VARCHAR := p_platform;
+BEGIN
+    IF v_platform IS NULL AND p_session_id IS NOT NULL THEN
+        SELECT platform INTO v_platform FROM chat_session_state WHERE session_id = p_session_id;
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO webhook_outbox (
+        endpoint_id,
+        event_type,
+        message_id,
+        session_id,
+        url,
+        payload,
+        status,
+        locked_until,
+        claimed_by
+    )
+    SELECT
+        e.id,
+        p_event_type,
+        p_message_id,
+        p_session_id,
+        e.url,
+        jsonb_build_object('event', p_event_type) || p_payload,
+        CASE WHEN p_claim THEN 'delivering' ELSE 'pending' END,
+        CASE WHEN p_claim THEN NOW() + INTERVAL '1 minute' END,
+        CASE WHEN p_claim THEN auth.uid() END
+    FROM webhook_endpoints e
+    WHERE CASE
+        WHEN p_endpoint_id IS NOT NULL THEN e.id = p_endpoint_id
+        ELSE e.enabled
+            AND p_event_type = ANY(e.event_types)
+            AND (cardinality(e.platforms) = 0 OR v_platform = ANY(e.platforms))
+    END
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as before, recording the claiming user
+CREATE OR REPLACE FUNCTION claim_webhook_delivery(p_outbox_id UUID)
+RETURNS webhook_outbox AS $$
+DECLARE
+    result webhook_outbox;
+BEGIN
+    UPDATE webhook_outbox o
+    SET status = 'delivering',
+        locked_until = NOW() + INTERVAL '1 minute',
+        http_request_id = NULL,
+        claimed_by = auth.uid(),
+        url = COALESCE((SELECT e.url FROM webhook_endpoints e WHERE e.id = o.endpoint_id), o.url),
+        updated_at = NOW()
+    WHERE o.id = p_outbox_id
+      AND (
+          o.status IN ('pending', 'dead')
+          OR (o.status = 'delivering' AND o.locked_until < NOW())
+      )
+    RETURNING o.* INTO result;
+
+    IF result.id IS NULL THEN
+        RAISE EXCEPTION 'Delivery % is already delivered or in progress', p_outbox_id;
+    END IF;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same as before, only for the user who claimed the attempt
+CREATE OR REPLACE FUNCTION record_webhook_attempt(
+    p_outbox_id UUID,
+    p_status_code INTEGER,
+    p_error TEXT DEFAULT NULL,
+    p_duration_ms INTEGER DEFAULT NULL,
+    p_source VARCHAR DEFAULT 'dashboard'
+)
+RETURNS webhook_outbox AS $$
+DECLARE
+    v_delivery webhook_outbox;
+    v_attempt INTEGER;
+    v_succeeded BOOLEAN := p_error IS NULL AND p_status_code BETWEEN 200 AND 299;
+    result webhook_outbox;
+BEGIN
+    SELECT * INTO v_delivery FROM webhook_outbox WHERE id = p_outbox_id FOR UPDATE;
+
+    IF v_delivery.id IS NULL THEN
+        RAISE EXCEPTION 'Unknown delivery: %', p_outbox_id;
+    END IF;
+
+    IF v_delivery.status <> 'delivering' THEN
+        RAISE EXCEPTION 'Delivery % has no attempt in flight', p_outbox_id;
+    END IF;
+
+    -- An agent only reports on the attempt they claimed. The scheduler runs
+    -- without a user and reports on any attempt.
+    IF auth.uid() IS NOT NULL
+       AND (v_delivery.claimed_by IS DISTINCT FROM auth.uid() OR v_delivery.http_request_id IS NOT NULL) THEN
+        RAISE EXCEPTION 'Delivery % is not claimed by the current user', p_outbox_id;
+    END IF;
+
+    v_attempt := v_delivery.attempt_count + 1;
+
+    INSERT INTO webhook_delivery_attempts (
+        outbox_id,
+        attempt_number,
+        succeeded,
+        status_code,
+        error,
+        duration_ms,
+        source
+    ) VALUES (
+        p_outbox_id,
+        v_attempt,
+        v_succeeded,
+        p_status_code,
+        p_error,
+        p_duration_ms,
+        p_source
+    );
+
+    UPDATE webhook_outbox
+    SET status = CASE
+            WHEN v_succeeded THEN 'delivered'
+            WHEN v_attempt >= max_attempts THEN 'dead'
+            ELSE 'pending'
+        END,
+        attempt_count = v_attempt,
+        next_attempt_at = NOW() + webhook_retry_delay(v_attempt),
+        locked_until = NULL,
+        http_request_id = NULL,
+        claimed_by = NULL,
+        last_status_code = p_status_code,
+        last_error = CASE
+            WHEN v_succeeded THEN NULL
+            ELSE COALESCE(p_error, 'HTTP ' || p_status_code)
+        END,
+        delivered_at = CASE WHEN v_succeeded THEN NOW() END,
+        updated_at = NOW()
+    WHERE id = p_outbox_id
+    RETURNING * INTO result;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON COLUMN webhook_outbox.claimed_by IS 'Agent whose dashboard makes the attempt in flight; only they can record its result';
@@ -0,0 +1,233 @@
+-- Broadcasts as approved WhatsApp templates. Since migration 29
+-- queue_outbound_message() refuses free-form WhatsApp text outside the
+-- 24-hour window, and a promotion mostly goes to customers who have not
+-- written in a day, so nearly every recipient of a free-form broadcast
+-- failed. A campaign can now name an approved template; each recipient keeps
+-- its own parameters and is sent through the template path, which WhatsApp
+-- accepts at any time.
+
+ALTER TABLE broadcast_campaigns
+    ADD COLUMN whatsapp_template JSONB -- {name, language} of the template, NULL for free-form text
+        CHECK (whatsapp_template IS NULL OR (whatsapp_template ? 'name' AND whatsapp_template ? 'language'));
+
+ALTER TABLE broadcast_recipients
+    ADD COLUMN template_parameters TEXT[]; -- Template parameters filled from the contact fields
+
+-- Same as before, and sends an approved template when p_template is given:
+-- {name, language, parameters}. Templates are allowed outside the window
+-- but only exist on WhatsApp. The old signature is dropped so calls without
+-- a template keep resolving to a single function.
+DROP FUNCTION queue_outbound_message(VARCHAR, TEXT, JSONB, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION queue_outbound_message(
+    p_session_id VARCHAR,
+    p_content TEXT,
+    p_payload JSONB DEFAULT '{}',
+    p_agent_reply BOOLEAN DEFAULT TRUE,
+    p_template JSONB DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_platform VARCHAR;
+    v_content JSONB;
+    v_message_id INTEGER;
+    v_state chat_session_state;
+BEGIN
+    SELECT platform INTO v_platform
+    FROM chat_session_state
+    WHERE session_id = p_session_id;
+    v_platform := COALESCE(v_platform, 'whatsapp');
+
+    IF p_template IS NOT NULL THEN
+        IF v_platform <> 'whatsapp' THEN
+            RAISE EXCEPTION 'Templates can only be sent on WhatsApp, % is on %', p_session_id, v_platform;
+        END IF;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM whatsapp_templates
+            WHERE name = p_template->>'name'
+              AND language = p_template->>'language'
+              AND status = 'approved'
+        ) THEN
+            RAISE EXCEPTION 'Template % (%) is not approved', p_template->>'name', p_template->>'language';
+        END IF;
+
+        IF EXISTS (
+            SELECT 1
+            FROM jsonb_array_elements_text(COALESCE(p_template->'parameters', '[]')) AS parameter
+            WHERE TRIM(parameter) = ''
+        ) THEN
+            RAISE EXCEPTION 'Template % is missing parameters for %', p_template->>'name', p_session_id;
+        END IF;
+    ELSIF v_platform = 'whatsapp' AND NOT is_whatsapp_window_open(p_session_id) THEN
+        -- Only approved templates go out after the window
+        RAISE EXCEPTION 'The 24-hour WhatsApp window of % is closed, send an approved template instead', p_session_id;
+    END IF;
+
+    v_content := jsonb_build_object(
+        'content', p_content,
+        'type', 'ai',
+        'timestamp', NOW(),
+        'trigger', v_platform
+    );
+
+    IF p_template IS NOT NULL THEN
+        v_content := v_content || jsonb_build_object(
+            'template', jsonb_build_object(
+                'name', p_template->>'name',
+                'language', p_template->>'language',
+                'parameters', COALESCE(p_template->'parameters', '[]')
+            )
+        );
+    END IF;
+
+    INSERT INTO n8n_chat_histories (session_id, message)
+    VALUES (p_session_id, v_content)
+    RETURNING id INTO v_message_id;
+
+    IF p_agent_reply THEN
+        v_state := record_agent_reply(p_session_id);
+    ELSE
+        SELECT * INTO v_state
+        FROM chat_session_state
+        WHERE session_id = p_session_id;
+    END IF;
+
+    PERFORM enqueue_webhook_event(
+        'message.outbound',
+        jsonb_build_object(
+            'session_id', p_session_id,
+            'message_id', v_message_id,
+            'message', v_content,
+            'timestamp', v_content->'timestamp',
+            'bot_paused', COALESCE(is_bot_paused(v_state), FALSE),
+            'bot_paused_until', v_state.bot_paused_until
+        ) || COALESCE(p_payload, '{}'),
+        p_session_id,
+        v_message_id,
+        v_platform,
+        p_claim := FALSE
+    );
+
+    RETURN v_message_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_outbound_message(VARCHAR, TEXT, JSONB, BOOLEAN, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION queue_outbound_message(VARCHAR, TEXT, JSONB, BOOLEAN, JSONB) TO service_role;
+
+-- Same as before, sending the campaign template with the parameters of each
+-- recipient when the campaign has one
+CREATE OR REPLACE FUNCTION dispatch_broadcast_campaigns()
+RETURNS INTEGER AS $$
+DECLARE
+    v_campaign broadcast_campaigns;
+    v_recipient broadcast_recipients;
+    v_message_id INTEGER;
+    v_sent INTEGER := 0;
+BEGIN
+    FOR v_campaign IN
+        SELECT *
+        FROM broadcast_campaigns
+        WHERE status = 'sending'
+        ORDER BY started_at
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        FOR v_recipient IN
+            SELECT *
+            FROM broadcast_recipients
+            WHERE campaign_id = v_campaign.id
+              AND status = 'pending'
+            ORDER BY id
+            LIMIT v_campaign.send_rate
+            FOR UPDATE SKIP LOCKED
+        LOOP
+            BEGIN
+                -- A broadcast is not an agent taking over the conversation
+                v_message_id := queue_outbound_message(
+                    v_recipient.session_id,
+                    v_recipient.content,
+                    jsonb_build_object(
+                        'campaign_id', v_campaign.id,
+                        'broadcast_recipient_id', v_recipient.id
+                    ),
+                    FALSE,
+                    CASE WHEN v_campaign.whatsapp_template IS NOT NULL THEN
+                        v_campaign.whatsapp_template || jsonb_build_object(
+                            'parameters', to_jsonb(COALESCE(v_recipient.template_parameters, '{}'))
+                        )
+                    END
+                );
+
+                UPDATE broadcast_recipients
+                SET status = 'sent',
+                    message_id = v_message_id,
+                    error = NULL,
+                    sent_at = NOW()
+                WHERE id = v_recipient.id;
+
+                v_sent := v_sent + 1;
+            EXCEPTION WHEN OTHERS THEN
+                UPDATE broadcast_recipients
+                SET status = 'failed',
+                    error = SQLERRM
+                WHERE id = v_recipient.id;
+            END;
+        END LOOP;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM broadcast_recipients
+            WHERE campaign_id = v_campaign.id AND status = 'pending'
+        ) THEN
+            UPDATE broadcast_campaigns
+            SET status = 'completed',
+                completed_at = NOW(),
+                updated_at = NOW()
+            WHERE id = v_campaign.id;
+        END IF;
+    END LOOP;
+
+    IF v_sent > 0 THEN
+        PERFORM process_webhook_outbox();
+    END IF;
+
+    RETURN v_sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION dispatch_broadcast_campaigns() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION dispatch_broadcast_campaigns() TO service_role;
+
+-- Sessions of a broadcast audience that free-form text cannot reach right
+-- now, for the warning in the audience preview. Same rule as
+-- queue_outbound_message(): sessions without a stored platform are WhatsApp.
+CREATE OR REPLACE FUNCTION count_closed_whatsapp_windows(p_session_ids VARCHAR[])
+RETURNS INTEGER AS $$
+    SELECT COUNT(*)::INTEGER
+    FROM UNNEST(p_session_ids) AS audience(session_id)
+    LEFT JOIN chat_session_state st ON st.session_id = audience.session_id
+    WHERE COALESCE(st.platform, 'whatsapp') = 'whatsapp'
+      AND NOT is_whatsapp_window_open(audience.session_id);
+$$ LANGUAGE sql STABLE;
+
+-- c.* was expanded when the view was created, recreate it to include the
+-- template
+DROP VIEW broadcast_campaign_overview;
+
+CREATE VIEW broadcast_campaign_overview
+WITH (security_invoker = true) AS
+SELECT
+    c.*,
+    COUNT(r.id) FILTER (WHERE r.status = 'pending')::INTEGER AS pending_count,
+    COUNT(r.id) FILTER (WHERE r.status = 'sent')::INTEGER AS sent_count,
+    COUNT(r.id) FILTER (WHERE r.status = 'failed' OR r.delivery_status = 'failed')::INTEGER AS failed_count,
+    COUNT(r.id) FILTER (WHERE r.delivery_status IN ('delivered', 'read'))::INTEGER AS delivered_count,
+    COUNT(r.id) FILTER (WHERE r.delivery_status = 'read')::INTEGER AS read_count,
+    COUNT(r.id) FILTER (WHERE r.replied_at IS NOT NULL)::INTEGER AS replied_count
+FROM broadcast_campaigns c
+LEFT JOIN broadcast_recipient_overview r ON r.campaign_id = c.id
+GROUP BY c.id;
+
+COMMENT ON VIEW broadcast_campaign_overview IS 'broadcast_campaigns with sent, delivered, read, failed and replied totals';
+COMMENT ON COLUMN broadcast_campaigns.whatsapp_template IS 'Approved WhatsApp template the campaign is sent as, NULL for free-form text';
+COMMENT ON FUNCTION count_closed_whatsapp_windows IS 'How many of the given sessions are WhatsApp sessions outside the 24-hour window';